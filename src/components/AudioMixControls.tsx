@@ -0,0 +1,107 @@
+import React from 'react';
+import { AudioMixSettings } from '../modules/audio/AudioContext';
+
+interface AudioMixControlsProps {
+  mix: AudioMixSettings;
+  monitorVolume: number;
+  onMixChange: (settings: Partial<AudioMixSettings>) => void;
+  onMonitorVolumeChange: (volume: number) => void;
+}
+
+const playbackRates = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+export const AudioMixControls: React.FC<AudioMixControlsProps> = ({
+  mix,
+  monitorVolume,
+  onMixChange,
+  onMonitorVolumeChange
+}) => {
+  return (
+    <div className="audio-mix-controls">
+      <button
+        className={`mix-mute ${mix.muted ? 'active' : ''}`}
+        onClick={() => onMixChange({ muted: !mix.muted })}
+        title={mix.muted ? 'Unmute (M)' : 'Mute (M)'}
+      >
+        {mix.muted ? '🔇' : '🔊'}
+      </button>
+
+      <label className="mix-slider" title="Volume: applies to the visuals and the exported audio">
+        <span>Vol</span>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          value={Math.round(mix.volume * 100)}
+          onChange={(e) => onMixChange({ volume: Number(e.target.value) / 100 })}
+        />
+      </label>
+
+      <select
+        className="mix-rate"
+        value={mix.playbackRate}
+        onChange={(e) => onMixChange({ playbackRate: Number(e.target.value) })}
+        title="Playback rate"
+      >
+        {playbackRates.map(rate => (
+          <option key={rate} value={rate}>{rate}×</option>
+        ))}
+      </select>
+
+      <label className="mix-slider" title="Monitor: editor listening level only, not exported">
+        <span>🎧</span>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          value={Math.round(monitorVolume * 100)}
+          onChange={(e) => onMonitorVolumeChange(Number(e.target.value) / 100)}
+        />
+      </label>
+
+      <style>{`
+        .audio-mix-controls {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          padding-left: 15px;
+          border-left: 1px solid #444;
+        }
+
+        .mix-mute {
+          background: #333;
+          border: none;
+          border-radius: 4px;
+          padding: 4px 8px;
+          cursor: pointer;
+          font-size: 14px;
+        }
+
+        .mix-mute.active {
+          background: #e74c3c;
+        }
+
+        .mix-slider {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+          font-size: 11px;
+          color: #999;
+        }
+
+        .mix-slider input[type="range"] {
+          width: 70px;
+        }
+
+        .mix-rate {
+          background: #333;
+          color: white;
+          border: 1px solid #444;
+          border-radius: 4px;
+          padding: 4px;
+          font-size: 12px;
+        }
+      `}</style>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { effectRegistry } from '../modules/visual/EffectRegistry';
+
+interface EffectPluginLoaderProps {
+  // Called with the names of the effects a module added
+  onLoaded?: (effectNames: string[]) => void;
+}
+
+// Loads effect plugins from ES module URLs. Loaded modules are remembered and reloaded on
+// the next start (see EffectRegistry.loadSavedModules).
+export const EffectPluginLoader: React.FC<EffectPluginLoaderProps> = ({ onLoaded }) => {
+  const [url, setUrl] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [moduleUrls, setModuleUrls] = useState(() => effectRegistry.getModuleUrls());
+
+  const handleLoad = async () => {
+    const moduleUrl = url.trim();
+    if (!moduleUrl) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const plugins = await effectRegistry.loadModule(moduleUrl);
+      setUrl('');
+      onLoaded?.(plugins.map(plugin => plugin.metadata.name));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load the plugin');
+    } finally {
+      setIsLoading(false);
+      setModuleUrls(effectRegistry.getModuleUrls());
+    }
+  };
+
+  const handleRemove = (moduleUrl: string) => {
+    effectRegistry.unloadModule(moduleUrl);
+    setModuleUrls(effectRegistry.getModuleUrls());
+  };
+
+  return (
+    <div className="effect-plugin-loader">
+      <h3>Effect Plugins</h3>
+      <div className="plugin-url-row">
+        <input
+          type="url"
+          placeholder="https://example.com/my-effect.js"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleLoad()}
+        />
+        <button onClick={handleLoad} disabled={isLoading || !url.trim()}>
+          {isLoading ? 'Loading...' : 'Load'}
+        </button>
+      </div>
+      {error && <p className="plugin-error">{error}</p>}
+
+      {moduleUrls.length > 0 && (
+        <ul className="plugin-list">
+          {moduleUrls.map(moduleUrl => (
+            <li key={moduleUrl}>
+              <span title={moduleUrl}>{moduleUrl}</span>
+              <button onClick={() => handleRemove(moduleUrl)} title="Remove plugin">
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <style>{`
+        .effect-plugin-loader {
+          margin-bottom: 20px;
+        }
+
+        .plugin-url-row {
+          display: flex;
+          gap: 6px;
+        }
+
+        .plugin-url-row input {
+          flex: 1;
+          min-width: 0;
+          padding: 6px 8px;
+          background: #222;
+          color: white;
+          border: 1px solid #444;
+          border-radius: 4px;
+          font-size: 12px;
+        }
+
+        .plugin-url-row button,
+        .plugin-list button {
+          background: #333;
+          color: white;
+          border: none;
+          border-radius: 4px;
+          padding: 4px 10px;
+          cursor: pointer;
+          font-size: 12px;
+        }
+
+        .plugin-url-row button:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+
+        .plugin-error {
+          color: #ff6b6b;
+          font-size: 12px;
+          margin: 6px 0 0;
+        }
+
+        .plugin-list {
+          list-style: none;
+          padding: 0;
+          margin: 8px 0 0;
+        }
+
+        .plugin-list li {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          gap: 6px;
+          font-size: 12px;
+          color: #999;
+          padding: 4px 0;
+        }
+
+        .plugin-list span {
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+      `}</style>
+    </div>
+  );
+};
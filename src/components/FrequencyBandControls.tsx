@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import {
+  BAND_COUNT_RANGE,
+  BAND_FREQUENCY_RANGE,
+  BAND_GAIN_RANGE,
+  BandSpacing,
+  formatFrequency,
+  frequencyBandManager,
+  getBandEdges
+} from '../modules/audio/FrequencyBands';
+
+interface FrequencyBandControlsProps {
+  // Current band levels for the meters, polled while the panel is open
+  getLevels?: () => number[];
+}
+
+const METER_INTERVAL = 100; // ms
+
+export const FrequencyBandControls: React.FC<FrequencyBandControlsProps> = ({ getLevels }) => {
+  const [config, setConfig] = useState(() => frequencyBandManager.getConfig());
+  const [levels, setLevels] = useState<number[]>([]);
+  const edges = getBandEdges(config);
+
+  useEffect(() => {
+    frequencyBandManager.addListener(setConfig);
+    return () => frequencyBandManager.removeListener(setConfig);
+  }, []);
+
+  useEffect(() => {
+    if (!getLevels) return;
+    const timer = setInterval(() => setLevels(getLevels()), METER_INTERVAL);
+    return () => clearInterval(timer);
+  }, [getLevels]);
+
+  return (
+    <div className="frequency-band-controls">
+      <div className="band-header">
+        <h3>Frequency Bands</h3>
+        <button className="band-reset" onClick={() => frequencyBandManager.reset()}>
+          Reset
+        </button>
+      </div>
+      <p className="band-hint">
+        Effects pick which band drives each reaction in their parameters. Named bands use fixed ranges; the numbered bands below are configurable.
+      </p>
+
+      <div className="band-layout">
+        <label>
+          Spacing
+          <select
+            value={config.spacing}
+            onChange={(e) => frequencyBandManager.setConfig({ spacing: e.target.value as BandSpacing })}
+          >
+            <option value="log">Logarithmic</option>
+            <option value="mel">Mel</option>
+          </select>
+        </label>
+        <label>
+          Bands
+          <input
+            type="number"
+            min={BAND_COUNT_RANGE.min}
+            max={BAND_COUNT_RANGE.max}
+            value={config.count}
+            onChange={(e) => frequencyBandManager.setConfig({ count: Number(e.target.value) })}
+          />
+        </label>
+        <label>
+          From (Hz)
+          <input
+            type="number"
+            min={BAND_FREQUENCY_RANGE.min}
+            max={config.maxFrequency / 2}
+            value={Math.round(config.minFrequency)}
+            onChange={(e) => frequencyBandManager.setConfig({ minFrequency: Number(e.target.value) })}
+          />
+        </label>
+        <label>
+          To (Hz)
+          <input
+            type="number"
+            min={config.minFrequency * 2}
+            max={BAND_FREQUENCY_RANGE.max}
+            step="100"
+            value={Math.round(config.maxFrequency)}
+            onChange={(e) => frequencyBandManager.setConfig({ maxFrequency: Number(e.target.value) })}
+          />
+        </label>
+      </div>
+
+      <div className="band-list">
+        {config.bands.map((band, index) => (
+          <div key={index} className="band-row">
+            <span className="band-name" title={`Band ${index + 1}`}>
+              {formatFrequency(edges[index])}–{formatFrequency(edges[index + 1])}
+            </span>
+            <div className="band-meter">
+              <div className="band-meter-fill" style={{ width: `${Math.round((levels[index] || 0) * 100)}%` }} />
+            </div>
+            <label title="Gain">
+              ×{band.gain.toFixed(2)}
+              <input
+                type="range"
+                min={BAND_GAIN_RANGE.min}
+                max={BAND_GAIN_RANGE.max}
+                step="0.05"
+                value={band.gain}
+                onChange={(e) => frequencyBandManager.setBandSettings(index, { gain: Number(e.target.value) })}
+              />
+            </label>
+            <label title="Smoothing">
+              ~{Math.round(band.smoothing * 100)}%
+              <input
+                type="range"
+                min="0"
+                max="0.95"
+                step="0.05"
+                value={band.smoothing}
+                onChange={(e) => frequencyBandManager.setBandSettings(index, { smoothing: Number(e.target.value) })}
+              />
+            </label>
+          </div>
+        ))}
+      </div>
+
+      <style>{`
+        .frequency-band-controls {
+          margin-top: 20px;
+          padding-top: 15px;
+          border-top: 1px solid #333;
+        }
+
+        .band-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+        }
+
+        .band-header h3 {
+          margin: 0;
+        }
+
+        .band-reset {
+          background: #333;
+          color: white;
+          border: none;
+          border-radius: 4px;
+          padding: 4px 10px;
+          cursor: pointer;
+          font-size: 12px;
+        }
+
+        .band-hint {
+          color: #999;
+          font-size: 12px;
+          margin: 8px 0 12px;
+        }
+
+        .band-layout {
+          display: grid;
+          grid-template-columns: 1fr 1fr;
+          gap: 8px;
+          margin-bottom: 12px;
+        }
+
+        .band-layout label {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          font-size: 12px;
+          color: #ccc;
+        }
+
+        .band-layout select,
+        .band-layout input {
+          background: #333;
+          color: white;
+          border: 1px solid #444;
+          border-radius: 4px;
+          padding: 4px;
+        }
+
+        .band-list {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+        }
+
+        .band-row {
+          display: grid;
+          grid-template-columns: 70px 1fr 1fr 1fr;
+          align-items: center;
+          gap: 8px;
+          font-size: 11px;
+          color: #ccc;
+        }
+
+        .band-name {
+          font-family: monospace;
+        }
+
+        .band-meter {
+          height: 6px;
+          background: #2a2a2a;
+          border-radius: 3px;
+          overflow: hidden;
+        }
+
+        .band-meter-fill {
+          height: 100%;
+          background: #4ecdc4;
+        }
+
+        .band-row label {
+          display: flex;
+          flex-direction: column;
+          font-family: monospace;
+        }
+
+        .band-row input[type="range"] {
+          width: 100%;
+        }
+      `}</style>
+    </div>
+  );
+};
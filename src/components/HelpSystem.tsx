@@ -71,7 +71,7 @@ export const HelpSystem: React.FC<HelpSystemProps> = ({
               <h3>Welcome to AudioVibe Studio</h3>
               <p>
                 AudioVibe Studio is a browser-based audio-reactive video generation tool that creates 
-                stunning 9:16 vertical videos with visual effects synchronized to your uploaded audio files.
+                stunning vertical, square or landscape videos with visual effects synchronized to your uploaded audio files.
               </p>
 
               <div className="workflow-steps">
@@ -169,7 +169,7 @@ export const HelpSystem: React.FC<HelpSystemProps> = ({
               <div className="feature-category">
                 <h4>🔧 Technical Specs</h4>
                 <ul>
-                  <li><strong>Output Format:</strong> 9:16 vertical (1080×1920px)</li>
+                  <li><strong>Output Format:</strong> 9:16 (1080×1920), 16:9 (1920×1080), 1:1 (1080×1080) or 4:5 (1080×1350)</li>
                   <li><strong>Frame Rate:</strong> Up to 60fps</li>
                   <li><strong>Rendering:</strong> Browser-based Canvas/WebGL</li>
                   <li><strong>Export:</strong> WebM and MP4 formats</li>
@@ -0,0 +1,299 @@
+import React from 'react';
+import { BlendLayer, BlendMode, BlendingUtils } from '../modules/visual/EffectBlending';
+import { CompositionMode } from '../modules/visual/VisualEngine';
+
+interface LayerStackPanelProps {
+  compositionMode: CompositionMode;
+  layers: BlendLayer[];
+  availableEffects: string[];
+  selectedLayerId: string | null;
+  onCompositionModeChange: (mode: CompositionMode) => void;
+  onAddLayer: (effectName: string) => void;
+  onRemoveLayer: (layerId: string) => void;
+  onUpdateLayer: (layerId: string, updates: Partial<Omit<BlendLayer, 'id'>>) => void;
+  onMoveLayer: (layerId: string, direction: 'up' | 'down') => void;
+  onSelectLayer: (layerId: string) => void;
+}
+
+export const LayerStackPanel: React.FC<LayerStackPanelProps> = ({
+  compositionMode,
+  layers,
+  availableEffects,
+  selectedLayerId,
+  onCompositionModeChange,
+  onAddLayer,
+  onRemoveLayer,
+  onUpdateLayer,
+  onMoveLayer,
+  onSelectLayer
+}) => {
+  const blendModes = Object.entries(BlendingUtils.getBlendModeDescriptions()) as [BlendMode, string][];
+  // Top of the stack is listed first, like in image editors
+  const stack = [...layers].sort((a, b) => b.order - a.order);
+  const isLayered = compositionMode === 'layered';
+
+  const formatEffectName = (effect: string) => effect.charAt(0).toUpperCase() + effect.slice(1);
+
+  return (
+    <div className="layer-stack-panel">
+      <div className="layer-header">
+        <h3>Layers</h3>
+        <label className="layer-mode-toggle">
+          <input
+            type="checkbox"
+            checked={isLayered}
+            onChange={(e) => onCompositionModeChange(e.target.checked ? 'layered' : 'single')}
+          />
+          Layered composition
+        </label>
+      </div>
+
+      {!isLayered && (
+        <p className="layer-hint">
+          Enable layered composition to stack several effects, e.g. a gradient background with particles and a waveform on top.
+        </p>
+      )}
+
+      {isLayered && (
+        <>
+          <div className="add-layer">
+            <select
+              defaultValue=""
+              onChange={(e) => {
+                if (e.target.value) {
+                  onAddLayer(e.target.value);
+                  e.target.value = '';
+                }
+              }}
+            >
+              <option value="" disabled>+ Add layer...</option>
+              {availableEffects.map(effect => (
+                <option key={effect} value={effect}>{formatEffectName(effect)}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="layer-list">
+            {stack.map((layer, index) => (
+              <div
+                key={layer.id}
+                className={`layer-item ${selectedLayerId === layer.id ? 'selected' : ''} ${layer.enabled ? '' : 'disabled'}`}
+                onClick={() => onSelectLayer(layer.id)}
+              >
+                <div className="layer-row">
+                  <button
+                    className="layer-visibility"
+                    title={layer.enabled ? 'Hide layer' : 'Show layer'}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onUpdateLayer(layer.id, { enabled: !layer.enabled });
+                    }}
+                  >
+                    {layer.enabled ? '👁' : '🚫'}
+                  </button>
+
+                  <select
+                    className="layer-effect"
+                    value={layer.effectName}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) => onUpdateLayer(layer.id, { effectName: e.target.value })}
+                  >
+                    {availableEffects.map(effect => (
+                      <option key={effect} value={effect}>{formatEffectName(effect)}</option>
+                    ))}
+                  </select>
+
+                  <div className="layer-order">
+                    <button
+                      title="Move up"
+                      disabled={index === 0}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onMoveLayer(layer.id, 'up');
+                      }}
+                    >
+                      ▲
+                    </button>
+                    <button
+                      title="Move down"
+                      disabled={index === stack.length - 1}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onMoveLayer(layer.id, 'down');
+                      }}
+                    >
+                      ▼
+                    </button>
+                  </div>
+
+                  <button
+                    className="layer-remove"
+                    title="Remove layer"
+                    disabled={layers.length <= 1}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onRemoveLayer(layer.id);
+                    }}
+                  >
+                    ✕
+                  </button>
+                </div>
+
+                <div className="layer-row">
+                  <select
+                    className="layer-blend"
+                    value={layer.blendMode}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) => onUpdateLayer(layer.id, { blendMode: e.target.value as BlendMode })}
+                  >
+                    {blendModes.map(([mode, description]) => (
+                      <option key={mode} value={mode} title={description}>{mode}</option>
+                    ))}
+                  </select>
+
+                  <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    value={Math.round(layer.opacity * 100)}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) => onUpdateLayer(layer.id, { opacity: Number(e.target.value) / 100 })}
+                  />
+                  <span className="layer-opacity">{Math.round(layer.opacity * 100)}%</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      <style>{`
+        .layer-stack-panel {
+          margin-bottom: 20px;
+        }
+
+        .layer-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          margin-bottom: 10px;
+        }
+
+        .layer-header h3 {
+          margin: 0;
+        }
+
+        .layer-mode-toggle {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          font-size: 12px;
+          color: #ccc;
+          cursor: pointer;
+        }
+
+        .layer-hint {
+          font-size: 12px;
+          color: #888;
+          margin: 0;
+        }
+
+        .add-layer select,
+        .layer-item select {
+          background: #2a2a2a;
+          color: white;
+          border: 1px solid #444;
+          border-radius: 4px;
+          padding: 4px 6px;
+          font-size: 12px;
+        }
+
+        .add-layer {
+          margin-bottom: 10px;
+        }
+
+        .add-layer select {
+          width: 100%;
+          padding: 8px;
+        }
+
+        .layer-list {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+        }
+
+        .layer-item {
+          background: #2a2a2a;
+          border: 1px solid #333;
+          border-radius: 6px;
+          padding: 8px;
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          cursor: pointer;
+        }
+
+        .layer-item.selected {
+          border-color: #4ecdc4;
+        }
+
+        .layer-item.disabled {
+          opacity: 0.5;
+        }
+
+        .layer-row {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+        }
+
+        .layer-effect,
+        .layer-blend {
+          flex: 1;
+          min-width: 0;
+        }
+
+        .layer-row input[type="range"] {
+          flex: 1;
+          min-width: 0;
+        }
+
+        .layer-opacity {
+          font-size: 11px;
+          color: #999;
+          width: 34px;
+          text-align: right;
+        }
+
+        .layer-item button {
+          background: #333;
+          color: white;
+          border: none;
+          border-radius: 4px;
+          padding: 4px 6px;
+          font-size: 11px;
+          cursor: pointer;
+        }
+
+        .layer-item button:hover:not(:disabled) {
+          background: #444;
+        }
+
+        .layer-item button:disabled {
+          opacity: 0.4;
+          cursor: not-allowed;
+        }
+
+        .layer-order {
+          display: flex;
+          gap: 2px;
+        }
+
+        .layer-remove:hover:not(:disabled) {
+          background: #ff6b6b !important;
+        }
+      `}</style>
+    </div>
+  );
+};
@@ -1,16 +1,46 @@
-import { ParameterDefinition, effectParameterManager } from '../modules/visual/EffectParameters';
+import { EffectParameterManager, ParameterDefinition, effectParameterManager } from '../modules/visual/EffectParameters';
+import { frequencyBandManager, getBandSourceLabel, getBandSources } from '../modules/audio/FrequencyBands';
+import {
+  MODULATION_CURVES,
+  MODULATION_TIME_RANGE,
+  ModulationBinding,
+  ModulationCurve,
+  createModulationBinding,
+  getModulationSourceLabel,
+  getModulationSources,
+  isModulatable
+} from '../modules/visual/ParameterModulation';
 import { useState, useEffect } from 'react';
 
 interface ParameterControlsProps {
   effectName: string;
+  // Store the values are read from and written to, e.g. a layer's own; modulation
+  // bindings always belong to the editor
+  parameterManager?: EffectParameterManager;
   onParameterChange?: (paramName: string, value: any) => void;
+  // Called after a binding edit; `continuous` marks slider drags and typing
+  onModulationsChange?: (modulations: ModulationBinding[], description: string, continuous: boolean) => void;
   visualEngine?: any;
 }
 
-export function ParameterControls({ effectName, onParameterChange, visualEngine }: ParameterControlsProps) {
-  const definitions = effectParameterManager.getParameterDefinitions(effectName);
-  const parameters = effectParameterManager.getParameters(effectName);
+export function ParameterControls({ effectName, parameterManager = effectParameterManager, onParameterChange, onModulationsChange, visualEngine }: ParameterControlsProps) {
+  const definitions = parameterManager.getParameterDefinitions(effectName);
+  const parameters = parameterManager.getParameters(effectName);
   const [backgroundColor, setBackgroundColor] = useState('#000000');
+  const [bandConfig, setBandConfig] = useState(() => frequencyBandManager.getConfig());
+  const [modulations, setModulations] = useState(() => effectParameterManager.getModulations());
+
+  // Band selects list the current band bank
+  useEffect(() => {
+    frequencyBandManager.addListener(setBandConfig);
+    return () => frequencyBandManager.removeListener(setBandConfig);
+  }, []);
+
+  // Bindings also change through undo and preset loads
+  useEffect(() => {
+    effectParameterManager.addModulationListener(setModulations);
+    return () => effectParameterManager.removeModulationListener(setModulations);
+  }, []);
 
   useEffect(() => {
     // Load background color from localStorage or VisualEngine
@@ -23,14 +53,141 @@ export function ParameterControls({ effectName, onParameterChange, visualEngine
   }, [visualEngine]);
 
   const handleParameterChange = (paramName: string, value: any) => {
-    effectParameterManager.setParameter(effectName, paramName, value);
+    parameterManager.setParameter(effectName, paramName, value);
     onParameterChange?.(paramName, value);
-    
-    // Save all current parameters to localStorage for export
-    const allParams = effectParameterManager.getParameters(effectName);
-    localStorage.setItem('effectParameters', JSON.stringify(allParams));
   };
 
+  const commitModulations = (description: string, continuous = false) => {
+    const all = effectParameterManager.getModulations();
+    onModulationsChange?.(all, description, continuous);
+  };
+
+  const handleAddModulation = (definition: ParameterDefinition) => {
+    effectParameterManager.addModulation(createModulationBinding(effectName, definition));
+    commitModulations(`Modulate ${definition.name} for ${effectName}`);
+  };
+
+  const handleModulationChange = (binding: ModulationBinding, changes: Partial<ModulationBinding>, continuous = true) => {
+    effectParameterManager.updateModulation(binding.id, changes);
+    commitModulations(`Change ${binding.parameter} modulation for ${effectName}`, continuous);
+  };
+
+  const handleRemoveModulation = (binding: ModulationBinding) => {
+    effectParameterManager.removeModulation(binding.id);
+    commitModulations(`Remove ${binding.parameter} modulation for ${effectName}`);
+  };
+
+  const renderModulation = (definition: ParameterDefinition, binding: ModulationBinding) => (
+    <div key={binding.id} className={`modulation ${binding.enabled ? '' : 'disabled'}`}>
+      <div className="modulation-row">
+        <input
+          type="checkbox"
+          checked={binding.enabled}
+          title="Enable"
+          onChange={(e) => handleModulationChange(binding, { enabled: e.target.checked }, false)}
+        />
+        <select
+          value={binding.source}
+          title="Audio source"
+          onChange={(e) => handleModulationChange(binding, { source: e.target.value }, false)}
+        >
+          {getModulationSources(bandConfig).map(source => (
+            <option key={source} value={source}>
+              {getModulationSourceLabel(source, bandConfig)}
+            </option>
+          ))}
+        </select>
+        <select
+          value={binding.curve}
+          title="Curve"
+          onChange={(e) => handleModulationChange(binding, { curve: e.target.value as ModulationCurve }, false)}
+        >
+          {MODULATION_CURVES.map(curve => (
+            <option key={curve} value={curve}>
+              {curve.charAt(0).toUpperCase() + curve.slice(1)}
+            </option>
+          ))}
+        </select>
+        <button className="modulation-remove" title="Remove" onClick={() => handleRemoveModulation(binding)}>
+          ×
+        </button>
+      </div>
+
+      <label className="modulation-field">
+        Amount {Math.round(binding.amount * 100)}%
+        <input
+          type="range"
+          min="-1"
+          max="1"
+          step="0.05"
+          value={binding.amount}
+          onChange={(e) => handleModulationChange(binding, { amount: parseFloat(e.target.value) })}
+        />
+      </label>
+
+      {definition.type === 'color' ? (
+        <label className="modulation-field">
+          Target color
+          <input
+            type="color"
+            value={binding.color || '#ffffff'}
+            onChange={(e) => handleModulationChange(binding, { color: e.target.value })}
+          />
+        </label>
+      ) : (
+        <div className="modulation-pair">
+          <label className="modulation-field">
+            Min
+            <input
+              type="number"
+              min={definition.min}
+              max={binding.max}
+              step={definition.step}
+              value={binding.min}
+              onChange={(e) => handleModulationChange(binding, { min: Math.min(parseFloat(e.target.value) || 0, binding.max) })}
+            />
+          </label>
+          <label className="modulation-field">
+            Max
+            <input
+              type="number"
+              min={binding.min}
+              max={definition.max}
+              step={definition.step}
+              value={binding.max}
+              onChange={(e) => handleModulationChange(binding, { max: Math.max(parseFloat(e.target.value) || 0, binding.min) })}
+            />
+          </label>
+        </div>
+      )}
+
+      <div className="modulation-pair">
+        <label className="modulation-field">
+          Attack {binding.attack} ms
+          <input
+            type="range"
+            min={MODULATION_TIME_RANGE.min}
+            max={MODULATION_TIME_RANGE.max}
+            step="5"
+            value={binding.attack}
+            onChange={(e) => handleModulationChange(binding, { attack: parseFloat(e.target.value) })}
+          />
+        </label>
+        <label className="modulation-field">
+          Release {binding.release} ms
+          <input
+            type="range"
+            min={MODULATION_TIME_RANGE.min}
+            max={MODULATION_TIME_RANGE.max}
+            step="5"
+            value={binding.release}
+            onChange={(e) => handleModulationChange(binding, { release: parseFloat(e.target.value) })}
+          />
+        </label>
+      </div>
+    </div>
+  );
+
   const handleBackgroundColorChange = (color: string) => {
     setBackgroundColor(color);
     if (visualEngine && visualEngine.setBackgroundColor) {
@@ -86,6 +243,20 @@ export function ParameterControls({ effectName, onParameterChange, visualEngine
           </select>
         );
 
+      case 'band':
+        return (
+          <select
+            value={currentValue}
+            onChange={(e) => handleParameterChange(definition.name, e.target.value)}
+          >
+            {getBandSources(bandConfig).map(source => (
+              <option key={source} value={source}>
+                {getBandSourceLabel(source, bandConfig)}
+              </option>
+            ))}
+          </select>
+        );
+
       default:
         return null;
     }
@@ -134,6 +305,15 @@ export function ParameterControls({ effectName, onParameterChange, visualEngine
           <div key={definition.name} className="parameter">
             <div className="parameter-header">
               <label className="parameter-label">{definition.name}</label>
+              {isModulatable(definition) && (
+                <button
+                  className="modulation-add"
+                  title="Drive this parameter from the audio"
+                  onClick={() => handleAddModulation(definition)}
+                >
+                  + Audio
+                </button>
+              )}
               {definition.type === 'number' && (
                 <span className="parameter-value">
                   {formatValue(definition, parameters[definition.name] ?? definition.defaultValue)}
@@ -143,6 +323,9 @@ export function ParameterControls({ effectName, onParameterChange, visualEngine
             <div className="parameter-control">
               {renderControl(definition)}
             </div>
+            {modulations
+              .filter(binding => binding.effectName === effectName && binding.parameter === definition.name)
+              .map(binding => renderModulation(definition, binding))}
             {definition.description && (
               <p className="parameter-description">{definition.description}</p>
             )}
@@ -152,7 +335,7 @@ export function ParameterControls({ effectName, onParameterChange, visualEngine
       
       <button 
         className="reset-btn"
-        onClick={() => effectParameterManager.resetToDefaults(effectName)}
+        onClick={() => parameterManager.resetToDefaults(effectName)}
       >
         Reset to Defaults
       </button>
@@ -1,22 +1,22 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { presetManager, ProjectPreset, PresetCategory } from '../utils/presetManager';
-import { TextOverlay, EffectParameter } from '../types/visual';
+import { Project } from '../modules/project/Project';
+import { renderPresetThumbnail } from '../modules/visual/PresetThumbnail';
+import { PresetPreview } from './PresetPreview';
+import { PresetImportIssue, PresetImportReport } from '../utils/presetValidation';
 
 interface PresetManagerProps {
   isOpen: boolean;
   onClose: () => void;
-  currentEffect: string;
-  effectParameters: { [key: string]: EffectParameter };
-  textOverlays: TextOverlay[];
+  // The editor's current state, saved as the preset's project
+  getProject: () => Project;
   onLoadPreset: (preset: ProjectPreset) => void;
 }
 
 export const PresetManager: React.FC<PresetManagerProps> = ({
   isOpen,
   onClose,
-  currentEffect,
-  effectParameters,
-  textOverlays,
+  getProject,
   onLoadPreset
 }) => {
   const [view, setView] = useState<'browse' | 'save' | 'import'>('browse');
@@ -24,9 +24,14 @@ export const PresetManager: React.FC<PresetManagerProps> = ({
   const [selectedCategory, setSelectedCategory] = useState<string>('built-in');
   const [presets, setPresets] = useState<ProjectPreset[]>([]);
   const [selectedPreset, setSelectedPreset] = useState<ProjectPreset | null>(null);
+  const [hoveredPreset, setHoveredPreset] = useState<ProjectPreset | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchTags, setSearchTags] = useState<string[]>([]);
   const [allTags, setAllTags] = useState<string[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  // Presets whose thumbnail was already tried this session, so failures aren't retried
+  const thumbnailAttempts = useRef(new Set<string>());
   
   // Save preset form state
   const [saveForm, setSaveForm] = useState({
@@ -38,6 +43,7 @@ export const PresetManager: React.FC<PresetManagerProps> = ({
 
   // Import/Export state
   const [importData, setImportData] = useState('');
+  const [importReports, setImportReports] = useState<PresetImportReport[]>([]);
 
   useEffect(() => {
     if (isOpen) {
@@ -51,6 +57,43 @@ export const PresetManager: React.FC<PresetManagerProps> = ({
     }
   }, [selectedCategory, searchQuery, searchTags]);
 
+  // Presets without a thumbnail get one rendered in the background, one at a time
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    const missing = presets.filter(preset => !preset.thumbnail && !thumbnailAttempts.current.has(preset.id));
+    (async () => {
+      for (const preset of missing) {
+        if (cancelled) return;
+        const thumbnail = await createThumbnail(preset);
+        if (thumbnail) {
+          setPresets(prev => prev.map(p => p.id === preset.id ? { ...p, thumbnail } : p));
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, presets]);
+
+  const renderThumbnail = (project: Project): Promise<string | null> =>
+    renderPresetThumbnail(project).catch(error => {
+      console.warn('Failed to render preset thumbnail:', error);
+      return null;
+    });
+
+  // Renders and stores the thumbnail of a preset that doesn't have one
+  const createThumbnail = async (preset: ProjectPreset): Promise<string | null> => {
+    thumbnailAttempts.current.add(preset.id);
+    const thumbnail = await renderThumbnail(preset.settings);
+    if (thumbnail) {
+      presetManager.updatePreset(preset.id, { thumbnail });
+    }
+    return thumbnail;
+  };
+
   const loadData = () => {
     const cats = presetManager.getCategories();
     const tags = presetManager.getAllTags();
@@ -80,27 +123,19 @@ export const PresetManager: React.FC<PresetManagerProps> = ({
     onClose();
   };
 
-  const handleSavePreset = () => {
+  const handleSavePreset = async () => {
     if (!saveForm.name.trim()) return;
 
-    console.log('Saving preset with effect parameters:', effectParameters);
-    
+    const project = getProject();
     const preset = {
       name: saveForm.name,
       description: saveForm.description,
-      thumbnail: '',
-      settings: {
-        currentEffect,
-        effectParameters,
-        textOverlays,
-        backgroundColor: localStorage.getItem('audioVibe_backgroundColor') || '#000000'
-      },
+      thumbnail: await renderThumbnail(project) ?? '',
+      settings: project,
       tags: saveForm.tags,
       version: '1.0.0'
     };
     
-    console.log('Final preset object:', preset);
-
     const id = presetManager.savePreset(preset);
     if (id) {
       setSaveForm({ name: '', description: '', tags: [], newTag: '' });
@@ -130,34 +165,85 @@ export const PresetManager: React.FC<PresetManagerProps> = ({
     }
   };
 
+  const downloadJson = (jsonData: string, name: string) => {
+    const blob = new Blob([jsonData], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${name.replace(/[^a-z0-9]/gi, '_')}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const handleExportPreset = (preset: ProjectPreset) => {
     const jsonData = presetManager.exportPreset(preset.id);
     if (jsonData) {
-      const blob = new Blob([jsonData], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${preset.name.replace(/[^a-z0-9]/gi, '_')}.json`;
-      a.click();
-      URL.revokeObjectURL(url);
+      downloadJson(jsonData, preset.name);
+    }
+  };
+
+  // Packs carry thumbnails, so any that are still missing are rendered first
+  const handleExportPack = async (ids: string[], name: string) => {
+    setIsExporting(true);
+    try {
+      for (const id of ids) {
+        const preset = presetManager.getPreset(id);
+        if (preset && !preset.thumbnail) {
+          await createThumbnail(preset);
+        }
+      }
+
+      const jsonData = presetManager.exportPresetPack(ids, name);
+      if (jsonData) {
+        downloadJson(jsonData, `${name}_pack`);
+      }
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportCategory = () => {
+    const category = categories.find(c => c.id === selectedCategory);
+    if (category) {
+      handleExportPack(category.presets, category.name);
     }
   };
 
+  const handleExportSelected = () => {
+    handleExportPack(selectedIds, `${selectedIds.length} presets`);
+  };
+
+  const togglePresetSelection = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]);
+  };
+
   const handleImportPreset = () => {
     if (!importData.trim()) return;
 
-    const id = presetManager.importPreset(importData);
-    if (id) {
+    const { ids, categoryId, reports } = presetManager.importPresets(importData);
+    setImportReports(reports);
+    if (ids.length > 0) {
       setImportData('');
-      setView('browse');
       loadData();
-      loadPresetsByCategory();
-      alert('Preset imported successfully!');
-    } else {
-      alert('Failed to import preset. Please check the format.');
+      if (categoryId) {
+        setSelectedCategory(categoryId);
+      } else {
+        loadPresetsByCategory();
+      }
     }
   };
 
+  const renderIssues = (title: string, issues: PresetImportIssue[], className: string) => issues.length > 0 && (
+    <div className={`report-group ${className}`}>
+      <h5>{title} ({issues.length})</h5>
+      <ul>
+        {issues.map((issue, index) => (
+          <li key={index}><code>{issue.path}</code> {issue.message}</li>
+        ))}
+      </ul>
+    </div>
+  );
+
   const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -166,6 +252,7 @@ export const PresetManager: React.FC<PresetManagerProps> = ({
     reader.onload = (e) => {
       const content = e.target?.result as string;
       setImportData(content);
+      setImportReports([]);
     };
     reader.readAsText(file);
   };
@@ -197,6 +284,8 @@ export const PresetManager: React.FC<PresetManagerProps> = ({
 
   if (!isOpen) return null;
 
+  const currentProject = view === 'save' ? getProject() : null;
+
   return (
     <div className="preset-manager-overlay">
       <div className="preset-manager">
@@ -271,67 +360,103 @@ export const PresetManager: React.FC<PresetManagerProps> = ({
                 ))}
               </div>
 
-              {/* Presets Grid */}
-              <div className="presets-grid">
-                {presets.map(preset => (
-                  <div
-                    key={preset.id}
-                    className={`preset-card ${selectedPreset?.id === preset.id ? 'selected' : ''}`}
-                    onClick={() => setSelectedPreset(preset)}
+              <div className="presets-column">
+                {/* Pack export */}
+                <div className="pack-toolbar">
+                  <button
+                    onClick={handleExportCategory}
+                    disabled={isExporting || !categories.find(c => c.id === selectedCategory)?.presets.length}
                   >
-                    <div className="preset-thumbnail">
-                      {preset.thumbnail ? (
-                        <img src={preset.thumbnail} alt={preset.name} />
-                      ) : (
-                        <div className="thumbnail-placeholder">
-                          <span>{preset.settings.currentEffect.toUpperCase()}</span>
-                        </div>
-                      )}
-                    </div>
+                    Export Category
+                  </button>
+                  <button onClick={handleExportSelected} disabled={isExporting || selectedIds.length === 0}>
+                    Export Selected ({selectedIds.length})
+                  </button>
+                  {selectedIds.length > 0 && (
+                    <button onClick={() => setSelectedIds([])} disabled={isExporting}>
+                      Clear Selection
+                    </button>
+                  )}
+                  {isExporting && <span className="pack-status">Rendering thumbnails...</span>}
+                </div>
+
+                {/* Presets Grid */}
+                <div className="presets-grid">
+                  {presets.map(preset => (
+                    <div
+                      key={preset.id}
+                      className={`preset-card ${selectedPreset?.id === preset.id ? 'selected' : ''}`}
+                      onClick={() => setSelectedPreset(preset)}
+                      onMouseEnter={() => setHoveredPreset(preset)}
+                      onMouseLeave={() => setHoveredPreset(null)}
+                    >
+                      <div className="preset-thumbnail">
+                        <input
+                          type="checkbox"
+                          className="preset-select"
+                          title="Select for pack export"
+                          checked={selectedIds.includes(preset.id)}
+                          onClick={(e) => e.stopPropagation()}
+                          onChange={() => togglePresetSelection(preset.id)}
+                        />
+                        {preset.thumbnail ? (
+                          <img src={preset.thumbnail} alt={preset.name} />
+                        ) : (
+                          <div className="thumbnail-placeholder">
+                            <span>{preset.settings.currentEffect.toUpperCase()}</span>
+                          </div>
+                        )}
+                      </div>
                     
-                    <div className="preset-info">
-                      <h4>{preset.name}</h4>
-                      <p>{preset.description}</p>
-                      <div className="preset-tags">
-                        {preset.tags.slice(0, 3).map(tag => (
-                          <span key={tag} className="tag">{tag}</span>
-                        ))}
+                      <div className="preset-info">
+                        <h4>{preset.name}</h4>
+                        <p>{preset.description}</p>
+                        <div className="preset-tags">
+                          {preset.tags.slice(0, 3).map(tag => (
+                            <span key={tag} className="tag">{tag}</span>
+                          ))}
+                        </div>
                       </div>
-                    </div>
 
-                    <div className="preset-actions">
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleLoadPreset(preset);
-                        }}
-                        className="load-button"
-                      >
-                        Load
-                      </button>
+                      <div className="preset-actions">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleLoadPreset(preset);
+                          }}
+                          className="load-button"
+                        >
+                          Load
+                        </button>
                       
-                      <div className="action-menu">
-                        <button className="menu-button">⋮</button>
-                        <div className="action-dropdown">
-                          <button onClick={() => handleDuplicatePreset(preset)}>
-                            Duplicate
-                          </button>
-                          <button onClick={() => handleExportPreset(preset)}>
-                            Export
-                          </button>
-                          {!preset.tags.includes('built-in') && (
-                            <button 
-                              onClick={() => handleDeletePreset(preset)}
-                              className="delete-action"
-                            >
-                              Delete
+                        <div className="action-menu">
+                          <button className="menu-button">⋮</button>
+                          <div className="action-dropdown">
+                            <button onClick={() => handleDuplicatePreset(preset)}>
+                              Duplicate
+                            </button>
+                            <button onClick={() => handleExportPreset(preset)}>
+                              Export
                             </button>
-                          )}
+                            {!preset.tags.includes('built-in') && (
+                              <button 
+                                onClick={() => handleDeletePreset(preset)}
+                                className="delete-action"
+                              >
+                                Delete
+                              </button>
+                            )}
+                          </div>
                         </div>
                       </div>
                     </div>
-                  </div>
-                ))}
+                  ))}
+                </div>
+              </div>
+
+              {/* Live preview */}
+              <div className="preview-sidebar">
+                <PresetPreview preset={hoveredPreset || selectedPreset} />
               </div>
             </div>
 
@@ -365,7 +490,7 @@ export const PresetManager: React.FC<PresetManagerProps> = ({
         )}
 
         {/* Save View */}
-        {view === 'save' && (
+        {view === 'save' && currentProject && (
           <div className="save-view">
             <h3>Save Current Configuration</h3>
             
@@ -417,15 +542,15 @@ export const PresetManager: React.FC<PresetManagerProps> = ({
                 <h4>Current Configuration:</h4>
                 <div className="config-item">
                   <span>Effect:</span>
-                  <span>{currentEffect}</span>
+                  <span>{currentProject.currentEffect}</span>
                 </div>
                 <div className="config-item">
                   <span>Text Overlays:</span>
-                  <span>{textOverlays.length}</span>
+                  <span>{currentProject.textOverlays.length}</span>
                 </div>
                 <div className="config-item">
                   <span>Parameters:</span>
-                  <span>{Object.keys(effectParameters).length} effects configured</span>
+                  <span>{Object.keys(currentProject.effectParameters).length} effects configured</span>
                 </div>
               </div>
 
@@ -446,7 +571,7 @@ export const PresetManager: React.FC<PresetManagerProps> = ({
             <h3>Import/Export Presets</h3>
             
             <div className="import-section">
-              <h4>Import Preset</h4>
+              <h4>Import Preset or Pack</h4>
               <div className="import-methods">
                 <div className="import-method">
                   <label>Import from file:</label>
@@ -463,7 +588,7 @@ export const PresetManager: React.FC<PresetManagerProps> = ({
                   <textarea
                     value={importData}
                     onChange={(e) => setImportData(e.target.value)}
-                    placeholder="Paste preset JSON data here..."
+                    placeholder="Paste preset or preset pack JSON data here..."
                     rows={8}
                     className="import-textarea"
                   />
@@ -472,15 +597,49 @@ export const PresetManager: React.FC<PresetManagerProps> = ({
                     className="import-button"
                     disabled={!importData.trim()}
                   >
-                    Import Preset
+                    Import
                   </button>
                 </div>
               </div>
+
+              {importReports.length > 1 && (
+                <p className="report-summary">
+                  Imported {importReports.filter(report => report.errors.length === 0).length} of {importReports.length} presets
+                </p>
+              )}
+              {importReports.map((importReport, reportIndex) => (
+                <div key={reportIndex} className={`import-report ${importReport.errors.length > 0 ? 'failed' : ''}`}>
+                  <h4>
+                    {importReport.errors.length > 0
+                      ? `Import failed${importReport.presetName ? `: "${importReport.presetName}"` : ''}`
+                      : `Imported "${importReport.presetName}"`}
+                  </h4>
+                  {importReport.errors.length > 0 && (
+                    <ul className="report-errors">
+                      {importReport.errors.map((error, index) => <li key={index}>{error}</li>)}
+                    </ul>
+                  )}
+                  {importReport.migrations.length > 0 && (
+                    <div className="report-group">
+                      <h5>Migrated from version {importReport.fromVersion}</h5>
+                      <ul>
+                        {importReport.migrations.map((migration, index) => <li key={index}>{migration}</li>)}
+                      </ul>
+                    </div>
+                  )}
+                  {renderIssues('Fixed', importReport.fixed, 'fixed')}
+                  {renderIssues('Rejected', importReport.rejected, 'rejected')}
+                  {importReport.errors.length === 0 && importReport.fixed.length === 0 && importReport.rejected.length === 0 && (
+                    <p className="report-clean">No problems found.</p>
+                  )}
+                </div>
+              ))}
             </div>
 
             <div className="export-section">
               <h4>Export Presets</h4>
               <p>Use the export button on individual presets in the Browse tab to download them as JSON files.</p>
+              <p>To share several presets as one pack, export the selected category or tick presets in the Browse tab and export the selection. Packs include each preset's thumbnail.</p>
             </div>
           </div>
         )}
@@ -684,13 +843,78 @@ export const PresetManager: React.FC<PresetManagerProps> = ({
           }
 
           .preset-thumbnail {
+            position: relative;
             height: 120px;
+            overflow: hidden;
             background: #444;
             display: flex;
             align-items: center;
             justify-content: center;
           }
 
+          .preset-thumbnail img {
+            width: 100%;
+            height: 100%;
+            object-fit: cover;
+          }
+
+          .preset-select {
+            position: absolute;
+            top: 8px;
+            left: 8px;
+            width: 16px;
+            height: 16px;
+            cursor: pointer;
+          }
+
+          .preview-sidebar {
+            width: 220px;
+            padding: 20px;
+            background: #2a2a2a;
+            border-left: 1px solid #333;
+            overflow-y: auto;
+          }
+
+          .presets-column {
+            flex: 1;
+            display: flex;
+            flex-direction: column;
+            min-width: 0;
+            overflow: hidden;
+          }
+
+          .pack-toolbar {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            padding: 20px 20px 0;
+          }
+
+          .pack-toolbar button {
+            padding: 6px 12px;
+            background: #333;
+            color: white;
+            border: 1px solid #555;
+            border-radius: 4px;
+            cursor: pointer;
+            font-size: 12px;
+          }
+
+          .pack-toolbar button:disabled {
+            opacity: 0.5;
+            cursor: default;
+          }
+
+          .pack-status {
+            color: #999;
+            font-size: 12px;
+          }
+
+          .report-summary {
+            color: #ccc;
+            margin: 15px 0 0;
+          }
+
           .thumbnail-placeholder {
             color: #999;
             font-size: 14px;
@@ -1025,6 +1249,59 @@ export const PresetManager: React.FC<PresetManagerProps> = ({
             color: #ccc;
             line-height: 1.5;
           }
+
+          .import-report {
+            margin-top: 20px;
+            padding: 15px;
+            border-radius: 8px;
+            background: #2a2a2a;
+            border-left: 4px solid #4ecdc4;
+            color: #ccc;
+            font-size: 13px;
+          }
+
+          .import-report.failed {
+            border-left-color: #ff6b6b;
+          }
+
+          .import-report h4 {
+            color: white;
+            margin: 0 0 10px;
+          }
+
+          .import-report h5 {
+            margin: 10px 0 5px;
+            color: #aaa;
+          }
+
+          .import-report ul {
+            margin: 0;
+            padding-left: 20px;
+            max-height: 160px;
+            overflow-y: auto;
+          }
+
+          .import-report li {
+            margin: 3px 0;
+          }
+
+          .import-report code {
+            color: #4ecdc4;
+            margin-right: 5px;
+          }
+
+          .report-group.rejected code,
+          .report-errors li {
+            color: #ff6b6b;
+          }
+
+          .report-group.fixed code {
+            color: #f39c12;
+          }
+
+          .report-clean {
+            margin: 0;
+          }
         `}</style>
       </div>
     </div>
@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ProjectPreset } from '../utils/presetManager';
+import { AudioContextManager } from '../modules/audio/AudioContext';
+import { PresetPreviewRenderer } from '../modules/visual/PresetPreviewRenderer';
+
+interface PresetPreviewProps {
+  preset: ProjectPreset | null;
+}
+
+// Live preview of the hovered or selected preset. Loading a preset is what changes the
+// editor (and its undo history); previewing never does.
+export const PresetPreview: React.FC<PresetPreviewProps> = ({ preset }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<PresetPreviewRenderer | null>(null);
+  const [isSupported, setIsSupported] = useState(true);
+  const hasTrack = AudioContextManager.getInstance().getDuration() > 0;
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+
+    try {
+      rendererRef.current = new PresetPreviewRenderer(canvasRef.current);
+    } catch (error) {
+      console.warn('Preset preview is not available:', error);
+      setIsSupported(false);
+    }
+
+    return () => {
+      rendererRef.current?.dispose();
+      rendererRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    rendererRef.current?.show(preset ? preset.settings : null);
+  }, [preset]);
+
+  return (
+    <div className="preset-preview">
+      <div className="preview-frame">
+        <canvas ref={canvasRef} className={preset && isSupported ? '' : 'hidden'} />
+        {(!preset || !isSupported) && (
+          <div className="preview-empty">
+            {isSupported ? 'Hover or select a preset to preview it' : 'Preview is not available in this browser'}
+          </div>
+        )}
+      </div>
+      <div className="preview-caption">
+        {preset ? preset.name : 'Preview'}
+        <span>{hasTrack ? 'with your track' : 'with a test signal'}</span>
+      </div>
+
+      <style>{`
+        .preset-preview {
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+        }
+
+        .preview-frame {
+          position: relative;
+          min-height: 200px;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          background: #111;
+          border-radius: 6px;
+          overflow: hidden;
+        }
+
+        .preview-frame canvas {
+          display: block;
+        }
+
+        .preview-frame canvas.hidden {
+          display: none;
+        }
+
+        .preview-empty {
+          padding: 20px;
+          color: #777;
+          font-size: 12px;
+          text-align: center;
+        }
+
+        .preview-caption {
+          color: white;
+          font-size: 13px;
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
+        }
+
+        .preview-caption span {
+          color: #888;
+          font-size: 11px;
+        }
+      `}</style>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AudioContextManager } from '../modules/audio/AudioContext';
+import { StoredProjectSummary, openStoredProject, projectStorage } from '../modules/project/ProjectStorage';
+
+// Offered once per page load when the last editor session was autosaved but never closed
+export const SessionRecoveryPrompt: React.FC = () => {
+  const navigate = useNavigate();
+  const [session, setSession] = useState<StoredProjectSummary | null>(null);
+  const [isRecovering, setIsRecovering] = useState(false);
+
+  useEffect(() => {
+    // Nothing to recover while a track is loaded in this page
+    if (AudioContextManager.getInstance().getDuration() > 0) return;
+
+    projectStorage.getRecoverableSession()
+      .then(setSession)
+      .catch(error => console.error('Failed to check for a recoverable session:', error));
+  }, []);
+
+  if (!session) return null;
+
+  const handleRecover = async () => {
+    setIsRecovering(true);
+    try {
+      if (await openStoredProject(session.id)) {
+        setSession(null);
+        navigate('/editor');
+        return;
+      }
+      alert('The saved session could not be found.');
+    } catch (error) {
+      console.error('Failed to recover session:', error);
+      alert('Failed to recover the session.');
+    }
+    setIsRecovering(false);
+    setSession(null);
+  };
+
+  const handleDiscard = () => {
+    // The project stays in the project list; only the prompt goes away
+    projectStorage.clearSession();
+    setSession(null);
+  };
+
+  return (
+    <div className="recovery-overlay">
+      <div className="recovery-dialog">
+        <h3>Recover unsaved session?</h3>
+        <p>
+          <strong>{session.name}</strong> was still open when the page closed.
+          It was last autosaved at {new Date(session.updatedAt).toLocaleString()}.
+        </p>
+        <div className="recovery-actions">
+          <button className="recovery-discard" onClick={handleDiscard} disabled={isRecovering}>
+            Discard
+          </button>
+          <button className="recovery-restore" onClick={handleRecover} disabled={isRecovering}>
+            {isRecovering ? 'Recovering...' : 'Recover'}
+          </button>
+        </div>
+      </div>
+
+      <style>{`
+        .recovery-overlay {
+          position: fixed;
+          top: 0;
+          left: 0;
+          right: 0;
+          bottom: 0;
+          background: rgba(0, 0, 0, 0.7);
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          z-index: 1100;
+        }
+
+        .recovery-dialog {
+          background: #1a1a1a;
+          border-radius: 12px;
+          padding: 24px;
+          width: 90%;
+          max-width: 420px;
+          box-shadow: 0 20px 40px rgba(0, 0, 0, 0.5);
+          color: #ccc;
+        }
+
+        .recovery-dialog h3 {
+          color: white;
+          margin: 0 0 12px;
+        }
+
+        .recovery-dialog p {
+          margin: 0 0 20px;
+          line-height: 1.5;
+        }
+
+        .recovery-actions {
+          display: flex;
+          justify-content: flex-end;
+          gap: 10px;
+        }
+
+        .recovery-actions button {
+          padding: 8px 16px;
+          border: none;
+          border-radius: 6px;
+          cursor: pointer;
+          font-size: 14px;
+        }
+
+        .recovery-discard {
+          background: #333;
+          color: white;
+        }
+
+        .recovery-restore {
+          background: #4a9eff;
+          color: white;
+        }
+
+        .recovery-actions button:disabled {
+          opacity: 0.6;
+          cursor: default;
+        }
+      `}</style>
+    </div>
+  );
+};
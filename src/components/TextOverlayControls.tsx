@@ -14,6 +14,7 @@ export const TextOverlayControls: React.FC<TextOverlayControlsProps> = ({
   const [overlays, setOverlays] = useState<TextOverlay[]>([]);
   const [selectedOverlay, setSelectedOverlay] = useState<string | null>(null);
   const [newText, setNewText] = useState('');
+  const canvasSize = textRenderer?.getSize() || { width: 1080, height: 1920 };
 
   useEffect(() => {
     if (textRenderer) {
@@ -27,7 +28,9 @@ export const TextOverlayControls: React.FC<TextOverlayControlsProps> = ({
 
     const overlay = TextRenderer.createDefaultOverlay(
       `overlay-${Date.now()}`,
-      newText.trim()
+      newText.trim(),
+      undefined,
+      canvasSize
     );
     
     textRenderer.addTextOverlay(overlay);
@@ -43,13 +46,13 @@ export const TextOverlayControls: React.FC<TextOverlayControlsProps> = ({
     let overlay: TextOverlay;
     switch (type) {
       case 'title':
-        overlay = TextRenderer.createTitleOverlay('Title Text');
+        overlay = TextRenderer.createTitleOverlay('Title Text', canvasSize);
         break;
       case 'subtitle':
-        overlay = TextRenderer.createSubtitleOverlay('Subtitle Text');
+        overlay = TextRenderer.createSubtitleOverlay('Subtitle Text', canvasSize);
         break;
       case 'beat':
-        overlay = TextRenderer.createBeatTextOverlay('Beat Text');
+        overlay = TextRenderer.createBeatTextOverlay('Beat Text', canvasSize);
         break;
     }
 
@@ -217,7 +220,7 @@ export const TextOverlayControls: React.FC<TextOverlayControlsProps> = ({
               <input
                 type="range"
                 min="0"
-                max="1080"
+                max={canvasSize.width}
                 value={selectedOverlayData.position.x}
                 onChange={(e) => updateOverlay(selectedOverlay!, { 
                   position: { ...selectedOverlayData.position, x: Number(e.target.value) }
@@ -231,7 +234,7 @@ export const TextOverlayControls: React.FC<TextOverlayControlsProps> = ({
               <input
                 type="range"
                 min="0"
-                max="1920"
+                max={canvasSize.height}
                 value={selectedOverlayData.position.y}
                 onChange={(e) => updateOverlay(selectedOverlay!, { 
                   position: { ...selectedOverlayData.position, y: Number(e.target.value) }
@@ -288,6 +291,16 @@ export const TextOverlayControls: React.FC<TextOverlayControlsProps> = ({
                 />
                 Audio Reactive
               </label>
+              <label title="Pulse and wave animations follow the detected tempo">
+                <input
+                  type="checkbox"
+                  checked={selectedOverlayData.animation.beatSync === true}
+                  onChange={(e) => updateOverlay(selectedOverlay!, {
+                    animation: { ...selectedOverlayData.animation, beatSync: e.target.checked }
+                  })}
+                />
+                Sync to Beat Grid
+              </label>
             </div>
           </div>
 
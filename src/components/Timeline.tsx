@@ -1,5 +1,21 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { AudioFeatureTimeline } from '../modules/audio/AudioFeatureTimeline';
 import { TextOverlay } from '../types/visual';
+import { EffectClip, createEffectClip } from '../modules/visual/EffectTimeline';
+import { Transition, TransitionEngine } from '../modules/visual/TransitionEngine';
+import { ParameterDefinition, effectParameterManager } from '../modules/visual/EffectParameters';
+import {
+  AutomationLane,
+  KEYFRAME_EASINGS,
+  KEYFRAME_EASING_LABELS,
+  createAutomationLane,
+  evaluateLane,
+  removeKeyframe,
+  setKeyframe,
+  updateKeyframe
+} from '../modules/visual/ParameterAutomation';
+import { frequencyBandManager, getBandSourceLabel, getBandSources } from '../modules/audio/FrequencyBands';
+import { KeyframeEasing } from '../types/common';
 
 interface TimelineTrack {
   id: string;
@@ -27,15 +43,34 @@ interface TimelineProps {
   onItemSelect?: (item: TimelineItem | null) => void;
   textOverlays?: TextOverlay[];
   onTextOverlayUpdate?: (overlays: TextOverlay[]) => void;
+  effectClips?: EffectClip[];
+  onEffectClipsUpdate?: (clips: EffectClip[]) => void;
+  availableEffects?: string[];
+  audioFeatures?: AudioFeatureTimeline | null;
+  automationLanes?: AutomationLane[];
+  onAutomationUpdate?: (lanes: AutomationLane[]) => void;
 }
 
+const ENVELOPE_POINTS = 400;
+const CURVE_POINTS = 200;
+const DEFAULT_CLIP_LENGTH = 5000;
+const DEFAULT_TRANSITION_LENGTH = 1000;
+
+const transitionTypes: Transition['type'][] = ['fade', 'slide', 'zoom', 'rotation', 'blur', 'pixelate', 'wipe', 'dissolve'];
+
 export const Timeline: React.FC<TimelineProps> = ({
   duration,
   currentTime,
   onTimeChange,
   onItemSelect,
   textOverlays = [],
-  onTextOverlayUpdate
+  onTextOverlayUpdate,
+  effectClips = [],
+  onEffectClipsUpdate,
+  availableEffects = [],
+  audioFeatures = null,
+  automationLanes = [],
+  onAutomationUpdate
 }) => {
   const [tracks, setTracks] = useState<TimelineTrack[]>([
     {
@@ -65,12 +100,16 @@ export const Timeline: React.FC<TimelineProps> = ({
   ]);
 
   const [selectedItem, setSelectedItem] = useState<string | null>(null);
+  const [selectedKeyframe, setSelectedKeyframe] = useState<{ laneId: string; index: number } | null>(null);
   const [isDragging, setIsDragging] = useState<{
-    type: 'playhead' | 'item' | 'resize';
+    type: 'playhead' | 'item' | 'resize' | 'keyframe';
     itemId?: string;
+    keyframeIndex?: number;
     startX?: number;
     startTime?: number;
     edge?: 'start' | 'end';
+    itemStart?: number;
+    itemEnd?: number;
   } | null>(null);
   
   const timelineRef = useRef<HTMLDivElement>(null);
@@ -89,6 +128,20 @@ export const Timeline: React.FC<TimelineProps> = ({
     return Math.max(0, Math.min(duration, (pixel + scroll) / pixelsPerMs));
   }, [duration, zoom, scroll]);
 
+  // Loudness outline and drop markers for the audio track
+  const envelopePath = useMemo(() => {
+    if (!audioFeatures) return '';
+    const envelope = audioFeatures.getEnvelope(ENVELOPE_POINTS);
+    const top = envelope.map((value, i) => `${i},${0.5 - value / 2}`);
+    const bottom = envelope.map((value, i) => `${i},${0.5 + value / 2}`).reverse();
+    return `M${top.join(' L')} L${bottom.join(' L')} Z`;
+  }, [audioFeatures]);
+
+  const drops = useMemo(() => audioFeatures ? audioFeatures.findDrops() : [], [audioFeatures]);
+
+  const beatGrid = audioFeatures ? audioFeatures.getBeatGrid() : null;
+  const barLines = useMemo(() => beatGrid ? beatGrid.getBarsBetween(-1e-6, duration / 1000) : [], [beatGrid, duration]);
+
   // Update text track items when text overlays change
   useEffect(() => {
     const textItems: TimelineItem[] = textOverlays.map(overlay => ({
@@ -106,6 +159,27 @@ export const Timeline: React.FC<TimelineProps> = ({
     ));
   }, [textOverlays]);
 
+  // Update effect track items when effect clips change
+  useEffect(() => {
+    const effectItems: TimelineItem[] = effectClips.map(clip => ({
+      id: clip.id,
+      name: clip.transition
+        ? `${clip.transition.name} → ${clip.effectName}`
+        : clip.effectName,
+      startTime: clip.startTime,
+      endTime: clip.endTime,
+      type: 'effect' as const,
+      data: clip,
+      color: '#ff6b6b'
+    }));
+
+    setTracks(prev => prev.map(track =>
+      track.id === 'effects' ? { ...track, items: effectItems } : track
+    ));
+  }, [effectClips]);
+
+  const selectedClip = effectClips.find(clip => clip.id === selectedItem) || null;
+
   const handleMouseDown = (e: React.MouseEvent, type: 'playhead' | 'item' | 'resize', itemId?: string, edge?: 'start' | 'end') => {
     e.preventDefault();
     const rect = timelineRef.current?.getBoundingClientRect();
@@ -113,19 +187,23 @@ export const Timeline: React.FC<TimelineProps> = ({
 
     const startX = e.clientX - rect.left;
     const startTime = pixelToTime(startX);
+    const clip = effectClips.find(c => c.id === itemId);
 
     setIsDragging({
       type,
       itemId,
       startX,
       startTime,
-      edge
+      edge,
+      itemStart: clip?.startTime,
+      itemEnd: clip?.endTime
     });
 
     if (type === 'playhead') {
       onTimeChange(startTime);
     } else if (type === 'item' && itemId) {
       setSelectedItem(itemId);
+      setSelectedKeyframe(null);
       const item = tracks.flatMap(t => t.items).find(i => i.id === itemId);
       onItemSelect?.(item || null);
     }
@@ -140,15 +218,25 @@ export const Timeline: React.FC<TimelineProps> = ({
 
     if (isDragging.type === 'playhead') {
       onTimeChange(currentTime);
+    } else if (isDragging.type === 'keyframe' && isDragging.itemId && isDragging.keyframeIndex !== undefined) {
+      moveKeyframe(isDragging.itemId, isDragging.keyframeIndex, currentTime);
     } else if (isDragging.type === 'item' && isDragging.itemId) {
       // Move item
       const deltaTime = currentTime - (isDragging.startTime || 0);
-      moveTimelineItem(isDragging.itemId, deltaTime);
+      if (isDragging.itemStart !== undefined && isDragging.itemEnd !== undefined) {
+        moveEffectClip(isDragging.itemId, isDragging.itemStart, isDragging.itemEnd, deltaTime);
+      } else {
+        moveTimelineItem(isDragging.itemId, deltaTime);
+      }
     } else if (isDragging.type === 'resize' && isDragging.itemId && isDragging.edge) {
       // Resize item
-      resizeTimelineItem(isDragging.itemId, isDragging.edge, currentTime);
+      if (isDragging.itemStart !== undefined) {
+        resizeEffectClip(isDragging.itemId, isDragging.edge, currentTime);
+      } else {
+        resizeTimelineItem(isDragging.itemId, isDragging.edge, currentTime);
+      }
     }
-  }, [isDragging, onTimeChange, pixelToTime]);
+  }, [isDragging, onTimeChange, pixelToTime, effectClips, onEffectClipsUpdate, automationLanes, onAutomationUpdate]);
 
   const handleMouseUp = useCallback(() => {
     setIsDragging(null);
@@ -252,7 +340,187 @@ export const Timeline: React.FC<TimelineProps> = ({
     }
   };
 
+  // Effect clips are positioned from where the drag started, so the clip follows the
+  // pointer instead of accumulating the offset on every mouse move
+  const moveEffectClip = (clipId: string, itemStart: number, itemEnd: number, deltaTime: number) => {
+    const length = itemEnd - itemStart;
+    const startTime = Math.max(0, Math.min(duration - length, itemStart + deltaTime));
+    updateEffectClip(clipId, { startTime, endTime: startTime + length });
+  };
+
+  const resizeEffectClip = (clipId: string, edge: 'start' | 'end', newTime: number) => {
+    const clip = effectClips.find(c => c.id === clipId);
+    if (!clip) return;
+
+    if (edge === 'start') {
+      updateEffectClip(clipId, { startTime: Math.max(0, Math.min(newTime, clip.endTime - 100)) });
+    } else {
+      updateEffectClip(clipId, { endTime: Math.max(clip.startTime + 100, Math.min(newTime, duration)) });
+    }
+  };
+
+  const updateEffectClip = (clipId: string, updates: Partial<Omit<EffectClip, 'id'>>) => {
+    onEffectClipsUpdate?.(effectClips.map(clip =>
+      clip.id === clipId ? { ...clip, ...updates } : clip
+    ));
+  };
+
+  const addEffectClip = (effectName: string) => {
+    const startTime = Math.min(currentTime, Math.max(0, duration - 100));
+    const endTime = Math.min(duration, startTime + DEFAULT_CLIP_LENGTH);
+    const clip = createEffectClip(
+      effectName,
+      startTime,
+      endTime,
+      TransitionEngine.createTransition('fade', DEFAULT_TRANSITION_LENGTH)
+    );
+    onEffectClipsUpdate?.([...effectClips, clip]);
+    setSelectedItem(clip.id);
+  };
+
+  const setClipTransition = (clipId: string, type: string) => {
+    const clip = effectClips.find(c => c.id === clipId);
+    if (!clip) return;
+
+    const transitionLength = clip.transition?.duration || DEFAULT_TRANSITION_LENGTH;
+    updateEffectClip(clipId, {
+      transition: type ? TransitionEngine.createTransition(type as Transition['type'], transitionLength) : undefined
+    });
+  };
+
+  const setClipTransitionLength = (clipId: string, transitionLength: number) => {
+    const clip = effectClips.find(c => c.id === clipId);
+    if (!clip?.transition) return;
+
+    updateEffectClip(clipId, { transition: { ...clip.transition, duration: transitionLength } });
+  };
+
+  // Automation lanes
+  const getDefinition = (lane: AutomationLane): ParameterDefinition | undefined =>
+    effectParameterManager.getParameterDefinitions(lane.effectName).find(def => def.name === lane.parameter);
+
+  // Value a new keyframe starts with: the lane's current value there, so the curve keeps its shape
+  const getLaneValue = (lane: AutomationLane, time: number) => {
+    const value = evaluateLane(lane, time, getDefinition(lane));
+    return value !== undefined
+      ? value
+      : effectParameterManager.getParameters(lane.effectName)[lane.parameter] ?? getDefinition(lane)?.defaultValue;
+  };
+
+  const updateLane = (laneId: string, update: (lane: AutomationLane) => AutomationLane) => {
+    onAutomationUpdate?.(automationLanes.map(lane => lane.id === laneId ? update(lane) : lane));
+  };
+
+  const addAutomationLane = (target: string) => {
+    const [effectName, parameter] = target.split('|');
+    const lane = createAutomationLane(effectName, parameter);
+    const keyed = setKeyframe(lane, { time: currentTime, value: getLaneValue(lane, currentTime), easing: 'linear' });
+    onAutomationUpdate?.([...automationLanes, keyed]);
+    setSelectedKeyframe({ laneId: keyed.id, index: 0 });
+    setSelectedItem(null);
+  };
+
+  const addKeyframe = (lane: AutomationLane, time: number) => {
+    const keyframeTime = Math.round(Math.max(0, Math.min(duration, time)));
+    const updated = setKeyframe(lane, { time: keyframeTime, value: getLaneValue(lane, keyframeTime), easing: 'linear' });
+    updateLane(lane.id, () => updated);
+    setSelectedKeyframe({ laneId: lane.id, index: updated.keyframes.findIndex(keyframe => keyframe.time === keyframeTime) });
+    setSelectedItem(null);
+  };
+
+  // Keyframes stay between their neighbours while dragged, so their order never changes
+  const moveKeyframe = (laneId: string, index: number, time: number) => {
+    const lane = automationLanes.find(l => l.id === laneId);
+    if (!lane) return;
+
+    const previous = lane.keyframes[index - 1];
+    const next = lane.keyframes[index + 1];
+    const low = previous ? previous.time + 1 : 0;
+    const high = next ? next.time - 1 : duration;
+    updateLane(laneId, l => updateKeyframe(l, index, { time: Math.round(Math.max(low, Math.min(high, time))) }));
+  };
+
+  const handleKeyframeMouseDown = (e: React.MouseEvent, lane: AutomationLane, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setSelectedKeyframe({ laneId: lane.id, index });
+    setSelectedItem(null);
+    onItemSelect?.(null);
+    setIsDragging({ type: 'keyframe', itemId: lane.id, keyframeIndex: index });
+  };
+
+  const handleLaneDoubleClick = (e: React.MouseEvent, lane: AutomationLane) => {
+    const rect = timelineRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    addKeyframe(lane, pixelToTime(e.clientX - rect.left));
+  };
+
+  const removeAutomationLane = (laneId: string) => {
+    onAutomationUpdate?.(automationLanes.filter(lane => lane.id !== laneId));
+    if (selectedKeyframe?.laneId === laneId) {
+      setSelectedKeyframe(null);
+    }
+  };
+
+  const getLaneCurve = (lane: AutomationLane): string => {
+    const definition = getDefinition(lane);
+    if (definition?.type !== 'number' || lane.keyframes.length === 0) return '';
+    const min = definition.min ?? 0;
+    const range = (definition.max ?? 1) - min || 1;
+    return Array.from({ length: CURVE_POINTS + 1 }, (_, i) => {
+      const value = evaluateLane(lane, (i / CURVE_POINTS) * duration, definition);
+      return `${i},${1 - (value - min) / range}`;
+    }).join(' ');
+  };
+
+  const selectedLane = selectedKeyframe ? automationLanes.find(lane => lane.id === selectedKeyframe.laneId) || null : null;
+  const selectedKey = selectedLane ? selectedLane.keyframes[selectedKeyframe!.index] || null : null;
+
+  const renderKeyframeValueInput = (lane: AutomationLane, index: number, value: any) => {
+    const definition = getDefinition(lane);
+    const setValue = (newValue: any) => updateLane(lane.id, l => updateKeyframe(l, index, { value: newValue }));
+
+    switch (definition?.type) {
+      case 'color':
+        return <input type="color" value={value} onChange={(e) => setValue(e.target.value)} />;
+      case 'boolean':
+        return <input type="checkbox" checked={!!value} onChange={(e) => setValue(e.target.checked)} />;
+      case 'select':
+        return (
+          <select value={value} onChange={(e) => setValue(e.target.value)}>
+            {definition.options?.map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+        );
+      case 'band': {
+        const config = frequencyBandManager.getConfig();
+        return (
+          <select value={value} onChange={(e) => setValue(e.target.value)}>
+            {getBandSources(config).map(source => (
+              <option key={source} value={source}>{getBandSourceLabel(source, config)}</option>
+            ))}
+          </select>
+        );
+      }
+      default:
+        return (
+          <input
+            type="number"
+            min={definition?.min}
+            max={definition?.max}
+            step={definition?.step}
+            value={value}
+            onChange={(e) => setValue(Number(e.target.value))}
+          />
+        );
+    }
+  };
+
   const deleteSelectedItem = () => {
+    if (selectedLane && selectedKeyframe) {
+      updateLane(selectedLane.id, lane => removeKeyframe(lane, selectedKeyframe.index));
+      setSelectedKeyframe(null);
+      return;
+    }
     if (!selectedItem) return;
 
     setTracks(prev => prev.map(track => ({
@@ -266,6 +534,10 @@ export const Timeline: React.FC<TimelineProps> = ({
       onTextOverlayUpdate(updatedOverlays);
     }
 
+    if (onEffectClipsUpdate && effectClips.some(clip => clip.id === selectedItem)) {
+      onEffectClipsUpdate(effectClips.filter(clip => clip.id !== selectedItem));
+    }
+
     setSelectedItem(null);
     onItemSelect?.(null);
   };
@@ -300,10 +572,93 @@ export const Timeline: React.FC<TimelineProps> = ({
             <span>{Math.round(zoom * 100)}%</span>
             <button onClick={() => setZoom(Math.min(5, zoom + 0.1))}>+</button>
           </div>
+          {onEffectClipsUpdate && availableEffects.length > 0 && (
+            <select
+              className="add-clip-select"
+              value=""
+              onChange={(e) => {
+                if (e.target.value) {
+                  addEffectClip(e.target.value);
+                }
+              }}
+            >
+              <option value="" disabled>+ Effect clip at playhead...</option>
+              {availableEffects.map(effect => (
+                <option key={effect} value={effect}>{effect}</option>
+              ))}
+            </select>
+          )}
+          {onAutomationUpdate && availableEffects.length > 0 && (
+            <select
+              className="add-clip-select"
+              value=""
+              onChange={(e) => {
+                if (e.target.value) {
+                  addAutomationLane(e.target.value);
+                }
+              }}
+            >
+              <option value="" disabled>+ Automate parameter...</option>
+              {availableEffects.map(effect => (
+                <optgroup key={effect} label={effect}>
+                  {effectParameterManager.getParameterDefinitions(effect).map(definition => (
+                    <option key={definition.name} value={`${effect}|${definition.name}`}>{definition.name}</option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+          )}
         </div>
         
+        {selectedLane && selectedKey && (
+          <div className="item-controls keyframe-controls">
+            <span className="keyframe-label">{selectedLane.parameter} @ {(selectedKey.time / 1000).toFixed(2)}s</span>
+            {renderKeyframeValueInput(selectedLane, selectedKeyframe!.index, selectedKey.value)}
+            <select
+              className="clip-transition-select"
+              value={selectedKey.easing || 'linear'}
+              title="Interpolation to the next keyframe"
+              onChange={(e) => updateLane(selectedLane.id, lane => updateKeyframe(lane, selectedKeyframe!.index, { easing: e.target.value as KeyframeEasing }))}
+            >
+              {KEYFRAME_EASINGS.map(easing => (
+                <option key={easing} value={easing}>{KEYFRAME_EASING_LABELS[easing]}</option>
+              ))}
+            </select>
+            <button onClick={deleteSelectedItem} className="delete-button">
+              Delete Keyframe
+            </button>
+          </div>
+        )}
+
         {selectedItem && (
           <div className="item-controls">
+            {selectedClip && (
+              <>
+                <select
+                  className="clip-transition-select"
+                  value={selectedClip.transition?.type || ''}
+                  onChange={(e) => setClipTransition(selectedClip.id, e.target.value)}
+                >
+                  <option value="">Cut (no transition)</option>
+                  {transitionTypes.map(type => (
+                    <option key={type} value={type}>{type.charAt(0).toUpperCase() + type.slice(1)} in</option>
+                  ))}
+                </select>
+                {selectedClip.transition && (
+                  <label className="clip-transition-length">
+                    <input
+                      type="number"
+                      min="100"
+                      max="5000"
+                      step="100"
+                      value={selectedClip.transition.duration}
+                      onChange={(e) => setClipTransitionLength(selectedClip.id, Math.max(100, Number(e.target.value)))}
+                    />
+                    ms
+                  </label>
+                )}
+              </>
+            )}
             <button onClick={deleteSelectedItem} className="delete-button">
               Delete Selected
             </button>
@@ -315,7 +670,12 @@ export const Timeline: React.FC<TimelineProps> = ({
       <div className="track-headers">
         {tracks.map(track => (
           <div key={track.id} className="track-header">
-            <div className="track-name">{track.name}</div>
+            <div className="track-name">
+              {track.name}
+              {track.type === 'audio' && beatGrid && (
+                <span className="track-tempo" title="Estimated tempo">{beatGrid.bpm.toFixed(1)} BPM</span>
+              )}
+            </div>
             <div className="track-buttons">
               <button
                 onClick={() => toggleTrackVisibility(track.id)}
@@ -332,6 +692,36 @@ export const Timeline: React.FC<TimelineProps> = ({
             </div>
           </div>
         ))}
+        {automationLanes.map(lane => (
+          <div key={lane.id} className="track-header lane-header">
+            <div className="track-name" title={`${lane.effectName} ${lane.parameter}`}>
+              <span className="lane-effect">{lane.effectName}</span> {lane.parameter}
+            </div>
+            <div className="track-buttons">
+              <button
+                onClick={() => addKeyframe(lane, currentTime)}
+                className="track-button"
+                title="Add keyframe at playhead"
+              >
+                ◆
+              </button>
+              <button
+                onClick={() => updateLane(lane.id, l => ({ ...l, enabled: !l.enabled }))}
+                className={`track-button ${lane.enabled ? 'active' : ''}`}
+                title="Enable lane"
+              >
+                👁
+              </button>
+              <button
+                onClick={() => removeAutomationLane(lane.id)}
+                className="track-button"
+                title="Remove lane"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+        ))}
       </div>
 
       {/* Timeline Content */}
@@ -352,6 +742,27 @@ export const Timeline: React.FC<TimelineProps> = ({
         {/* Tracks */}
         {tracks.map(track => (
           <div key={track.id} className={`track ${!track.visible ? 'hidden' : ''}`}>
+            {track.type === 'audio' && envelopePath && (
+              <svg
+                className="audio-envelope"
+                style={{ left: timeToPixel(0), width: timeToPixel(duration) - timeToPixel(0) }}
+                viewBox={`0 0 ${ENVELOPE_POINTS} 1`}
+                preserveAspectRatio="none"
+              >
+                <path d={envelopePath} />
+              </svg>
+            )}
+            {track.type === 'audio' && barLines.map(time => (
+              <div key={`bar-${time}`} className="bar-line" style={{ left: timeToPixel(time * 1000) }} />
+            ))}
+            {track.type === 'audio' && drops.map(time => (
+              <div
+                key={time}
+                className="drop-marker"
+                style={{ left: timeToPixel(time * 1000) }}
+                title={`Drop at ${formatTime(time * 1000)}`}
+              />
+            ))}
             {track.items.map(item => (
               <div
                 key={item.id}
@@ -387,6 +798,43 @@ export const Timeline: React.FC<TimelineProps> = ({
           </div>
         ))}
 
+        {/* Automation lanes */}
+        {automationLanes.map(lane => {
+          const curve = getLaneCurve(lane);
+          return (
+            <div
+              key={lane.id}
+              className={`track automation-lane ${lane.enabled ? '' : 'hidden'}`}
+              title="Double-click to add a keyframe"
+              onDoubleClick={(e) => handleLaneDoubleClick(e, lane)}
+            >
+              {curve && (
+                <svg
+                  className="automation-curve"
+                  style={{ left: timeToPixel(0), width: timeToPixel(duration) - timeToPixel(0) }}
+                  viewBox={`0 0 ${CURVE_POINTS} 1`}
+                  preserveAspectRatio="none"
+                >
+                  <polyline points={curve} vectorEffect="non-scaling-stroke" />
+                </svg>
+              )}
+              {lane.keyframes.map((keyframe, index) => (
+                <div
+                  key={index}
+                  className={`keyframe ${selectedKeyframe?.laneId === lane.id && selectedKeyframe.index === index ? 'selected' : ''} ${keyframe.easing === 'hold' ? 'hold' : ''}`}
+                  style={{
+                    left: timeToPixel(keyframe.time),
+                    background: typeof keyframe.value === 'string' && keyframe.value.startsWith('#') ? keyframe.value : undefined
+                  }}
+                  title={`${formatTime(keyframe.time)}: ${String(keyframe.value)}`}
+                  onMouseDown={(e) => handleKeyframeMouseDown(e, lane, index)}
+                  onDoubleClick={(e) => e.stopPropagation()}
+                />
+              ))}
+            </div>
+          );
+        })}
+
         {/* Playhead */}
         <div
           className="playhead"
@@ -459,9 +907,57 @@ export const Timeline: React.FC<TimelineProps> = ({
 
         .item-controls {
           display: flex;
+          align-items: center;
           gap: 10px;
         }
 
+        .add-clip-select,
+        .clip-transition-select,
+        .clip-transition-length input {
+          background: #333;
+          color: white;
+          border: 1px solid #444;
+          border-radius: 4px;
+          padding: 4px 6px;
+          font-size: 12px;
+        }
+
+        .clip-transition-length {
+          color: #ccc;
+          font-size: 12px;
+        }
+
+        .clip-transition-length input {
+          width: 64px;
+          margin-right: 4px;
+        }
+
+        .keyframe-controls input,
+        .keyframe-controls select {
+          background: #333;
+          color: white;
+          border: 1px solid #444;
+          border-radius: 4px;
+          padding: 4px 6px;
+          font-size: 12px;
+        }
+
+        .keyframe-controls input[type="number"] {
+          width: 72px;
+        }
+
+        .keyframe-controls input[type="color"] {
+          width: 36px;
+          height: 26px;
+          padding: 0;
+        }
+
+        .keyframe-label {
+          color: #ccc;
+          font-size: 12px;
+          font-family: monospace;
+        }
+
         .delete-button {
           padding: 6px 12px;
           background: #e74c3c;
@@ -529,7 +1025,7 @@ export const Timeline: React.FC<TimelineProps> = ({
         .timeline-content {
           margin-left: 200px;
           position: relative;
-          height: 240px;
+          min-height: 240px;
           overflow-x: auto;
           overflow-y: hidden;
           background: #1a1a1a;
@@ -558,6 +1054,58 @@ export const Timeline: React.FC<TimelineProps> = ({
           font-family: monospace;
         }
 
+        .track-header.lane-header,
+        .track.automation-lane {
+          height: 40px;
+        }
+
+        .lane-header .track-name {
+          font-size: 12px;
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+        }
+
+        .lane-effect {
+          color: #999;
+        }
+
+        .automation-curve {
+          position: absolute;
+          top: 6px;
+          height: 28px;
+          pointer-events: none;
+          overflow: visible;
+        }
+
+        .automation-curve polyline {
+          fill: none;
+          stroke: #feca57;
+          stroke-width: 1.5;
+        }
+
+        .keyframe {
+          position: absolute;
+          top: 14px;
+          width: 12px;
+          height: 12px;
+          margin-left: -6px;
+          background: #feca57;
+          border: 2px solid #1a1a1a;
+          transform: rotate(45deg);
+          cursor: ew-resize;
+          z-index: 5;
+        }
+
+        .keyframe.hold {
+          border-radius: 2px;
+          transform: none;
+        }
+
+        .keyframe.selected {
+          border-color: white;
+        }
+
         .track {
           height: 60px;
           position: relative;
@@ -568,6 +1116,40 @@ export const Timeline: React.FC<TimelineProps> = ({
           opacity: 0.3;
         }
 
+        .audio-envelope {
+          position: absolute;
+          top: 8px;
+          height: 44px;
+          pointer-events: none;
+        }
+
+        .audio-envelope path {
+          fill: rgba(78, 205, 196, 0.35);
+        }
+
+        .track-tempo {
+          margin-left: 8px;
+          color: #999;
+          font-size: 10px;
+          font-family: monospace;
+        }
+
+        .bar-line {
+          position: absolute;
+          top: 0;
+          bottom: 0;
+          border-left: 1px solid rgba(255, 255, 255, 0.12);
+          pointer-events: none;
+        }
+
+        .drop-marker {
+          position: absolute;
+          top: 4px;
+          bottom: 4px;
+          border-left: 2px dashed #feca57;
+          pointer-events: none;
+        }
+
         .timeline-item {
           position: absolute;
           top: 10px;
@@ -1,18 +1,21 @@
 import React, { useState } from 'react';
 import { Transition, TransitionEngine } from '../modules/visual/TransitionEngine';
+import { EffectClip, createEffectSequence } from '../modules/visual/EffectTimeline';
 
 interface TransitionControlsProps {
-  transitionEngine: TransitionEngine | null;
   currentEffect: string;
-  onEffectChange: (effect: string) => void;
   availableEffects: string[];
+  duration: number; // Song length in ms
+  onAddEffectClip: (effectName: string, transition: Transition) => void;
+  onSequenceEffects: (clips: EffectClip[]) => void;
 }
 
 export const TransitionControls: React.FC<TransitionControlsProps> = ({
-  transitionEngine,
   currentEffect,
-  onEffectChange,
-  availableEffects
+  availableEffects,
+  duration,
+  onAddEffectClip,
+  onSequenceEffects
 }) => {
   const [selectedTransition, setSelectedTransition] = useState<string>('fade');
   const [transitionDuration, setTransitionDuration] = useState(1000);
@@ -49,15 +52,15 @@ export const TransitionControls: React.FC<TransitionControlsProps> = ({
     { id: 'center', name: 'Center' }
   ];
 
+  // Transitions play from the timeline: each button drops a clip at the playhead that
+  // transitions in from whatever is showing there
   const handleEffectTransition = (newEffect: string) => {
-    if (!transitionEngine || newEffect === currentEffect) return;
-
-    const transition = createTransition();
-    transitionEngine.startTransition(transition, currentEffect, newEffect);
-    onEffectChange(newEffect);
+    onAddEffectClip(newEffect, createTransition());
   };
 
-  const createTransition = (): Transition => {
+  const createTransition = (): Transition => ({ ...createBaseTransition(), easing });
+
+  const createBaseTransition = (): Transition => {
     const baseProps = {
       duration: transitionDuration,
       easing,
@@ -83,31 +86,14 @@ export const TransitionControls: React.FC<TransitionControlsProps> = ({
     }
   };
 
-  const previewTransition = () => {
-    if (!transitionEngine) return;
-    
-    // Create a preview transition between current effect and itself
-    const transition = createTransition();
-    transitionEngine.startTransition(transition, currentEffect, currentEffect);
+  // Auto transition: cycle through the effects across the whole song, starting from
+  // the current one. This replaces the clips already on the timeline.
+  const sequenceEffects = () => {
+    const startIndex = Math.max(0, availableEffects.indexOf(currentEffect));
+    const ordered = [...availableEffects.slice(startIndex), ...availableEffects.slice(0, startIndex)];
+    onSequenceEffects(createEffectSequence(ordered, duration, autoInterval, createTransition()));
   };
 
-  // Auto transition functionality
-  React.useEffect(() => {
-    if (!autoTransition || !transitionEngine) return;
-
-    const interval = setInterval(() => {
-      const currentIndex = availableEffects.indexOf(currentEffect);
-      const nextIndex = (currentIndex + 1) % availableEffects.length;
-      const nextEffect = availableEffects[nextIndex];
-      
-      if (nextEffect) {
-        handleEffectTransition(nextEffect);
-      }
-    }, autoInterval);
-
-    return () => clearInterval(interval);
-  }, [autoTransition, autoInterval, currentEffect, availableEffects, transitionEngine]);
-
   const requiresDirection = ['slide', 'wipe'].includes(selectedTransition);
   const supportsAudioReactive = ['fade', 'zoom', 'rotation'].includes(selectedTransition);
 
@@ -117,14 +103,13 @@ export const TransitionControls: React.FC<TransitionControlsProps> = ({
       
       {/* Quick Effect Buttons */}
       <div className="effect-buttons">
-        <h4>Switch Effects:</h4>
+        <h4>Add Clip at Playhead:</h4>
         <div className="button-grid">
           {availableEffects.map(effect => (
             <button
               key={effect}
               onClick={() => handleEffectTransition(effect)}
               className={`effect-button ${currentEffect === effect ? 'active' : ''}`}
-              disabled={transitionEngine?.isTransitioning()}
             >
               {effect.charAt(0).toUpperCase() + effect.slice(1)}
             </button>
@@ -242,28 +227,20 @@ export const TransitionControls: React.FC<TransitionControlsProps> = ({
         )}
       </div>
 
-      {/* Preview and Status */}
-      <div className="transition-actions">
-        <button
-          onClick={previewTransition}
-          className="preview-button"
-          disabled={transitionEngine?.isTransitioning()}
-        >
-          Preview Transition
-        </button>
-        
-        {transitionEngine?.isTransitioning() && (
-          <div className="transition-status">
-            <div className="status-text">Transitioning...</div>
-            <div className="progress-bar">
-              <div 
-                className="progress-fill"
-                style={{ width: `${(transitionEngine.getProgress() || 0) * 100}%` }}
-              />
-            </div>
+      {autoTransition && (
+        <div className="transition-actions">
+          <button
+            onClick={sequenceEffects}
+            className="preview-button"
+            disabled={duration <= 0 || availableEffects.length === 0}
+          >
+            Fill Timeline With Effect Clips
+          </button>
+          <div className="help-text">
+            Replaces the clips on the timeline with one clip per interval, each using this transition
           </div>
-        )}
-      </div>
+        </div>
+      )}
 
       <style>{`
         .transition-controls {
@@ -462,33 +439,6 @@ export const TransitionControls: React.FC<TransitionControlsProps> = ({
           cursor: not-allowed;
         }
 
-        .transition-status {
-          flex: 1;
-          display: flex;
-          align-items: center;
-          gap: 10px;
-        }
-
-        .status-text {
-          font-size: 12px;
-          color: #4ecdc4;
-          white-space: nowrap;
-        }
-
-        .progress-bar {
-          flex: 1;
-          height: 4px;
-          background: #333;
-          border-radius: 2px;
-          overflow: hidden;
-        }
-
-        .progress-fill {
-          height: 100%;
-          background: #4ecdc4;
-          transition: width 0.1s ease;
-        }
-
         span {
           font-size: 11px;
           color: #ccc;
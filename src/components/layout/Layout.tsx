@@ -1,4 +1,5 @@
 import { Outlet, Link } from 'react-router-dom';
+import { SessionRecoveryPrompt } from '../SessionRecoveryPrompt';
 
 export function Layout() {
   return (
@@ -16,6 +17,7 @@ export function Layout() {
       <main className="app-main">
         <Outlet />
       </main>
+      <SessionRecoveryPrompt />
     </div>
   );
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { AudioContextManager } from '../modules/audio/AudioContext';
+import { calculateFrequencyBands } from '../modules/audio/FrequencyBands';
 
 export interface AudioPlayerState {
   isLoaded: boolean;
@@ -170,27 +171,7 @@ export function useAudioAnalysis() {
         const frequencyData = manager.getFrequencyData();
         const timeDomainData = manager.getTimeDomainData();
         
-        // Simple frequency band analysis
-        const bassEnd = Math.floor(frequencyData.length * 0.1);
-        const lowMidEnd = Math.floor(frequencyData.length * 0.2);
-        const midEnd = Math.floor(frequencyData.length * 0.4);
-        const highMidEnd = Math.floor(frequencyData.length * 0.7);
-        
-        const calculateAverage = (data: Uint8Array, start: number, end: number) => {
-          let sum = 0;
-          for (let i = start; i < end; i++) {
-            sum += (data[i] || 0);
-          }
-          return sum / (end - start) / 255;
-        };
-
-        const frequencyBands = {
-          bass: calculateAverage(frequencyData, 0, bassEnd),
-          lowMid: calculateAverage(frequencyData, bassEnd, lowMidEnd),
-          mid: calculateAverage(frequencyData, lowMidEnd, midEnd),
-          highMid: calculateAverage(frequencyData, midEnd, highMidEnd),
-          treble: calculateAverage(frequencyData, highMidEnd, frequencyData.length)
-        };
+        const frequencyBands = calculateFrequencyBands(frequencyData, manager.getSampleRate());
 
         const waveformData = new Float32Array(timeDomainData.length);
         for (let i = 0; i < timeDomainData.length; i++) {
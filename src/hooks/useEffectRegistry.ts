@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+import { EffectPlugin, effectRegistry } from '../modules/visual/EffectRegistry';
+
+// The registered effects, updated when plugins are loaded or removed
+export function useEffectRegistry(): EffectPlugin[] {
+  const [plugins, setPlugins] = useState(() => effectRegistry.getAll());
+
+  useEffect(() => {
+    effectRegistry.addListener(setPlugins);
+    // Plugins may have loaded between the first render and subscribing
+    setPlugins(effectRegistry.getAll());
+    return () => effectRegistry.removeListener(setPlugins);
+  }, []);
+
+  return plugins;
+}
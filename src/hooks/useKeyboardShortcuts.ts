@@ -1,4 +1,5 @@
 import { useEffect, useCallback } from 'react';
+import { EffectMetadata, effectRegistry } from '../modules/visual/EffectRegistry';
 
 export interface KeyboardShortcut {
   id: string;
@@ -147,46 +148,20 @@ export const createPlaybackShortcuts = (
   }
 ];
 
+// Number keys 1-9 switch to the registered effects in order, plugins included
 export const createEffectShortcuts = (
   switchToEffect: (effect: string) => void,
   toggleEffect: () => void,
-  resetParameters: () => void
+  resetParameters: () => void,
+  effects: EffectMetadata[] = effectRegistry.getAll().map(plugin => plugin.metadata)
 ): KeyboardShortcut[] => [
-  {
-    id: 'effect-waveform',
-    keys: ['1'],
-    description: 'Switch to Waveform effect',
-    action: () => switchToEffect('waveform'),
-    category: 'effects'
-  },
-  {
-    id: 'effect-particles',
-    keys: ['2'],
-    description: 'Switch to Particles effect',
-    action: () => switchToEffect('particles'),
-    category: 'effects'
-  },
-  {
-    id: 'effect-geometric',
-    keys: ['3'],
-    description: 'Switch to Geometric effect',
-    action: () => switchToEffect('geometric'),
+  ...effects.slice(0, 9).map((effect, index): KeyboardShortcut => ({
+    id: `effect-${effect.name}`,
+    keys: [String(index + 1)],
+    description: `Switch to ${effect.label} effect`,
+    action: () => switchToEffect(effect.name),
     category: 'effects'
-  },
-  {
-    id: 'effect-gradient',
-    keys: ['4'],
-    description: 'Switch to Gradient effect',
-    action: () => switchToEffect('gradient'),
-    category: 'effects'
-  },
-  {
-    id: 'effect-3d',
-    keys: ['5'],
-    description: 'Switch to 3D effect',
-    action: () => switchToEffect('3d'),
-    category: 'effects'
-  },
+  })),
   {
     id: 'toggle-effect',
     keys: ['e', 'E'],
@@ -1,4 +1,5 @@
 import { useState, useCallback, useRef } from 'react';
+import type { AspectRatio } from '../types/visual';
 
 export interface UndoRedoAction<T> {
   id: string;
@@ -158,6 +159,19 @@ export function useUndoRedo<T>(
     return true;
   }, [history]);
 
+  // Replace the whole history, e.g. with one saved alongside a project
+  const restoreHistory = useCallback((actions: UndoRedoAction<T>[], index: number) => {
+    if (actions.length === 0) return false;
+
+    const restored = actions.slice(-maxHistorySize);
+    const targetIndex = Math.max(0, Math.min(restored.length - 1, index - (actions.length - restored.length)));
+    lastActionIdRef.current = null;
+    setHistory(restored);
+    setCurrentIndex(targetIndex);
+    setCurrentState(restored[targetIndex].state);
+    return true;
+  }, [maxHistorySize]);
+
   const createSnapshot = useCallback((description: string) => {
     pushState(currentState, description, 'general');
   }, [currentState, pushState]);
@@ -183,6 +197,7 @@ export function useUndoRedo<T>(
     redo,
     clearHistory,
     jumpToAction,
+    restoreHistory,
     createSnapshot,
     
     // Batch operations
@@ -209,6 +224,12 @@ export interface AppState {
   currentEffect: string;
   effectParameters: { [effectName: string]: any };
   textOverlays: any[];
+  compositionMode?: 'single' | 'layered';
+  layers?: any[];
+  effectClips?: any[];
+  modulations?: any[];
+  automation?: any[];
+  outputAspect?: AspectRatio;
   selectedItems: string[];
   viewState: {
     zoom: number;
@@ -302,9 +323,18 @@ export const actionDescriptions = {
     add: (itemName: string) => `Add ${itemName}`
   },
   
+  layer: {
+    add: (effectName: string) => `Add ${effectName} layer`,
+    remove: (effectName: string) => `Remove ${effectName} layer`,
+    update: (effectName: string) => `Update ${effectName} layer`,
+    reorder: (effectName: string) => `Move ${effectName} layer`,
+    mode: (mode: string) => `Switch to ${mode} composition`
+  },
+  
   general: {
     import: () => 'Import project',
     reset: () => 'Reset project',
-    loadPreset: (presetName: string) => `Load preset: ${presetName}`
+    loadPreset: (presetName: string) => `Load preset: ${presetName}`,
+    outputFormat: (aspectRatio: string) => `Change output format to ${aspectRatio}`
   }
 };
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { VisualEngine } from '../modules/visual/VisualEngine';
 import { EffectParameter } from '../modules/visual/EffectParameters';
+import { effectRegistry } from '../modules/visual/EffectRegistry';
 
 export interface VisualEngineState {
   isInitialized: boolean;
@@ -26,7 +27,7 @@ export function useVisualEngine(): [VisualEngineState, VisualEngineControls] {
     isInitialized: false,
     isRunning: false,
     currentEffect: 'waveform',
-    availableEffects: ['waveform', 'particles', 'geometric', 'gradient', '3d'],
+    availableEffects: effectRegistry.getNames(),
     error: null
   });
 
@@ -145,6 +146,15 @@ export function useVisualEngine(): [VisualEngineState, VisualEngineControls] {
     }
   }, []);
 
+  // Plugins can register effects at any time
+  useEffect(() => {
+    const handleRegistryChange = () => {
+      setState(prev => ({ ...prev, availableEffects: effectRegistry.getNames() }));
+    };
+    effectRegistry.addListener(handleRegistryChange);
+    return () => effectRegistry.removeListener(handleRegistryChange);
+  }, []);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
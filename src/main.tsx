@@ -1,10 +1,18 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { effectRegistry } from './modules/visual/EffectRegistry';
+import { setRenderWorkerFactory } from './modules/visual/RenderSurface';
 import './styles/index.css';
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+// The editor can render its preview in this worker
+setRenderWorkerFactory(() => new Worker(new URL('./modules/visual/RenderWorker.ts', import.meta.url), { type: 'module' }));
+
+// Effect plugins from earlier sessions load first, so projects that use them open intact
+effectRegistry.loadSavedModules().then(() => {
+  ReactDOM.createRoot(document.getElementById('root')!).render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+});
\ No newline at end of file
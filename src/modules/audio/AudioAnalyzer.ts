@@ -1,4 +1,16 @@
 import { AudioContextManager } from './AudioContext';
+import type { AudioFeatureFrame, AudioFeatureTimeline } from './AudioFeatureTimeline';
+import type { BeatGrid, BeatPosition } from './BeatGrid';
+import {
+  NAMED_BAND_RANGES,
+  averageRange,
+  calculateBandLevels,
+  calculateFrequencyBands,
+  frequencyBandManager,
+  getBandEdges,
+  getLinearBinEdges,
+  parseBandSource
+} from './FrequencyBands';
 
 export interface FrequencyBands {
   bass: number;
@@ -13,53 +25,211 @@ export interface BeatDetectionResult {
   intensity: number;
 }
 
+// A beat from the tempo grid rather than the level detector
+export interface GridBeatResult extends BeatDetectionResult {
+  isDownbeat: boolean;
+  position: BeatPosition | null;
+}
+
+// Anything that can provide AnalyserNode-style byte frames. AudioContextManager is the
+// live source; BufferAudioSource serves frames from a decoded buffer at a given time.
+export interface AudioFrameSource {
+  getFrequencyData(): Uint8Array;
+  getTimeDomainData(): Uint8Array;
+  getSampleRate?(): number;
+}
+
+// Band smoothing is the share of the level kept over this much song time
+const BAND_SMOOTHING_STEP = 1 / 60;
+
 export class AudioAnalyzer {
-  private audioManager: AudioContextManager;
+  private audioManager: AudioFrameSource;
+  private clock: () => number = () => performance.now() / 1000;
   private beatHistory: number[] = [];
   private beatThreshold = 1.15;
   private beatMin = 0.15;
   private lastBeatTime = 0;
   private beatCooldown = 0.1; // 100ms cooldown between beats
+  private frameBeat: BeatDetectionResult | null = null;
+  private frameCacheEnabled = false;
+  private featureTimeline: AudioFeatureTimeline | null = null;
+  private frameTime: number | null = null;
+  private lastBeatQueryTime: number | null = null;
+  private frameGridBeat: GridBeatResult | null = null;
+  private lastGridQueryTime: number | null = null;
+  private frameBandLevels: number[] | null = null;
+  private frameOnset: boolean | null = null;
+  private lastOnsetQueryTime: number | null = null;
+  private smoothedBandLevels: number[] = [];
+  private lastBandTime: number | null = null;
+
+  constructor(source?: AudioFrameSource) {
+    this.audioManager = source || AudioContextManager.getInstance();
+  }
+
+  // Switch where frames come from. Offline rendering passes the media clock so that
+  // beat cooldowns are measured in song time rather than wall-clock time.
+  setFrameSource(source: AudioFrameSource, clock?: () => number): void {
+    this.audioManager = source;
+    this.clock = clock || (() => performance.now() / 1000);
+    this.resetBeatDetection();
+  }
+
+  useLiveSource(): void {
+    this.setFrameSource(AudioContextManager.getInstance());
+  }
+
+  // Marks the start of a rendered frame. Once called, detectBeat() runs once per frame and
+  // every consumer (layers, text) sees the same result instead of racing the cooldown.
+  // Passing the song time lets readings come from the pre-analysed feature timeline.
+  beginFrame(time?: number): void {
+    this.frameCacheEnabled = true;
+    this.frameBeat = null;
+    this.frameGridBeat = null;
+    this.frameBandLevels = null;
+    this.frameOnset = null;
+    this.frameTime = time !== undefined && Number.isFinite(time) ? time : null;
+  }
+
+  resetBeatDetection(): void {
+    this.beatHistory = [];
+    this.lastBeatTime = -Infinity;
+    this.lastBeatQueryTime = null;
+    this.lastGridQueryTime = null;
+    this.lastOnsetQueryTime = null;
+    this.lastBandTime = null;
+    this.frameBeat = null;
+    this.frameGridBeat = null;
+    this.frameOnset = null;
+  }
 
-  constructor() {
-    this.audioManager = AudioContextManager.getInstance();
+  // Use a specific feature timeline instead of the one analysed for the loaded file
+  setFeatureTimeline(timeline: AudioFeatureTimeline | null): void {
+    this.featureTimeline = timeline;
+    this.lastBeatQueryTime = null;
+    this.lastGridQueryTime = null;
+    this.lastOnsetQueryTime = null;
+  }
+
+  getFeatureTimeline(): AudioFeatureTimeline | null {
+    return this.featureTimeline || AudioContextManager.getInstance().getFeatureTimeline?.() || null;
+  }
+
+  // Cached features for the current frame, or null when there is no song time or the
+  // track hasn't been analysed yet; callers then read the frame source directly
+  getFeatures(): AudioFeatureFrame | null {
+    if (this.frameTime === null) return null;
+
+    const timeline = this.getFeatureTimeline();
+    if (!timeline) return null;
+
+    return timeline.getFrameAt(this.frameTime, AudioContextManager.getInstance().getMixGain?.() ?? 1);
+  }
+
+  getBeatGrid(): BeatGrid | null {
+    return this.getFeatureTimeline()?.getBeatGrid() ?? null;
+  }
+
+  // Beat phase and bar position at the current frame, or null without a frame time or grid
+  getBeatPosition(): BeatPosition | null {
+    const grid = this.getBeatGrid();
+    if (!grid || this.frameTime === null) return null;
+    return grid.getPosition(this.frameTime);
+  }
+
+  // Beats on the tempo grid: fires once for each frame that steps over a grid line.
+  // Falls back to detectBeat() when the track has no grid yet.
+  detectGridBeat(): GridBeatResult {
+    if (this.frameCacheEnabled && this.frameGridBeat) {
+      return this.frameGridBeat;
+    }
+
+    const result = this.computeGridBeat();
+    if (this.frameCacheEnabled) {
+      this.frameGridBeat = result;
+    }
+    return result;
   }
 
   getFrequencyBands(): FrequencyBands {
-    const frequencyData = this.audioManager.getFrequencyData();
-    const bands: FrequencyBands = {
-      bass: 0,
-      lowMid: 0,
-      mid: 0,
-      highMid: 0,
-      treble: 0
-    };
+    const features = this.getFeatures();
+    if (features) {
+      return features.bands;
+    }
+    return calculateFrequencyBands(this.audioManager.getFrequencyData(), this.getSampleRate());
+  }
 
-    if (frequencyData.length === 0) return bands;
+  // Levels (0-1) of the configurable band bank, with each band's gain and smoothing applied
+  getBandLevels(): number[] {
+    if (this.frameCacheEnabled && this.frameBandLevels) {
+      return this.frameBandLevels;
+    }
 
-    // Define frequency ranges for each band
-    const bassEnd = Math.floor(frequencyData.length * 0.1);
-    const lowMidEnd = Math.floor(frequencyData.length * 0.2);
-    const midEnd = Math.floor(frequencyData.length * 0.4);
-    const highMidEnd = Math.floor(frequencyData.length * 0.7);
+    const config = frequencyBandManager.getConfig();
+    const edges = getBandEdges(config);
+    const timeline = this.frameTime !== null ? this.getFeatureTimeline() : null;
+    let raw: number[];
+    if (timeline) {
+      raw = timeline.getBandLevelsAt(this.frameTime!, edges, AudioContextManager.getInstance().getMixGain?.() ?? 1);
+    } else {
+      const frequencyData = this.audioManager.getFrequencyData();
+      raw = calculateBandLevels(frequencyData, getLinearBinEdges(frequencyData.length, this.getSampleRate()), edges);
+    }
+
+    // Smoothing follows the time between readings, so the preview and exports at any frame
+    // rate agree. After a seek, or on the first reading, levels start from the current one.
+    const time = this.frameTime ?? this.clock();
+    const previous = this.lastBandTime;
+    const dt = previous !== null && time >= previous && time - previous < 0.25 ? time - previous : null;
+    this.lastBandTime = time;
+    const carryOver = dt !== null && this.smoothedBandLevels.length === raw.length;
 
-    // Calculate average amplitude for each band
-    bands.bass = this.calculateAverage(frequencyData, 0, bassEnd);
-    bands.lowMid = this.calculateAverage(frequencyData, bassEnd, lowMidEnd);
-    bands.mid = this.calculateAverage(frequencyData, lowMidEnd, midEnd);
-    bands.highMid = this.calculateAverage(frequencyData, midEnd, highMidEnd);
-    bands.treble = this.calculateAverage(frequencyData, highMidEnd, frequencyData.length);
+    const levels = raw.map((value, i) => {
+      const { gain, smoothing } = config.bands[i];
+      const level = Math.min(1, value * gain);
+      if (!carryOver) return level;
 
-    // Normalize values to 0-1 range
-    Object.keys(bands).forEach(key => {
-      bands[key as keyof FrequencyBands] = bands[key as keyof FrequencyBands] / 255;
+      const timeConstant = smoothing > 0 ? -BAND_SMOOTHING_STEP / Math.log(smoothing) : 0;
+      const coefficient = timeConstant > 0 ? 1 - Math.exp(-dt / timeConstant) : 1;
+      return this.smoothedBandLevels[i] + (level - this.smoothedBandLevels[i]) * coefficient;
     });
+    this.smoothedBandLevels = levels;
+
+    if (this.frameCacheEnabled) {
+      this.frameBandLevels = levels;
+    }
+    return levels;
+  }
 
-    return bands;
+  // Level of a band source as used by effect parameters: a named band, 'band:<index>'
+  // from the bank, or 'none'
+  getBandValue(source: string): number {
+    if (source in NAMED_BAND_RANGES) {
+      return this.getFrequencyBands()[source as keyof FrequencyBands];
+    }
+    const index = parseBandSource(source);
+    return index !== null ? this.getBandLevels()[index] ?? 0 : 0;
   }
 
   detectBeat(): BeatDetectionResult {
-    const currentTime = performance.now() / 1000;
+    if (this.frameCacheEnabled && this.frameBeat) {
+      return this.frameBeat;
+    }
+
+    const result = this.computeBeat();
+    if (this.frameCacheEnabled) {
+      this.frameBeat = result;
+    }
+    return result;
+  }
+
+  private computeBeat(): BeatDetectionResult {
+    const features = this.getFeatures();
+    if (features) {
+      return this.computeTimelineBeat(features);
+    }
+
+    const currentTime = this.clock();
     const frequencyData = this.audioManager.getFrequencyData();
     
     if (frequencyData.length === 0) {
@@ -67,8 +237,9 @@ export class AudioAnalyzer {
     }
 
     // Focus on bass frequencies for beat detection
-    const bassEnd = Math.floor(frequencyData.length * 0.1);
-    const bassAverage = this.calculateAverage(frequencyData, 0, bassEnd);
+    const [bassLow, bassHigh] = NAMED_BAND_RANGES.bass;
+    const binEdges = getLinearBinEdges(frequencyData.length, this.getSampleRate());
+    const bassAverage = averageRange(frequencyData, binEdges, bassLow, bassHigh) * 255;
 
     // Update beat history
     this.beatHistory.push(bassAverage);
@@ -95,6 +266,79 @@ export class AudioAnalyzer {
     return { isBeat, intensity };
   }
 
+  // A beat fires if a marker lies between the previous frame and this one, so none are
+  // skipped at low frame rates. After a seek only the last analysis frame is checked.
+  private computeTimelineBeat(features: AudioFeatureFrame): BeatDetectionResult {
+    const timeline = this.getFeatureTimeline()!;
+    const from = this.getQueryStart(this.lastBeatQueryTime);
+    this.lastBeatQueryTime = this.frameTime;
+
+    return {
+      isBeat: features.rms > 0 && timeline.hasBeatBetween(from, this.frameTime!),
+      intensity: features.bands.bass
+    };
+  }
+
+  // Start of the span a marker query covers: the previous query while frames follow on,
+  // otherwise (first frame, seek, pause) the last analysis frame
+  private getQueryStart(previous: number | null): number {
+    const time = this.frameTime!;
+    if (previous !== null && time > previous && time - previous < 0.25) {
+      return previous;
+    }
+    const timeline = this.getFeatureTimeline();
+    return time - 1 / (timeline ? timeline.frameRate : 60);
+  }
+
+  // True on frames that step over an onset (any sharp attack, not only bass hits).
+  // Without a feature timeline this falls back to the beat detector.
+  detectOnset(): boolean {
+    if (this.frameCacheEnabled && this.frameOnset !== null) {
+      return this.frameOnset;
+    }
+
+    const features = this.getFeatures();
+    let onset: boolean;
+    if (features) {
+      const from = this.getQueryStart(this.lastOnsetQueryTime);
+      this.lastOnsetQueryTime = this.frameTime;
+      onset = features.rms > 0 && this.getFeatureTimeline()!.hasOnsetBetween(from, this.frameTime!);
+    } else {
+      onset = this.detectBeat().isBeat;
+    }
+
+    if (this.frameCacheEnabled) {
+      this.frameOnset = onset;
+    }
+    return onset;
+  }
+
+  private computeGridBeat(): GridBeatResult {
+    const grid = this.getBeatGrid();
+    const position = this.getBeatPosition();
+    const features = this.getFeatures();
+    if (!grid || !position || !features) {
+      return { ...this.detectBeat(), isDownbeat: false, position: null };
+    }
+
+    const time = this.frameTime!;
+    const from = this.getQueryStart(this.lastGridQueryTime);
+    this.lastGridQueryTime = time;
+
+    const crossed = features.rms > 0 ? grid.getBeatsBetween(from, time) : [];
+    return {
+      isBeat: crossed.length > 0,
+      isDownbeat: crossed.some(beat => grid.getPosition(beat + 1e-6).isDownbeat),
+      intensity: features.bands.bass,
+      position
+    };
+  }
+
+  // Raw spectrum of the current frame, 0-255 per bin from low to high frequencies
+  getFrequencyData(): Uint8Array {
+    return this.audioManager.getFrequencyData();
+  }
+
   getWaveformData(): Float32Array {
     const timeDomainData = this.audioManager.getTimeDomainData();
     const normalized = new Float32Array(timeDomainData.length);
@@ -106,19 +350,21 @@ export class AudioAnalyzer {
     return normalized;
   }
 
+  private getSampleRate(): number {
+    return this.audioManager.getSampleRate?.() || 44100;
+  }
+
   getAverageVolume(): number {
+    const features = this.getFeatures();
+    if (features) {
+      const { bass, lowMid, mid, highMid, treble } = features.bands;
+      return (bass + lowMid + mid + highMid + treble) / 5;
+    }
+
     const frequencyData = this.audioManager.getFrequencyData();
     if (frequencyData.length === 0) return 0;
 
     const sum = frequencyData.reduce((acc, val) => acc + val, 0);
     return sum / frequencyData.length / 255;
   }
-
-  private calculateAverage(data: Uint8Array, start: number, end: number): number {
-    let sum = 0;
-    for (let i = start; i < end; i++) {
-      sum += (data[i] || 0);
-    }
-    return sum / (end - start);
-  }
-}
\ No newline at end of file
+}
@@ -1,15 +1,67 @@
+import { AudioFeatureTimeline } from './AudioFeatureTimeline';
+
+// Mix settings shape the programme signal: they apply before the analyser, so the
+// visuals and the exported audio follow them, and they are saved with presets.
+export interface AudioMixSettings {
+  volume: number; // 0-1
+  muted: boolean;
+  playbackRate: number;
+}
+
+export const DEFAULT_AUDIO_MIX: AudioMixSettings = { volume: 1, muted: false, playbackRate: 1 };
+export const PLAYBACK_RATE_RANGE = { min: 0.5, max: 2 };
+
+export function normalizeAudioMix(settings: Partial<AudioMixSettings> | null | undefined): AudioMixSettings {
+  const volume = Number(settings?.volume);
+  const playbackRate = Number(settings?.playbackRate);
+  return {
+    volume: Number.isFinite(volume) ? Math.max(0, Math.min(1, volume)) : DEFAULT_AUDIO_MIX.volume,
+    muted: settings?.muted === true,
+    playbackRate: Number.isFinite(playbackRate) && playbackRate > 0
+      ? Math.max(PLAYBACK_RATE_RANGE.min, Math.min(PLAYBACK_RATE_RANGE.max, playbackRate))
+      : DEFAULT_AUDIO_MIX.playbackRate
+  };
+}
+
+function loadSaved<T>(key: string, parse: (value: any) => T, fallback: T): T {
+  // Render workers have no localStorage
+  if (typeof localStorage === 'undefined') return fallback;
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? parse(JSON.parse(saved)) : fallback;
+  } catch (error) {
+    console.error(`Failed to load ${key}:`, error);
+    return fallback;
+  }
+}
+
 export class AudioContextManager {
   private static instance: AudioContextManager;
   private audioContext: AudioContext | null = null;
   private analyser: AnalyserNode | null = null;
   private source: AudioBufferSourceNode | null = null;
   private buffer: AudioBuffer | null = null;
+  private audioFile: File | null = null; // kept so projects can be saved with their audio
   private isPlaying = false;
   private startTime = 0;
   private pauseTime = 0;
   private mediaStreamDestination: MediaStreamAudioDestinationNode | null = null;
+  // source -> mixGain -> analyser -> monitorGain -> speakers
+  //                               \-> mediaStreamDestination (realtime export)
+  private mixGain: GainNode | null = null;
+  private monitorGain: GainNode | null = null;
+  private mix: AudioMixSettings;
+  private monitorVolume: number;
+  private featureTimeline: AudioFeatureTimeline | null = null;
+  private featureAnalysis: Promise<AudioFeatureTimeline> | null = null;
 
-  private constructor() {}
+  private constructor() {
+    this.mix = loadSaved('audioVibe_audioMix', normalizeAudioMix, { ...DEFAULT_AUDIO_MIX });
+    this.monitorVolume = loadSaved('audioVibe_monitorVolume', (value) => {
+      const volume = Number(value);
+      return Number.isFinite(volume) ? Math.max(0, Math.min(1, volume)) : 1;
+    }, 1);
+  }
 
   static getInstance(): AudioContextManager {
     if (!AudioContextManager.instance) {
@@ -25,6 +77,14 @@ export class AudioContextManager {
       this.analyser.fftSize = 2048;
       this.analyser.smoothingTimeConstant = 0.8;
       this.mediaStreamDestination = this.audioContext.createMediaStreamDestination();
+      this.mixGain = this.audioContext.createGain();
+      this.monitorGain = this.audioContext.createGain();
+
+      this.mixGain.connect(this.analyser);
+      this.analyser.connect(this.monitorGain);
+      this.analyser.connect(this.mediaStreamDestination);
+      this.monitorGain.connect(this.audioContext.destination);
+      this.applyGains();
     }
   }
 
@@ -33,25 +93,81 @@ export class AudioContextManager {
     
     const arrayBuffer = await file.arrayBuffer();
     this.buffer = await this.audioContext!.decodeAudioData(arrayBuffer);
+    this.audioFile = file;
+
+    // Pre-analyse the whole track in the background
+    this.featureTimeline = null;
+    this.featureAnalysis = null;
+    this.analyzeFeatures().catch(error => {
+      console.error('Audio feature analysis failed:', error);
+    });
     
     return this.buffer;
   }
 
+  // Full-track analysis of the loaded file. Runs once per file; later calls share the result.
+  analyzeFeatures(): Promise<AudioFeatureTimeline> {
+    if (!this.buffer) {
+      return Promise.reject(new Error('No audio loaded'));
+    }
+
+    if (!this.featureAnalysis) {
+      const buffer = this.buffer;
+      this.featureAnalysis = AudioFeatureTimeline.analyze(buffer).then(timeline => {
+        if (this.buffer === buffer) {
+          this.featureTimeline = timeline;
+        }
+        return timeline;
+      });
+      // Allow a retry after a failure
+      this.featureAnalysis.catch(() => {
+        if (this.buffer === buffer) {
+          this.featureAnalysis = null;
+        }
+      });
+    }
+    return this.featureAnalysis;
+  }
+
+  // The track and its analysis as another AudioContextManager has them. A render worker has
+  // no AudioContext to decode with, so the editor's copies are handed to it.
+  useTrack(buffer: AudioBuffer | null, timeline: AudioFeatureTimeline | null): void {
+    this.buffer = buffer;
+    this.featureTimeline = timeline;
+    this.featureAnalysis = timeline ? Promise.resolve(timeline) : null;
+  }
+
+  getAudioFile(): File | null {
+    return this.audioFile;
+  }
+
+  getFeatureTimeline(): AudioFeatureTimeline | null {
+    return this.featureTimeline;
+  }
+
+  // Gain the mix applies to the file, for readings taken from the feature timeline
+  getMixGain(): number {
+    return this.mix.muted ? 0 : this.mix.volume;
+  }
+
   play(): void {
     if (!this.buffer || !this.audioContext || this.isPlaying) return;
 
     this.source = this.audioContext.createBufferSource();
     this.source.buffer = this.buffer;
-    this.source.connect(this.analyser!);
-    this.analyser!.connect(this.audioContext.destination);
-    this.analyser!.connect(this.mediaStreamDestination!);
+    this.source.playbackRate.value = this.mix.playbackRate;
+    this.source.connect(this.mixGain!);
 
     const offset = this.pauseTime;
     this.source.start(0, offset);
-    this.startTime = this.audioContext.currentTime - offset;
+    this.startTime = this.audioContext.currentTime - offset / this.mix.playbackRate;
     this.isPlaying = true;
 
-    this.source.onended = () => {
+    // Sources stopped by pause or seek end later; only the current one finishing
+    // playback resets the position
+    const source = this.source;
+    source.onended = () => {
+      if (this.source !== source || !this.isPlaying) return;
       this.isPlaying = false;
       this.pauseTime = 0;
     };
@@ -60,8 +176,8 @@ export class AudioContextManager {
   pause(): void {
     if (!this.source || !this.audioContext || !this.isPlaying) return;
 
+    this.pauseTime = this.getCurrentTime();
     this.source.stop();
-    this.pauseTime = this.audioContext.currentTime - this.startTime;
     this.isPlaying = false;
   }
 
@@ -73,11 +189,13 @@ export class AudioContextManager {
     this.pauseTime = 0;
   }
 
+  // Position in the song in seconds. With a playback rate other than 1 this runs
+  // faster or slower than the wall clock.
   getCurrentTime(): number {
     if (!this.audioContext) return 0;
     
     if (this.isPlaying) {
-      return this.audioContext.currentTime - this.startTime;
+      return (this.audioContext.currentTime - this.startTime) * this.mix.playbackRate;
     }
     return this.pauseTime;
   }
@@ -86,6 +204,42 @@ export class AudioContextManager {
     return this.buffer?.duration || 0;
   }
 
+  // Length of the played (and exported) audio once the playback rate is applied
+  getPlaybackDuration(): number {
+    return this.getDuration() / this.mix.playbackRate;
+  }
+
+  getBuffer(): AudioBuffer | null {
+    return this.buffer;
+  }
+
+  // Render the playback graph through an OfflineAudioContext so export gets the same
+  // signal the speakers would, without waiting for real-time playback.
+  async renderOffline(sampleRate = 48000): Promise<AudioBuffer> {
+    if (!this.buffer) {
+      throw new Error('No audio loaded');
+    }
+
+    const length = Math.ceil(this.getPlaybackDuration() * sampleRate);
+    const offlineContext = new OfflineAudioContext(this.buffer.numberOfChannels, length, sampleRate);
+    const source = offlineContext.createBufferSource();
+    source.buffer = this.buffer;
+    source.playbackRate.value = this.mix.playbackRate;
+
+    // Export level follows the mix settings, never the monitor volume
+    const gain = offlineContext.createGain();
+    gain.gain.value = this.getMixGain();
+    source.connect(gain);
+    gain.connect(offlineContext.destination);
+    source.start(0);
+
+    return offlineContext.startRendering();
+  }
+
+  getSampleRate(): number {
+    return this.audioContext?.sampleRate || 44100;
+  }
+
   getFrequencyData(): Uint8Array {
     if (!this.analyser) return new Uint8Array(0);
 
@@ -122,10 +276,70 @@ export class AudioContextManager {
     }
   }
 
-  setVolume(_volume: number): void {
-    // Note: Web Audio API doesn't have built-in volume control on AudioContext
-    // This would typically be implemented with a GainNode
-    // For now, we'll store it but not implement until we add GainNode support
+  setVolume(volume: number): void {
+    this.setMixSettings({ volume });
+  }
+
+  getVolume(): number {
+    return this.mix.volume;
+  }
+
+  setMuted(muted: boolean): void {
+    this.setMixSettings({ muted });
+  }
+
+  isMuted(): boolean {
+    return this.mix.muted;
+  }
+
+  setPlaybackRate(rate: number): void {
+    this.setMixSettings({ playbackRate: rate });
+  }
+
+  getPlaybackRate(): number {
+    return this.mix.playbackRate;
+  }
+
+  setMixSettings(settings: Partial<AudioMixSettings>): void {
+    const position = this.getCurrentTime();
+    this.mix = normalizeAudioMix({ ...this.mix, ...settings });
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem('audioVibe_audioMix', JSON.stringify(this.mix));
+    }
+
+    // Re-anchor the clock so the song position carries on from where it was
+    if (this.isPlaying && this.source && this.audioContext) {
+      this.source.playbackRate.value = this.mix.playbackRate;
+      this.startTime = this.audioContext.currentTime - position / this.mix.playbackRate;
+    }
+    this.applyGains();
+  }
+
+  getMixSettings(): AudioMixSettings {
+    return { ...this.mix };
+  }
+
+  // Editor listening level. Only the speakers follow it; the analyser and the
+  // exported audio do not.
+  setMonitorVolume(volume: number): void {
+    this.monitorVolume = Math.max(0, Math.min(1, volume));
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem('audioVibe_monitorVolume', JSON.stringify(this.monitorVolume));
+    }
+    this.applyGains();
+  }
+
+  getMonitorVolume(): number {
+    return this.monitorVolume;
+  }
+
+  private applyGains(): void {
+    if (this.mixGain) {
+      this.mixGain.gain.value = this.getMixGain();
+    }
+    if (this.monitorGain) {
+      this.monitorGain.gain.value = this.monitorVolume;
+    }
   }
 
   getAnalyzer(): AnalyserNode | null {
@@ -143,7 +357,12 @@ export class AudioContextManager {
       this.audioContext = null;
     }
     this.analyser = null;
+    this.mixGain = null;
+    this.monitorGain = null;
+    this.mediaStreamDestination = null;
     this.source = null;
     this.buffer = null;
+    this.featureTimeline = null;
+    this.featureAnalysis = null;
   }
 }
\ No newline at end of file
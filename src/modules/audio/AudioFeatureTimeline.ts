@@ -0,0 +1,358 @@
+import type { FrequencyBands } from './AudioAnalyzer';
+import { BeatGrid } from './BeatGrid';
+import { BufferAudioSource } from './BufferAudioSource';
+import { averageRange, calculateBandLevels, calculateFrequencyBands, getLinearBinEdges } from './FrequencyBands';
+
+// Audio features at one point of the song
+export interface AudioFeatureFrame {
+  time: number; // seconds
+  bands: FrequencyBands;
+  rms: number;
+  peak: number;
+  centroid: number; // spectral centroid in Hz
+  flux: number; // onset strength, 0-1
+}
+
+// A timeline as plain data, e.g. to post it to a render worker
+export interface AudioFeatureTimelineData {
+  frameRate: number;
+  duration: number;
+  bands: Float32Array[];
+  rms: Float32Array;
+  peak: Float32Array;
+  centroid: Float32Array;
+  flux: Float32Array;
+  spectrum: Uint8Array;
+  spectrumEdges: number[];
+  beats: number[];
+  onsets: number[];
+  beatGrid: { bpm: number; offset: number; beatsPerBar: number; downbeat: number; confidence: number } | null;
+}
+
+export interface FeatureAnalysisOptions {
+  frameRate?: number;
+  fftSize?: number;
+  onProgress?: (progress: number) => void;
+}
+
+const BAND_KEYS: (keyof FrequencyBands)[] = ['bass', 'lowMid', 'mid', 'highMid', 'treble'];
+const DEFAULT_FRAME_RATE = 60;
+const DECIBEL_RANGE = 70; // BufferAudioSource maps -100..-30 dB onto 0-255
+const BEAT_MAX_FREQUENCY = 150; // Hz
+const MIN_MARKER_INTERVAL = 0.1; // seconds, same as the live detector's cooldown
+const PEAK_WINDOW = 0.5; // seconds either side for the adaptive threshold
+const PEAK_SENSITIVITY = 1.5; // standard deviations above the local mean
+const FRAMES_PER_YIELD = 240;
+const SPECTRUM_BINS = 128; // log-spaced levels kept per frame for the band bank
+const SPECTRUM_MIN_FREQUENCY = 20;
+
+// Features for a whole track, computed once when a file loads. Values are looked up by
+// song time, so every render of a given moment (preview, scrubbing, export at any fps)
+// sees the same numbers no matter how playback got there.
+export class AudioFeatureTimeline {
+  readonly frameRate: number;
+  readonly duration: number;
+  private frameCount: number;
+  private bands: Float32Array[];
+  private rms: Float32Array;
+  private peak: Float32Array;
+  private centroid: Float32Array;
+  private flux: Float32Array;
+  private spectrum: Uint8Array;
+  private spectrumEdges: number[];
+  private beats: number[] = [];
+  private onsets: number[] = [];
+  private beatGrid: BeatGrid | null = null;
+
+  private constructor(frameRate: number, duration: number, frameCount: number, sampleRate: number) {
+    this.frameRate = frameRate;
+    this.duration = duration;
+    this.frameCount = frameCount;
+    this.bands = BAND_KEYS.map(() => new Float32Array(frameCount));
+    this.rms = new Float32Array(frameCount);
+    this.peak = new Float32Array(frameCount);
+    this.centroid = new Float32Array(frameCount);
+    this.flux = new Float32Array(frameCount);
+    this.spectrum = new Uint8Array(frameCount * SPECTRUM_BINS);
+    const maxFrequency = Math.min(20000, sampleRate / 2);
+    this.spectrumEdges = Array.from({ length: SPECTRUM_BINS + 1 }, (_, i) =>
+      SPECTRUM_MIN_FREQUENCY * Math.pow(maxFrequency / SPECTRUM_MIN_FREQUENCY, i / SPECTRUM_BINS)
+    );
+  }
+
+  // Walk the buffer with the same analyser emulation used for offline export, yielding
+  // to the event loop now and then so the UI stays responsive on long tracks
+  static async analyze(buffer: AudioBuffer, options: FeatureAnalysisOptions = {}): Promise<AudioFeatureTimeline> {
+    const frameRate = options.frameRate ?? DEFAULT_FRAME_RATE;
+    const fftSize = options.fftSize ?? 2048;
+    const frameCount = Math.max(1, Math.ceil(buffer.duration * frameRate));
+    const timeline = new AudioFeatureTimeline(frameRate, buffer.duration, frameCount, buffer.sampleRate);
+
+    const source = new BufferAudioSource(buffer, { fftSize });
+    const samples = BufferAudioSource.mixToMono(buffer);
+    const hop = buffer.sampleRate / frameRate;
+    const binHz = buffer.sampleRate / fftSize;
+    const beatBins = Math.max(1, Math.round(BEAT_MAX_FREQUENCY / binHz));
+    const beatFlux = new Float32Array(frameCount);
+    let previous: Uint8Array | null = null;
+
+    for (let i = 0; i < frameCount; i++) {
+      const time = i / frameRate;
+      source.setTime(time);
+      const data = source.getFrequencyData();
+
+      const bands = calculateFrequencyBands(data, buffer.sampleRate);
+      BAND_KEYS.forEach((key, index) => {
+        timeline.bands[index][i] = bands[key];
+      });
+
+      const binEdges = getLinearBinEdges(data.length, buffer.sampleRate);
+      for (let b = 0; b < SPECTRUM_BINS; b++) {
+        const level = averageRange(data, binEdges, timeline.spectrumEdges[b], timeline.spectrumEdges[b + 1]);
+        timeline.spectrum[i * SPECTRUM_BINS + b] = Math.round(level * 255);
+      }
+
+      // Level over the hop that ends at this frame, like a meter polled every frame
+      const end = Math.min(samples.length, Math.floor(time * buffer.sampleRate));
+      const start = Math.max(0, Math.floor(end - hop));
+      let sumSquares = 0;
+      let peak = 0;
+      for (let s = start; s < end; s++) {
+        sumSquares += samples[s] * samples[s];
+        peak = Math.max(peak, Math.abs(samples[s]));
+      }
+      timeline.rms[i] = end > start ? Math.sqrt(sumSquares / (end - start)) : 0;
+      timeline.peak[i] = peak;
+
+      let weighted = 0;
+      let total = 0;
+      let flux = 0;
+      let lowFlux = 0;
+      for (let k = 0; k < data.length; k++) {
+        weighted += k * binHz * data[k];
+        total += data[k];
+        const rise = previous ? Math.max(0, data[k] - previous[k]) : 0;
+        flux += rise;
+        if (k < beatBins) lowFlux += rise;
+      }
+      timeline.centroid[i] = total > 0 ? weighted / total : 0;
+      timeline.flux[i] = flux / (data.length * 255);
+      beatFlux[i] = lowFlux / (beatBins * 255);
+      previous = data;
+
+      if (i % FRAMES_PER_YIELD === FRAMES_PER_YIELD - 1) {
+        options.onProgress?.(i / frameCount);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+
+    timeline.beats = AudioFeatureTimeline.pickPeaks(beatFlux, frameRate);
+    timeline.onsets = AudioFeatureTimeline.pickPeaks(timeline.flux, frameRate);
+
+    // Bass onsets drive the tempo estimate; the bass level marks the downbeats
+    const onsetStrength = beatFlux.map((value, i) => value + timeline.flux[i]);
+    timeline.beatGrid = BeatGrid.estimate(onsetStrength, frameRate, timeline.bands[0]);
+    options.onProgress?.(1);
+    return timeline;
+  }
+
+  toData(): AudioFeatureTimelineData {
+    const grid = this.beatGrid;
+    return {
+      frameRate: this.frameRate,
+      duration: this.duration,
+      bands: this.bands,
+      rms: this.rms,
+      peak: this.peak,
+      centroid: this.centroid,
+      flux: this.flux,
+      spectrum: this.spectrum,
+      spectrumEdges: this.spectrumEdges,
+      beats: this.beats,
+      onsets: this.onsets,
+      beatGrid: grid && {
+        bpm: grid.bpm,
+        offset: grid.offset,
+        beatsPerBar: grid.beatsPerBar,
+        downbeat: grid.downbeat,
+        confidence: grid.confidence
+      }
+    };
+  }
+
+  static fromData(data: AudioFeatureTimelineData): AudioFeatureTimeline {
+    const timeline = new AudioFeatureTimeline(data.frameRate, data.duration, 0, 0);
+    timeline.frameCount = data.rms.length;
+    timeline.bands = data.bands;
+    timeline.rms = data.rms;
+    timeline.peak = data.peak;
+    timeline.centroid = data.centroid;
+    timeline.flux = data.flux;
+    timeline.spectrum = data.spectrum;
+    timeline.spectrumEdges = data.spectrumEdges;
+    timeline.beats = data.beats;
+    timeline.onsets = data.onsets;
+    const grid = data.beatGrid;
+    timeline.beatGrid = grid && new BeatGrid(grid.bpm, grid.offset, grid.beatsPerBar, grid.downbeat, grid.confidence);
+    return timeline;
+  }
+
+  getFrameCount(): number {
+    return this.frameCount;
+  }
+
+  // Features at the given song time. `gain` is the mix gain: the analysis ran on the
+  // unprocessed file, and the readings should follow the volume like the live analyser.
+  getFrameAt(time: number, gain = 1): AudioFeatureFrame {
+    const index = this.getFrameIndex(time);
+    const level = Math.max(0, gain);
+    const shift = AudioFeatureTimeline.getGainShift(level);
+
+    const bands = {} as FrequencyBands;
+    BAND_KEYS.forEach((key, b) => {
+      bands[key] = AudioFeatureTimeline.shiftLevel(this.bands[b][index], shift);
+    });
+
+    return {
+      time: index / this.frameRate,
+      bands,
+      rms: this.rms[index] * level,
+      peak: this.peak[index] * level,
+      centroid: level > 0 ? this.centroid[index] : 0,
+      flux: this.flux[index] * Math.min(1, level)
+    };
+  }
+
+  // Levels (0-1) of arbitrary bands given by their edges in Hz, from the stored spectrum
+  getBandLevelsAt(time: number, bandEdges: number[], gain = 1): number[] {
+    const index = this.getFrameIndex(time);
+    const levels = this.spectrum.subarray(index * SPECTRUM_BINS, (index + 1) * SPECTRUM_BINS);
+    const shift = AudioFeatureTimeline.getGainShift(Math.max(0, gain));
+    return calculateBandLevels(levels, this.spectrumEdges, bandEdges)
+      .map(value => AudioFeatureTimeline.shiftLevel(value, shift));
+  }
+
+  getBeats(): number[] {
+    return [...this.beats];
+  }
+
+  getOnsets(): number[] {
+    return [...this.onsets];
+  }
+
+  // Tempo grid fitted to the whole track, or null if it has no steady pulse
+  getBeatGrid(): BeatGrid | null {
+    return this.beatGrid;
+  }
+
+  // True if a beat marker falls in (from, to]
+  hasBeatBetween(from: number, to: number): boolean {
+    return AudioFeatureTimeline.hasMarkerBetween(this.beats, from, to);
+  }
+
+  // True if an onset marker falls in (from, to]
+  hasOnsetBetween(from: number, to: number): boolean {
+    return AudioFeatureTimeline.hasMarkerBetween(this.onsets, from, to);
+  }
+
+  // Onsets where the level jumps well above what came before, e.g. a drop after a
+  // build-up. Spaced at least `minSpacing` seconds apart.
+  findDrops(minRatio = 1.6, minSpacing = 8): number[] {
+    const mean = this.rms.reduce((sum, value) => sum + value, 0) / this.frameCount;
+    const drops: number[] = [];
+
+    for (const onset of this.onsets) {
+      const before = this.averageRms(onset - 2, onset);
+      const after = this.averageRms(onset, onset + 1);
+      if (after >= mean && after >= before * minRatio && (drops.length === 0 || onset - drops[drops.length - 1] >= minSpacing)) {
+        drops.push(onset);
+      }
+    }
+    return drops;
+  }
+
+  // Loudness outline for drawing, scaled so the loudest point is 1
+  getEnvelope(points: number): number[] {
+    const envelope: number[] = [];
+    let max = 0;
+    for (let p = 0; p < points; p++) {
+      const start = Math.floor((p / points) * this.frameCount);
+      const end = Math.max(start + 1, Math.floor(((p + 1) / points) * this.frameCount));
+      let value = 0;
+      for (let i = start; i < end && i < this.frameCount; i++) {
+        value = Math.max(value, this.rms[i]);
+      }
+      envelope.push(value);
+      max = Math.max(max, value);
+    }
+    return max > 0 ? envelope.map(value => value / max) : envelope;
+  }
+
+  // The analyser works in decibels, so a gain change moves every level by the same amount
+  private static getGainShift(gain: number): number {
+    return gain > 0 ? (20 * Math.log10(gain)) / DECIBEL_RANGE : -Infinity;
+  }
+
+  private static shiftLevel(value: number, shift: number): number {
+    return value > 0 ? Math.max(0, Math.min(1, value + shift)) : 0;
+  }
+
+  private getFrameIndex(time: number): number {
+    const index = Math.floor(time * this.frameRate);
+    return Math.max(0, Math.min(this.frameCount - 1, Number.isFinite(index) ? index : 0));
+  }
+
+  private averageRms(from: number, to: number): number {
+    const start = this.getFrameIndex(from);
+    const end = Math.max(start + 1, this.getFrameIndex(to));
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      sum += this.rms[i];
+    }
+    return sum / (end - start);
+  }
+
+  private static hasMarkerBetween(markers: number[], from: number, to: number): boolean {
+    let low = 0;
+    let high = markers.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (markers[mid] <= from) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low < markers.length && markers[low] <= to;
+  }
+
+  // Local maxima that stand out from their surroundings
+  private static pickPeaks(values: Float32Array, frameRate: number): number[] {
+    const markers: number[] = [];
+    const half = Math.max(1, Math.round(frameRate * PEAK_WINDOW));
+    let last = -Infinity;
+
+    for (let i = 0; i < values.length; i++) {
+      const value = values[i];
+      if (value <= 0) continue;
+      if (i > 0 && value < values[i - 1]) continue;
+      if (i < values.length - 1 && value <= values[i + 1]) continue;
+
+      const start = Math.max(0, i - half);
+      const end = Math.min(values.length, i + half + 1);
+      let sum = 0;
+      for (let j = start; j < end; j++) sum += values[j];
+      const mean = sum / (end - start);
+      let variance = 0;
+      for (let j = start; j < end; j++) variance += Math.pow(values[j] - mean, 2);
+      const threshold = mean + Math.sqrt(variance / (end - start)) * PEAK_SENSITIVITY;
+
+      const time = i / frameRate;
+      if (value > threshold && time - last >= MIN_MARKER_INTERVAL) {
+        markers.push(time);
+        last = time;
+      }
+    }
+    return markers;
+  }
+}
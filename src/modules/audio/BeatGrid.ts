@@ -0,0 +1,227 @@
+// Where a moment falls on the beat grid
+export interface BeatPosition {
+  beat: number; // index of the current beat, negative before the first one
+  beatPhase: number; // 0-1 within the current beat
+  bar: number;
+  beatInBar: number; // 0 is the downbeat
+  barPhase: number; // 0-1 within the current bar
+  isDownbeat: boolean;
+}
+
+export interface BeatGridOptions {
+  minBpm?: number;
+  maxBpm?: number;
+  beatsPerBar?: number;
+}
+
+const DEFAULT_MIN_BPM = 60;
+const DEFAULT_MAX_BPM = 180;
+const PREFERRED_BPM = 120; // centre of the tempo prior that settles half/double-time ties
+const BPM_REFINE_RANGE = 3; // BPM either side of the autocorrelation estimate
+const BPM_REFINE_STEP = 0.05;
+const MIN_CONFIDENCE = 1.2; // best grid score relative to an average one
+
+// A constant-tempo grid of beats and bars. Beat 0 sits at `offset` seconds and bars
+// start on every beat whose index is `downbeat` modulo `beatsPerBar`.
+export class BeatGrid {
+  readonly bpm: number;
+  readonly offset: number;
+  readonly beatsPerBar: number;
+  readonly downbeat: number;
+  readonly confidence: number;
+
+  constructor(bpm: number, offset: number, beatsPerBar = 4, downbeat = 0, confidence = 1) {
+    this.bpm = bpm;
+    this.beatsPerBar = Math.max(1, Math.round(beatsPerBar));
+    this.downbeat = ((Math.round(downbeat) % this.beatsPerBar) + this.beatsPerBar) % this.beatsPerBar;
+    this.confidence = confidence;
+    // Keep the first beat within one interval of the start
+    const interval = 60 / bpm;
+    this.offset = ((offset % interval) + interval) % interval;
+  }
+
+  getBeatInterval(): number {
+    return 60 / this.bpm;
+  }
+
+  getBeatTime(beat: number): number {
+    return this.offset + beat * this.getBeatInterval();
+  }
+
+  getPosition(time: number): BeatPosition {
+    const beats = (time - this.offset) / this.getBeatInterval();
+    const beat = Math.floor(beats);
+    const beatPhase = beats - beat;
+    const fromDownbeat = beat - this.downbeat;
+    const bar = Math.floor(fromDownbeat / this.beatsPerBar);
+    const beatInBar = fromDownbeat - bar * this.beatsPerBar;
+
+    return {
+      beat,
+      beatPhase,
+      bar,
+      beatInBar,
+      barPhase: (beatInBar + beatPhase) / this.beatsPerBar,
+      isDownbeat: beatInBar === 0
+    };
+  }
+
+  // Beat times in (from, to]
+  getBeatsBetween(from: number, to: number): number[] {
+    const interval = this.getBeatInterval();
+    const times: number[] = [];
+    for (let beat = Math.floor((from - this.offset) / interval) + 1; this.getBeatTime(beat) <= to; beat++) {
+      if (this.getBeatTime(beat) > from) {
+        times.push(this.getBeatTime(beat));
+      }
+    }
+    return times;
+  }
+
+  // Bar start times in (from, to]
+  getBarsBetween(from: number, to: number): number[] {
+    return this.getBeatsBetween(from, to).filter(time => this.getPosition(time + 1e-6).isDownbeat);
+  }
+
+  withBeatsPerBar(beatsPerBar: number, downbeat = this.downbeat): BeatGrid {
+    return new BeatGrid(this.bpm, this.offset, beatsPerBar, downbeat, this.confidence);
+  }
+
+  // Fit a grid to an onset strength curve sampled at `frameRate`. `accents` (e.g. bass
+  // level per frame) picks which beat of the bar is the downbeat. Returns null when the
+  // curve shows no steady pulse, such as silence or free-time material.
+  static estimate(
+    onsetStrength: Float32Array,
+    frameRate: number,
+    accents?: Float32Array,
+    options: BeatGridOptions = {}
+  ): BeatGrid | null {
+    const minBpm = options.minBpm ?? DEFAULT_MIN_BPM;
+    const maxBpm = options.maxBpm ?? DEFAULT_MAX_BPM;
+    const beatsPerBar = options.beatsPerBar ?? 4;
+
+    const roughBpm = estimateTempo(onsetStrength, frameRate, minBpm, maxBpm);
+    if (roughBpm === null) return null;
+
+    // Autocorrelation only resolves whole-frame lags, so search around it for the tempo
+    // whose grid lines up best with the onsets over the whole track
+    let best = { bpm: roughBpm, offset: 0, score: -Infinity, mean: 0 };
+    const low = Math.max(minBpm, roughBpm - BPM_REFINE_RANGE);
+    const high = Math.min(maxBpm, roughBpm + BPM_REFINE_RANGE);
+    for (let bpm = low; bpm <= high + 1e-9; bpm += BPM_REFINE_STEP) {
+      const fit = fitPhase(onsetStrength, frameRate, 60 / bpm);
+      if (fit.score > best.score) {
+        best = { bpm, ...fit };
+      }
+    }
+
+    const confidence = best.mean > 0 ? best.score / best.mean : 0;
+    if (confidence < MIN_CONFIDENCE) return null;
+
+    const bpm = Math.round(best.bpm * 100) / 100;
+    const grid = new BeatGrid(bpm, best.offset, beatsPerBar, 0, confidence);
+    return grid.withBeatsPerBar(beatsPerBar, findDownbeat(grid, accents || onsetStrength, frameRate));
+  }
+}
+
+// Tempo from the autocorrelation of the onset curve, weighted towards moderate tempos
+export function estimateTempo(
+  onsetStrength: Float32Array,
+  frameRate: number,
+  minBpm = DEFAULT_MIN_BPM,
+  maxBpm = DEFAULT_MAX_BPM
+): number | null {
+  const length = onsetStrength.length;
+  const mean = onsetStrength.reduce((sum, value) => sum + value, 0) / Math.max(1, length);
+  const centred = onsetStrength.map(value => value - mean);
+
+  const minLag = Math.max(1, Math.floor((60 / maxBpm) * frameRate));
+  const maxLag = Math.min(length - 1, Math.ceil((60 / minBpm) * frameRate));
+  if (maxLag <= minLag) return null;
+
+  const correlation = new Float32Array(maxLag + 2);
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < length; i++) {
+      sum += centred[i] * centred[i + lag];
+    }
+    correlation[lag] = sum / (length - lag);
+  }
+
+  let bestLag = -1;
+  let bestScore = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = (60 * frameRate) / lag;
+    const prior = Math.exp(-0.5 * Math.pow(Math.log2(bpm / PREFERRED_BPM), 2));
+    const score = correlation[lag] * prior;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  if (bestLag < 0) return null;
+
+  // Parabolic interpolation between neighbouring lags
+  const before = correlation[bestLag - 1];
+  const at = correlation[bestLag];
+  const after = correlation[bestLag + 1];
+  const curvature = before - 2 * at + after;
+  const shift = curvature < 0 ? Math.max(-0.5, Math.min(0.5, (before - after) / (2 * curvature))) : 0;
+
+  return (60 * frameRate) / (bestLag + shift);
+}
+
+function sampleAt(values: Float32Array, position: number): number {
+  const index = Math.floor(position);
+  if (index < 0 || index >= values.length) return 0;
+  const next = index + 1 < values.length ? values[index + 1] : values[index];
+  return values[index] + (next - values[index]) * (position - index);
+}
+
+// Best beat offset for a given interval, and the average score over all offsets
+function fitPhase(values: Float32Array, frameRate: number, interval: number): { offset: number; score: number; mean: number } {
+  const step = interval * frameRate;
+  const phases = Math.max(1, Math.floor(step));
+  let bestOffset = 0;
+  let bestScore = -Infinity;
+  let total = 0;
+
+  for (let p = 0; p < phases; p++) {
+    let score = 0;
+    let count = 0;
+    for (let position = p; position < values.length; position += step) {
+      score += sampleAt(values, position);
+      count++;
+    }
+    score /= Math.max(1, count);
+    total += score;
+    if (score > bestScore) {
+      bestScore = score;
+      bestOffset = p / frameRate;
+    }
+  }
+
+  return { offset: bestOffset, score: bestScore, mean: total / phases };
+}
+
+// The beat of the bar that carries the most accent
+function findDownbeat(grid: BeatGrid, accents: Float32Array, frameRate: number): number {
+  const scores = new Array(grid.beatsPerBar).fill(0);
+  const counts = new Array(grid.beatsPerBar).fill(0);
+  const duration = accents.length / frameRate;
+
+  for (let beat = 0; grid.getBeatTime(beat) < duration; beat++) {
+    scores[beat % grid.beatsPerBar] += sampleAt(accents, grid.getBeatTime(beat) * frameRate);
+    counts[beat % grid.beatsPerBar]++;
+  }
+
+  let downbeat = 0;
+  scores.forEach((score, index) => {
+    const average = counts[index] > 0 ? score / counts[index] : 0;
+    const best = counts[downbeat] > 0 ? scores[downbeat] / counts[downbeat] : 0;
+    if (average > best * 1.05) {
+      downbeat = index;
+    }
+  });
+  return downbeat;
+}
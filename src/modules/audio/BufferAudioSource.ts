@@ -0,0 +1,123 @@
+import { FFT, createBlackmanWindow } from './FFT';
+import { AudioFrameSource } from './AudioAnalyzer';
+
+export interface BufferAudioSourceOptions {
+  fftSize?: number;
+  smoothingTimeConstant?: number;
+  minDecibels?: number;
+  maxDecibels?: number;
+}
+
+// Serves AnalyserNode-compatible frames from a decoded AudioBuffer at an explicit
+// timestamp, so visuals can be rendered without the audio actually playing.
+export class BufferAudioSource implements AudioFrameSource {
+  private samples: Float32Array;
+  private sampleRate: number;
+  private duration: number;
+  private fftSize: number;
+  private smoothingTimeConstant: number;
+  private minDecibels: number;
+  private maxDecibels: number;
+  private fft: FFT;
+  private window: Float32Array;
+  private real: Float32Array;
+  private imag: Float32Array;
+  private smoothedMagnitudes: Float32Array;
+  private frequencyData: Uint8Array;
+  private timeDomainData: Uint8Array;
+  private currentTime = 0;
+
+  constructor(buffer: AudioBuffer, options: BufferAudioSourceOptions = {}) {
+    this.fftSize = options.fftSize ?? 2048;
+    this.smoothingTimeConstant = options.smoothingTimeConstant ?? 0.8;
+    this.minDecibels = options.minDecibels ?? -100;
+    this.maxDecibels = options.maxDecibels ?? -30;
+    this.sampleRate = buffer.sampleRate;
+    this.duration = buffer.duration;
+    this.samples = BufferAudioSource.mixToMono(buffer);
+
+    this.fft = new FFT(this.fftSize);
+    this.window = createBlackmanWindow(this.fftSize);
+    this.real = new Float32Array(this.fftSize);
+    this.imag = new Float32Array(this.fftSize);
+    this.smoothedMagnitudes = new Float32Array(this.fftSize / 2);
+    this.frequencyData = new Uint8Array(this.fftSize / 2);
+    this.timeDomainData = new Uint8Array(this.fftSize / 2);
+
+    this.setTime(0);
+  }
+
+  // Moves the analysis window so that it ends at `time` (seconds) and recomputes
+  // the frame. Smoothing carries over from the previous call, exactly like an
+  // AnalyserNode polled once per frame.
+  setTime(time: number): void {
+    this.currentTime = Math.max(0, Math.min(time, this.duration));
+    const endSample = Math.floor(this.currentTime * this.sampleRate);
+    const startSample = endSample - this.fftSize;
+
+    for (let i = 0; i < this.fftSize; i++) {
+      const index = startSample + i;
+      const sample = index >= 0 && index < this.samples.length ? this.samples[index] : 0;
+      this.real[i] = sample * this.window[i];
+      this.imag[i] = 0;
+
+      // Byte time-domain data covers the most recent half window
+      if (i >= this.fftSize / 2) {
+        const byteValue = 128 * (1 + sample);
+        this.timeDomainData[i - this.fftSize / 2] = Math.max(0, Math.min(255, Math.floor(byteValue)));
+      }
+    }
+
+    this.fft.forward(this.real, this.imag);
+
+    const range = this.maxDecibels - this.minDecibels;
+    const tau = this.smoothingTimeConstant;
+    for (let k = 0; k < this.fftSize / 2; k++) {
+      const magnitude = Math.hypot(this.real[k], this.imag[k]) / this.fftSize;
+      const smoothed = tau * this.smoothedMagnitudes[k] + (1 - tau) * magnitude;
+      this.smoothedMagnitudes[k] = smoothed;
+
+      const decibels = smoothed > 0 ? 20 * Math.log10(smoothed) : this.minDecibels;
+      const scaled = (255 / range) * (decibels - this.minDecibels);
+      this.frequencyData[k] = Math.max(0, Math.min(255, Math.floor(scaled)));
+    }
+  }
+
+  // Clears smoothing history, e.g. before starting a new render pass
+  reset(): void {
+    this.smoothedMagnitudes.fill(0);
+    this.setTime(0);
+  }
+
+  getCurrentTime(): number {
+    return this.currentTime;
+  }
+
+  getDuration(): number {
+    return this.duration;
+  }
+
+  getSampleRate(): number {
+    return this.sampleRate;
+  }
+
+  getFrequencyData(): Uint8Array {
+    return this.frequencyData.slice();
+  }
+
+  getTimeDomainData(): Uint8Array {
+    return this.timeDomainData.slice();
+  }
+
+  static mixToMono(buffer: AudioBuffer): Float32Array {
+    const mono = new Float32Array(buffer.length);
+    const channelCount = buffer.numberOfChannels;
+    for (let channel = 0; channel < channelCount; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) {
+        mono[i] += data[i] / channelCount;
+      }
+    }
+    return mono;
+  }
+}
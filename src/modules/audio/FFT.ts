@@ -0,0 +1,81 @@
+// Radix-2 in-place FFT used for analysing decoded audio outside of an AnalyserNode
+export class FFT {
+  readonly size: number;
+  private cosTable: Float32Array;
+  private sinTable: Float32Array;
+  private reverseTable: Uint32Array;
+
+  constructor(size: number) {
+    if (size < 2 || (size & (size - 1)) !== 0) {
+      throw new Error(`FFT size must be a power of two, got ${size}`);
+    }
+
+    this.size = size;
+    this.cosTable = new Float32Array(size / 2);
+    this.sinTable = new Float32Array(size / 2);
+    for (let i = 0; i < size / 2; i++) {
+      this.cosTable[i] = Math.cos((2 * Math.PI * i) / size);
+      this.sinTable[i] = Math.sin((2 * Math.PI * i) / size);
+    }
+
+    const bits = Math.log2(size);
+    this.reverseTable = new Uint32Array(size);
+    for (let i = 0; i < size; i++) {
+      let reversed = 0;
+      for (let b = 0; b < bits; b++) {
+        reversed = (reversed << 1) | ((i >> b) & 1);
+      }
+      this.reverseTable[i] = reversed;
+    }
+  }
+
+  // Transforms real/imag in place
+  forward(real: Float32Array, imag: Float32Array): void {
+    const n = this.size;
+
+    for (let i = 0; i < n; i++) {
+      const j = this.reverseTable[i];
+      if (j > i) {
+        const tr = real[i];
+        real[i] = real[j];
+        real[j] = tr;
+        const ti = imag[i];
+        imag[i] = imag[j];
+        imag[j] = ti;
+      }
+    }
+
+    for (let blockSize = 2; blockSize <= n; blockSize *= 2) {
+      const halfSize = blockSize / 2;
+      const tableStep = n / blockSize;
+      for (let start = 0; start < n; start += blockSize) {
+        for (let k = 0; k < halfSize; k++) {
+          const cos = this.cosTable[k * tableStep];
+          const sin = this.sinTable[k * tableStep];
+          const even = start + k;
+          const odd = even + halfSize;
+          const tr = real[odd] * cos + imag[odd] * sin;
+          const ti = imag[odd] * cos - real[odd] * sin;
+          real[odd] = real[even] - tr;
+          imag[odd] = imag[even] - ti;
+          real[even] += tr;
+          imag[even] += ti;
+        }
+      }
+    }
+  }
+}
+
+// Blackman window, matching the one AnalyserNode applies before its FFT
+export function createBlackmanWindow(size: number): Float32Array {
+  const window = new Float32Array(size);
+  const alpha = 0.16;
+  const a0 = (1 - alpha) / 2;
+  const a1 = 0.5;
+  const a2 = alpha / 2;
+  for (let i = 0; i < size; i++) {
+    const x = i / size;
+    window[i] = a0 - a1 * Math.cos(2 * Math.PI * x) + a2 * Math.cos(4 * Math.PI * x);
+  }
+  return window;
+}
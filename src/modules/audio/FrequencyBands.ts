@@ -0,0 +1,255 @@
+import type { FrequencyBands } from './AudioAnalyzer';
+
+export type BandSpacing = 'log' | 'mel';
+
+// Per-band shaping applied after the level is measured
+export interface BandSettings {
+  gain: number; // linear, 1 = unchanged
+  smoothing: number; // 0-1, how much of the level carries over per 1/60 s of song time
+}
+
+// The configurable band bank: `count` bands between two frequencies
+export interface FrequencyBandConfig {
+  count: number;
+  minFrequency: number; // Hz
+  maxFrequency: number; // Hz
+  spacing: BandSpacing;
+  bands: BandSettings[];
+}
+
+// Fixed ranges behind the five named bands every effect reads
+export const NAMED_BAND_RANGES: Record<keyof FrequencyBands, [number, number]> = {
+  bass: [20, 250],
+  lowMid: [250, 500],
+  mid: [500, 2000],
+  highMid: [2000, 4000],
+  treble: [4000, 16000]
+};
+
+export const NAMED_BAND_LABELS: Record<keyof FrequencyBands, string> = {
+  bass: 'Bass',
+  lowMid: 'Low mid',
+  mid: 'Mid',
+  highMid: 'High mid',
+  treble: 'Treble'
+};
+
+export const BAND_COUNT_RANGE = { min: 2, max: 32 };
+export const BAND_GAIN_RANGE = { min: 0, max: 4 };
+export const BAND_FREQUENCY_RANGE = { min: 20, max: 20000 };
+export const DEFAULT_SAMPLE_RATE = 44100;
+
+export const DEFAULT_BAND_SETTINGS: BandSettings = { gain: 1, smoothing: 0 };
+
+export const DEFAULT_BAND_CONFIG: FrequencyBandConfig = {
+  count: 8,
+  minFrequency: 20,
+  maxFrequency: 16000,
+  spacing: 'log',
+  bands: Array.from({ length: 8 }, () => ({ ...DEFAULT_BAND_SETTINGS }))
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const toNumber = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+export function normalizeBandConfig(value: Partial<FrequencyBandConfig> | null | undefined): FrequencyBandConfig {
+  const count = Math.round(clamp(toNumber(value?.count, DEFAULT_BAND_CONFIG.count), BAND_COUNT_RANGE.min, BAND_COUNT_RANGE.max));
+  const minFrequency = clamp(toNumber(value?.minFrequency, DEFAULT_BAND_CONFIG.minFrequency), BAND_FREQUENCY_RANGE.min, BAND_FREQUENCY_RANGE.max / 2);
+  const maxFrequency = clamp(toNumber(value?.maxFrequency, DEFAULT_BAND_CONFIG.maxFrequency), minFrequency * 2, BAND_FREQUENCY_RANGE.max);
+  const bands = Array.isArray(value?.bands) ? value!.bands : [];
+
+  return {
+    count,
+    minFrequency,
+    maxFrequency,
+    spacing: value?.spacing === 'mel' ? 'mel' : 'log',
+    bands: Array.from({ length: count }, (_, i) => ({
+      gain: clamp(toNumber(bands[i]?.gain, DEFAULT_BAND_SETTINGS.gain), BAND_GAIN_RANGE.min, BAND_GAIN_RANGE.max),
+      smoothing: clamp(toNumber(bands[i]?.smoothing, DEFAULT_BAND_SETTINGS.smoothing), 0, 0.95)
+    }))
+  };
+}
+
+export const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+export const melToHz = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+// count + 1 band edges in Hz
+export function getBandEdges(config: FrequencyBandConfig): number[] {
+  const { count, minFrequency, maxFrequency, spacing } = config;
+  const edges: number[] = [];
+
+  for (let i = 0; i <= count; i++) {
+    const t = i / count;
+    if (spacing === 'mel') {
+      const low = hzToMel(minFrequency);
+      edges.push(melToHz(low + (hzToMel(maxFrequency) - low) * t));
+    } else {
+      edges.push(minFrequency * Math.pow(maxFrequency / minFrequency, t));
+    }
+  }
+  return edges;
+}
+
+export function formatFrequency(hz: number): string {
+  if (hz >= 1000) {
+    const khz = hz / 1000;
+    return `${khz >= 10 ? Math.round(khz) : Math.round(khz * 10) / 10}k`;
+  }
+  return `${Math.round(hz)}`;
+}
+
+// Band source ids for effect parameters: a named band, 'band:<index>' for the bank, or 'none'
+export function getBandSourceLabel(source: string, config: FrequencyBandConfig): string {
+  if (source in NAMED_BAND_LABELS) {
+    const [low, high] = NAMED_BAND_RANGES[source as keyof FrequencyBands];
+    return `${NAMED_BAND_LABELS[source as keyof FrequencyBands]} (${formatFrequency(low)}–${formatFrequency(high)} Hz)`;
+  }
+
+  const index = parseBandSource(source);
+  if (index !== null && index < config.count) {
+    const edges = getBandEdges(config);
+    return `Band ${index + 1} (${formatFrequency(edges[index])}–${formatFrequency(edges[index + 1])} Hz)`;
+  }
+  return 'None';
+}
+
+export function parseBandSource(source: string): number | null {
+  const match = /^band:(\d+)$/.exec(source);
+  return match ? Number(match[1]) : null;
+}
+
+export function getBandSources(config: FrequencyBandConfig): string[] {
+  return [
+    ...Object.keys(NAMED_BAND_RANGES),
+    ...Array.from({ length: config.count }, (_, i) => `band:${i}`),
+    'none'
+  ];
+}
+
+const linearEdgeCache = new Map<string, number[]>();
+
+// Edges of evenly spaced FFT bins: bin k covers the frequencies around k * binHz
+export function getLinearBinEdges(binCount: number, sampleRate: number): number[] {
+  const key = `${binCount}:${sampleRate}`;
+  let edges = linearEdgeCache.get(key);
+  if (!edges) {
+    const binHz = sampleRate / 2 / binCount;
+    edges = Array.from({ length: binCount + 1 }, (_, k) => Math.max(0, (k - 0.5) * binHz));
+    linearEdgeCache.set(key, edges);
+  }
+  return edges;
+}
+
+// Average level (0-1) of the byte spectrum between two frequencies. Bins that straddle a
+// band edge count in proportion to their overlap, so narrow low bands still get a value.
+export function averageRange(levels: ArrayLike<number>, edges: number[], low: number, high: number): number {
+  let lowIndex = 0;
+  let highIndex = levels.length;
+  while (lowIndex < highIndex) {
+    const mid = (lowIndex + highIndex) >> 1;
+    if (edges[mid + 1] <= low) {
+      lowIndex = mid + 1;
+    } else {
+      highIndex = mid;
+    }
+  }
+
+  let sum = 0;
+  let weight = 0;
+  for (let i = lowIndex; i < levels.length && edges[i] < high; i++) {
+    const overlap = Math.min(high, edges[i + 1]) - Math.max(low, edges[i]);
+    if (overlap <= 0) continue;
+    sum += (levels[i] || 0) * overlap;
+    weight += overlap;
+  }
+  return weight > 0 ? sum / weight / 255 : 0;
+}
+
+// Split analyser byte data into the five named bands, each normalised to 0-1
+export function calculateFrequencyBands(frequencyData: Uint8Array, sampleRate = DEFAULT_SAMPLE_RATE): FrequencyBands {
+  const bands: FrequencyBands = {
+    bass: 0,
+    lowMid: 0,
+    mid: 0,
+    highMid: 0,
+    treble: 0
+  };
+
+  if (frequencyData.length === 0) return bands;
+
+  const edges = getLinearBinEdges(frequencyData.length, sampleRate);
+  (Object.keys(NAMED_BAND_RANGES) as (keyof FrequencyBands)[]).forEach(key => {
+    const [low, high] = NAMED_BAND_RANGES[key];
+    bands[key] = averageRange(frequencyData, edges, low, high);
+  });
+
+  return bands;
+}
+
+// Raw level of each band in the bank, before gain and smoothing
+export function calculateBandLevels(levels: ArrayLike<number>, sourceEdges: number[], bandEdges: number[]): number[] {
+  const result: number[] = [];
+  for (let i = 0; i < bandEdges.length - 1; i++) {
+    result.push(levels.length > 0 ? averageRange(levels, sourceEdges, bandEdges[i], bandEdges[i + 1]) : 0);
+  }
+  return result;
+}
+
+const STORAGE_KEY = 'audioVibe_frequencyBands';
+
+// Shared band bank settings, persisted across sessions like the effect parameters
+export class FrequencyBandManager {
+  private config: FrequencyBandConfig;
+  private listeners: ((config: FrequencyBandConfig) => void)[] = [];
+
+  constructor() {
+    let saved: Partial<FrequencyBandConfig> | null = null;
+    try {
+      const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+      saved = stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.warn('Failed to load frequency band settings:', error);
+    }
+    this.config = normalizeBandConfig(saved);
+  }
+
+  getConfig(): FrequencyBandConfig {
+    return this.config;
+  }
+
+  // Changing the layout keeps the gain and smoothing of bands that still exist
+  setConfig(config: Partial<FrequencyBandConfig>): void {
+    this.config = normalizeBandConfig({ ...this.config, ...config });
+    try {
+      if (typeof localStorage !== 'undefined') {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(this.config));
+      }
+    } catch (error) {
+      console.warn('Failed to save frequency band settings:', error);
+    }
+    this.listeners.forEach(listener => listener(this.config));
+  }
+
+  setBandSettings(index: number, settings: Partial<BandSettings>): void {
+    if (index < 0 || index >= this.config.count) return;
+    const bands = this.config.bands.map((band, i) => i === index ? { ...band, ...settings } : band);
+    this.setConfig({ bands });
+  }
+
+  reset(): void {
+    this.setConfig(DEFAULT_BAND_CONFIG);
+  }
+
+  addListener(listener: (config: FrequencyBandConfig) => void): void {
+    this.listeners.push(listener);
+  }
+
+  removeListener(listener: (config: FrequencyBandConfig) => void): void {
+    this.listeners = this.listeners.filter(existing => existing !== listener);
+  }
+}
+
+// Singleton instance
+export const frequencyBandManager = new FrequencyBandManager();
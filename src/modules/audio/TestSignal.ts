@@ -0,0 +1,70 @@
+import { AudioFeatureTimeline } from './AudioFeatureTimeline';
+
+// A short synthetic loop with something in every band: kicks, a bass line, a mid chord
+// and off-beat hats at 120 BPM. Used where visuals need audio that isn't the user's
+// track, e.g. preset thumbnails, so every preset is judged on the same input.
+
+export const TEST_SIGNAL_BPM = 120;
+export const TEST_SIGNAL_DURATION = 4; // seconds, two bars
+
+const BASS_NOTES = [55, 55, 65.41, 49]; // A1 A1 C2 G1, one per beat
+const CHORD = [220, 277.18, 329.63]; // A major
+
+export function createTestSignal(duration = TEST_SIGNAL_DURATION, sampleRate = 22050): AudioBuffer {
+  const length = Math.floor(duration * sampleRate);
+  const data = new Float32Array(length);
+  const beat = 60 / TEST_SIGNAL_BPM;
+
+  // Deterministic noise so the signal (and every thumbnail) is identical on each run
+  let seed = 1;
+  const noise = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 1073741823.5 - 1;
+  };
+
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    const beatIndex = Math.floor(t / beat);
+    const sinceBeat = t - beatIndex * beat;
+    const sinceHat = (t + beat / 2) % beat;
+
+    // Kick: a pitch drop from 120 Hz to 50 Hz with a fast decay
+    const kickFrequency = 50 + 70 * Math.exp(-sinceBeat * 30);
+    const kick = Math.sin(2 * Math.PI * kickFrequency * sinceBeat) * Math.exp(-sinceBeat * 12);
+    // Bass ducks under the kick so beats stand out the way they do in a mix
+    const bass = Math.sin(2 * Math.PI * BASS_NOTES[beatIndex % BASS_NOTES.length] * t) * 0.25 * (1 - Math.exp(-sinceBeat * 10));
+    const chord = CHORD.reduce((sum, frequency) => sum + Math.sin(2 * Math.PI * frequency * t), 0) * 0.08
+      * (0.6 + 0.4 * Math.sin(2 * Math.PI * t / duration));
+    const hat = noise() * Math.exp(-sinceHat * 60) * 0.25;
+
+    data[i] = Math.max(-1, Math.min(1, kick * 0.8 + bass + chord + hat));
+  }
+
+  // Only the parts of AudioBuffer that analysis reads, so no AudioContext is needed
+  return {
+    sampleRate,
+    length,
+    duration: length / sampleRate,
+    numberOfChannels: 1,
+    getChannelData: () => data
+  } as unknown as AudioBuffer;
+}
+
+export interface TestSignal {
+  buffer: AudioBuffer;
+  timeline: AudioFeatureTimeline;
+}
+
+let testSignal: Promise<TestSignal> | null = null;
+
+// The default signal with its features, analysed once and shared by everything that uses it
+export function getTestSignal(): Promise<TestSignal> {
+  if (!testSignal) {
+    const buffer = createTestSignal();
+    testSignal = AudioFeatureTimeline.analyze(buffer).then(timeline => ({ buffer, timeline }));
+    testSignal.catch(() => {
+      testSignal = null;
+    });
+  }
+  return testSignal;
+}
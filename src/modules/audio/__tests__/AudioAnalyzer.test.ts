@@ -3,6 +3,8 @@
  */
 
 import { AudioAnalyzer } from '../AudioAnalyzer';
+import { BeatGrid } from '../BeatGrid';
+import { frequencyBandManager } from '../FrequencyBands';
 
 // Mock AudioContextManager with proper methods
 const mockAudioManager = {
@@ -99,6 +101,129 @@ describe('AudioAnalyzer', () => {
 
   });
 
+  describe('band bank', () => {
+    afterEach(() => {
+      frequencyBandManager.reset();
+    });
+
+    it('should apply per-band gain and smoothing', () => {
+      frequencyBandManager.setConfig({
+        count: 2,
+        bands: [{ gain: 2, smoothing: 0 }, { gain: 1, smoothing: 0.5 }]
+      });
+      const level = 128 / 255;
+
+      analyzer.beginFrame(0);
+      mockAudioManager.getFrequencyData.mockReturnValueOnce(new Uint8Array(1024));
+      expect(analyzer.getBandLevels()).toEqual([0, 0]);
+
+      // Smoothing carries over from the previous reading
+      analyzer.beginFrame(1 / 60);
+      const second = analyzer.getBandLevels();
+      expect(second[0]).toBe(1);
+      expect(second[1]).toBeCloseTo(level * 0.5);
+      analyzer.beginFrame(2 / 60);
+      expect(analyzer.getBandLevels()[1]).toBeCloseTo(level * 0.75);
+    });
+
+    it('should smooth bands over song time rather than per reading', () => {
+      frequencyBandManager.setConfig({ count: 2, bands: [{ gain: 1, smoothing: 0.5 }, { gain: 1, smoothing: 0.5 }] });
+      const level = 128 / 255;
+
+      // Half the frame rate reaches the same level as two 60 fps frames
+      analyzer.beginFrame(0);
+      mockAudioManager.getFrequencyData.mockReturnValueOnce(new Uint8Array(1024));
+      analyzer.getBandLevels();
+      analyzer.beginFrame(1 / 30);
+      expect(analyzer.getBandLevels()[0]).toBeCloseTo(level * 0.75);
+
+      // A seek back starts from the level heard there
+      mockAudioManager.getFrequencyData.mockReturnValueOnce(new Uint8Array(1024));
+      analyzer.beginFrame(0);
+      expect(analyzer.getBandLevels()).toEqual([0, 0]);
+      analyzer.beginFrame(5);
+      expect(analyzer.getBandLevels()[0]).toBeCloseTo(level);
+    });
+
+    it('should resolve band sources', () => {
+      frequencyBandManager.setConfig({ count: 4 });
+
+      expect(analyzer.getBandValue('mid')).toBeCloseTo(128 / 255);
+      expect(analyzer.getBandValue('band:2')).toBeCloseTo(128 / 255);
+      expect(analyzer.getBandValue('band:7')).toBe(0);
+      expect(analyzer.getBandValue('none')).toBe(0);
+    });
+  });
+
+  describe('feature timeline', () => {
+    const timeline = {
+      frameRate: 60,
+      getFrameAt: jest.fn(() => ({
+        time: 1,
+        bands: { bass: 0.9, lowMid: 0.5, mid: 0.3, highMid: 0.2, treble: 0.1 },
+        rms: 0.5,
+        peak: 0.8,
+        centroid: 500,
+        flux: 0.2
+      })),
+      hasBeatBetween: jest.fn((from: number, to: number) => from < 1 && to >= 1),
+      hasOnsetBetween: jest.fn((from: number, to: number) => from < 1.5 && to >= 1.5),
+      getBeatGrid: jest.fn(() => new BeatGrid(120, 0, 4, 0))
+    };
+
+    beforeEach(() => {
+      analyzer.setFeatureTimeline(timeline as any);
+    });
+
+    it('should read cached features at the frame time', () => {
+      analyzer.beginFrame(1);
+
+      expect(analyzer.getFrequencyBands().bass).toBe(0.9);
+      expect(analyzer.getAverageVolume()).toBeCloseTo(0.4);
+      expect(timeline.getFrameAt).toHaveBeenCalledWith(1, 1);
+    });
+
+    it('should report a beat once when frames step over a marker', () => {
+      analyzer.beginFrame(0.98);
+      expect(analyzer.detectBeat().isBeat).toBe(false);
+      analyzer.beginFrame(1.01);
+      expect(analyzer.detectBeat()).toEqual({ isBeat: true, intensity: 0.9 });
+      analyzer.beginFrame(1.04);
+      expect(analyzer.detectBeat().isBeat).toBe(false);
+    });
+
+    it('should report onsets once when frames step over a marker', () => {
+      analyzer.beginFrame(1.49);
+      expect(analyzer.detectOnset()).toBe(false);
+      analyzer.beginFrame(1.5);
+      expect(analyzer.detectOnset()).toBe(true);
+      expect(analyzer.detectOnset()).toBe(true);
+      analyzer.beginFrame(1.52);
+      expect(analyzer.detectOnset()).toBe(false);
+    });
+
+    it('should report beat grid position and grid beats', () => {
+      analyzer.beginFrame(1.9);
+      expect(analyzer.detectGridBeat().isBeat).toBe(false);
+
+      analyzer.beginFrame(2.01);
+      const beat = analyzer.detectGridBeat();
+      expect(beat.isBeat).toBe(true);
+      expect(beat.isDownbeat).toBe(true);
+      expect(beat.position!.bar).toBe(1);
+      expect(analyzer.getBeatPosition()!.beatPhase).toBeCloseTo(0.02);
+
+      analyzer.beginFrame(2.5);
+      expect(analyzer.detectGridBeat()).toMatchObject({ isBeat: true, isDownbeat: false });
+    });
+
+    it('should use the live frames without a frame time', () => {
+      analyzer.beginFrame();
+
+      expect(analyzer.getFrequencyBands().bass).toBeCloseTo(128 / 255);
+    });
+  });
+
   describe('volume analysis', () => {
     it('should return average volume as number', () => {
       const volume = analyzer.getAverageVolume();
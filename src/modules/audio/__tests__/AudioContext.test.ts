@@ -0,0 +1,135 @@
+import { AudioContextManager, normalizeAudioMix } from '../AudioContext';
+import { AudioFeatureTimeline } from '../AudioFeatureTimeline';
+
+// Web Audio graph stub that records connections and gain values
+const createNode = (name: string) => ({
+  name,
+  connect: jest.fn(),
+  gain: { value: 1 },
+  playbackRate: { value: 1 },
+  start: jest.fn(),
+  stop: jest.fn(),
+  buffer: null as any,
+  onended: null as any
+});
+
+const createMockContext = () => {
+  const context = {
+    currentTime: 0,
+    destination: { name: 'destination' },
+    gains: [] as any[],
+    sources: [] as any[],
+    createAnalyser: jest.fn(() => ({ ...createNode('analyser'), fftSize: 2048, smoothingTimeConstant: 0.8 })),
+    createGain: jest.fn(() => {
+      const node = createNode('gain');
+      context.gains.push(node);
+      return node;
+    }),
+    createBufferSource: jest.fn(() => {
+      const node = createNode('source');
+      context.sources.push(node);
+      return node;
+    }),
+    createMediaStreamDestination: jest.fn(() => ({ stream: {} })),
+    decodeAudioData: jest.fn(() => Promise.resolve({ duration: 10, numberOfChannels: 2 }))
+  };
+  return context;
+};
+
+describe('AudioContextManager mix settings', () => {
+  let context: ReturnType<typeof createMockContext>;
+  let manager: AudioContextManager;
+  const originalAudioContext = (window as any).AudioContext;
+
+  let analyze: jest.SpyInstance;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    analyze = jest.spyOn(AudioFeatureTimeline, 'analyze').mockResolvedValue({ frameRate: 60 } as any);
+    context = createMockContext();
+    (window as any).AudioContext = jest.fn(() => context);
+    (AudioContextManager as any).instance = undefined;
+
+    manager = AudioContextManager.getInstance();
+    await manager.loadAudioFile({ arrayBuffer: () => Promise.resolve(new ArrayBuffer(8)) } as any);
+  });
+
+  afterEach(() => {
+    (window as any).AudioContext = originalAudioContext;
+    (AudioContextManager as any).instance = undefined;
+    analyze.mockRestore();
+  });
+
+  it('should keep the monitor level out of the analysed and exported signal', () => {
+    const [mixGain, monitorGain] = context.gains;
+
+    manager.setVolume(0.5);
+    manager.setMonitorVolume(0.2);
+
+    expect(mixGain.gain.value).toBe(0.5);
+    expect(monitorGain.gain.value).toBe(0.2);
+    // The analyser (and the export stream behind it) is fed from the mix gain
+    expect(mixGain.connect).toHaveBeenCalledWith(expect.objectContaining({ name: 'analyser' }));
+    expect(monitorGain.connect).toHaveBeenCalledWith(context.destination);
+  });
+
+  it('should mute through the mix gain', () => {
+    manager.setVolume(0.8);
+    manager.setMuted(true);
+
+    expect(context.gains[0].gain.value).toBe(0);
+    expect(manager.getVolume()).toBe(0.8);
+
+    manager.setMuted(false);
+    expect(context.gains[0].gain.value).toBe(0.8);
+  });
+
+  it('should report song position at the playback rate', () => {
+    manager.setPlaybackRate(2);
+    manager.play();
+    expect(context.sources[0].playbackRate.value).toBe(2);
+
+    context.currentTime = 1;
+    expect(manager.getCurrentTime()).toBe(2);
+    expect(manager.getPlaybackDuration()).toBe(5);
+
+    // Changing the rate mid-play continues from the same song position
+    manager.setPlaybackRate(1);
+    context.currentTime = 2;
+    expect(manager.getCurrentTime()).toBe(3);
+  });
+
+  it('should ignore the end of a source replaced by seeking', () => {
+    manager.play();
+    context.currentTime = 1;
+    manager.seek(4);
+    context.sources[0].onended();
+
+    expect(manager.getIsPlaying()).toBe(true);
+    expect(manager.getCurrentTime()).toBe(4);
+  });
+
+  it('should persist mix and monitor settings separately', () => {
+    manager.setMixSettings({ volume: 0.3, playbackRate: 1.5 });
+    manager.setMonitorVolume(0.4);
+
+    (AudioContextManager as any).instance = undefined;
+    const restored = AudioContextManager.getInstance();
+    expect(restored.getMixSettings()).toEqual({ volume: 0.3, muted: false, playbackRate: 1.5 });
+    expect(restored.getMonitorVolume()).toBe(0.4);
+  });
+
+  it('should analyse each loaded file once', async () => {
+    const timeline = await manager.analyzeFeatures();
+
+    expect(await manager.analyzeFeatures()).toBe(timeline);
+    expect(manager.getFeatureTimeline()).toBe(timeline);
+    expect(analyze).toHaveBeenCalledTimes(1);
+  });
+
+  it('should normalize stored settings', () => {
+    expect(normalizeAudioMix({ volume: 3, playbackRate: 10 })).toEqual({ volume: 1, muted: false, playbackRate: 2 });
+    expect(normalizeAudioMix({ volume: 0.5, playbackRate: 1 } as any)).toEqual({ volume: 0.5, muted: false, playbackRate: 1 });
+    expect(normalizeAudioMix(null)).toEqual({ volume: 1, muted: false, playbackRate: 1 });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { AudioFeatureTimeline } from '../AudioFeatureTimeline';
+
+jest.mock('../AudioContext', () => ({
+  AudioContextManager: {
+    getInstance: () => ({})
+  }
+}));
+
+// Decaying 60 Hz kicks at a fixed interval, silence in between
+const createKickBuffer = (interval: number, duration: number, sampleRate = 22050): AudioBuffer => {
+  const length = Math.floor(duration * sampleRate);
+  const data = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    const sinceKick = t % interval;
+    data[i] = Math.sin(2 * Math.PI * 60 * sinceKick) * Math.exp(-sinceKick * 20);
+  }
+
+  return {
+    sampleRate,
+    length,
+    duration,
+    numberOfChannels: 1,
+    getChannelData: () => data
+  } as unknown as AudioBuffer;
+};
+
+describe('AudioFeatureTimeline', () => {
+  let timeline: AudioFeatureTimeline;
+
+  beforeAll(async () => {
+    timeline = await AudioFeatureTimeline.analyze(createKickBuffer(0.5, 4));
+  });
+
+  it('should hold one frame per analysis step', () => {
+    expect(timeline.getFrameCount()).toBe(240);
+    expect(timeline.getFrameAt(1.234).time).toBeCloseTo(74 / 60);
+  });
+
+  it('should place beat markers on the kicks', () => {
+    const beats = timeline.getBeats();
+
+    expect(beats.length).toBeGreaterThanOrEqual(6);
+    beats.forEach(beat => {
+      const offset = beat % 0.5;
+      expect(Math.min(offset, 0.5 - offset)).toBeLessThan(0.1);
+    });
+  });
+
+  it('should fit a beat grid to the kicks', () => {
+    const grid = timeline.getBeatGrid()!;
+
+    expect(grid.bpm).toBeCloseTo(120, 0);
+    const offset = grid.offset % 0.5;
+    expect(Math.min(offset, 0.5 - offset)).toBeLessThan(0.05);
+  });
+
+  it('should find beats between two times', () => {
+    const beat = timeline.getBeats()[2];
+
+    expect(timeline.hasBeatBetween(beat - 0.01, beat)).toBe(true);
+    expect(timeline.hasBeatBetween(beat, beat + 0.2)).toBe(false);
+  });
+
+  it('should return the same frame for the same time', () => {
+    expect(timeline.getFrameAt(2.1)).toEqual(timeline.getFrameAt(2.1));
+    expect(timeline.getFrameAt(2.1).bands.bass).toBeGreaterThan(timeline.getFrameAt(2.1).bands.treble);
+  });
+
+  it('should scale readings with the mix gain', () => {
+    const full = timeline.getFrameAt(2.05);
+    const half = timeline.getFrameAt(2.05, 0.5);
+    const muted = timeline.getFrameAt(2.05, 0);
+
+    expect(half.rms).toBeCloseTo(full.rms / 2);
+    expect(half.bands.bass).toBeLessThan(full.bands.bass);
+    expect(muted.bands.bass).toBe(0);
+    expect(muted.rms).toBe(0);
+  });
+
+  it('should measure arbitrary bands from the stored spectrum', () => {
+    const [low, high] = timeline.getBandLevelsAt(2.05, [30, 120, 2000, 8000]);
+
+    expect(low).toBeGreaterThan(0.3);
+    expect(low).toBeGreaterThan(high);
+    expect(timeline.getBandLevelsAt(2.05, [30, 120], 0)).toEqual([0]);
+  });
+
+  it('should clamp times outside the track', () => {
+    expect(timeline.getFrameAt(-1).time).toBe(0);
+    expect(timeline.getFrameAt(100).time).toBeCloseTo(239 / 60);
+  });
+
+  it('should normalise the envelope to the loudest point', () => {
+    const envelope = timeline.getEnvelope(40);
+
+    expect(envelope).toHaveLength(40);
+    expect(Math.max(...envelope)).toBe(1);
+  });
+
+  it('should come back the same from its plain data', () => {
+    const copy = AudioFeatureTimeline.fromData(timeline.toData());
+
+    expect(copy.getFrameCount()).toBe(timeline.getFrameCount());
+    expect(copy.getFrameAt(1.3, 0.5)).toEqual(timeline.getFrameAt(1.3, 0.5));
+    expect(copy.getBandLevelsAt(2, [20, 100, 1000])).toEqual(timeline.getBandLevelsAt(2, [20, 100, 1000]));
+    expect(copy.getBeats()).toEqual(timeline.getBeats());
+    expect(copy.getBeatGrid()).toEqual(timeline.getBeatGrid());
+  });
+});
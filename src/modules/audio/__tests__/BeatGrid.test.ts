@@ -0,0 +1,71 @@
+import { BeatGrid, estimateTempo } from '../BeatGrid';
+
+const FRAME_RATE = 60;
+
+// Onset impulses on a steady pulse, with every `accentEvery`th beat (from `accentFrom`) louder
+const createPulse = (bpm: number, offset: number, duration: number, accentFrom = 0, accentEvery = 4) => {
+  const frames = Math.ceil(duration * FRAME_RATE);
+  const onsets = new Float32Array(frames);
+  const accents = new Float32Array(frames);
+  const interval = 60 / bpm;
+  for (let beat = 0; offset + beat * interval < duration; beat++) {
+    const index = Math.round((offset + beat * interval) * FRAME_RATE);
+    if (index >= frames) break;
+    onsets[index] = 1;
+    if (index + 1 < frames) onsets[index + 1] = 0.5;
+    accents[index] = (beat - accentFrom) % accentEvery === 0 ? 1 : 0.4;
+  }
+  return { onsets, accents };
+};
+
+describe('BeatGrid', () => {
+  it('should estimate the tempo of a steady pulse', () => {
+    const { onsets } = createPulse(128, 0.2, 30);
+
+    expect(estimateTempo(onsets, FRAME_RATE)).toBeCloseTo(128, -1);
+    expect(BeatGrid.estimate(onsets, FRAME_RATE)!.bpm).toBeCloseTo(128, 0);
+  });
+
+  it('should align the grid with the beats and find the downbeat', () => {
+    const { onsets, accents } = createPulse(100, 0.35, 30, 1);
+    const grid = BeatGrid.estimate(onsets, FRAME_RATE, accents)!;
+
+    expect(grid.bpm).toBeCloseTo(100, 0);
+    expect(grid.offset).toBeCloseTo(0.35, 1);
+    expect(grid.downbeat).toBe(1);
+    expect(grid.getPosition(0.35 + 0.6).isDownbeat).toBe(true);
+  });
+
+  it('should return nothing for material without a pulse', () => {
+    expect(BeatGrid.estimate(new Float32Array(600), FRAME_RATE)).toBeNull();
+  });
+
+  it('should report beat phase and bar position', () => {
+    const grid = new BeatGrid(120, 0.1, 4, 0);
+
+    const position = grid.getPosition(0.1 + 0.5 * 5 + 0.125);
+    expect(position.beat).toBe(5);
+    expect(position.beatPhase).toBeCloseTo(0.25);
+    expect(position.bar).toBe(1);
+    expect(position.beatInBar).toBe(1);
+    expect(position.barPhase).toBeCloseTo(1.25 / 4);
+    expect(position.isDownbeat).toBe(false);
+
+    // Before the first beat counts backwards
+    expect(grid.getPosition(0).beat).toBe(-1);
+    expect(grid.getPosition(0).beatInBar).toBe(3);
+  });
+
+  it('should list beats and bars in a range', () => {
+    const grid = new BeatGrid(120, 0, 4, 0);
+
+    expect(grid.getBeatsBetween(0, 2)).toEqual([0.5, 1, 1.5, 2]);
+    expect(grid.getBarsBetween(-0.1, 4)).toEqual([0, 2, 4]);
+  });
+
+  it('should keep the offset within one beat', () => {
+    const grid = new BeatGrid(120, 1.7);
+
+    expect(grid.offset).toBeCloseTo(0.2);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { BufferAudioSource } from '../BufferAudioSource';
+
+jest.mock('../AudioContext', () => ({
+  AudioContextManager: {
+    getInstance: () => ({})
+  }
+}));
+
+const createSineBuffer = (frequency: number, duration: number, sampleRate = 44100): AudioBuffer => {
+  const length = Math.floor(duration * sampleRate);
+  const data = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    data[i] = Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+
+  return {
+    sampleRate,
+    length,
+    duration,
+    numberOfChannels: 1,
+    getChannelData: () => data
+  } as unknown as AudioBuffer;
+};
+
+describe('BufferAudioSource', () => {
+  it('should return analyser-sized frames', () => {
+    const source = new BufferAudioSource(createSineBuffer(440, 1));
+
+    expect(source.getFrequencyData()).toHaveLength(1024);
+    expect(source.getTimeDomainData()).toHaveLength(1024);
+  });
+
+  it('should peak at the bin of the input frequency', () => {
+    const sampleRate = 44100;
+    const frequency = 1000;
+    const source = new BufferAudioSource(createSineBuffer(frequency, 1, sampleRate), {
+      smoothingTimeConstant: 0
+    });
+    source.setTime(0.5);
+
+    const data = source.getFrequencyData();
+    let peakBin = 0;
+    for (let i = 1; i < data.length; i++) {
+      if (data[i] > data[peakBin]) peakBin = i;
+    }
+
+    const expectedBin = Math.round((frequency / sampleRate) * 2048);
+    expect(Math.abs(peakBin - expectedBin)).toBeLessThanOrEqual(1);
+  });
+
+  it('should produce silence before the audio starts', () => {
+    const source = new BufferAudioSource(createSineBuffer(440, 1));
+    source.reset();
+
+    expect(Math.max(...source.getFrequencyData())).toBe(0);
+    expect(source.getTimeDomainData().every(value => value === 128)).toBe(true);
+  });
+
+  it('should clamp time to the buffer duration', () => {
+    const source = new BufferAudioSource(createSineBuffer(440, 1));
+
+    source.setTime(5);
+    expect(source.getCurrentTime()).toBe(1);
+
+    source.setTime(-1);
+    expect(source.getCurrentTime()).toBe(0);
+  });
+
+  it('should be deterministic for the same timestamp', () => {
+    const a = new BufferAudioSource(createSineBuffer(440, 1), { smoothingTimeConstant: 0 });
+    const b = new BufferAudioSource(createSineBuffer(440, 1), { smoothingTimeConstant: 0 });
+    a.setTime(0.25);
+    b.setTime(0.25);
+
+    expect(a.getFrequencyData()).toEqual(b.getFrequencyData());
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  FrequencyBandManager,
+  averageRange,
+  calculateFrequencyBands,
+  getBandEdges,
+  getBandSourceLabel,
+  getLinearBinEdges,
+  normalizeBandConfig
+} from '../FrequencyBands';
+
+// Byte spectrum with a single loud bin at the given frequency
+const createSpectrum = (frequency: number, sampleRate: number, bins = 1024): Uint8Array => {
+  const data = new Uint8Array(bins);
+  data[Math.round(frequency / (sampleRate / 2 / bins))] = 255;
+  return data;
+};
+
+describe('FrequencyBands', () => {
+  it('should place named bands by frequency', () => {
+    const bands = calculateFrequencyBands(createSpectrum(1000, 44100), 44100);
+
+    expect(bands.mid).toBeGreaterThan(0);
+    expect(bands.bass).toBe(0);
+    expect(bands.treble).toBe(0);
+  });
+
+  it('should account for the sample rate', () => {
+    // The same bin is 3 kHz at 44.1 kHz but 6.5 kHz at 96 kHz
+    const spectrum = createSpectrum(3000, 44100);
+
+    expect(calculateFrequencyBands(spectrum, 44100).highMid).toBeGreaterThan(0);
+    expect(calculateFrequencyBands(spectrum, 96000).highMid).toBe(0);
+    expect(calculateFrequencyBands(spectrum, 96000).treble).toBeGreaterThan(0);
+  });
+
+  it('should give narrow bands a share of the bins they overlap', () => {
+    const data = new Uint8Array(1024).fill(255);
+    const edges = getLinearBinEdges(1024, 44100);
+
+    expect(averageRange(data, edges, 30, 35)).toBeCloseTo(1);
+  });
+
+  it('should space band edges logarithmically or on the mel scale', () => {
+    const log = getBandEdges(normalizeBandConfig({ count: 4, minFrequency: 100, maxFrequency: 1600 }));
+    expect(log.map(Math.round)).toEqual([100, 200, 400, 800, 1600]);
+
+    const mel = getBandEdges(normalizeBandConfig({ count: 4, minFrequency: 100, maxFrequency: 1600, spacing: 'mel' }));
+    expect(mel[0]).toBeCloseTo(100);
+    expect(mel[4]).toBeCloseTo(1600);
+    // Mel bands are wider than log bands at the bottom
+    expect(mel[1]).toBeGreaterThan(log[1]);
+  });
+
+  it('should normalise configs and keep settings of remaining bands', () => {
+    const config = normalizeBandConfig({
+      count: 3,
+      bands: [{ gain: 2, smoothing: 0.5 }, { gain: 9, smoothing: 2 }] as any
+    });
+
+    expect(config.bands).toEqual([
+      { gain: 2, smoothing: 0.5 },
+      { gain: 4, smoothing: 0.95 },
+      { gain: 1, smoothing: 0 }
+    ]);
+    expect(normalizeBandConfig({ count: 100 }).count).toBe(32);
+    expect(normalizeBandConfig({ minFrequency: 1000, maxFrequency: 500 }).maxFrequency).toBe(2000);
+  });
+
+  it('should label band sources', () => {
+    const config = normalizeBandConfig({ count: 4, minFrequency: 100, maxFrequency: 1600 });
+
+    expect(getBandSourceLabel('bass', config)).toBe('Bass (20–250 Hz)');
+    expect(getBandSourceLabel('band:3', config)).toBe('Band 4 (800–1.6k Hz)');
+    expect(getBandSourceLabel('band:9', config)).toBe('None');
+  });
+
+  describe('FrequencyBandManager', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should persist the band bank and notify listeners', () => {
+      const manager = new FrequencyBandManager();
+      const listener = jest.fn();
+      manager.addListener(listener);
+
+      manager.setConfig({ count: 4, spacing: 'mel' });
+      manager.setBandSettings(1, { gain: 2 });
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      const restored = new FrequencyBandManager().getConfig();
+      expect(restored.count).toBe(4);
+      expect(restored.spacing).toBe('mel');
+      expect(restored.bands[1].gain).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { TEST_SIGNAL_BPM, TEST_SIGNAL_DURATION, createTestSignal } from '../TestSignal';
+
+// Mean absolute level over a window starting at `time`
+const levelAt = (data: Float32Array, sampleRate: number, time: number, window = 0.02) => {
+  const start = Math.floor(time * sampleRate);
+  const end = start + Math.floor(window * sampleRate);
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += Math.abs(data[i]);
+  return sum / (end - start);
+};
+
+describe('createTestSignal', () => {
+  it('should produce the same bounded mono buffer every time', () => {
+    const buffer = createTestSignal();
+    const data = buffer.getChannelData(0);
+
+    expect(buffer.numberOfChannels).toBe(1);
+    expect(buffer.duration).toBeCloseTo(TEST_SIGNAL_DURATION, 3);
+    expect(data.length).toBe(buffer.length);
+    expect(Math.max(...Array.from(data, Math.abs))).toBeLessThanOrEqual(1);
+    expect(createTestSignal().getChannelData(0)).toEqual(data);
+  });
+
+  it('should be loudest on the beat', () => {
+    const buffer = createTestSignal(2, 8000);
+    const data = buffer.getChannelData(0);
+    const beat = 60 / TEST_SIGNAL_BPM;
+
+    for (let i = 0; i < 3; i++) {
+      expect(levelAt(data, 8000, i * beat)).toBeGreaterThan(levelAt(data, 8000, i * beat + beat * 0.8) * 2);
+    }
+  });
+});
@@ -0,0 +1,173 @@
+import { AudioMixSettings, normalizeAudioMix } from '../audio/AudioContext';
+import { FrequencyBandConfig, normalizeBandConfig } from '../audio/FrequencyBands';
+import { BlendLayer } from '../visual/EffectBlending';
+import { EffectParameter } from '../visual/EffectParameters';
+import { effectRegistry } from '../visual/EffectRegistry';
+import { EffectClip, isValidEffectClip } from '../visual/EffectTimeline';
+import { DEFAULT_OUTPUT_RESOLUTION, isValidResolution } from '../visual/OutputResolution';
+import { AutomationLane, normalizeAutomationLanes } from '../visual/ParameterAutomation';
+import { ModulationBinding, normalizeModulations } from '../visual/ParameterModulation';
+import { DEFAULT_SEED, isValidSeed } from '../visual/SeededRandom';
+import type { ExportSettings } from '../video/VideoExporter';
+import { OutputResolution, TextOverlay } from '../../types/visual';
+
+export const PROJECT_VERSION = 1;
+
+// Export options kept with the project; the output size is the project's own resolution
+export type ProjectExportSettings = Omit<ExportSettings, 'resolution'>;
+
+export const DEFAULT_EXPORT_SETTINGS: ProjectExportSettings = {
+  format: 'webm',
+  quality: 'high',
+  fps: 30,
+  mode: 'realtime'
+};
+
+// Everything needed to reproduce a video from its audio: the editor, exporter and
+// presets all read and write this one document
+export interface Project {
+  version: number;
+  currentEffect: string;
+  effectParameters: { [effectName: string]: EffectParameter };
+  textOverlays: TextOverlay[];
+  backgroundColor: string;
+  outputResolution: OutputResolution;
+  compositionMode: 'single' | 'layered';
+  layers: BlendLayer[];
+  // Each layer's own values for its effect, by layer id
+  layerParameters: { [layerId: string]: EffectParameter };
+  effectClips: EffectClip[];
+  automation: AutomationLane[];
+  modulations: ModulationBinding[];
+  frequencyBands: FrequencyBandConfig;
+  audioSettings: AudioMixSettings;
+  exportSettings: ProjectExportSettings;
+  // Seed of the effects' randomness, so every render of the project looks the same
+  seed: number;
+}
+
+export const PROJECT_STORAGE_KEY = 'audioVibe_project';
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValidLayer = (value: any): value is BlendLayer =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.effectName === 'string' &&
+  typeof value.blendMode === 'string' &&
+  Number.isFinite(value.opacity) &&
+  Number.isFinite(value.order);
+
+const isValidOverlay = (value: any): value is TextOverlay =>
+  isObject(value) && typeof value.id === 'string' && typeof value.text === 'string' && isObject(value.timing);
+
+function normalizeExportSettings(value: unknown): ProjectExportSettings {
+  const settings = isObject(value) ? value : {};
+  const mode = settings.mode === 'offline' ? 'offline' : 'realtime';
+  return {
+    format: settings.format === 'mp4' && mode !== 'offline' ? 'mp4' : 'webm',
+    quality: ['low', 'medium', 'high'].includes(settings.quality) ? settings.quality : DEFAULT_EXPORT_SETTINGS.quality,
+    fps: Number.isFinite(settings.fps) && settings.fps > 0 ? settings.fps : DEFAULT_EXPORT_SETTINGS.fps,
+    ...(Number.isFinite(settings.bitrate) ? { bitrate: settings.bitrate } : {}),
+    mode
+  };
+}
+
+// Fills in defaults for anything missing or malformed. Also reads the documents that
+// came before the project format (preset settings, the old export state), which used the
+// same field names without a version.
+export function normalizeProject(value: unknown): Project {
+  const source = isObject(value) ? value : {};
+  const effectNames = effectRegistry.getNames();
+
+  const effectParameters: Project['effectParameters'] = {};
+  if (isObject(source.effectParameters)) {
+    Object.entries(source.effectParameters).forEach(([effectName, params]) => {
+      if (isObject(params)) {
+        effectParameters[effectName] = { ...params };
+      }
+    });
+  }
+
+  const layers: BlendLayer[] = Array.isArray(source.layers) ? source.layers.filter(isValidLayer) : [];
+  const layerParameters: Project['layerParameters'] = {};
+  if (isObject(source.layerParameters)) {
+    layers.forEach(layer => {
+      const params = source.layerParameters[layer.id];
+      if (isObject(params)) {
+        layerParameters[layer.id] = { ...params };
+      }
+    });
+  }
+
+  return {
+    version: PROJECT_VERSION,
+    currentEffect: effectNames.includes(source.currentEffect) ? source.currentEffect : 'waveform',
+    effectParameters,
+    textOverlays: Array.isArray(source.textOverlays) ? source.textOverlays.filter(isValidOverlay) : [],
+    backgroundColor: typeof source.backgroundColor === 'string' ? source.backgroundColor : '#000000',
+    outputResolution: isValidResolution(source.outputResolution)
+      ? { width: source.outputResolution.width, height: source.outputResolution.height }
+      : { ...DEFAULT_OUTPUT_RESOLUTION },
+    compositionMode: source.compositionMode === 'layered' ? 'layered' : 'single',
+    layers,
+    layerParameters,
+    effectClips: Array.isArray(source.effectClips) ? source.effectClips.filter(isValidEffectClip) : [],
+    automation: normalizeAutomationLanes(source.automation),
+    modulations: normalizeModulations(source.modulations),
+    frequencyBands: normalizeBandConfig(source.frequencyBands),
+    audioSettings: normalizeAudioMix(source.audioSettings),
+    exportSettings: normalizeExportSettings(source.exportSettings),
+    seed: isValidSeed(source.seed) ? source.seed : DEFAULT_SEED
+  };
+}
+
+export function createProject(overrides: Partial<Project> = {}): Project {
+  return normalizeProject(overrides);
+}
+
+export function saveProject(project: Project): void {
+  try {
+    localStorage.setItem(PROJECT_STORAGE_KEY, JSON.stringify(project));
+  } catch (error) {
+    console.error('Failed to save project:', error);
+  }
+}
+
+const readJson = (key: string): any => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error(`Failed to parse ${key}:`, error);
+    return null;
+  }
+};
+
+// The project from the last session. Sessions from before the project format are
+// assembled from the separate keys they were stored under.
+export function loadSavedProject(): Project | null {
+  const saved = readJson(PROJECT_STORAGE_KEY);
+  if (saved) return normalizeProject(saved);
+
+  const exportState = readJson('exportState');
+  const composition = readJson('compositionLayers');
+  const legacy = {
+    ...exportState,
+    currentEffect: localStorage.getItem('currentEffect') ?? exportState?.currentEffect,
+    textOverlays: readJson('textOverlays') ?? exportState?.textOverlays,
+    backgroundColor: localStorage.getItem('audioVibe_backgroundColor') ?? undefined,
+    outputResolution: readJson('audioVibe_outputResolution') ?? exportState?.outputResolution,
+    compositionMode: composition?.mode ?? exportState?.compositionMode,
+    layers: composition?.layers ?? exportState?.layers,
+    effectClips: readJson('effectClips') ?? exportState?.effectClips,
+    automation: readJson('audioVibe_automation') ?? exportState?.automation,
+    modulations: readJson('audioVibe_modulations'),
+    frequencyBands: readJson('audioVibe_frequencyBands'),
+    audioSettings: readJson('audioVibe_audioMix')
+  };
+
+  const hasLegacyState = Object.values(legacy).some(value => value !== null && value !== undefined);
+  return hasLegacyState ? normalizeProject(legacy) : null;
+}
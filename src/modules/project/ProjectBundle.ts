@@ -0,0 +1,217 @@
+import { PROJECT_VERSION, Project, normalizeProject } from './Project';
+import { createZip, readZip } from './ZipArchive';
+
+// A project saved to disk: a ZIP holding manifest.json, project.json, the original
+// audio file and any images the project uses
+//
+//   manifest.json   format, bundle version, what the other entries are
+//   project.json    the Project document; images replaced by asset references
+//   audio/<name>    the audio file as it was uploaded
+//   assets/...      images taken out of the project (data URLs in memory)
+
+export const PROJECT_BUNDLE_EXTENSION = '.avproj';
+export const PROJECT_BUNDLE_TYPE = 'application/x-audiovibe-project';
+export const BUNDLE_FORMAT = 'audiovibe-project';
+export const BUNDLE_VERSION = 1;
+
+const MANIFEST_PATH = 'manifest.json';
+const PROJECT_PATH = 'project.json';
+const ASSET_PREFIX = 'asset:';
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  projectVersion: number;
+  createdAt: number;
+  audio: { path: string; name: string; type: string } | null;
+  assets: { path: string; type: string }[];
+}
+
+export interface BundleAudio {
+  name: string;
+  type: string;
+  data: Uint8Array;
+}
+
+export interface ProjectBundle {
+  project: Project;
+  audio: BundleAudio | null;
+}
+
+// Upgrades a manifest from the version it is keyed by to the next one. Add an entry here
+// whenever BUNDLE_VERSION goes up; version 1 is the first, so there are none yet.
+const BUNDLE_MIGRATIONS: { [fromVersion: number]: (manifest: any) => any } = {};
+
+export function migrateManifest(value: any): BundleManifest {
+  if (!value || value.format !== BUNDLE_FORMAT || !Number.isInteger(value.version)) {
+    throw new Error('Not an AudioVibe project file');
+  }
+  if (value.version > BUNDLE_VERSION) {
+    throw new Error('This project was saved by a newer version of AudioVibe Studio');
+  }
+
+  let manifest = value;
+  while (manifest.version < BUNDLE_VERSION) {
+    const migrate = BUNDLE_MIGRATIONS[manifest.version];
+    if (!migrate) {
+      throw new Error(`Project files of version ${manifest.version} can no longer be opened`);
+    }
+    manifest = { ...migrate(manifest), version: manifest.version + 1 };
+  }
+
+  return {
+    ...manifest,
+    audio: manifest.audio && typeof manifest.audio.path === 'string' ? manifest.audio : null,
+    assets: Array.isArray(manifest.assets) ? manifest.assets : []
+  };
+}
+
+export const isProjectBundleFile = (file: { name: string; type?: string }) =>
+  file.type === PROJECT_BUNDLE_TYPE || file.name.toLowerCase().endsWith(PROJECT_BUNDLE_EXTENSION);
+
+export function getBundleFileName(audioName?: string): string {
+  const base = audioName ? audioName.replace(/\.[^.]+$/, '') : '';
+  return `${base || 'project'}${PROJECT_BUNDLE_EXTENSION}`;
+}
+
+const IMAGE_DATA_URL = /^data:(image\/[a-z0-9.+-]+);base64,/i;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg'
+};
+
+const decodeBase64 = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const encodeBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+};
+
+// Copies a JSON value, passing every string through `replace`
+const mapStrings = (value: any, replace: (text: string) => string): any => {
+  if (typeof value === 'string') return replace(value);
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, replace));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, replace)]));
+  }
+  return value;
+};
+
+export function encodeProjectBundle(project: Project, audio: BundleAudio | null): Uint8Array {
+  const encoder = new TextEncoder();
+  const assets: { path: string; type: string; data: Uint8Array }[] = [];
+  const assetPaths = new Map<string, string>();
+
+  // Images go into their own entries so project.json stays readable; repeats share one
+  const projectJson = mapStrings(project, text => {
+    const match = IMAGE_DATA_URL.exec(text);
+    if (!match) return text;
+
+    let path = assetPaths.get(text);
+    if (!path) {
+      const type = match[1].toLowerCase();
+      path = `assets/image-${assets.length + 1}.${IMAGE_EXTENSIONS[type] || 'bin'}`;
+      assets.push({ path, type, data: decodeBase64(text.slice(match[0].length)) });
+      assetPaths.set(text, path);
+    }
+    return `${ASSET_PREFIX}${path}`;
+  });
+
+  const audioPath = audio ? `audio/${audio.name.replace(/[\\/]/g, '_') || 'audio'}` : null;
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    projectVersion: project.version,
+    createdAt: Date.now(),
+    audio: audio && audioPath ? { path: audioPath, name: audio.name, type: audio.type } : null,
+    assets: assets.map(({ path, type }) => ({ path, type }))
+  };
+
+  return createZip([
+    { path: MANIFEST_PATH, data: encoder.encode(JSON.stringify(manifest, null, 2)) },
+    { path: PROJECT_PATH, data: encoder.encode(JSON.stringify(projectJson, null, 2)) },
+    ...(audio && audioPath ? [{ path: audioPath, data: audio.data }] : []),
+    ...assets.map(({ path, data }) => ({ path, data }))
+  ]);
+}
+
+export function decodeProjectBundle(data: Uint8Array): ProjectBundle {
+  let entries: Map<string, Uint8Array>;
+  try {
+    entries = readZip(data);
+  } catch (error) {
+    throw new Error(`Not an AudioVibe project file: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const decoder = new TextDecoder();
+  const readJson = (path: string) => {
+    const entry = entries.get(path);
+    if (!entry) throw new Error(`Project file is missing ${path}`);
+    try {
+      return JSON.parse(decoder.decode(entry));
+    } catch {
+      throw new Error(`Project file has an unreadable ${path}`);
+    }
+  };
+
+  const manifest = migrateManifest(readJson(MANIFEST_PATH));
+  const rawProject = readJson(PROJECT_PATH);
+  if (Number.isFinite(rawProject?.version) && rawProject.version > PROJECT_VERSION) {
+    throw new Error('This project was saved by a newer version of AudioVibe Studio');
+  }
+
+  const assetTypes = new Map(manifest.assets.map(asset => [asset.path, asset.type]));
+  const project = normalizeProject(mapStrings(rawProject, text => {
+    if (!text.startsWith(ASSET_PREFIX)) return text;
+    const path = text.slice(ASSET_PREFIX.length);
+    const asset = entries.get(path);
+    // A missing image leaves the reference; it just won't draw
+    return asset ? `data:${assetTypes.get(path) || 'application/octet-stream'};base64,${encodeBase64(asset)}` : text;
+  }));
+
+  const audioData = manifest.audio ? entries.get(manifest.audio.path) : undefined;
+  return {
+    project,
+    audio: manifest.audio && audioData
+      ? { name: manifest.audio.name, type: manifest.audio.type, data: audioData }
+      : null
+  };
+}
+
+const readFileBytes = (file: Blob): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+
+export async function saveProjectBundle(project: Project, audioFile: File | null): Promise<Blob> {
+  const audio = audioFile
+    ? { name: audioFile.name, type: audioFile.type, data: await readFileBytes(audioFile) }
+    : null;
+  return new Blob([encodeProjectBundle(project, audio)], { type: PROJECT_BUNDLE_TYPE });
+}
+
+export async function openProjectBundle(file: Blob): Promise<{ project: Project; audioFile: File | null }> {
+  const { project, audio } = decodeProjectBundle(await readFileBytes(file));
+  return {
+    project,
+    audioFile: audio ? new File([audio.data], audio.name, { type: audio.type }) : null
+  };
+}
@@ -0,0 +1,223 @@
+import { AudioContextManager } from '../audio/AudioContext';
+import { Project, normalizeProject, saveProject } from './Project';
+
+// Projects kept in IndexedDB: the document, a thumbnail and the undo history in one store,
+// the audio file (often tens of MB) in another so the project list stays cheap to read.
+// localStorage only holds a marker for the session being edited, which is what makes an
+// interrupted session recoverable.
+
+export interface StoredHistory {
+  actions: unknown[];
+  index: number;
+}
+
+export interface StoredProject {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  project: Project;
+  thumbnail: Blob | null;
+  history: StoredHistory | null;
+  audioName: string | null;
+}
+
+export type StoredProjectSummary = Omit<StoredProject, 'project' | 'history'>;
+
+export interface EditorSession {
+  projectId: string;
+  startedAt: number;
+}
+
+export const AUTOSAVE_INTERVAL_MS = 30000;
+
+const DB_NAME = 'audioVibe';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+const AUDIO_STORE = 'audio';
+const SESSION_KEY = 'audioVibe_session';
+const THUMBNAIL_WIDTH = 240;
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+
+let projectCounter = 0;
+
+export const createProjectId = () => `project-${Date.now()}-${projectCounter++}`;
+
+export const getProjectName = (audioName?: string | null) =>
+  audioName ? audioName.replace(/\.[^.]+$/, '') || audioName : 'Untitled project';
+
+export class ProjectStorage {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private savedAudio = new WeakMap<File, string>(); // files already stored, by project id
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+            db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+            db.createObjectStore(AUDIO_STORE);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a retry after a failure (private browsing, blocked upgrade)
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // Newest first, without the documents
+  async listProjects(): Promise<StoredProjectSummary[]> {
+    if (!ProjectStorage.isSupported()) return [];
+
+    const db = await this.open();
+    const records = await requestResult(db.transaction(PROJECT_STORE).objectStore(PROJECT_STORE).getAll());
+    return (records as StoredProject[])
+      .map(({ project: _project, history: _history, ...summary }) => summary)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async getProject(id: string): Promise<StoredProject | null> {
+    if (!ProjectStorage.isSupported()) return null;
+
+    const db = await this.open();
+    const record = await requestResult(db.transaction(PROJECT_STORE).objectStore(PROJECT_STORE).get(id));
+    return record ? { ...record, project: normalizeProject(record.project) } : null;
+  }
+
+  // Creates or replaces a project; the creation time of an existing one is kept
+  async saveProject(record: Omit<StoredProject, 'createdAt' | 'updatedAt'>): Promise<void> {
+    if (!ProjectStorage.isSupported()) return;
+
+    const db = await this.open();
+    const transaction = db.transaction(PROJECT_STORE, 'readwrite');
+    const store = transaction.objectStore(PROJECT_STORE);
+    const existing = await requestResult(store.get(record.id)) as StoredProject | undefined;
+    const now = Date.now();
+    store.put({ ...record, createdAt: existing?.createdAt ?? now, updatedAt: now });
+    await transactionDone(transaction);
+  }
+
+  async getAudio(id: string): Promise<File | null> {
+    if (!ProjectStorage.isSupported()) return null;
+
+    const db = await this.open();
+    const audio = await requestResult(db.transaction(AUDIO_STORE).objectStore(AUDIO_STORE).get(id));
+    return audio ?? null;
+  }
+
+  async saveAudio(id: string, file: File): Promise<void> {
+    if (!ProjectStorage.isSupported() || this.savedAudio.get(file) === id) return;
+
+    const db = await this.open();
+    const transaction = db.transaction(AUDIO_STORE, 'readwrite');
+    transaction.objectStore(AUDIO_STORE).put(file, id);
+    await transactionDone(transaction);
+    this.savedAudio.set(file, id);
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    if (this.getSession()?.projectId === id) {
+      this.clearSession();
+    }
+    if (!ProjectStorage.isSupported()) return;
+
+    const db = await this.open();
+    const transaction = db.transaction([PROJECT_STORE, AUDIO_STORE], 'readwrite');
+    transaction.objectStore(PROJECT_STORE).delete(id);
+    transaction.objectStore(AUDIO_STORE).delete(id);
+    await transactionDone(transaction);
+  }
+
+  // The project the editor autosaves into
+  startSession(projectId: string = createProjectId()): EditorSession {
+    const session = { projectId, startedAt: Date.now() };
+    try {
+      localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    } catch (error) {
+      console.error('Failed to save session:', error);
+    }
+    return session;
+  }
+
+  getSession(): EditorSession | null {
+    try {
+      const saved = JSON.parse(localStorage.getItem(SESSION_KEY) || 'null');
+      return saved && typeof saved.projectId === 'string' ? saved : null;
+    } catch {
+      return null;
+    }
+  }
+
+  clearSession(): void {
+    localStorage.removeItem(SESSION_KEY);
+  }
+
+  // A session left behind by a closed or reloaded page, if it was autosaved with its audio
+  async getRecoverableSession(): Promise<StoredProjectSummary | null> {
+    const session = this.getSession();
+    if (!session) return null;
+
+    const projects = await this.listProjects();
+    return projects.find(project => project.id === session.projectId && project.audioName) ?? null;
+  }
+}
+
+// A copy of a canvas scaled to `width`, keeping its aspect ratio
+export function scaleCanvas(source: HTMLCanvasElement, width: number): HTMLCanvasElement | null {
+  if (!source.width || !source.height) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = Math.round(width * source.height / source.width);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+// Small JPEG of the preview for project lists
+export function captureThumbnail(source: HTMLCanvasElement, width = THUMBNAIL_WIDTH): Promise<Blob | null> {
+  const canvas = scaleCanvas(source, width);
+  if (!canvas) return Promise.resolve(null);
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.7));
+}
+
+export const projectStorage = new ProjectStorage();
+
+// Loads a stored project and its audio for the editor and continues its session there.
+// False when the project or its audio is gone.
+export async function openStoredProject(id: string): Promise<boolean> {
+  const [record, audio] = await Promise.all([projectStorage.getProject(id), projectStorage.getAudio(id)]);
+  if (!record || !audio) return false;
+
+  await AudioContextManager.getInstance().loadAudioFile(audio);
+  saveProject(record.project);
+  projectStorage.startSession(id);
+  return true;
+}
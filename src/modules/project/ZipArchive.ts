@@ -0,0 +1,146 @@
+// Minimal ZIP reader and writer for project bundles. Entries are stored uncompressed:
+// audio and images are already compressed, and the JSON is small. Reading accepts only
+// stored entries, so bundles repacked with deflate by another tool are rejected clearly.
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const METHOD_STORED = 0;
+const FLAG_UTF8 = 0x0800;
+const VERSION = 20;
+
+let crcTable: Uint32Array | null = null;
+
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const records = entries.map(entry => ({
+    name: encoder.encode(entry.path),
+    data: entry.data,
+    crc: crc32(entry.data),
+    offset: 0
+  }));
+
+  const localSize = records.reduce((size, record) => size + 30 + record.name.length + record.data.length, 0);
+  const centralSize = records.reduce((size, record) => size + 46 + record.name.length, 0);
+  const output = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(output.buffer);
+  let offset = 0;
+
+  records.forEach(record => {
+    record.offset = offset;
+    view.setUint32(offset, LOCAL_FILE_HEADER, true);
+    view.setUint16(offset + 4, VERSION, true);
+    view.setUint16(offset + 6, FLAG_UTF8, true);
+    view.setUint16(offset + 8, METHOD_STORED, true);
+    // Modification time and date stay zero; bundles carry their own timestamp
+    view.setUint32(offset + 14, record.crc, true);
+    view.setUint32(offset + 18, record.data.length, true);
+    view.setUint32(offset + 22, record.data.length, true);
+    view.setUint16(offset + 26, record.name.length, true);
+    output.set(record.name, offset + 30);
+    output.set(record.data, offset + 30 + record.name.length);
+    offset += 30 + record.name.length + record.data.length;
+  });
+
+  const centralOffset = offset;
+  records.forEach(record => {
+    view.setUint32(offset, CENTRAL_DIRECTORY_HEADER, true);
+    view.setUint16(offset + 4, VERSION, true);
+    view.setUint16(offset + 6, VERSION, true);
+    view.setUint16(offset + 8, FLAG_UTF8, true);
+    view.setUint16(offset + 10, METHOD_STORED, true);
+    view.setUint32(offset + 16, record.crc, true);
+    view.setUint32(offset + 20, record.data.length, true);
+    view.setUint32(offset + 24, record.data.length, true);
+    view.setUint16(offset + 28, record.name.length, true);
+    view.setUint32(offset + 42, record.offset, true);
+    output.set(record.name, offset + 46);
+    offset += 46 + record.name.length;
+  });
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY, true);
+  view.setUint16(offset + 8, records.length, true);
+  view.setUint16(offset + 10, records.length, true);
+  view.setUint32(offset + 12, offset - centralOffset, true);
+  view.setUint32(offset + 16, centralOffset, true);
+
+  return output;
+}
+
+// Entries by path, read through the central directory
+export function readZip(data: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end record sits at the end, before a comment of up to 64 KB
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.length || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue; // directory
+    if (method !== METHOD_STORED) {
+      throw new Error(`Compressed ZIP entries are not supported (${path})`);
+    }
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER || dataStart + size > data.length) {
+      throw new Error(`Corrupt ZIP entry ${path}`);
+    }
+    const content = data.subarray(dataStart, dataStart + size);
+    if (crc32(content) !== crc) {
+      throw new Error(`Checksum mismatch in ${path}`);
+    }
+    entries.set(path, content);
+  }
+
+  return entries;
+}
@@ -0,0 +1,85 @@
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  PROJECT_STORAGE_KEY,
+  PROJECT_VERSION,
+  createProject,
+  loadSavedProject,
+  normalizeProject,
+  saveProject
+} from '../Project';
+
+describe('Project', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should fill in defaults for an empty document', () => {
+    const project = normalizeProject(null);
+
+    expect(project.version).toBe(PROJECT_VERSION);
+    expect(project.currentEffect).toBe('waveform');
+    expect(project.outputResolution).toEqual({ width: 1080, height: 1920 });
+    expect(project.compositionMode).toBe('single');
+    expect(project.layers).toEqual([]);
+    expect(project.audioSettings).toEqual({ volume: 1, muted: false, playbackRate: 1 });
+    expect(project.exportSettings).toEqual(DEFAULT_EXPORT_SETTINGS);
+    expect(project.seed).toBe(1);
+  });
+
+  it('should drop malformed parts and unknown effects', () => {
+    const project = normalizeProject({
+      currentEffect: 'missing',
+      effectParameters: { gradient: { speed: 2 }, waveform: 'loud' },
+      layers: [{ id: 'a', effectName: 'particles', blendMode: 'screen', opacity: 1, order: 0 }, { id: 'b' }],
+      outputResolution: { width: -1, height: 100 },
+      exportSettings: { format: 'mp4', mode: 'offline', fps: 0 },
+      seed: -5
+    });
+
+    expect(project.currentEffect).toBe('waveform');
+    expect(project.effectParameters).toEqual({ gradient: { speed: 2 } });
+    expect(project.layers.map(layer => layer.id)).toEqual(['a']);
+    expect(project.outputResolution).toEqual({ width: 1080, height: 1920 });
+    // Offline rendering only writes WebM
+    expect(project.exportSettings).toEqual({ format: 'webm', quality: 'high', fps: 30, mode: 'offline' });
+    expect(project.seed).toBe(1);
+  });
+
+  it('should keep layer parameters only for layers in the project', () => {
+    const project = normalizeProject({
+      layers: [{ id: 'a', effectName: 'particles', blendMode: 'screen', opacity: 1, order: 0 }],
+      layerParameters: { a: { speed: 2 }, gone: { speed: 1 } }
+    });
+
+    expect(project.layerParameters).toEqual({ a: { speed: 2 } });
+    expect(normalizeProject({}).layerParameters).toEqual({});
+  });
+
+  it('should load the project it saved', () => {
+    const project = createProject({ currentEffect: 'gradient', backgroundColor: '#223344' });
+    saveProject(project);
+
+    expect(JSON.parse(localStorage.getItem(PROJECT_STORAGE_KEY)!).version).toBe(PROJECT_VERSION);
+    expect(loadSavedProject()).toEqual(project);
+  });
+
+  it('should assemble a project from the keys used before the project format', () => {
+    localStorage.setItem('exportState', JSON.stringify({ currentEffect: 'particles', compositionMode: 'single' }));
+    localStorage.setItem('compositionLayers', JSON.stringify({
+      mode: 'layered',
+      layers: [{ id: 'a', effectName: 'gradient', blendMode: 'add', opacity: 0.5, order: 0 }]
+    }));
+    localStorage.setItem('audioVibe_audioMix', JSON.stringify({ volume: 0.5, muted: false, playbackRate: 1 }));
+
+    const project = loadSavedProject()!;
+
+    expect(project.currentEffect).toBe('particles');
+    expect(project.compositionMode).toBe('layered');
+    expect(project.layers).toHaveLength(1);
+    expect(project.audioSettings.volume).toBe(0.5);
+  });
+
+  it('should have nothing to load in a fresh browser', () => {
+    expect(loadSavedProject()).toBeNull();
+  });
+});
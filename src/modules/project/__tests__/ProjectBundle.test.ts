@@ -0,0 +1,87 @@
+import { createProject } from '../Project';
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION,
+  decodeProjectBundle,
+  encodeProjectBundle,
+  getBundleFileName,
+  isProjectBundleFile,
+  migrateManifest
+} from '../ProjectBundle';
+import { crc32, createZip, readZip } from '../ZipArchive';
+
+const PNG_DATA_URL = 'data:image/png;base64,iVBORw0KGgo=';
+
+const audio = { name: 'track.mp3', type: 'audio/mpeg', data: new Uint8Array([1, 2, 3, 4, 5]) };
+
+describe('ZipArchive', () => {
+  it('should compute the standard CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('should read back the entries it wrote', () => {
+    const zip = createZip([
+      { path: 'a.txt', data: new TextEncoder().encode('hello') },
+      { path: 'dir/b.bin', data: new Uint8Array([0, 255, 7]) }
+    ]);
+
+    expect(zip[0]).toBe(0x50); // 'PK'
+    expect(zip[1]).toBe(0x4b);
+    const entries = readZip(zip);
+    expect(new TextDecoder().decode(entries.get('a.txt'))).toBe('hello');
+    expect(Array.from(entries.get('dir/b.bin')!)).toEqual([0, 255, 7]);
+  });
+
+  it('should reject corrupted data', () => {
+    const zip = createZip([{ path: 'a.txt', data: new TextEncoder().encode('hello') }]);
+    zip[31 + 'a.txt'.length] ^= 0xff;
+
+    expect(() => readZip(zip)).toThrow('Checksum mismatch');
+    expect(() => readZip(new Uint8Array(40))).toThrow('Not a ZIP archive');
+  });
+});
+
+describe('ProjectBundle', () => {
+  it('should round-trip a project with its audio', () => {
+    const project = createProject({ currentEffect: 'gradient', backgroundColor: '#102030' });
+
+    const bundle = decodeProjectBundle(encodeProjectBundle(project, audio));
+
+    expect(bundle.project).toEqual(project);
+    expect(bundle.audio?.name).toBe('track.mp3');
+    expect(bundle.audio?.type).toBe('audio/mpeg');
+    expect(Array.from(bundle.audio!.data)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should store images as separate assets', () => {
+    const project = createProject({
+      textOverlays: [{ id: 'logo', text: 'Hi', timing: {}, style: { image: PNG_DATA_URL } } as any]
+    });
+
+    const zip = encodeProjectBundle(project, null);
+    const entries = readZip(zip);
+    const projectJson = new TextDecoder().decode(entries.get('project.json'));
+
+    expect(projectJson).not.toContain('base64');
+    expect(entries.has('assets/image-1.png')).toBe(true);
+    expect((decodeProjectBundle(zip).project.textOverlays[0] as any).style.image).toBe(PNG_DATA_URL);
+  });
+
+  it('should refuse bundles from a newer version', () => {
+    expect(() => migrateManifest({ format: BUNDLE_FORMAT, version: BUNDLE_VERSION + 1 })).toThrow('newer version');
+    expect(() => migrateManifest({ format: 'other', version: 1 })).toThrow('Not an AudioVibe project file');
+  });
+
+  it('should reject files that are not bundles', () => {
+    expect(() => decodeProjectBundle(new Uint8Array([1, 2, 3]))).toThrow('Not an AudioVibe project file');
+    const zip = createZip([{ path: 'readme.txt', data: new Uint8Array([65]) }]);
+    expect(() => decodeProjectBundle(zip)).toThrow('missing manifest.json');
+  });
+
+  it('should recognise bundle files and name them after the audio', () => {
+    expect(isProjectBundleFile({ name: 'Song.AVPROJ', type: '' })).toBe(true);
+    expect(isProjectBundleFile({ name: 'song.mp3', type: 'audio/mpeg' })).toBe(false);
+    expect(getBundleFileName('My Song.mp3')).toBe('My Song.avproj');
+    expect(getBundleFileName()).toBe('project.avproj');
+  });
+});
@@ -0,0 +1,52 @@
+import { ProjectStorage, createProjectId, getProjectName } from '../ProjectStorage';
+
+describe('ProjectStorage', () => {
+  let storage: ProjectStorage;
+
+  beforeEach(() => {
+    localStorage.clear();
+    storage = new ProjectStorage();
+  });
+
+  it('should remember the session being edited', () => {
+    const session = storage.startSession('project-a');
+
+    expect(storage.getSession()).toEqual(session);
+    expect(new ProjectStorage().getSession()?.projectId).toBe('project-a');
+
+    storage.clearSession();
+    expect(storage.getSession()).toBeNull();
+  });
+
+  it('should start each new session with a fresh project id', () => {
+    const first = storage.startSession();
+    const second = storage.startSession();
+
+    expect(first.projectId).not.toBe(second.projectId);
+    expect(createProjectId()).toMatch(/^project-/);
+  });
+
+  it('should ignore a malformed session marker', () => {
+    localStorage.setItem('audioVibe_session', '{broken');
+
+    expect(storage.getSession()).toBeNull();
+  });
+
+  it('should store nothing without IndexedDB', async () => {
+    expect(ProjectStorage.isSupported()).toBe(false);
+    storage.startSession('project-a');
+
+    await expect(storage.listProjects()).resolves.toEqual([]);
+    await expect(storage.getProject('project-a')).resolves.toBeNull();
+    await expect(storage.getRecoverableSession()).resolves.toBeNull();
+
+    await storage.deleteProject('project-a');
+    expect(storage.getSession()).toBeNull();
+  });
+
+  it('should name projects after their audio file', () => {
+    expect(getProjectName('Summer Mix.wav')).toBe('Summer Mix');
+    expect(getProjectName('.hidden')).toBe('.hidden');
+    expect(getProjectName(null)).toBe('Untitled project');
+  });
+});
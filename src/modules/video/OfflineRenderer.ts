@@ -0,0 +1,225 @@
+import { AudioContextManager } from '../audio/AudioContext';
+import { BufferAudioSource } from '../audio/BufferAudioSource';
+import { VisualEngine } from '../visual/VisualEngine';
+import { WebMMuxer } from './WebMMuxer';
+import { ExportProgress } from './VideoExporter';
+
+export interface OfflineRenderOptions {
+  fps: number;
+  videoBitrate: number;
+  audioBitrate?: number;
+}
+
+const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_CHUNK_FRAMES = 4800; // 100ms per AudioData
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const MAX_ENCODE_QUEUE = 8;
+
+// Renders the visualisation frame by frame against pre-rendered audio and encodes it
+// with WebCodecs. Every frame gets an exact timestamp, so the output has no dropped
+// frames and finishes as fast as the machine can encode.
+export class OfflineRenderer {
+  private canvas: HTMLCanvasElement;
+  private visualEngine: VisualEngine;
+  private audioManager: AudioContextManager;
+  private cancelled = false;
+  private rendering = false;
+
+  constructor(canvas: HTMLCanvasElement, visualEngine: VisualEngine) {
+    this.canvas = canvas;
+    this.visualEngine = visualEngine;
+    this.audioManager = AudioContextManager.getInstance();
+  }
+
+  static isSupported(): boolean {
+    return (
+      typeof VideoEncoder !== 'undefined' &&
+      typeof AudioEncoder !== 'undefined' &&
+      typeof VideoFrame !== 'undefined' &&
+      typeof AudioData !== 'undefined' &&
+      typeof OfflineAudioContext !== 'undefined'
+    );
+  }
+
+  isRendering(): boolean {
+    return this.rendering;
+  }
+
+  cancel(): void {
+    this.cancelled = true;
+  }
+
+  async render(
+    options: OfflineRenderOptions,
+    onProgress?: (progress: ExportProgress) => void
+  ): Promise<Blob> {
+    if (this.rendering) {
+      throw new Error('Offline render already in progress');
+    }
+    if (!OfflineRenderer.isSupported()) {
+      throw new Error('Offline rendering is not supported in this browser');
+    }
+
+    this.rendering = true;
+    this.cancelled = false;
+    // Created during setup; whatever exists is closed however the render ends
+    let videoEncoder: VideoEncoder | null = null;
+    let audioEncoder: AudioEncoder | null = null;
+
+    try {
+      const audio = await this.audioManager.renderOffline(AUDIO_SAMPLE_RATE);
+      // Frames read the cached feature timeline; without it they fall back to the rendered buffer
+      await this.audioManager.analyzeFeatures().catch(error => {
+        console.warn('Feature analysis failed, using buffer analysis:', error);
+      });
+      const source = new BufferAudioSource(audio);
+      const width = this.canvas.width;
+      const height = this.canvas.height;
+      const totalFrames = Math.max(1, Math.ceil(audio.duration * options.fps));
+      // The rendered audio already has the playback rate applied; the timeline is in song time
+      const playbackRate = this.audioManager.getPlaybackRate();
+      const channels = Math.min(2, audio.numberOfChannels);
+
+      let encodeError: Error | null = null;
+      const onError = (error: DOMException) => {
+        encodeError = error;
+      };
+
+      const videoCodec = await this.pickVideoCodec(width, height, options);
+      const muxer = new WebMMuxer({
+        video: { codec: videoCodec.trackCodec, width, height, frameRate: options.fps },
+        audio: { codec: 'A_OPUS', sampleRate: AUDIO_SAMPLE_RATE, channels }
+      });
+
+      videoEncoder = new VideoEncoder({
+        output: (chunk) => muxer.addVideoChunk(chunk),
+        error: onError
+      });
+      videoEncoder.configure(videoCodec.config);
+
+      audioEncoder = new AudioEncoder({
+        output: (chunk, metadata) => muxer.addAudioChunk(chunk, metadata),
+        error: onError
+      });
+      audioEncoder.configure({
+        codec: 'opus',
+        sampleRate: AUDIO_SAMPLE_RATE,
+        numberOfChannels: channels,
+        bitrate: options.audioBitrate || 128000
+      });
+
+      this.visualEngine.stop();
+      this.visualEngine.setAudioPlaying(true);
+      this.visualEngine.setAudioSource(source, () => source.getCurrentTime());
+
+      this.encodeAudio(audio, audioEncoder, channels);
+
+      const startedAt = performance.now();
+      const keyFrameInterval = Math.max(1, Math.round(options.fps * KEYFRAME_INTERVAL_SECONDS));
+      const frameDuration = Math.round(1e6 / options.fps);
+
+      for (let i = 0; i < totalFrames; i++) {
+        if (this.cancelled) {
+          throw new Error('Export cancelled');
+        }
+        if (encodeError) {
+          throw encodeError;
+        }
+
+        const time = i / options.fps;
+        source.setTime(time);
+        this.visualEngine.renderFrame(time * playbackRate);
+
+        const frame = new VideoFrame(this.canvas, {
+          timestamp: Math.round(time * 1e6),
+          duration: frameDuration
+        });
+        videoEncoder.encode(frame, { keyFrame: i % keyFrameInterval === 0 });
+        frame.close();
+
+        // Let the encoder drain and keep the UI responsive
+        while (videoEncoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+          await this.yieldToEventLoop();
+        }
+        await this.yieldToEventLoop();
+
+        if (onProgress) {
+          const elapsed = (performance.now() - startedAt) / 1000;
+          const perFrame = elapsed / (i + 1);
+          onProgress({
+            percentage: ((i + 1) / totalFrames) * 100,
+            timeRemaining: perFrame * (totalFrames - i - 1),
+            currentFrame: i + 1,
+            totalFrames
+          });
+        }
+      }
+
+      await videoEncoder.flush();
+      await audioEncoder.flush();
+      if (encodeError) {
+        throw encodeError;
+      }
+
+      return muxer.finalize();
+    } finally {
+      if (videoEncoder && videoEncoder.state !== 'closed') videoEncoder.close();
+      if (audioEncoder && audioEncoder.state !== 'closed') audioEncoder.close();
+      this.visualEngine.useLiveAudio();
+      this.visualEngine.setAudioPlaying(false);
+      this.rendering = false;
+    }
+  }
+
+  private encodeAudio(audio: AudioBuffer, encoder: AudioEncoder, channels: number): void {
+    for (let offset = 0; offset < audio.length; offset += AUDIO_CHUNK_FRAMES) {
+      const frameCount = Math.min(AUDIO_CHUNK_FRAMES, audio.length - offset);
+      const planar = new Float32Array(frameCount * channels);
+      for (let channel = 0; channel < channels; channel++) {
+        planar.set(audio.getChannelData(channel).subarray(offset, offset + frameCount), channel * frameCount);
+      }
+
+      const data = new AudioData({
+        format: 'f32-planar',
+        sampleRate: audio.sampleRate,
+        numberOfFrames: frameCount,
+        numberOfChannels: channels,
+        timestamp: Math.round((offset / audio.sampleRate) * 1e6),
+        data: planar
+      });
+      encoder.encode(data);
+      data.close();
+    }
+  }
+
+  private async pickVideoCodec(
+    width: number,
+    height: number,
+    options: OfflineRenderOptions
+  ): Promise<{ config: VideoEncoderConfig; trackCodec: 'V_VP8' | 'V_VP9' }> {
+    const candidates: { codec: string; trackCodec: 'V_VP8' | 'V_VP9' }[] = [
+      { codec: 'vp09.00.10.08', trackCodec: 'V_VP9' },
+      { codec: 'vp8', trackCodec: 'V_VP8' }
+    ];
+
+    for (const candidate of candidates) {
+      const config: VideoEncoderConfig = {
+        codec: candidate.codec,
+        width,
+        height,
+        bitrate: options.videoBitrate,
+        framerate: options.fps
+      };
+      const support = await VideoEncoder.isConfigSupported(config);
+      if (support.supported) {
+        return { config, trackCodec: candidate.trackCodec };
+      }
+    }
+
+    throw new Error('No supported WebM video encoder found');
+  }
+
+  private yieldToEventLoop(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0));
+  }
+}
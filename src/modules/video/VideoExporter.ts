@@ -1,11 +1,17 @@
 import { AudioContextManager } from '../audio/AudioContext';
 import { VisualEngine } from '../visual/VisualEngine';
+import { OfflineRenderer } from './OfflineRenderer';
+import { OutputResolution } from '../../types/visual';
 
 export interface ExportSettings {
   format: 'webm' | 'mp4';
   quality: 'low' | 'medium' | 'high';
   fps: number;
   bitrate?: number;
+  // Output size in pixels; defaults to the engine's current output resolution
+  resolution?: OutputResolution;
+  // 'offline' renders frame by frame with WebCodecs (WebM only); 'realtime' records playback
+  mode?: 'realtime' | 'offline';
 }
 
 export interface ExportProgress {
@@ -24,13 +30,15 @@ export class VideoExporter {
   private isRecording = false;
   private startTime = 0;
   private audioDuration = 0;
+  private fps = 30;
+  private offlineRenderer: OfflineRenderer | null = null;
   private progressCallback?: (progress: ExportProgress) => void;
 
   constructor(canvas: HTMLCanvasElement, visualEngine: VisualEngine) {
     this.canvas = canvas;
     this.visualEngine = visualEngine;
     this.audioManager = AudioContextManager.getInstance();
-    this.audioDuration = this.audioManager.getDuration();
+    this.audioDuration = this.audioManager.getPlaybackDuration();
   }
 
   setProgressCallback(callback: (progress: ExportProgress) => void): void {
@@ -42,6 +50,25 @@ export class VideoExporter {
       throw new Error('Export already in progress');
     }
 
+    this.fps = settings.fps;
+    this.audioDuration = this.audioManager.getPlaybackDuration();
+
+    // Exports always render every frame at full quality
+    if (this.visualEngine.isAdaptiveQuality()) {
+      this.visualEngine.setAdaptiveQuality(false);
+    }
+
+    if (settings.resolution) {
+      const current = this.visualEngine.getOutputResolution();
+      if (current.width !== settings.resolution.width || current.height !== settings.resolution.height) {
+        this.visualEngine.setOutputResolution(settings.resolution);
+      }
+    }
+
+    if (settings.mode === 'offline') {
+      return this.startOfflineExport(settings);
+    }
+
     return new Promise((resolve, reject) => {
       try {
         this.setupRecording(settings, resolve, reject);
@@ -52,6 +79,28 @@ export class VideoExporter {
     });
   }
 
+  private async startOfflineExport(settings: ExportSettings): Promise<Blob> {
+    if (settings.format !== 'webm') {
+      console.warn('Offline rendering outputs WebM; ignoring requested format', settings.format);
+    }
+
+    this.offlineRenderer = new OfflineRenderer(this.canvas, this.visualEngine);
+    this.isRecording = true;
+
+    try {
+      return await this.offlineRenderer.render(
+        {
+          fps: settings.fps,
+          videoBitrate: settings.bitrate || this.getDefaultBitrate(settings.quality)
+        },
+        this.progressCallback
+      );
+    } finally {
+      this.isRecording = false;
+      this.offlineRenderer = null;
+    }
+  }
+
   private setupRecording(
     settings: ExportSettings,
     resolve: (blob: Blob) => void,
@@ -120,7 +169,8 @@ export class VideoExporter {
     this.audioManager.stop();
     this.audioManager.play();
     
-    // Start visual engine with audio playing state
+    // Start visual engine with audio playing state, following the song position
+    this.visualEngine.setMediaClock(() => this.audioManager.getCurrentTime());
     this.visualEngine.setAudioPlaying(true);
     this.visualEngine.start();
     
@@ -143,13 +193,12 @@ export class VideoExporter {
     const percentage = Math.min((currentTime / this.audioDuration) * 100, 100);
     const timeRemaining = Math.max(this.audioDuration - currentTime, 0);
     
-    // Update audio progress in visual engine
-    this.visualEngine.setAudioProgress(currentTime, this.audioDuration);
+    // Update audio progress in visual engine, in song time
+    this.visualEngine.setAudioProgress(this.audioManager.getCurrentTime(), this.audioManager.getDuration());
     
     // Estimate frames (this is approximate)
-    const fps = 30; // Default estimation
-    const currentFrame = Math.floor(currentTime * fps);
-    const totalFrames = Math.floor(this.audioDuration * fps);
+    const currentFrame = Math.floor(currentTime * this.fps);
+    const totalFrames = Math.floor(this.audioDuration * this.fps);
 
     if (this.progressCallback) {
       this.progressCallback({
@@ -166,12 +215,18 @@ export class VideoExporter {
   }
 
   stopExport(): void {
+    if (this.offlineRenderer) {
+      this.offlineRenderer.cancel();
+      return;
+    }
+
     if (!this.isRecording || !this.mediaRecorder) return;
 
     this.mediaRecorder.stop();
     this.audioManager.stop();
     this.visualEngine.setAudioPlaying(false);
     this.visualEngine.stop();
+    this.visualEngine.setMediaClock(null);
     this.isRecording = false;
   }
 
@@ -227,6 +282,10 @@ export class VideoExporter {
     return this.isRecording;
   }
 
+  static isOfflineRenderSupported(): boolean {
+    return OfflineRenderer.isSupported();
+  }
+
   getSupportedFormats(): string[] {
     const formats: string[] = [];
     
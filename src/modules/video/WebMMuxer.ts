@@ -0,0 +1,307 @@
+// Minimal Matroska/WebM writer for WebCodecs output. Frames are buffered in memory and
+// laid out into clusters when the file is finalized, which keeps the writer simple and
+// lets audio and video be encoded in any order.
+
+export interface WebMVideoTrackOptions {
+  codec: 'V_VP8' | 'V_VP9';
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+export interface WebMAudioTrackOptions {
+  codec: 'A_OPUS';
+  sampleRate: number;
+  channels: number;
+  codecPrivate?: Uint8Array;
+}
+
+export interface WebMMuxerOptions {
+  video: WebMVideoTrackOptions;
+  audio?: WebMAudioTrackOptions;
+}
+
+interface MuxedFrame {
+  trackNumber: number;
+  timestamp: number; // milliseconds
+  keyFrame: boolean;
+  data: Uint8Array;
+}
+
+const VIDEO_TRACK = 1;
+const AUDIO_TRACK = 2;
+const MAX_CLUSTER_SPAN_MS = 30000;
+const OPUS_SEEK_PRE_ROLL_NS = 80000000;
+
+const ids = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  CodecDelay: 0x56aa,
+  SeekPreRoll: 0x56bb,
+  DefaultDuration: 0x23e383,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3
+};
+
+export class WebMMuxer {
+  private options: WebMMuxerOptions;
+  private frames: MuxedFrame[] = [];
+  private audioCodecPrivate: Uint8Array | null = null;
+
+  constructor(options: WebMMuxerOptions) {
+    this.options = options;
+    this.audioCodecPrivate = options.audio?.codecPrivate || null;
+  }
+
+  addVideoChunk(chunk: EncodedVideoChunk): void {
+    const data = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+    this.addFrame('video', data, chunk.timestamp, chunk.type === 'key');
+  }
+
+  addAudioChunk(chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata): void {
+    if (!this.audioCodecPrivate && metadata?.decoderConfig?.description) {
+      this.audioCodecPrivate = WebMMuxer.toBytes(metadata.decoderConfig.description);
+    }
+    const data = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+    this.addFrame('audio', data, chunk.timestamp, true);
+  }
+
+  // Timestamp is in microseconds, as produced by WebCodecs
+  addFrame(track: 'video' | 'audio', data: Uint8Array, timestamp: number, keyFrame: boolean): void {
+    if (track === 'audio' && !this.options.audio) {
+      throw new Error('Muxer was created without an audio track');
+    }
+
+    this.frames.push({
+      trackNumber: track === 'video' ? VIDEO_TRACK : AUDIO_TRACK,
+      timestamp: Math.round(timestamp / 1000),
+      keyFrame,
+      data
+    });
+  }
+
+  finalize(): Blob {
+    return new Blob([this.finalizeToBytes()], { type: this.getMimeType() });
+  }
+
+  finalizeToBytes(): Uint8Array {
+    // Interleave by time; video goes first on ties so each cluster opens with a keyframe
+    const frames = [...this.frames].sort((a, b) => a.timestamp - b.timestamp || a.trackNumber - b.trackNumber);
+
+    const segment = concat([this.buildInfo(frames), this.buildTracks(), ...this.buildClusters(frames)]);
+    return concat([this.buildHeader(), element(ids.Segment, segment)]);
+  }
+
+  getMimeType(): string {
+    const videoCodec = this.options.video.codec === 'V_VP9' ? 'vp9' : 'vp8';
+    return this.options.audio ? `video/webm;codecs=${videoCodec},opus` : `video/webm;codecs=${videoCodec}`;
+  }
+
+  private buildHeader(): Uint8Array {
+    return element(ids.EBML, concat([
+      uintElement(ids.EBMLVersion, 1),
+      uintElement(ids.EBMLReadVersion, 1),
+      uintElement(ids.EBMLMaxIDLength, 4),
+      uintElement(ids.EBMLMaxSizeLength, 8),
+      stringElement(ids.DocType, 'webm'),
+      uintElement(ids.DocTypeVersion, 2),
+      uintElement(ids.DocTypeReadVersion, 2)
+    ]));
+  }
+
+  private buildInfo(frames: MuxedFrame[]): Uint8Array {
+    const frameDuration = 1000 / this.options.video.frameRate;
+    const lastTimestamp = frames.length > 0 ? frames[frames.length - 1].timestamp : 0;
+
+    return element(ids.Info, concat([
+      uintElement(ids.TimecodeScale, 1000000),
+      stringElement(ids.MuxingApp, 'AudioVibe Studio'),
+      stringElement(ids.WritingApp, 'AudioVibe Studio'),
+      floatElement(ids.Duration, lastTimestamp + frameDuration)
+    ]));
+  }
+
+  private buildTracks(): Uint8Array {
+    const { video, audio } = this.options;
+    const entries: Uint8Array[] = [
+      element(ids.TrackEntry, concat([
+        uintElement(ids.TrackNumber, VIDEO_TRACK),
+        uintElement(ids.TrackUID, VIDEO_TRACK),
+        uintElement(ids.TrackType, 1),
+        stringElement(ids.CodecID, video.codec),
+        uintElement(ids.DefaultDuration, Math.round(1e9 / video.frameRate)),
+        element(ids.Video, concat([
+          uintElement(ids.PixelWidth, video.width),
+          uintElement(ids.PixelHeight, video.height)
+        ]))
+      ]))
+    ];
+
+    if (audio) {
+      const codecPrivate = this.audioCodecPrivate || WebMMuxer.createOpusHead(audio.channels, audio.sampleRate);
+      const preSkip = codecPrivate.length >= 12 ? codecPrivate[10] | (codecPrivate[11] << 8) : 0;
+
+      entries.push(element(ids.TrackEntry, concat([
+        uintElement(ids.TrackNumber, AUDIO_TRACK),
+        uintElement(ids.TrackUID, AUDIO_TRACK),
+        uintElement(ids.TrackType, 2),
+        stringElement(ids.CodecID, audio.codec),
+        element(ids.CodecPrivate, codecPrivate),
+        uintElement(ids.CodecDelay, Math.round((preSkip / 48000) * 1e9)),
+        uintElement(ids.SeekPreRoll, OPUS_SEEK_PRE_ROLL_NS),
+        element(ids.Audio, concat([
+          floatElement(ids.SamplingFrequency, audio.sampleRate),
+          uintElement(ids.Channels, audio.channels)
+        ]))
+      ])));
+    }
+
+    return element(ids.Tracks, concat(entries));
+  }
+
+  private buildClusters(frames: MuxedFrame[]): Uint8Array[] {
+    const clusters: Uint8Array[] = [];
+    let clusterStart = 0;
+    let blocks: Uint8Array[] = [];
+
+    const flush = () => {
+      if (blocks.length === 0) return;
+      clusters.push(element(ids.Cluster, concat([uintElement(ids.Timecode, clusterStart), ...blocks])));
+      blocks = [];
+    };
+
+    for (const frame of frames) {
+      const startsNewCluster =
+        blocks.length === 0 ||
+        (frame.trackNumber === VIDEO_TRACK && frame.keyFrame) ||
+        frame.timestamp - clusterStart > MAX_CLUSTER_SPAN_MS;
+
+      if (startsNewCluster) {
+        flush();
+        clusterStart = frame.timestamp;
+      }
+
+      const header = new Uint8Array(4);
+      header[0] = 0x80 | frame.trackNumber;
+      const relative = frame.timestamp - clusterStart;
+      header[1] = (relative >> 8) & 0xff;
+      header[2] = relative & 0xff;
+      header[3] = frame.keyFrame ? 0x80 : 0x00;
+      blocks.push(element(ids.SimpleBlock, concat([header, frame.data])));
+    }
+
+    flush();
+    return clusters;
+  }
+
+  // Fallback identification header for encoders that don't provide a description
+  static createOpusHead(channels: number, sampleRate: number): Uint8Array {
+    const head = new Uint8Array(19);
+    const view = new DataView(head.buffer);
+    head.set(new TextEncoder().encode('OpusHead'), 0);
+    head[8] = 1; // version
+    head[9] = channels;
+    view.setUint16(10, 312, true); // pre-skip used by libopus
+    view.setUint32(12, sampleRate, true);
+    view.setInt16(16, 0, true); // output gain
+    head[18] = 0; // channel mapping family
+    return head;
+  }
+
+  private static toBytes(source: AllowSharedBufferSource): Uint8Array {
+    if (source instanceof ArrayBuffer) {
+      return new Uint8Array(source.slice(0));
+    }
+    const view = source as ArrayBufferView;
+    return new Uint8Array(view.buffer.slice(view.byteOffset, view.byteOffset + view.byteLength));
+  }
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const length = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function encodeId(id: number): Uint8Array {
+  const bytes: number[] = [];
+  let value = id;
+  while (value > 0) {
+    bytes.unshift(value & 0xff);
+    value = Math.floor(value / 256);
+  }
+  return new Uint8Array(bytes);
+}
+
+function encodeSize(size: number): Uint8Array {
+  let length = 1;
+  while (length < 8 && size >= Math.pow(2, 7 * length) - 1) {
+    length++;
+  }
+
+  const bytes = new Uint8Array(length);
+  let value = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+}
+
+function element(id: number, data: Uint8Array): Uint8Array {
+  return concat([encodeId(id), encodeSize(data.length), data]);
+}
+
+function uintElement(id: number, value: number): Uint8Array {
+  const bytes: number[] = [];
+  let remaining = Math.max(0, Math.floor(value));
+  do {
+    bytes.unshift(remaining % 256);
+    remaining = Math.floor(remaining / 256);
+  } while (remaining > 0);
+  return element(id, new Uint8Array(bytes));
+}
+
+function floatElement(id: number, value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+}
+
+function stringElement(id: number, value: string): Uint8Array {
+  return element(id, new TextEncoder().encode(value));
+}
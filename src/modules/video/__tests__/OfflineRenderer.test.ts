@@ -0,0 +1,38 @@
+import { OfflineRenderer } from '../OfflineRenderer';
+
+const mockAudioManager = {
+  renderOffline: jest.fn(),
+  analyzeFeatures: jest.fn(() => Promise.resolve()),
+  getPlaybackRate: () => 1
+};
+
+jest.mock('../../audio/AudioContext', () => ({
+  AudioContextManager: {
+    getInstance: () => mockAudioManager
+  }
+}));
+
+// isSupported only checks that the WebCodecs classes exist
+const WEBCODECS = ['VideoEncoder', 'AudioEncoder', 'VideoFrame', 'AudioData', 'OfflineAudioContext'];
+
+describe('OfflineRenderer', () => {
+  beforeEach(() => {
+    WEBCODECS.forEach(name => { (globalThis as any)[name] = jest.fn(); });
+    mockAudioManager.renderOffline.mockReset();
+  });
+
+  afterEach(() => {
+    WEBCODECS.forEach(name => { delete (globalThis as any)[name]; });
+  });
+
+  it('should accept a new render after setup fails', async () => {
+    const engine = { stop: jest.fn(), setAudioPlaying: jest.fn(), setAudioSource: jest.fn(), useLiveAudio: jest.fn() };
+    const renderer = new OfflineRenderer({ width: 1080, height: 1920 } as HTMLCanvasElement, engine as any);
+    mockAudioManager.renderOffline.mockRejectedValue(new Error('No audio loaded'));
+
+    await expect(renderer.render({ fps: 30, videoBitrate: 1000000 })).rejects.toThrow('No audio loaded');
+    expect(renderer.isRendering()).toBe(false);
+    await expect(renderer.render({ fps: 30, videoBitrate: 1000000 })).rejects.toThrow('No audio loaded');
+    expect(mockAudioManager.renderOffline).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import { WebMMuxer } from '../WebMMuxer';
+
+const countOccurrences = (bytes: Uint8Array, pattern: number[]): number => {
+  let count = 0;
+  for (let i = 0; i <= bytes.length - pattern.length; i++) {
+    if (pattern.every((value, offset) => bytes[i + offset] === value)) count++;
+  }
+  return count;
+};
+
+describe('WebMMuxer', () => {
+  const createMuxer = () =>
+    new WebMMuxer({
+      video: { codec: 'V_VP9', width: 1080, height: 1920, frameRate: 30 },
+      audio: { codec: 'A_OPUS', sampleRate: 48000, channels: 2 }
+    });
+
+  it('should start with an EBML header and webm doctype', () => {
+    const bytes = createMuxer().finalizeToBytes();
+
+    expect(Array.from(bytes.slice(0, 4))).toEqual([0x1a, 0x45, 0xdf, 0xa3]);
+    expect(new TextDecoder().decode(bytes.slice(0, 64))).toContain('webm');
+  });
+
+  it('should open a new cluster on every video keyframe', () => {
+    const muxer = createMuxer();
+    const frame = new Uint8Array([1, 2, 3]);
+
+    for (let i = 0; i < 6; i++) {
+      muxer.addFrame('video', frame, (i * 1e6) / 30, i % 3 === 0);
+    }
+    muxer.addFrame('audio', frame, 0, true);
+
+    const bytes = muxer.finalizeToBytes();
+    expect(countOccurrences(bytes, [0x1f, 0x43, 0xb6, 0x75])).toBe(2);
+  });
+
+  it('should reject audio when no audio track was configured', () => {
+    const muxer = new WebMMuxer({
+      video: { codec: 'V_VP8', width: 640, height: 480, frameRate: 30 }
+    });
+
+    expect(() => muxer.addFrame('audio', new Uint8Array(1), 0, true)).toThrow();
+  });
+
+  it('should report a webm mime type', () => {
+    expect(createMuxer().getMimeType()).toBe('video/webm;codecs=vp9,opus');
+  });
+});
@@ -1,3 +1,5 @@
+import { createCanvas } from './RenderSurface';
+
 export type BlendMode = 
   | 'normal' 
   | 'multiply' 
@@ -38,6 +40,9 @@ export class EffectBlendingEngine {
   private ctx: CanvasRenderingContext2D;
   private tempCanvases: Map<string, HTMLCanvasElement> = new Map();
   private configuration: BlendingConfiguration;
+  // Output size; the main canvas may have fewer pixels and draw through a scale transform
+  private width: number;
+  private height: number;
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
@@ -46,6 +51,8 @@ export class EffectBlendingEngine {
       throw new Error('Failed to get 2D context for blending engine');
     }
     this.ctx = ctx;
+    this.width = canvas.width;
+    this.height = canvas.height;
     
     this.configuration = {
       layers: [],
@@ -96,9 +103,9 @@ export class EffectBlendingEngine {
     return this.tempCanvases.get(layerId) || null;
   }
 
-  // Composite all layers onto the main canvas
-  composite(): void {
-    const { width, height } = this.canvas;
+  // Composite all layers onto the main canvas, at most `maxLayers` from the bottom
+  composite(maxLayers: number = Infinity): void {
+    const { width, height } = this;
     
     // Clear main canvas
     this.ctx.clearRect(0, 0, width, height);
@@ -112,7 +119,8 @@ export class EffectBlendingEngine {
     // Composite layers in order
     const enabledLayers = this.configuration.layers
       .filter(layer => layer.enabled)
-      .sort((a, b) => a.order - b.order);
+      .sort((a, b) => a.order - b.order)
+      .slice(0, maxLayers);
 
     for (const layer of enabledLayers) {
       this.compositeLayer(layer);
@@ -123,7 +131,7 @@ export class EffectBlendingEngine {
   }
 
   private renderBackground(): void {
-    const { width, height } = this.canvas;
+    const { width, height } = this;
     
     switch (this.configuration.backgroundMode) {
       case 'solid':
@@ -195,9 +203,7 @@ export class EffectBlendingEngine {
   private createTempCanvas(layerId: string): void {
     if (this.tempCanvases.has(layerId)) return;
 
-    const tempCanvas = document.createElement('canvas');
-    tempCanvas.width = this.canvas.width;
-    tempCanvas.height = this.canvas.height;
+    const tempCanvas = createCanvas(this.width, this.height);
     this.tempCanvases.set(layerId, tempCanvas);
   }
 
@@ -207,6 +213,8 @@ export class EffectBlendingEngine {
 
   // Resize all temporary canvases when main canvas size changes
   resize(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
     for (const [, tempCanvas] of this.tempCanvases) {
       tempCanvas.width = width;
       tempCanvas.height = height;
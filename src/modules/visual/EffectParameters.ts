@@ -1,6 +1,9 @@
+import type { ModulationBinding } from './ParameterModulation';
+import type { AutomationLane } from './ParameterAutomation';
+
 export interface ParameterDefinition {
   name: string;
-  type: 'number' | 'color' | 'boolean' | 'select';
+  type: 'number' | 'color' | 'boolean' | 'select' | 'band';
   min?: number;
   max?: number;
   step?: number;
@@ -17,6 +20,13 @@ export class EffectParameterManager {
   private parameters: Map<string, EffectParameter> = new Map();
   private definitions: Map<string, ParameterDefinition[]> = new Map();
   private listeners: Map<string, ((params: EffectParameter) => void)[]> = new Map();
+  private changeListeners: ((effectName: string, params: EffectParameter) => void)[] = [];
+  private modulations: ModulationBinding[] = [];
+  private modulationListeners: ((modulations: ModulationBinding[]) => void)[] = [];
+  private automation: AutomationLane[] = [];
+  private automationListeners: ((lanes: AutomationLane[]) => void)[] = [];
+  // Manager this one is a scope of; effects it has and this one doesn't are taken from it
+  private parent: EffectParameterManager | null = null;
 
   registerEffect(effectName: string, paramDefinitions: ParameterDefinition[]): void {
     this.definitions.set(effectName, paramDefinitions);
@@ -30,16 +40,49 @@ export class EffectParameterManager {
     this.parameters.set(effectName, defaultParams);
   }
 
+  unregisterEffect(effectName: string): void {
+    this.definitions.delete(effectName);
+    this.parameters.delete(effectName);
+  }
+
+  // A separate manager with the same effects, at their defaults and without modulation or
+  // automation. Changes to either manager's values don't reach the other; effects registered
+  // here later, e.g. by a plugin, are picked up by the scope when it first uses them.
+  createScope(): EffectParameterManager {
+    const scope = new EffectParameterManager();
+    scope.parent = this;
+    return scope;
+  }
+
+  getEffectNames(): string[] {
+    const names = new Set(this.definitions.keys());
+    this.parent?.getEffectNames().forEach(effectName => names.add(effectName));
+    return Array.from(names);
+  }
+
   getParameterDefinitions(effectName: string): ParameterDefinition[] {
-    return this.definitions.get(effectName) || [];
+    return this.findDefinitions(effectName) || [];
   }
 
   getParameters(effectName: string): EffectParameter {
-    return this.parameters.get(effectName) || {};
+    return this.findParameters(effectName) || {};
+  }
+
+  private findDefinitions(effectName: string): ParameterDefinition[] | undefined {
+    return this.definitions.get(effectName) ?? this.parent?.findDefinitions(effectName);
+  }
+
+  // This manager's values for an effect, starting at the defaults for one only the parent has
+  private findParameters(effectName: string): EffectParameter | undefined {
+    if (!this.parameters.has(effectName)) {
+      const definitions = this.parent?.findDefinitions(effectName);
+      if (definitions) this.registerEffect(effectName, definitions);
+    }
+    return this.parameters.get(effectName);
   }
 
   setParameter(effectName: string, paramName: string, value: any): void {
-    const params = this.parameters.get(effectName);
+    const params = this.findParameters(effectName);
     if (!params) return;
 
     params[paramName] = value;
@@ -47,7 +90,7 @@ export class EffectParameterManager {
   }
 
   setParameters(effectName: string, newParams: Partial<EffectParameter>): void {
-    const params = this.parameters.get(effectName);
+    const params = this.findParameters(effectName);
     if (!params) return;
 
     Object.assign(params, newParams);
@@ -79,7 +122,18 @@ export class EffectParameterManager {
     }
   }
 
+  // Called for changes to any effect's values, e.g. to mirror them into a render worker
+  addChangeListener(callback: (effectName: string, params: EffectParameter) => void): void {
+    this.changeListeners.push(callback);
+  }
+
+  removeChangeListener(callback: (effectName: string, params: EffectParameter) => void): void {
+    this.changeListeners = this.changeListeners.filter(existing => existing !== callback);
+  }
+
   private notifyListeners(effectName: string, params: EffectParameter): void {
+    this.changeListeners.forEach(callback => callback(effectName, params));
+
     const listeners = this.listeners.get(effectName);
     if (!listeners) return;
 
@@ -87,7 +141,7 @@ export class EffectParameterManager {
   }
 
   resetToDefaults(effectName: string): void {
-    const definitions = this.definitions.get(effectName);
+    const definitions = this.findDefinitions(effectName);
     if (!definitions) return;
 
     const defaultParams: EffectParameter = {};
@@ -98,240 +152,68 @@ export class EffectParameterManager {
     this.parameters.set(effectName, defaultParams);
     this.notifyListeners(effectName, defaultParams);
   }
-}
 
-// Singleton instance
-export const effectParameterManager = new EffectParameterManager();
+  // Audio modulation bindings, for all effects or one
+  getModulations(effectName?: string): ModulationBinding[] {
+    return effectName
+      ? this.modulations.filter(binding => binding.effectName === effectName)
+      : this.modulations;
+  }
 
-// Define default parameters for each effect
-effectParameterManager.registerEffect('waveform', [
-  {
-    name: 'intensity',
-    type: 'number',
-    min: 0,
-    max: 100,
-    step: 1,
-    defaultValue: 50,
-    description: 'Waveform intensity'
-  },
-  {
-    name: 'color',
-    type: 'color',
-    defaultValue: '#00ffff',
-    description: 'Primary color'
-  },
-  {
-    name: 'lineWidth',
-    type: 'number',
-    min: 1,
-    max: 20,
-    step: 1,
-    defaultValue: 3,
-    description: 'Line thickness'
-  },
-  {
-    name: 'glow',
-    type: 'boolean',
-    defaultValue: true,
-    description: 'Enable glow effect'
-  },
-  {
-    name: 'style',
-    type: 'select',
-    options: ['line', 'bars', 'filled'],
-    defaultValue: 'line',
-    description: 'Waveform style'
-  },
-  {
-    name: 'showProgressBar',
-    type: 'boolean',
-    defaultValue: true,
-    description: 'Show progress bar'
-  },
-  {
-    name: 'showProgressIndicator',
-    type: 'boolean',
-    defaultValue: true,
-    description: 'Show progress indicator dot'
-  },
-  {
-    name: 'progressBarPosition',
-    type: 'number',
-    min: 20,
-    max: 1800,
-    step: 10,
-    defaultValue: 50,
-    description: 'Progress bar position from bottom (px)'
-  },
-  {
-    name: 'waveformPosition',
-    type: 'number',
-    min: 20,
-    max: 80,
-    step: 1,
-    defaultValue: 50,
-    description: 'Waveform vertical position (%)'
+  setModulations(modulations: ModulationBinding[]): void {
+    this.modulations = modulations;
+    this.modulationListeners.forEach(callback => callback(modulations));
   }
-]);
-
-effectParameterManager.registerEffect('particles', [
-  {
-    name: 'particleCount',
-    type: 'number',
-    min: 10,
-    max: 500,
-    step: 10,
-    defaultValue: 100,
-    description: 'Number of particles'
-  },
-  {
-    name: 'color',
-    type: 'color',
-    defaultValue: '#ff6b6b',
-    description: 'Particle color'
-  },
-  {
-    name: 'size',
-    type: 'number',
-    min: 1,
-    max: 20,
-    step: 1,
-    defaultValue: 3,
-    description: 'Particle size'
-  },
-  {
-    name: 'speed',
-    type: 'number',
-    min: 0.1,
-    max: 5,
-    step: 0.1,
-    defaultValue: 1,
-    description: 'Movement speed'
-  },
-  {
-    name: 'trail',
-    type: 'boolean',
-    defaultValue: true,
-    description: 'Enable particle trails'
+
+  addModulation(binding: ModulationBinding): void {
+    this.setModulations([...this.modulations, binding]);
+  }
+
+  updateModulation(id: string, changes: Partial<ModulationBinding>): void {
+    this.setModulations(this.modulations.map(binding => binding.id === id ? { ...binding, ...changes } : binding));
+  }
+
+  removeModulation(id: string): void {
+    this.setModulations(this.modulations.filter(binding => binding.id !== id));
+  }
+
+  addModulationListener(callback: (modulations: ModulationBinding[]) => void): void {
+    this.modulationListeners.push(callback);
+  }
+
+  removeModulationListener(callback: (modulations: ModulationBinding[]) => void): void {
+    this.modulationListeners = this.modulationListeners.filter(existing => existing !== callback);
+  }
+
+  // Keyframe automation lanes, for all effects or one
+  getAutomation(effectName?: string): AutomationLane[] {
+    return effectName
+      ? this.automation.filter(lane => lane.effectName === effectName)
+      : this.automation;
   }
-]);
-
-effectParameterManager.registerEffect('geometric', [
-  {
-    name: 'shape',
-    type: 'select',
-    options: ['circles', 'squares', 'triangles', 'hexagons'],
-    defaultValue: 'circles',
-    description: 'Shape type'
-  },
-  {
-    name: 'color',
-    type: 'color',
-    defaultValue: '#4ecdc4',
-    description: 'Shape color'
-  },
-  {
-    name: 'size',
-    type: 'number',
-    min: 10,
-    max: 200,
-    step: 5,
-    defaultValue: 50,
-    description: 'Shape size'
-  },
-  {
-    name: 'rotation',
-    type: 'number',
-    min: 0,
-    max: 360,
-    step: 1,
-    defaultValue: 0,
-    description: 'Rotation angle'
-  },
-  {
-    name: 'complexity',
-    type: 'number',
-    min: 1,
-    max: 10,
-    step: 1,
-    defaultValue: 5,
-    description: 'Pattern complexity'
+
+  setAutomation(lanes: AutomationLane[]): void {
+    this.automation = lanes;
+    this.automationListeners.forEach(callback => callback(lanes));
   }
-]);
-
-effectParameterManager.registerEffect('gradient', [
-  {
-    name: 'color1',
-    type: 'color',
-    defaultValue: '#667eea',
-    description: 'Start color'
-  },
-  {
-    name: 'color2',
-    type: 'color',
-    defaultValue: '#764ba2',
-    description: 'End color'
-  },
-  {
-    name: 'direction',
-    type: 'select',
-    options: ['horizontal', 'vertical', 'diagonal', 'radial'],
-    defaultValue: 'vertical',
-    description: 'Gradient direction'
-  },
-  {
-    name: 'speed',
-    type: 'number',
-    min: 0.1,
-    max: 5,
-    step: 0.1,
-    defaultValue: 1,
-    description: 'Animation speed'
-  },
-  {
-    name: 'waves',
-    type: 'boolean',
-    defaultValue: true,
-    description: 'Enable wave animation'
+
+  addAutomationListener(callback: (lanes: AutomationLane[]) => void): void {
+    this.automationListeners.push(callback);
   }
-]);
-
-effectParameterManager.registerEffect('3d', [
-  {
-    name: 'object',
-    type: 'select',
-    options: ['cube', 'sphere', 'cylinder', 'torus'],
-    defaultValue: 'cube',
-    description: '3D object type'
-  },
-  {
-    name: 'color',
-    type: 'color',
-    defaultValue: '#ff9f43',
-    description: 'Object color'
-  },
-  {
-    name: 'rotationSpeed',
-    type: 'number',
-    min: 0.1,
-    max: 5,
-    step: 0.1,
-    defaultValue: 1,
-    description: 'Rotation speed'
-  },
-  {
-    name: 'scale',
-    type: 'number',
-    min: 0.1,
-    max: 3,
-    step: 0.1,
-    defaultValue: 1,
-    description: 'Object scale'
-  },
-  {
-    name: 'lighting',
-    type: 'boolean',
-    defaultValue: true,
-    description: 'Enable lighting'
+
+  removeAutomationListener(callback: (lanes: AutomationLane[]) => void): void {
+    this.automationListeners = this.automationListeners.filter(existing => existing !== callback);
   }
-]);
\ No newline at end of file
+}
+
+// Singleton instance
+export const effectParameterManager = new EffectParameterManager();
+
+// Picks the band feeding one of the named band slots an effect reads (see VisualEffect.getBands)
+export const bandInput = (slot: string, drives: string): ParameterDefinition => ({
+  name: `${slot}Band`,
+  type: 'band',
+  defaultValue: slot,
+  description: `Band driving ${drives}`
+});
+
@@ -0,0 +1,243 @@
+import { ParameterDefinition, bandInput, effectParameterManager } from './EffectParameters';
+import { EffectContext, VisualEffect } from './VisualEffect';
+import { ShaderEffect, defineShaderEffect } from './ShaderEffect';
+import { waveformPlugin } from './effects/WaveformEffect';
+import { particlesPlugin } from './effects/ParticleEffect';
+import { geometricPlugin } from './effects/GeometricEffect';
+import { gradientPlugin } from './effects/GradientEffect';
+import { threeDPlugin } from './effects/ThreeDEffect';
+import { tunnelPlugin } from './effects/TunnelEffect';
+
+// Every effect the engine can render, built-in or loaded from a plugin module. The effect
+// picker, keyboard shortcuts, layers, clips and preset validation all read this list, and
+// registering an effect also registers its parameters with effectParameterManager.
+
+export interface EffectMetadata {
+  name: string; // saved in projects and presets, so it must not change between versions
+  label: string;
+  category: string;
+  icon: string;
+  description?: string;
+}
+
+export type EffectClass = new (context: EffectContext) => VisualEffect;
+
+export interface EffectPlugin {
+  metadata: EffectMetadata;
+  parameters: ParameterDefinition[];
+  effect: EffectClass;
+}
+
+// Handed to plugin factories, so a module built outside this app can extend the base class
+export interface EffectPluginApi {
+  VisualEffect: typeof VisualEffect;
+  defineEffect: (plugin: EffectPlugin) => EffectPlugin;
+  // GLSL fragment shader effects, see ShaderEffect
+  ShaderEffect: typeof ShaderEffect;
+  defineShaderEffect: typeof defineShaderEffect;
+  bandInput: typeof bandInput;
+}
+
+export type EffectPluginFactory = (api: EffectPluginApi) => EffectPlugin | EffectPlugin[];
+
+// Identity helper that gives plugin authors type checking
+export const defineEffect = (plugin: EffectPlugin): EffectPlugin => plugin;
+
+const PLUGIN_API: EffectPluginApi = { VisualEffect, defineEffect, ShaderEffect, defineShaderEffect, bandInput };
+
+const STORAGE_KEY = 'audioVibe_effectPlugins';
+const EFFECT_NAME = /^[a-z0-9][a-z0-9_-]*$/i;
+
+const isEffectClass = (value: unknown): value is EffectClass =>
+  typeof value === 'function' && value.prototype instanceof VisualEffect;
+
+const isEffectPlugin = (value: unknown): value is EffectPlugin =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as EffectPlugin).metadata === 'object' && (value as EffectPlugin).metadata !== null &&
+  typeof (value as EffectPlugin).effect === 'function';
+
+// Module exports that may hold a factory or a list of plugins; any other export counts
+// only when it is a plugin object itself
+const PLUGIN_EXPORTS = ['default', 'plugin', 'plugins'];
+
+export class EffectRegistry {
+  private plugins: Map<string, EffectPlugin> = new Map();
+  private builtIns: Set<string> = new Set();
+  private modules: Map<string, string[]> = new Map(); // module URL -> effect names
+  private listeners: ((plugins: EffectPlugin[]) => void)[] = [];
+
+  constructor(builtIns: EffectPlugin[] = []) {
+    builtIns.forEach(plugin => {
+      this.register(plugin);
+      this.builtIns.add(plugin.metadata.name);
+    });
+  }
+
+  register(plugin: EffectPlugin): void {
+    const name = this.validate(plugin);
+    const parameters = plugin.parameters || [];
+    this.plugins.set(name, {
+      ...plugin,
+      metadata: {
+        ...plugin.metadata,
+        label: plugin.metadata.label || name,
+        category: plugin.metadata.category || 'Plugins',
+        icon: plugin.metadata.icon || '🧩'
+      },
+      parameters
+    });
+    effectParameterManager.registerEffect(name, parameters);
+    this.notify();
+  }
+
+  // Throws unless the plugin could be registered; returns its name
+  private validate(plugin: EffectPlugin): string {
+    const { name } = plugin.metadata || ({} as EffectMetadata);
+    if (typeof name !== 'string' || !EFFECT_NAME.test(name)) {
+      throw new Error(`Invalid effect name: ${JSON.stringify(name)}`);
+    }
+    if (this.plugins.has(name)) {
+      throw new Error(`An effect named "${name}" is already registered`);
+    }
+    if (!isEffectClass(plugin.effect)) {
+      throw new Error(`Effect "${name}" does not extend VisualEffect`);
+    }
+    return name;
+  }
+
+  // Built-in effects stay registered
+  unregister(name: string): boolean {
+    if (this.builtIns.has(name) || !this.plugins.delete(name)) return false;
+    effectParameterManager.unregisterEffect(name);
+    this.notify();
+    return true;
+  }
+
+  get(name: string): EffectPlugin | undefined {
+    return this.plugins.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.plugins.has(name);
+  }
+
+  getAll(): EffectPlugin[] {
+    return Array.from(this.plugins.values());
+  }
+
+  getNames(): string[] {
+    return Array.from(this.plugins.keys());
+  }
+
+  isBuiltIn(name: string): boolean {
+    return this.builtIns.has(name);
+  }
+
+  // Registers the effects exported by an ES module: plugin objects, plus a `default`,
+  // `plugin` or `plugins` export that is a plugin, a list of plugins, or a factory called
+  // with the plugin API that returns either. Returns the new plugins.
+  registerModule(module: Record<string, unknown>): EffectPlugin[] {
+    // A plugin exported under two names is registered once
+    const plugins = Array.from(new Set(Object.entries(module).flatMap(([key, value]) => {
+      if (isEffectPlugin(value)) return [value];
+      if (!PLUGIN_EXPORTS.includes(key)) return [];
+
+      const result = typeof value === 'function' && !isEffectClass(value)
+        ? (value as EffectPluginFactory)(PLUGIN_API)
+        : value;
+      return (Array.isArray(result) ? result : [result]).filter(isEffectPlugin);
+    })));
+    if (plugins.length === 0) {
+      throw new Error('The module does not export any effects');
+    }
+
+    // Nothing is registered unless the whole module can be
+    const names = new Set<string>();
+    plugins.forEach(plugin => {
+      const name = this.validate(plugin);
+      if (names.has(name)) {
+        throw new Error(`The module exports more than one effect named "${name}"`);
+      }
+      names.add(name);
+    });
+
+    plugins.forEach(plugin => this.register(plugin));
+    return plugins;
+  }
+
+  // Imports a plugin module from a URL and remembers it for the next session
+  async loadModule(url: string): Promise<EffectPlugin[]> {
+    if (this.modules.has(url)) return [];
+
+    const module = await import(/* @vite-ignore */ url);
+    const plugins = this.registerModule(module);
+    this.modules.set(url, plugins.map(plugin => plugin.metadata.name));
+    this.saveModuleUrls([...this.getSavedModuleUrls().filter(saved => saved !== url), url]);
+    return plugins;
+  }
+
+  unloadModule(url: string): void {
+    this.modules.get(url)?.forEach(name => this.unregister(name));
+    this.modules.delete(url);
+    this.saveModuleUrls(this.getSavedModuleUrls().filter(saved => saved !== url));
+  }
+
+  getModuleUrls(): string[] {
+    return Array.from(this.modules.keys());
+  }
+
+  // Reloads the modules of earlier sessions. A module that fails to load stays saved, so a
+  // plugin host that's briefly offline doesn't lose it.
+  async loadSavedModules(): Promise<void> {
+    for (const url of this.getSavedModuleUrls()) {
+      try {
+        await this.loadModule(url);
+      } catch (error) {
+        console.warn(`Failed to load effect plugin ${url}:`, error);
+      }
+    }
+  }
+
+  private getSavedModuleUrls(): string[] {
+    if (typeof localStorage === 'undefined') return [];
+    try {
+      const urls = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+      return Array.isArray(urls) ? urls.filter(url => typeof url === 'string') : [];
+    } catch (error) {
+      console.warn('Failed to read saved effect plugins:', error);
+      return [];
+    }
+  }
+
+  private saveModuleUrls(urls: string[]): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(urls));
+    } catch (error) {
+      console.warn('Failed to save effect plugins:', error);
+    }
+  }
+
+  addListener(listener: (plugins: EffectPlugin[]) => void): void {
+    this.listeners.push(listener);
+  }
+
+  removeListener(listener: (plugins: EffectPlugin[]) => void): void {
+    this.listeners = this.listeners.filter(existing => existing !== listener);
+  }
+
+  private notify(): void {
+    const plugins = this.getAll();
+    this.listeners.forEach(listener => listener(plugins));
+  }
+}
+
+// Singleton instance with the built-in effects
+export const effectRegistry = new EffectRegistry([
+  waveformPlugin,
+  particlesPlugin,
+  geometricPlugin,
+  gradientPlugin,
+  threeDPlugin,
+  tunnelPlugin
+]);
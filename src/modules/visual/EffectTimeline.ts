@@ -0,0 +1,98 @@
+import { Transition } from './TransitionEngine';
+
+// An effect scheduled on the timeline. Times are in milliseconds, like text overlays.
+// The transition (if any) blends into this clip from whatever was showing before it.
+export interface EffectClip {
+  id: string;
+  effectName: string;
+  startTime: number;
+  endTime: number;
+  transition?: Transition;
+}
+
+// What to draw at a given moment. A null clip stands for the engine's base effect,
+// which shows wherever no clip covers the timeline.
+export interface EffectClipFrame {
+  current: EffectClip | null;
+  outgoing: EffectClip | null;
+  transition: Transition | null;
+  progress: number; // Linear 0-1, easing is applied by TransitionEngine
+}
+
+let clipCounter = 0;
+
+export function createEffectClip(effectName: string, startTime: number, endTime: number, transition?: Transition): EffectClip {
+  return {
+    id: `clip-${Date.now()}-${clipCounter++}`,
+    effectName,
+    startTime: Math.max(0, startTime),
+    endTime: Math.max(startTime, endTime),
+    transition
+  };
+}
+
+export function isValidEffectClip(value: any): value is EffectClip {
+  return (
+    !!value &&
+    typeof value.id === 'string' &&
+    typeof value.effectName === 'string' &&
+    Number.isFinite(value.startTime) &&
+    Number.isFinite(value.endTime) &&
+    value.endTime > value.startTime
+  );
+}
+
+// Later-starting clips sit on top; ties keep the list order
+function sortClips(clips: EffectClip[]): EffectClip[] {
+  return clips
+    .map((clip, index) => ({ clip, index }))
+    .sort((a, b) => a.clip.startTime - b.clip.startTime || a.index - b.index)
+    .map(entry => entry.clip);
+}
+
+export function resolveEffectClips(clips: EffectClip[], time: number): EffectClipFrame {
+  const sorted = sortClips(clips);
+  const active = sorted.filter(clip => clip.startTime <= time && time < clip.endTime);
+  const current = active.length > 0 ? active[active.length - 1] : null;
+  const frame: EffectClipFrame = { current, outgoing: null, transition: null, progress: 1 };
+
+  if (!current?.transition || current.transition.duration <= 0) {
+    return frame;
+  }
+
+  const transitionLength = Math.min(current.transition.duration, current.endTime - current.startTime);
+  const elapsed = time - current.startTime;
+  if (elapsed >= transitionLength) {
+    return frame;
+  }
+
+  // The outgoing effect is whatever was on top when this clip started. It keeps
+  // rendering through the transition even if its own clip ends at the cut.
+  const candidates = sorted.filter(clip =>
+    clip !== current && clip.startTime <= current.startTime && clip.endTime >= current.startTime
+  );
+  frame.outgoing = candidates.length > 0 ? candidates[candidates.length - 1] : null;
+  frame.transition = current.transition;
+  frame.progress = elapsed / transitionLength;
+  return frame;
+}
+
+// Lay out clips that cycle through the given effects at a fixed interval
+export function createEffectSequence(
+  effects: string[],
+  duration: number,
+  interval: number,
+  transition?: Transition
+): EffectClip[] {
+  const clips: EffectClip[] = [];
+  if (effects.length === 0 || interval <= 0) return clips;
+
+  for (let start = 0, i = 0; start < duration; start += interval, i++) {
+    const clip = createEffectClip(effects[i % effects.length], start, Math.min(duration, start + interval));
+    if (transition && i > 0) {
+      clip.transition = { ...transition };
+    }
+    clips.push(clip);
+  }
+  return clips;
+}
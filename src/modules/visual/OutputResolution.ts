@@ -0,0 +1,67 @@
+import { AspectRatio, OutputResolution } from '../../types/visual';
+
+// Output sizes for each supported aspect ratio. The short side stays at 1080px so
+// effect sizes tuned for the original 9:16 canvas look the same in every format.
+export const OUTPUT_RESOLUTIONS: Record<AspectRatio, OutputResolution> = {
+  '9:16': { width: 1080, height: 1920 },
+  '16:9': { width: 1920, height: 1080 },
+  '1:1': { width: 1080, height: 1080 },
+  '4:5': { width: 1080, height: 1350 }
+};
+
+export const DEFAULT_OUTPUT_RESOLUTION: OutputResolution = OUTPUT_RESOLUTIONS['9:16'];
+
+export const ASPECT_RATIO_LABELS: Record<AspectRatio, string> = {
+  '9:16': 'Vertical (9:16)',
+  '16:9': 'Landscape (16:9)',
+  '1:1': 'Square (1:1)',
+  '4:5': 'Portrait feed (4:5)'
+};
+
+export function getAspectRatio(resolution: OutputResolution): AspectRatio | null {
+  const entry = Object.entries(OUTPUT_RESOLUTIONS).find(
+    ([, preset]) => preset.width * resolution.height === preset.height * resolution.width
+  );
+  return entry ? (entry[0] as AspectRatio) : null;
+}
+
+export function isValidResolution(resolution: any): resolution is OutputResolution {
+  return (
+    !!resolution &&
+    Number.isFinite(resolution.width) &&
+    Number.isFinite(resolution.height) &&
+    resolution.width >= 16 &&
+    resolution.height >= 16 &&
+    resolution.width <= 7680 &&
+    resolution.height <= 7680
+  );
+}
+
+// Output size persisted by VisualEngine.setOutputResolution
+export function loadSavedOutputResolution(): OutputResolution {
+  const saved = localStorage.getItem('audioVibe_outputResolution');
+  if (saved) {
+    try {
+      const resolution = JSON.parse(saved);
+      if (isValidResolution(resolution)) {
+        return { width: resolution.width, height: resolution.height };
+      }
+    } catch (error) {
+      console.error('Failed to parse output resolution:', error);
+    }
+  }
+  return { ...DEFAULT_OUTPUT_RESOLUTION };
+}
+
+// Largest size with the resolution's aspect ratio that fits inside the given box
+export function fitResolution(
+  resolution: OutputResolution,
+  maxWidth: number,
+  maxHeight: number
+): OutputResolution {
+  const scale = Math.min(maxWidth / resolution.width, maxHeight / resolution.height);
+  return {
+    width: Math.round(resolution.width * scale),
+    height: Math.round(resolution.height * scale)
+  };
+}
@@ -0,0 +1,147 @@
+import { KeyframeData, KeyframeEasing } from '../../types/common';
+import { ParameterDefinition, EffectParameter, effectParameterManager } from './EffectParameters';
+import { mixColors } from './ParameterModulation';
+
+// Keyframes for one effect parameter, in timeline time (ms)
+export interface AutomationLane {
+  id: string;
+  effectName: string;
+  parameter: string;
+  keyframes: KeyframeData[]; // sorted by time
+  enabled: boolean;
+}
+
+export const KEYFRAME_EASINGS: KeyframeEasing[] = ['linear', 'ease-in', 'ease-out', 'ease-in-out', 'hold'];
+
+export const KEYFRAME_EASING_LABELS: Record<KeyframeEasing, string> = {
+  linear: 'Linear',
+  'ease-in': 'Ease in',
+  'ease-out': 'Ease out',
+  'ease-in-out': 'Ease in-out',
+  hold: 'Hold'
+};
+
+let laneCounter = 0;
+
+export function createAutomationLane(effectName: string, parameter: string, keyframes: KeyframeData[] = []): AutomationLane {
+  return {
+    id: `lane-${Date.now()}-${laneCounter++}`,
+    effectName,
+    parameter,
+    keyframes: sortKeyframes(keyframes),
+    enabled: true
+  };
+}
+
+const sortKeyframes = (keyframes: KeyframeData[]) => [...keyframes].sort((a, b) => a.time - b.time);
+
+// Adds a keyframe, replacing one already at the same time
+export function setKeyframe(lane: AutomationLane, keyframe: KeyframeData): AutomationLane {
+  return {
+    ...lane,
+    keyframes: sortKeyframes([...lane.keyframes.filter(existing => existing.time !== keyframe.time), keyframe])
+  };
+}
+
+export function updateKeyframe(lane: AutomationLane, index: number, changes: Partial<KeyframeData>): AutomationLane {
+  return {
+    ...lane,
+    keyframes: sortKeyframes(lane.keyframes.map((keyframe, i) => i === index ? { ...keyframe, ...changes } : keyframe))
+  };
+}
+
+export function removeKeyframe(lane: AutomationLane, index: number): AutomationLane {
+  return { ...lane, keyframes: lane.keyframes.filter((_, i) => i !== index) };
+}
+
+export function isValidAutomationLane(lane: any): lane is AutomationLane {
+  return !!lane &&
+    typeof lane.id === 'string' &&
+    typeof lane.effectName === 'string' &&
+    typeof lane.parameter === 'string' &&
+    Array.isArray(lane.keyframes) &&
+    lane.keyframes.every((keyframe: any) => keyframe && typeof keyframe.time === 'number' && Number.isFinite(keyframe.time) && 'value' in keyframe);
+}
+
+export function normalizeAutomationLanes(value: unknown): AutomationLane[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(isValidAutomationLane)
+    .map(lane => ({
+      ...lane,
+      keyframes: sortKeyframes(lane.keyframes.map(keyframe => ({
+        ...keyframe,
+        easing: KEYFRAME_EASINGS.includes(keyframe.easing as KeyframeEasing) ? keyframe.easing : 'linear'
+      }))),
+      enabled: lane.enabled !== false
+    }));
+}
+
+export function applyEasing(t: number, easing: KeyframeEasing = 'linear'): number {
+  const x = Math.max(0, Math.min(1, t));
+  switch (easing) {
+    case 'ease-in':
+      return x * x;
+    case 'ease-out':
+      return 1 - (1 - x) * (1 - x);
+    case 'ease-in-out':
+      return x < 0.5 ? 2 * x * x : 1 - 2 * (1 - x) * (1 - x);
+    case 'hold':
+      return 0;
+    default:
+      return x;
+  }
+}
+
+// Blend between two keyframe values: numbers and hex colours interpolate, anything else
+// (booleans, selects, bands) switches at the next keyframe
+export function interpolateValue(from: any, to: any, t: number, definition?: ParameterDefinition): any {
+  if (typeof from === 'number' && typeof to === 'number') {
+    let value = from + (to - from) * t;
+    if (definition?.step) {
+      const origin = definition.min ?? 0;
+      value = Number((origin + Math.round((value - origin) / definition.step) * definition.step).toFixed(6));
+    }
+    return value;
+  }
+  if (typeof from === 'string' && typeof to === 'string' && from.startsWith('#') && to.startsWith('#')) {
+    return mixColors(from, to, t);
+  }
+  return t >= 1 ? to : from;
+}
+
+// Value of a lane at a timeline time (ms). Before the first and after the last keyframe
+// the lane holds that keyframe's value.
+export function evaluateLane(lane: AutomationLane, time: number, definition?: ParameterDefinition): any {
+  const { keyframes } = lane;
+  if (keyframes.length === 0) return undefined;
+  if (time <= keyframes[0].time) return keyframes[0].value;
+
+  const last = keyframes[keyframes.length - 1];
+  if (time >= last.time) return last.value;
+
+  let index = 0;
+  while (index < keyframes.length - 2 && keyframes[index + 1].time <= time) {
+    index++;
+  }
+  const from = keyframes[index];
+  const to = keyframes[index + 1];
+  const span = to.time - from.time;
+  const t = span > 0 ? applyEasing((time - from.time) / span, from.easing) : 1;
+  return interpolateValue(from.value, to.value, t, definition);
+}
+
+// The effect's parameters with its automation lanes evaluated at `time` (ms); the input
+// object when no lane applies
+export function applyAutomation(lanes: AutomationLane[], effectName: string, params: EffectParameter, time: number): EffectParameter {
+  const active = lanes.filter(lane => lane.enabled && lane.effectName === effectName && lane.keyframes.length > 0);
+  if (active.length === 0) return params;
+
+  const definitions = effectParameterManager.getParameterDefinitions(effectName);
+  const result = { ...params };
+  active.forEach(lane => {
+    const definition = definitions.find(def => def.name === lane.parameter);
+    result[lane.parameter] = evaluateLane(lane, time, definition);
+  });
+  return result;
+}
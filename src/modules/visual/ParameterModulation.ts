@@ -0,0 +1,241 @@
+import type { AudioAnalyzer } from '../audio/AudioAnalyzer';
+import { FrequencyBandConfig, getBandSourceLabel, getBandSources } from '../audio/FrequencyBands';
+import { ParameterDefinition, EffectParameter, effectParameterManager } from './EffectParameters';
+
+export type ModulationCurve = 'linear' | 'exponential' | 'logarithmic' | 'smooth';
+
+// Binds one numeric or color effect parameter to an audio signal
+export interface ModulationBinding {
+  id: string;
+  effectName: string;
+  parameter: string;
+  source: string; // a signal below, a named band or 'band:<index>'
+  amount: number; // -1 to 1: share of the range added at full signal (negative pulls down)
+  min: number; // output range for numeric parameters
+  max: number;
+  color?: string; // color parameters blend toward this at full signal
+  attack: number; // ms
+  release: number; // ms
+  curve: ModulationCurve;
+  enabled: boolean;
+}
+
+export const MODULATION_SIGNALS = ['rms', 'beat', 'onset', 'beatPhase', 'barPhase'];
+
+const SIGNAL_LABELS: Record<string, string> = {
+  rms: 'RMS level',
+  beat: 'Beat',
+  onset: 'Onset',
+  beatPhase: 'Beat phase',
+  barPhase: 'Bar phase'
+};
+
+export const MODULATION_CURVES: ModulationCurve[] = ['linear', 'exponential', 'logarithmic', 'smooth'];
+
+export const MODULATION_TIME_RANGE = { min: 0, max: 2000 }; // ms
+
+// Any numeric or color parameter can be modulated
+export const isModulatable = (definition: ParameterDefinition) =>
+  definition.type === 'number' || definition.type === 'color';
+
+export function getModulationSources(config: FrequencyBandConfig): string[] {
+  return [...MODULATION_SIGNALS, ...getBandSources(config).filter(source => source !== 'none')];
+}
+
+export function getModulationSourceLabel(source: string, config: FrequencyBandConfig): string {
+  return SIGNAL_LABELS[source] || getBandSourceLabel(source, config);
+}
+
+let bindingCounter = 0;
+
+export function createModulationBinding(effectName: string, definition: ParameterDefinition, source = 'bass'): ModulationBinding {
+  return {
+    id: `mod-${Date.now()}-${bindingCounter++}`,
+    effectName,
+    parameter: definition.name,
+    source,
+    amount: 0.5,
+    min: definition.min ?? 0,
+    max: definition.max ?? 1,
+    color: definition.type === 'color' ? '#ffffff' : undefined,
+    attack: 10,
+    release: 150,
+    curve: 'linear',
+    enabled: true
+  };
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const toNumber = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+// Fills in missing fields and clamps ranges; null if the binding can't be used
+export function normalizeModulationBinding(value: any): ModulationBinding | null {
+  if (!value || typeof value.effectName !== 'string' || typeof value.parameter !== 'string' || typeof value.source !== 'string') {
+    return null;
+  }
+
+  const min = toNumber(value.min, 0);
+  return {
+    id: typeof value.id === 'string' ? value.id : `mod-${Date.now()}-${bindingCounter++}`,
+    effectName: value.effectName,
+    parameter: value.parameter,
+    source: value.source,
+    amount: clamp(toNumber(value.amount, 0.5), -1, 1),
+    min,
+    max: Math.max(min, toNumber(value.max, 1)),
+    color: typeof value.color === 'string' ? value.color : undefined,
+    attack: clamp(toNumber(value.attack, 10), MODULATION_TIME_RANGE.min, MODULATION_TIME_RANGE.max),
+    release: clamp(toNumber(value.release, 150), MODULATION_TIME_RANGE.min, MODULATION_TIME_RANGE.max),
+    curve: MODULATION_CURVES.includes(value.curve) ? value.curve : 'linear',
+    enabled: value.enabled !== false
+  };
+}
+
+export function normalizeModulations(value: unknown): ModulationBinding[] {
+  if (!Array.isArray(value)) return [];
+  return value.map(normalizeModulationBinding).filter((binding): binding is ModulationBinding => binding !== null);
+}
+
+// Shapes a 0-1 signal
+export function applyCurve(value: number, curve: ModulationCurve): number {
+  const x = clamp(value, 0, 1);
+  switch (curve) {
+    case 'exponential':
+      return x * x;
+    case 'logarithmic':
+      return Math.sqrt(x);
+    case 'smooth':
+      return x * x * (3 - 2 * x);
+    default:
+      return x;
+  }
+}
+
+const parseHexColor = (color: string): [number, number, number] | null => {
+  const match = /^#([0-9a-f]{6})$/i.exec(color);
+  if (!match) return null;
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const toHex = (value: number) => Math.round(clamp(value, 0, 255)).toString(16).padStart(2, '0');
+
+export function mixColors(from: string, to: string, amount: number): string {
+  const a = parseHexColor(from);
+  const b = parseHexColor(to);
+  if (!a || !b) return from;
+  const t = clamp(amount, 0, 1);
+  return `#${a.map((channel, i) => toHex(channel + (b[i] - channel) * t)).join('')}`;
+}
+
+// Parameter value with the binding applied at a shaped signal level (0-1)
+export function modulateValue(
+  base: any,
+  binding: ModulationBinding,
+  level: number,
+  definition?: ParameterDefinition
+): any {
+  if (typeof base === 'string') {
+    // Negative amounts have no direction for colours; they blend by the magnitude
+    return binding.color ? mixColors(base, binding.color, Math.abs(binding.amount) * level) : base;
+  }
+  if (typeof base !== 'number') return base;
+
+  let value = clamp(base + binding.amount * level * (binding.max - binding.min), binding.min, binding.max);
+  if (definition?.step) {
+    const origin = definition.min ?? 0;
+    value = origin + Math.round((value - origin) / definition.step) * definition.step;
+    value = Number(value.toFixed(6));
+  }
+  return value;
+}
+
+// Follows the audio signal of each binding with attack/release smoothing and applies the
+// result to effect parameters. update() runs once per rendered frame.
+export class ParameterModulator {
+  private bindings: ModulationBinding[] = [];
+  private envelopes: Map<string, number> = new Map();
+  private lastTime: number | null = null;
+
+  // `time` is the media time in seconds; frame steps come from it so exports at any frame
+  // rate smooth the same way as the preview
+  update(bindings: ModulationBinding[], analyzer: AudioAnalyzer, time?: number): void {
+    const previous = this.lastTime;
+    const dt = time !== undefined && previous !== null && time > previous && time - previous < 0.25
+      ? time - previous
+      : 1 / 60;
+    this.lastTime = time ?? null;
+
+    this.bindings = bindings.filter(binding => binding.enabled);
+    const signals = new Map<string, number>();
+    const active = new Set<string>();
+
+    this.bindings.forEach(binding => {
+      let signal = signals.get(binding.source);
+      if (signal === undefined) {
+        signal = clamp(ParameterModulator.readSignal(binding.source, analyzer), 0, 1);
+        signals.set(binding.source, signal);
+      }
+
+      const current = this.envelopes.get(binding.id) ?? 0;
+      const timeConstant = (signal > current ? binding.attack : binding.release) / 1000;
+      const coefficient = timeConstant > 0 ? 1 - Math.exp(-dt / timeConstant) : 1;
+      this.envelopes.set(binding.id, current + (signal - current) * coefficient);
+      active.add(binding.id);
+    });
+
+    this.envelopes.forEach((_, id) => {
+      if (!active.has(id)) this.envelopes.delete(id);
+    });
+  }
+
+  // Shaped level (0-1) of a binding after the last update
+  getLevel(binding: ModulationBinding): number {
+    return applyCurve(this.envelopes.get(binding.id) ?? 0, binding.curve);
+  }
+
+  // The parameters with this frame's modulation applied; the input object when nothing
+  // modulates the effect
+  apply(effectName: string, params: EffectParameter): EffectParameter {
+    const bindings = this.bindings.filter(binding => binding.effectName === effectName && binding.parameter in params);
+    if (bindings.length === 0) return params;
+
+    const definitions = effectParameterManager.getParameterDefinitions(effectName);
+    const result = { ...params };
+    bindings.forEach(binding => {
+      const definition = definitions.find(def => def.name === binding.parameter);
+      if (definition && !isModulatable(definition)) return;
+
+      // Several bindings on one parameter chain: numeric offsets add up, colour blends stack
+      result[binding.parameter] = modulateValue(result[binding.parameter], binding, this.getLevel(binding), definition);
+    });
+    return result;
+  }
+
+  reset(): void {
+    this.envelopes.clear();
+    this.bindings = [];
+    this.lastTime = null;
+  }
+
+  private static readSignal(source: string, analyzer: AudioAnalyzer): number {
+    switch (source) {
+      case 'rms': {
+        const features = analyzer.getFeatures();
+        return features ? features.rms : analyzer.getAverageVolume();
+      }
+      case 'beat':
+        return analyzer.detectBeat().isBeat ? 1 : 0;
+      case 'onset':
+        return analyzer.detectOnset() ? 1 : 0;
+      case 'beatPhase':
+        return analyzer.getBeatPosition()?.beatPhase ?? 0;
+      case 'barPhase':
+        return analyzer.getBeatPosition()?.barPhase ?? 0;
+      default:
+        return analyzer.getBandValue(source);
+    }
+  }
+}
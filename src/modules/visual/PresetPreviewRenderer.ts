@@ -0,0 +1,107 @@
+import { AudioContextManager } from '../audio/AudioContext';
+import { BufferAudioSource } from '../audio/BufferAudioSource';
+import { getTestSignal } from '../audio/TestSignal';
+import { Project } from '../project/Project';
+import { effectParameterManager } from './EffectParameters';
+import { VisualEngine } from './VisualEngine';
+
+// Plays presets in a small canvas of their own while browsing. The engine has its own
+// parameter scope and doesn't persist settings, so nothing the editor holds changes.
+// Visuals follow a silent loop of the loaded track from the playhead, or the test signal
+// when no track is loaded.
+
+export const PREVIEW_LOOP_SECONDS = 8;
+const PREVIEW_FRAME_INTERVAL = 1000 / 30; // ms; the editor keeps rendering underneath
+
+export class PresetPreviewRenderer {
+  private engine: VisualEngine;
+  private source: BufferAudioSource | null = null;
+  private loopStart = 0; // media time, seconds
+  private loopLength = 0;
+  private startedAt = 0; // performance.now() when the current preset started
+  private lastFrameAt = 0;
+  private animationId: number | null = null;
+  private project: Project | null = null;
+  private ready: Promise<void>;
+  private disposed = false;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.engine = new VisualEngine(canvas, {
+      persistSettings: false,
+      parameterManager: effectParameterManager.createScope()
+    });
+    this.ready = this.connectAudio();
+  }
+
+  private async connectAudio(): Promise<void> {
+    const audioManager = AudioContextManager.getInstance();
+    const track = audioManager.getBuffer();
+
+    let buffer: AudioBuffer;
+    if (track) {
+      // The analyzer falls back to the track's own feature timeline
+      buffer = track;
+      this.loopLength = Math.min(PREVIEW_LOOP_SECONDS, track.duration);
+      this.loopStart = Math.max(0, Math.min(audioManager.getCurrentTime(), track.duration - this.loopLength));
+    } else {
+      const signal = await getTestSignal();
+      buffer = signal.buffer;
+      this.engine.getAnalyzer().setFeatureTimeline(signal.timeline);
+      this.loopLength = buffer.duration;
+      this.loopStart = 0;
+    }
+
+    const source = new BufferAudioSource(buffer);
+    this.source = source;
+    this.engine.setAudioSource(source, () => source.getCurrentTime());
+    this.engine.setAudioProgress(this.loopStart, buffer.duration);
+  }
+
+  // Starts playing a preset from the top of the loop; null stops the preview
+  show(project: Project | null): void {
+    this.project = project;
+    if (!project) {
+      this.stop();
+      return;
+    }
+
+    this.engine.loadProject(project);
+    this.engine.clearCanvas();
+    this.startedAt = performance.now();
+    this.ready
+      .then(() => {
+        if (this.project === project && !this.disposed) this.start();
+      })
+      .catch(error => console.error('Failed to prepare preset preview audio:', error));
+  }
+
+  private start(): void {
+    if (this.animationId === null) {
+      this.animationId = requestAnimationFrame(this.tick);
+    }
+  }
+
+  private stop(): void {
+    if (this.animationId !== null) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+    }
+  }
+
+  private tick = (now: number) => {
+    this.animationId = requestAnimationFrame(this.tick);
+    if (!this.source || now - this.lastFrameAt < PREVIEW_FRAME_INTERVAL) return;
+    this.lastFrameAt = now;
+
+    const elapsed = Math.max(0, (now - this.startedAt) / 1000) % (this.loopLength || 1);
+    const time = this.loopStart + elapsed;
+    this.source.setTime(time);
+    this.engine.renderFrame(time);
+  };
+
+  dispose(): void {
+    this.disposed = true;
+    this.stop();
+    this.engine.dispose();
+  }
+}
@@ -0,0 +1,47 @@
+import { BufferAudioSource } from '../audio/BufferAudioSource';
+import { getTestSignal } from '../audio/TestSignal';
+import { Project } from '../project/Project';
+import { scaleCanvas } from '../project/ProjectStorage';
+import { effectParameterManager } from './EffectParameters';
+import { VisualEngine } from './VisualEngine';
+
+// Preset thumbnails are rendered by a throwaway VisualEngine playing the built-in test
+// signal, so they look the same on every machine and don't depend on the loaded track.
+
+export const PRESET_THUMBNAIL_WIDTH = 180;
+
+const CAPTURE_TIME = 2.05; // seconds into the test signal, just after a kick
+const WARMUP_TIME = 1; // seconds rendered before the capture so trails can build up
+const FRAME_RATE = 30;
+
+// JPEG data URL of the preset, or null where the browser can't draw on a canvas
+export async function renderPresetThumbnail(project: Project, width = PRESET_THUMBNAIL_WIDTH): Promise<string | null> {
+  const canvas = document.createElement('canvas');
+  if (!canvas.getContext('2d')) return null;
+
+  const { buffer, timeline } = await getTestSignal();
+
+  const engine = new VisualEngine(canvas, {
+    persistSettings: false,
+    parameterManager: effectParameterManager.createScope()
+  });
+  try {
+    const source = new BufferAudioSource(buffer);
+    engine.setAudioSource(source, () => source.getCurrentTime());
+    engine.getAnalyzer().setFeatureTimeline(timeline);
+    engine.setAudioProgress(0, buffer.duration);
+    engine.loadProject(project);
+    engine.clearCanvas();
+
+    const frames = Math.round(WARMUP_TIME * FRAME_RATE);
+    for (let i = frames; i >= 0; i--) {
+      const time = CAPTURE_TIME - i / FRAME_RATE;
+      source.setTime(time);
+      engine.renderFrame(time);
+    }
+
+    return scaleCanvas(canvas, width)?.toDataURL('image/jpeg', 0.7) ?? null;
+  } finally {
+    engine.dispose();
+  }
+}
@@ -0,0 +1,97 @@
+import { PerformanceMetrics, PerformanceMonitor, getOptimalSettings } from '../../utils/performance';
+
+// Adaptive preview quality. The governor watches the editor's frame rate and render time
+// through PerformanceMonitor and steps down a tier when the preview can't keep up, then
+// back up once there is headroom again. Export never uses it: engines render at full
+// quality unless adaptive quality is turned on, and exporters turn it off.
+
+export type QualityTier = 'high' | 'medium' | 'low' | 'minimal';
+
+export interface QualityLevel {
+  tier: QualityTier;
+  renderScale: number; // preview canvas resolution relative to the output resolution
+  detail: number; // multiplier for particle and object counts
+  glow: boolean; // shadow blur glows
+  maxLayers: number; // layers drawn in layered composition, from the bottom
+}
+
+export const QUALITY_LEVELS: QualityLevel[] = [
+  { tier: 'high', renderScale: 1, detail: 1, glow: true, maxLayers: Infinity },
+  { tier: 'medium', renderScale: 0.75, detail: 0.6, glow: true, maxLayers: 4 },
+  { tier: 'low', renderScale: 0.5, detail: 0.35, glow: false, maxLayers: 2 },
+  { tier: 'minimal', renderScale: 0.35, detail: 0.2, glow: false, maxLayers: 1 }
+];
+
+export const FULL_QUALITY = QUALITY_LEVELS[0];
+
+export interface QualityGovernorOptions {
+  targetFrameRate?: number;
+  initialTier?: QualityTier;
+}
+
+// Consecutive monitor reports (30 frames each) needed before changing tier
+const REPORTS_TO_DOWNGRADE = 2;
+const REPORTS_TO_UPGRADE = 4;
+
+export class QualityGovernor {
+  private monitor: PerformanceMonitor;
+  private onChange: (level: QualityLevel) => void;
+  private targetFrameRate: number;
+  private levelIndex: number;
+  private slowReports = 0;
+  private fastReports = 0;
+
+  // Without options the target frame rate and starting tier come from the device
+  constructor(onChange: (level: QualityLevel) => void, options: QualityGovernorOptions = {}) {
+    this.onChange = onChange;
+    const optimal = options.targetFrameRate === undefined || options.initialTier === undefined ? getOptimalSettings() : null;
+    this.targetFrameRate = options.targetFrameRate ?? optimal!.targetFrameRate;
+    const initialTier = options.initialTier ?? (optimal!.renderQuality === 'low' ? 'medium' : 'high');
+    this.levelIndex = Math.max(0, QUALITY_LEVELS.findIndex(level => level.tier === initialTier));
+    this.monitor = new PerformanceMonitor(metrics => this.evaluate(metrics));
+  }
+
+  getLevel(): QualityLevel {
+    return QUALITY_LEVELS[this.levelIndex];
+  }
+
+  // Starts a fresh measurement, e.g. when playback starts
+  start(): void {
+    this.slowReports = 0;
+    this.fastReports = 0;
+    this.monitor.start();
+  }
+
+  stop(): void {
+    this.monitor.stop();
+  }
+
+  // Called once per preview frame with the time spent rendering it, in ms
+  recordFrame(renderTime: number): void {
+    this.monitor.recordRenderTime(renderTime);
+    this.monitor.recordFrame();
+  }
+
+  private evaluate(metrics: PerformanceMetrics): void {
+    const budget = 1000 / this.targetFrameRate;
+    const slow = metrics.frameRate < this.targetFrameRate * 0.9 || metrics.renderTime > budget;
+    // Only step up when the frame would still fit the budget at roughly twice the cost
+    const fast = metrics.frameRate >= this.targetFrameRate && metrics.renderTime < budget * 0.5;
+
+    this.slowReports = slow ? this.slowReports + 1 : 0;
+    this.fastReports = fast ? this.fastReports + 1 : 0;
+
+    if (this.slowReports >= REPORTS_TO_DOWNGRADE && this.levelIndex < QUALITY_LEVELS.length - 1) {
+      this.setLevel(this.levelIndex + 1);
+    } else if (this.fastReports >= REPORTS_TO_UPGRADE && this.levelIndex > 0) {
+      this.setLevel(this.levelIndex - 1);
+    }
+  }
+
+  private setLevel(index: number): void {
+    this.levelIndex = index;
+    // Measure the new tier from scratch
+    this.start();
+    this.onChange(this.getLevel());
+  }
+}
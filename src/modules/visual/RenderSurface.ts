@@ -0,0 +1,40 @@
+// Canvases for offscreen drawing (layers, clips, transitions, shaders). Inside a render
+// worker there is no document, so they are OffscreenCanvases, which the rendering code
+// uses exactly like canvas elements.
+export function createCanvas(width: number, height: number): HTMLCanvasElement {
+  if (typeof document === 'undefined') {
+    return new OffscreenCanvas(width, height) as unknown as HTMLCanvasElement;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+// Starts a RenderWorker. Set by the app entry, which is where Vite bundles the worker from;
+// tests, which can't load that, leave it unset.
+let renderWorkerFactory: (() => Worker) | null = null;
+
+export function setRenderWorkerFactory(factory: (() => Worker) | null): void {
+  renderWorkerFactory = factory;
+}
+
+export function createRenderWorker(): Worker {
+  if (!renderWorkerFactory) {
+    throw new Error('No render worker is available');
+  }
+  return renderWorkerFactory();
+}
+
+// Whether the preview can render in a worker: the page canvas must be able to hand its
+// drawing over to an OffscreenCanvas
+export function supportsWorkerRendering(): boolean {
+  return (
+    renderWorkerFactory !== null &&
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof HTMLCanvasElement !== 'undefined' &&
+    'transferControlToOffscreen' in HTMLCanvasElement.prototype
+  );
+}
@@ -0,0 +1,130 @@
+import { AudioFrameSource } from '../audio/AudioAnalyzer';
+import { AudioContextManager } from '../audio/AudioContext';
+import { AudioFeatureTimeline } from '../audio/AudioFeatureTimeline';
+import { frequencyBandManager } from '../audio/FrequencyBands';
+import { effectParameterManager } from './EffectParameters';
+import { effectRegistry } from './EffectRegistry';
+import { VisualEngine } from './VisualEngine';
+import type { RenderWorkerEvent, RenderWorkerRequest } from './WorkerVisualEngine';
+
+// Worker side of WorkerVisualEngine: an engine drawing into the page canvas's
+// OffscreenCanvas. Audio arrives as analyser frames from the main thread, and the media
+// clock runs on from the last reported time between them. The track and its analysis go
+// to this thread's AudioContextManager, where the engine looks for them.
+
+let engine: VisualEngine | null = null;
+
+let frequency = new Uint8Array(0);
+let timeDomain = new Uint8Array(0);
+let sampleRate = 44100;
+let reportedTime = 0;
+let reportedAt = 0;
+let playing = false;
+
+const audioSource: AudioFrameSource = {
+  getFrequencyData: () => frequency,
+  getTimeDomainData: () => timeDomain,
+  getSampleRate: () => sampleRate
+};
+
+let track: AudioBuffer | null = null;
+let timeline: AudioFeatureTimeline | null = null;
+
+// Posted as mono samples; BufferAudioSource needs no more of an AudioBuffer than this
+const toAudioBuffer = ({ sampleRate, samples }: { sampleRate: number; samples: Float32Array }) => ({
+  sampleRate,
+  length: samples.length,
+  duration: samples.length / sampleRate,
+  numberOfChannels: 1,
+  getChannelData: () => samples
+}) as unknown as AudioBuffer;
+
+const mediaClock = () => playing ? reportedTime + (performance.now() - reportedAt) / 1000 : reportedTime;
+
+const post = (event: RenderWorkerEvent) => self.postMessage(event);
+
+// Messages are handled in order, each after the plugin modules sent before it have
+// loaded, so no effect is created before its plugin is registered
+let queue: Promise<void> = Promise.resolve();
+
+async function syncModules(urls: string[]): Promise<void> {
+  effectRegistry.getModuleUrls()
+    .filter(url => !urls.includes(url))
+    .forEach(url => effectRegistry.unloadModule(url));
+  for (const url of urls) {
+    try {
+      await effectRegistry.loadModule(url);
+    } catch (error) {
+      console.error(`Failed to load effect plugin ${url} in the render worker:`, error);
+    }
+  }
+}
+
+function handle(message: RenderWorkerRequest): void {
+  switch (message.type) {
+    case 'init':
+      engine = new VisualEngine(message.canvas as unknown as HTMLCanvasElement, { persistSettings: false });
+      engine.setAudioSource(audioSource, mediaClock);
+      engine.setMediaClock(mediaClock);
+      engine.addQualityListener(level => post({ type: 'quality', level }));
+      break;
+    case 'call': {
+      const method = (engine as unknown as Record<string, (...args: unknown[]) => unknown>)?.[message.method];
+      if (typeof method === 'function') {
+        method.apply(engine, message.args);
+      }
+      break;
+    }
+    case 'parameters': {
+      const store = message.layerId ? engine?.getLayerParameterManager(message.layerId) : effectParameterManager;
+      store?.setParameters(message.effectName, message.params);
+      break;
+    }
+    case 'modulations':
+      effectParameterManager.setModulations(message.modulations);
+      break;
+    case 'automation':
+      effectParameterManager.setAutomation(message.lanes);
+      break;
+    case 'bands':
+      frequencyBandManager.setConfig(message.config);
+      break;
+    case 'track':
+      track = message.track && toAudioBuffer(message.track);
+      AudioContextManager.getInstance().useTrack(track, timeline);
+      break;
+    case 'features':
+      timeline = message.timeline && AudioFeatureTimeline.fromData(message.timeline);
+      AudioContextManager.getInstance().useTrack(track, timeline);
+      break;
+    case 'mix':
+      AudioContextManager.getInstance().setMixSettings(message.settings);
+      break;
+    case 'audio':
+      frequency = message.frequency;
+      timeDomain = message.timeDomain;
+      sampleRate = message.sampleRate;
+      reportedTime = message.time;
+      reportedAt = performance.now();
+      playing = message.playing;
+      break;
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<RenderWorkerRequest>) => {
+  const message = event.data;
+
+  // Audio doesn't wait for plugins; a newer frame arrives every frame
+  if (message.type === 'audio' || message.type === 'track' || message.type === 'features' || message.type === 'mix') {
+    handle(message);
+    return;
+  }
+
+  if (message.type === 'init' || message.type === 'modules') {
+    const urls = message.type === 'init' ? message.modules : message.urls;
+    queue = queue.then(() => syncModules(urls));
+  }
+  queue = queue
+    .then(() => handle(message))
+    .catch(error => console.error(`Render worker failed to handle "${message.type}":`, error));
+});
@@ -0,0 +1,311 @@
+import { Point2D, Point3D, ThreeDObject } from '../../types/visual';
+
+// A small software 3D renderer for Canvas 2D: mesh geometry, a look-at camera, ambient,
+// directional and point lights with Lambert shading, back-face culling and painter's
+// algorithm depth sorting. World space is right-handed with y up.
+
+export type MeshType = ThreeDObject['type'];
+export const MESH_TYPES: MeshType[] = ['cube', 'sphere', 'cylinder', 'torus', 'pyramid'];
+
+export type Mesh = Pick<ThreeDObject, 'vertices' | 'faces'>;
+
+export interface Camera {
+  position: Point3D;
+  target: Point3D;
+  fov: number; // vertical field of view, degrees
+}
+
+export interface DirectionalLight {
+  direction: Point3D; // the way the light travels
+  color: string;
+  intensity: number;
+}
+
+export interface PointLight {
+  position: Point3D;
+  color: string;
+  intensity: number;
+  range: number; // distance at which the light falls to half
+}
+
+export interface SceneLights {
+  ambient: number;
+  directional: DirectionalLight[];
+  points: PointLight[];
+}
+
+export interface ProjectedFace {
+  points: Point2D[];
+  depth: number; // distance in front of the camera
+  color: string;
+}
+
+const NEAR_PLANE = 1;
+
+const add = (a: Point3D, b: Point3D): Point3D => ({ x: a.x + b.x, y: a.y + b.y, z: a.z + b.z });
+const subtract = (a: Point3D, b: Point3D): Point3D => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const dot = (a: Point3D, b: Point3D): number => a.x * b.x + a.y * b.y + a.z * b.z;
+const cross = (a: Point3D, b: Point3D): Point3D => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x
+});
+const length = (a: Point3D): number => Math.sqrt(dot(a, a));
+export const normalize = (a: Point3D): Point3D => {
+  const size = length(a) || 1;
+  return { x: a.x / size, y: a.y / size, z: a.z / size };
+};
+
+const centroid = (points: Point3D[]): Point3D => {
+  const sum = points.reduce(add, { x: 0, y: 0, z: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length, z: sum.z / points.length };
+};
+
+// Newell's method: robust for polygons with repeated vertices, e.g. quads at sphere poles
+export function faceNormal(points: Point3D[]): Point3D {
+  const normal = { x: 0, y: 0, z: 0 };
+  points.forEach((current, i) => {
+    const next = points[(i + 1) % points.length];
+    normal.x += (current.y - next.y) * (current.z + next.z);
+    normal.y += (current.z - next.z) * (current.x + next.x);
+    normal.z += (current.x - next.x) * (current.y + next.y);
+  });
+  return normalize(normal);
+}
+
+// Winds every face counter-clockwise seen from outside, where outside is away from the
+// reference point of the face (the center for convex meshes)
+const orientFaces = (mesh: Mesh, reference: (center: Point3D) => Point3D): Mesh => ({
+  vertices: mesh.vertices,
+  faces: mesh.faces.map(face => {
+    const points = face.map(index => mesh.vertices[index]);
+    const center = centroid(points);
+    return dot(faceNormal(points), subtract(center, reference(center))) < 0 ? [...face].reverse() : face;
+  })
+});
+
+const ORIGIN = (): Point3D => ({ x: 0, y: 0, z: 0 });
+
+// Quads between rows of `columns` vertices, wrapping around each row. With wrapRows the
+// last row joins the first (a torus), otherwise there are rows + 1 vertex rows.
+const gridFaces = (rows: number, columns: number, wrapRows: boolean): number[][] => {
+  const faces: number[][] = [];
+  for (let row = 0; row < rows; row++) {
+    const nextRow = wrapRows ? (row + 1) % rows : row + 1;
+    for (let column = 0; column < columns; column++) {
+      const next = (column + 1) % columns;
+      faces.push([row * columns + column, row * columns + next, nextRow * columns + next, nextRow * columns + column]);
+    }
+  }
+  return faces;
+};
+
+function buildMesh(type: MeshType): Mesh {
+  switch (type) {
+    case 'cube': {
+      const vertices: Point3D[] = [];
+      for (let i = 0; i < 8; i++) {
+        vertices.push({ x: i & 1 ? 0.5 : -0.5, y: i & 2 ? 0.5 : -0.5, z: i & 4 ? 0.5 : -0.5 });
+      }
+      const faces = [[0, 1, 3, 2], [4, 6, 7, 5], [0, 4, 5, 1], [2, 3, 7, 6], [0, 2, 6, 4], [1, 5, 7, 3]];
+      return orientFaces({ vertices, faces }, ORIGIN);
+    }
+    case 'pyramid': {
+      const vertices: Point3D[] = [
+        { x: -0.5, y: -0.5, z: -0.5 },
+        { x: 0.5, y: -0.5, z: -0.5 },
+        { x: 0.5, y: -0.5, z: 0.5 },
+        { x: -0.5, y: -0.5, z: 0.5 },
+        { x: 0, y: 0.5, z: 0 }
+      ];
+      const faces = [[0, 1, 2, 3], [0, 1, 4], [1, 2, 4], [2, 3, 4], [3, 0, 4]];
+      return orientFaces({ vertices, faces }, () => ({ x: 0, y: -0.25, z: 0 }));
+    }
+    case 'sphere': {
+      const rings = 8;
+      const segments = 12;
+      const vertices: Point3D[] = [];
+      for (let ring = 0; ring <= rings; ring++) {
+        const polar = (ring / rings) * Math.PI;
+        for (let segment = 0; segment < segments; segment++) {
+          const azimuth = (segment / segments) * Math.PI * 2;
+          vertices.push({
+            x: 0.5 * Math.sin(polar) * Math.cos(azimuth),
+            y: 0.5 * Math.cos(polar),
+            z: 0.5 * Math.sin(polar) * Math.sin(azimuth)
+          });
+        }
+      }
+      return orientFaces({ vertices, faces: gridFaces(rings, segments, false) }, ORIGIN);
+    }
+    case 'cylinder': {
+      const segments = 14;
+      const vertices: Point3D[] = [];
+      [-0.5, 0.5].forEach(y => {
+        for (let segment = 0; segment < segments; segment++) {
+          const angle = (segment / segments) * Math.PI * 2;
+          vertices.push({ x: 0.5 * Math.cos(angle), y, z: 0.5 * Math.sin(angle) });
+        }
+      });
+      const caps = [0, 1].map(cap => Array.from({ length: segments }, (_, segment) => cap * segments + segment));
+      return orientFaces({ vertices, faces: [...gridFaces(1, segments, false), ...caps] }, ORIGIN);
+    }
+    case 'torus': {
+      const major = 0.35;
+      const minor = 0.15;
+      const segments = 16;
+      const sides = 8;
+      const vertices: Point3D[] = [];
+      for (let segment = 0; segment < segments; segment++) {
+        const u = (segment / segments) * Math.PI * 2;
+        for (let side = 0; side < sides; side++) {
+          const v = (side / sides) * Math.PI * 2;
+          const radius = major + minor * Math.cos(v);
+          vertices.push({ x: radius * Math.cos(u), y: minor * Math.sin(v), z: radius * Math.sin(u) });
+        }
+      }
+      // Outside is away from the nearest point of the ring running through the tube
+      const ringPoint = (center: Point3D): Point3D => {
+        const direction = normalize({ x: center.x, y: 0, z: center.z });
+        return { x: direction.x * major, y: 0, z: direction.z * major };
+      };
+      return orientFaces({ vertices, faces: gridFaces(segments, sides, true) }, ringPoint);
+    }
+  }
+}
+
+const meshCache = new Map<MeshType, Mesh>();
+
+// Unit-sized geometry centered on the origin, shared by every object of the type
+export function createMesh(type: MeshType): Mesh {
+  if (!meshCache.has(type)) {
+    meshCache.set(type, buildMesh(MESH_TYPES.includes(type) ? type : 'cube'));
+  }
+  return meshCache.get(type)!;
+}
+
+export function createSceneObject(type: MeshType, position: Point3D, size: number, color: string): ThreeDObject {
+  const mesh = createMesh(type);
+  return {
+    type,
+    position,
+    rotation: { x: 0, y: 0, z: 0 },
+    scale: { x: size, y: size, z: size },
+    color,
+    vertices: mesh.vertices,
+    faces: mesh.faces
+  };
+}
+
+const rotate = (point: Point3D, rotation: Point3D): Point3D => {
+  let { x, y, z } = point;
+  const [sinX, cosX] = [Math.sin(rotation.x), Math.cos(rotation.x)];
+  [y, z] = [y * cosX - z * sinX, y * sinX + z * cosX];
+  const [sinY, cosY] = [Math.sin(rotation.y), Math.cos(rotation.y)];
+  [x, z] = [x * cosY + z * sinY, -x * sinY + z * cosY];
+  const [sinZ, cosZ] = [Math.sin(rotation.z), Math.cos(rotation.z)];
+  [x, y] = [x * cosZ - y * sinZ, x * sinZ + y * cosZ];
+  return { x, y, z };
+};
+
+const toWorld = (object: ThreeDObject, vertex: Point3D): Point3D => add(
+  rotate({ x: vertex.x * object.scale.x, y: vertex.y * object.scale.y, z: vertex.z * object.scale.z }, object.rotation),
+  object.position
+);
+
+export const parseColor = (color: string): [number, number, number] => {
+  const hex = color.startsWith('#') && color.length === 4
+    ? `#${color[1]}${color[1]}${color[2]}${color[2]}${color[3]}${color[3]}`
+    : color;
+  const channels = [1, 3, 5].map(offset => parseInt(hex.slice(offset, offset + 2), 16));
+  return channels.every(Number.isFinite) ? (channels as [number, number, number]) : [255, 255, 255];
+};
+
+// Lambert shading of a face with the given world-space center and normal
+function shadeFace(base: [number, number, number], center: Point3D, normal: Point3D, lights: SceneLights | null): string {
+  if (!lights) {
+    return `rgb(${base[0]}, ${base[1]}, ${base[2]})`;
+  }
+
+  const light = [lights.ambient, lights.ambient, lights.ambient];
+  const addLight = (color: string, amount: number) => {
+    if (amount <= 0) return;
+    const rgb = parseColor(color);
+    for (let i = 0; i < 3; i++) light[i] += (rgb[i] / 255) * amount;
+  };
+
+  lights.directional.forEach(directional => {
+    addLight(directional.color, dot(normal, normalize(directional.direction)) * -directional.intensity);
+  });
+  lights.points.forEach(point => {
+    const toLight = subtract(point.position, center);
+    const distance = length(toLight);
+    const falloff = 1 / (1 + (distance / Math.max(1, point.range)) ** 2);
+    addLight(point.color, dot(normal, normalize(toLight)) * point.intensity * falloff);
+  });
+
+  const channel = (i: number) => Math.round(Math.min(255, base[i] * light[i]));
+  return `rgb(${channel(0)}, ${channel(1)}, ${channel(2)})`;
+}
+
+// Every face the camera can see, projected to the canvas and sorted far to near.
+// Faces turned away from the camera or reaching behind it are dropped.
+export function projectScene(
+  objects: ThreeDObject[],
+  camera: Camera,
+  lights: SceneLights | null,
+  width: number,
+  height: number
+): ProjectedFace[] {
+  const forward = normalize(subtract(camera.target, camera.position));
+  // Looking straight up or down, any horizontal vector serves as "right"
+  const right = Math.abs(forward.y) > 0.999 ? { x: 1, y: 0, z: 0 } : normalize(cross(forward, { x: 0, y: 1, z: 0 }));
+  const up = cross(right, forward);
+  const focal = (height / 2) / Math.tan((camera.fov * Math.PI) / 360);
+
+  const faces: ProjectedFace[] = [];
+  objects.forEach(object => {
+    const base = parseColor(object.color);
+    const world = object.vertices.map(vertex => toWorld(object, vertex));
+
+    object.faces.forEach(face => {
+      const points = face.map(index => world[index]);
+      const center = centroid(points);
+      const normal = faceNormal(points);
+      if (dot(normal, subtract(center, camera.position)) >= 0) return;
+
+      const view = points.map(point => {
+        const relative = subtract(point, camera.position);
+        return { x: dot(relative, right), y: dot(relative, up), z: dot(relative, forward) };
+      });
+      if (view.some(point => point.z < NEAR_PLANE)) return;
+
+      faces.push({
+        points: view.map(point => ({
+          x: width / 2 + (point.x * focal) / point.z,
+          y: height / 2 - (point.y * focal) / point.z
+        })),
+        depth: view.reduce((sum, point) => sum + point.z, 0) / view.length,
+        color: shadeFace(base, center, normal, lights)
+      });
+    });
+  });
+
+  return faces.sort((a, b) => b.depth - a.depth);
+}
+
+// Paints projected faces in order. Each face is also stroked in its own color to hide the
+// hairline seams antialiasing leaves between neighbours.
+export function drawScene(ctx: CanvasRenderingContext2D, faces: ProjectedFace[], edgeColor: string | null = null): void {
+  ctx.lineJoin = 'round';
+  faces.forEach(face => {
+    ctx.beginPath();
+    face.points.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+    ctx.closePath();
+    ctx.fillStyle = face.color;
+    ctx.fill();
+    ctx.strokeStyle = edgeColor || face.color;
+    ctx.lineWidth = edgeColor ? 1.5 : 1;
+    ctx.stroke();
+  });
+}
@@ -0,0 +1,36 @@
+// Repeatable randomness for effects. A project has one seed; every effect instance draws
+// from its own stream derived from it, so a project looks the same on every play and
+// export, and rerolling the seed gives it a new look.
+
+export const DEFAULT_SEED = 1;
+
+export const isValidSeed = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 0xffffffff;
+
+// A fresh seed for a reroll
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+// The seed for one effect instance, e.g. a layer: mixes the instance's key into the
+// project seed (FNV-1a), so instances differ but each stays the same between renders
+export function deriveSeed(seed: number, key: string): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+// Uniform numbers in [0, 1) like Math.random, from a 32-bit seed (mulberry32)
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
@@ -0,0 +1,138 @@
+import { EffectParameter, ParameterDefinition } from './EffectParameters';
+import type { EffectMetadata, EffectPlugin } from './EffectRegistry';
+import { ShaderProgram, ShaderRenderer, buildFragmentShader, parameterUniforms } from './ShaderRenderer';
+import { AudioFrame, EffectContext, VisualEffect } from './VisualEffect';
+
+// Effects written as a GLSL fragment shader. The shader gets the standard uniforms (see
+// STANDARD_UNIFORMS) plus one `u_<name>` uniform per parameter and writes `fragColor`;
+// `v_uv` runs from 0,0 bottom left to 1,1 top right. Where WebGL2 is missing or the shader
+// doesn't compile, the effect draws its 2D fallback instead.
+
+export type ShaderFallback = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  audio: AudioFrame,
+  parameters: EffectParameter
+) => void;
+
+export interface ShaderEffectDefinition {
+  metadata: EffectMetadata;
+  parameters: ParameterDefinition[];
+  fragmentShader: string;
+  fallback?: ShaderFallback;
+}
+
+const BEAT_DECAY = 8; // per second; u_beat falls from the beat's intensity back to 0
+
+// Spectrum bars tinted with the effect's first color, for shaders without their own fallback
+const drawSpectrumFallback: ShaderFallback = (ctx, width, height, audio, parameters) => {
+  const color = Object.values(parameters).find(value => typeof value === 'string' && value.startsWith('#')) || '#4ecdc4';
+  const spectrum = audio.spectrum;
+  const bars = 48;
+  const barWidth = width / bars;
+  ctx.fillStyle = color;
+  for (let i = 0; i < bars; i++) {
+    const level = (spectrum[Math.floor((i / bars) * spectrum.length * 0.75)] || 0) / 255;
+    const barHeight = level * height * 0.6;
+    ctx.fillRect(i * barWidth + 1, height - barHeight, barWidth - 2, barHeight);
+  }
+};
+
+export class ShaderEffect extends VisualEffect {
+  private definition: ShaderEffectDefinition;
+  private renderer: ShaderRenderer | null = null;
+  private program: ShaderProgram | null = null;
+  private beatLevel = 0;
+  private lastTime: number | null = null;
+
+  constructor(context: EffectContext, definition: ShaderEffectDefinition) {
+    super(context);
+    this.definition = definition;
+  }
+
+  init(): void {
+    this.renderer = this.engine.getShaderRenderer();
+    if (!this.renderer) return;
+
+    try {
+      this.program = this.renderer.compile(buildFragmentShader(this.definition.fragmentShader, this.definition.parameters));
+    } catch (error) {
+      console.error(`Shader effect "${this.effectName}" failed to compile, using its 2D fallback:`, error);
+      this.program = null;
+    }
+  }
+
+  // Whether frames come from the GPU rather than the 2D fallback
+  isUsingWebGL(): boolean {
+    return !!this.renderer && !!this.program && !this.renderer.isContextLost();
+  }
+
+  render(time: number, audio: AudioFrame): void {
+    this.updateBeat(time, audio);
+
+    if (!this.isUsingWebGL()) {
+      this.clear(true);
+      (this.definition.fallback || drawSpectrumFallback)(this.ctx, this.width, this.height, audio, this.parameters);
+      return;
+    }
+
+    const bands = audio.bands;
+    const output = this.renderer!.render(
+      this.program!,
+      this.width,
+      this.height,
+      {
+        u_time: time,
+        u_resolution: [this.width, this.height],
+        u_progress: this.engine.getAudioProgress(),
+        u_bass: bands.bass,
+        u_lowMid: bands.lowMid,
+        u_mid: bands.mid,
+        u_highMid: bands.highMid,
+        u_treble: bands.treble,
+        u_beat: this.beatLevel,
+        ...parameterUniforms(this.definition.parameters, this.parameters)
+      },
+      { fft: audio.spectrum, waveform: audio.waveform }
+    );
+
+    // Transparent shader output shows the background, or the layers below
+    this.clear(true);
+    this.ctx.drawImage(output, 0, 0, this.width, this.height);
+  }
+
+  dispose(): void {
+    super.dispose();
+    if (this.program) {
+      this.renderer?.deleteProgram(this.program);
+      this.program = null;
+    }
+  }
+
+  // Jumps to a beat's intensity, then decays with media time
+  private updateBeat(time: number, audio: AudioFrame): void {
+    const elapsed = this.lastTime !== null && time >= this.lastTime ? time - this.lastTime : 0;
+    this.lastTime = time;
+    this.beatLevel *= Math.exp(-elapsed * BEAT_DECAY);
+    const beat = audio.beat;
+    if (beat.isBeat) {
+      this.beatLevel = Math.max(this.beatLevel, Math.min(1, beat.intensity));
+    }
+  }
+}
+
+// Wraps a shader definition as a registrable effect plugin
+export function defineShaderEffect(definition: ShaderEffectDefinition): EffectPlugin {
+  class DefinedShaderEffect extends ShaderEffect {
+    constructor(context: EffectContext) {
+      super(context, definition);
+    }
+  }
+
+  return {
+    metadata: definition.metadata,
+    parameters: definition.parameters,
+    effect: DefinedShaderEffect
+  };
+}
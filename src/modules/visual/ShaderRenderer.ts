@@ -0,0 +1,278 @@
+import { ParameterDefinition } from './EffectParameters';
+import { createCanvas } from './RenderSurface';
+
+// WebGL2 path for shader effects. Each engine has one renderer, and so one GL context,
+// that draws every shader effect into its own canvas. Effects then copy that canvas onto
+// their 2D canvas, so layers, clips and transitions treat them like any other effect.
+
+// Uniforms every shader effect gets. Band levels are after the effect's band routing.
+export const STANDARD_UNIFORMS = `uniform float u_time;
+uniform vec2 u_resolution;
+uniform float u_progress;
+uniform float u_bass;
+uniform float u_lowMid;
+uniform float u_mid;
+uniform float u_highMid;
+uniform float u_treble;
+uniform float u_beat;
+uniform sampler2D u_fft;
+uniform sampler2D u_waveform;`;
+
+const VERTEX_SHADER = `#version 300 es
+out vec2 v_uv;
+void main() {
+  // One triangle covering the viewport, no vertex buffer needed
+  vec2 position = vec2((gl_VertexID << 1) & 2, gl_VertexID & 2);
+  v_uv = position;
+  gl_Position = vec4(position * 2.0 - 1.0, 0.0, 1.0);
+}`;
+
+// GLSL type a parameter is uploaded as: colors are vec3, everything else a float
+// (booleans as 0/1, selects as the option index). Band parameters only route bands.
+const uniformType = (definition: ParameterDefinition): string | null => {
+  switch (definition.type) {
+    case 'color':
+      return 'vec3';
+    case 'band':
+      return null;
+    default:
+      return 'float';
+  }
+};
+
+export const parameterUniformName = (name: string): string => `u_${name}`;
+
+// The full fragment shader for an effect: version, precision, the standard and parameter
+// uniforms, then the effect's own source. `#line 1` keeps error line numbers in step with it.
+export function buildFragmentShader(source: string, parameters: ParameterDefinition[]): string {
+  const parameterUniforms = parameters
+    .map(definition => {
+      const type = uniformType(definition);
+      return type ? `uniform ${type} ${parameterUniformName(definition.name)};` : null;
+    })
+    .filter(line => line !== null)
+    .join('\n');
+
+  return [
+    '#version 300 es',
+    'precision highp float;',
+    'in vec2 v_uv;',
+    'out vec4 fragColor;',
+    STANDARD_UNIFORMS,
+    parameterUniforms,
+    '#line 1',
+    source
+  ].join('\n');
+}
+
+const hexToRgb = (hex: string): number[] => {
+  const value = /^#[0-9a-f]{3}$/i.test(hex)
+    ? hex.slice(1).split('').map(digit => parseInt(digit + digit, 16))
+    : [1, 3, 5].map(offset => parseInt(hex.slice(offset, offset + 2), 16));
+  return value.map(channel => (Number.isFinite(channel) ? channel : 0) / 255);
+};
+
+// Uniform values for an effect's parameters, keyed by uniform name
+export function parameterUniforms(parameters: ParameterDefinition[], values: Record<string, any>): Record<string, number | number[]> {
+  const uniforms: Record<string, number | number[]> = {};
+  parameters.forEach(definition => {
+    const value = values[definition.name] ?? definition.defaultValue;
+    const name = parameterUniformName(definition.name);
+    switch (definition.type) {
+      case 'color':
+        uniforms[name] = hexToRgb(typeof value === 'string' ? value : definition.defaultValue);
+        break;
+      case 'boolean':
+        uniforms[name] = value ? 1 : 0;
+        break;
+      case 'select':
+        uniforms[name] = Math.max(0, definition.options?.indexOf(value) ?? 0);
+        break;
+      case 'number':
+        uniforms[name] = Number(value) || 0;
+        break;
+    }
+  });
+  return uniforms;
+}
+
+export class ShaderCompileError extends Error {
+  constructor(message: string, public log: string) {
+    super(`${message}: ${log}`);
+    this.name = 'ShaderCompileError';
+  }
+}
+
+export interface ShaderProgram {
+  program: WebGLProgram;
+  uniforms: Map<string, WebGLUniformLocation | null>;
+}
+
+export interface ShaderTextures {
+  fft: Uint8Array; // 0-255 per bin
+  waveform: Float32Array; // -1 to 1
+}
+
+export class ShaderRenderer {
+  readonly canvas: HTMLCanvasElement;
+  private gl: WebGL2RenderingContext;
+  private vertexShader: WebGLShader;
+  private fftTexture: WebGLTexture | null;
+  private waveformTexture: WebGLTexture | null;
+  private waveformBytes = new Uint8Array(0);
+  private contextLost = false;
+  private handleContextLost = (event: Event) => {
+    event.preventDefault();
+    this.contextLost = true;
+  };
+
+  private constructor(canvas: HTMLCanvasElement, gl: WebGL2RenderingContext) {
+    this.canvas = canvas;
+    this.gl = gl;
+    this.vertexShader = this.compileShader(gl.VERTEX_SHADER, VERTEX_SHADER);
+    this.fftTexture = this.createDataTexture();
+    this.waveformTexture = this.createDataTexture();
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    canvas.addEventListener?.('webglcontextlost', this.handleContextLost);
+  }
+
+  // A renderer on its own canvas, or null where WebGL2 isn't available
+  static create(): ShaderRenderer | null {
+    try {
+      const canvas = createCanvas(1, 1);
+      const gl = canvas.getContext('webgl2', { premultipliedAlpha: false, preserveDrawingBuffer: true }) as WebGL2RenderingContext | null;
+      return gl ? new ShaderRenderer(canvas, gl) : null;
+    } catch (error) {
+      console.warn('WebGL2 is not available, shader effects will use their 2D fallback:', error);
+      return null;
+    }
+  }
+
+  isContextLost(): boolean {
+    return this.contextLost;
+  }
+
+  // Throws ShaderCompileError with the driver's log when the source doesn't compile or link
+  compile(fragmentSource: string): ShaderProgram {
+    const gl = this.gl;
+    const fragmentShader = this.compileShader(gl.FRAGMENT_SHADER, fragmentSource);
+    const program = gl.createProgram()!;
+    gl.attachShader(program, this.vertexShader);
+    gl.attachShader(program, fragmentShader);
+    gl.linkProgram(program);
+    gl.deleteShader(fragmentShader);
+
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      const log = gl.getProgramInfoLog(program) || '';
+      gl.deleteProgram(program);
+      throw new ShaderCompileError('Shader program failed to link', log);
+    }
+
+    const shaderProgram: ShaderProgram = { program, uniforms: new Map() };
+    gl.useProgram(program);
+    gl.uniform1i(this.getUniformLocation(shaderProgram, 'u_fft'), 0);
+    gl.uniform1i(this.getUniformLocation(shaderProgram, 'u_waveform'), 1);
+    return shaderProgram;
+  }
+
+  deleteProgram(shaderProgram: ShaderProgram): void {
+    if (!this.contextLost) {
+      this.gl.deleteProgram(shaderProgram.program);
+    }
+  }
+
+  // Draws one frame of a program and returns the canvas holding it
+  render(
+    shaderProgram: ShaderProgram,
+    width: number,
+    height: number,
+    uniforms: Record<string, number | number[]>,
+    textures: ShaderTextures
+  ): HTMLCanvasElement {
+    const gl = this.gl;
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+    gl.viewport(0, 0, width, height);
+    gl.useProgram(shaderProgram.program);
+
+    this.uploadTexture(this.fftTexture, 0, textures.fft);
+    if (this.waveformBytes.length !== textures.waveform.length) {
+      this.waveformBytes = new Uint8Array(textures.waveform.length);
+    }
+    textures.waveform.forEach((sample, i) => {
+      this.waveformBytes[i] = Math.max(0, Math.min(255, Math.round((sample + 1) * 127.5)));
+    });
+    this.uploadTexture(this.waveformTexture, 1, this.waveformBytes);
+
+    Object.entries(uniforms).forEach(([name, value]) => {
+      const location = this.getUniformLocation(shaderProgram, name);
+      if (!location) return; // declared but unused uniforms are optimised away
+      if (typeof value === 'number') {
+        gl.uniform1f(location, value);
+      } else if (value.length === 2) {
+        gl.uniform2fv(location, value);
+      } else if (value.length === 3) {
+        gl.uniform3fv(location, value);
+      } else if (value.length === 4) {
+        gl.uniform4fv(location, value);
+      }
+    });
+
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+    return this.canvas;
+  }
+
+  dispose(): void {
+    this.canvas.removeEventListener?.('webglcontextlost', this.handleContextLost);
+    if (!this.contextLost) {
+      this.gl.deleteTexture(this.fftTexture);
+      this.gl.deleteTexture(this.waveformTexture);
+      this.gl.deleteShader(this.vertexShader);
+      this.gl.getExtension('WEBGL_lose_context')?.loseContext();
+    }
+    this.contextLost = true;
+  }
+
+  private compileShader(type: number, source: string): WebGLShader {
+    const gl = this.gl;
+    const shader = gl.createShader(type)!;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      const log = gl.getShaderInfoLog(shader) || '';
+      gl.deleteShader(shader);
+      throw new ShaderCompileError(type === gl.VERTEX_SHADER ? 'Vertex shader failed to compile' : 'Fragment shader failed to compile', log);
+    }
+    return shader;
+  }
+
+  private getUniformLocation(shaderProgram: ShaderProgram, name: string): WebGLUniformLocation | null {
+    if (!shaderProgram.uniforms.has(name)) {
+      shaderProgram.uniforms.set(name, this.gl.getUniformLocation(shaderProgram.program, name));
+    }
+    return shaderProgram.uniforms.get(name)!;
+  }
+
+  // One-row R8 texture sampled with linear filtering, so shaders can read between bins
+  private createDataTexture(): WebGLTexture | null {
+    const gl = this.gl;
+    const texture = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    return texture;
+  }
+
+  private uploadTexture(texture: WebGLTexture | null, unit: number, data: Uint8Array): void {
+    const gl = this.gl;
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.R8, Math.max(1, data.length), 1, 0, gl.RED, gl.UNSIGNED_BYTE, data.length > 0 ? data : new Uint8Array(1));
+  }
+}
@@ -1,5 +1,7 @@
 import { AudioAnalyzer } from '../audio/AudioAnalyzer';
-import { TextOverlay, TextAnimation, Point2D } from '../../types/visual';
+import { BeatPosition } from '../audio/BeatGrid';
+import { TextOverlay, TextAnimation, Point2D, OutputResolution } from '../../types/visual';
+import { DEFAULT_OUTPUT_RESOLUTION } from './OutputResolution';
 
 export class TextRenderer {
   private ctx: CanvasRenderingContext2D;
@@ -7,7 +9,9 @@ export class TextRenderer {
   private height: number;
   private analyzer: AudioAnalyzer;
   private overlays: TextOverlay[] = [];
-  private animationTime = 0;
+  private animationTime = 0; // seconds, from the time passed to render()
+  private beatPosition: BeatPosition | null = null;
+  private revision = 0; // counts overlay changes, so a paused preview knows to redraw
 
   constructor(ctx: CanvasRenderingContext2D, width: number, height: number, analyzer: AudioAnalyzer) {
     this.ctx = ctx;
@@ -16,18 +20,39 @@ export class TextRenderer {
     this.analyzer = analyzer;
   }
 
+  // Resize the text layer, keeping overlays at the same relative position on the canvas
+  setSize(width: number, height: number): void {
+    if (width === this.width && height === this.height) return;
+
+    this.overlays = TextRenderer.fitOverlays(
+      this.overlays,
+      { width: this.width, height: this.height },
+      { width, height }
+    );
+    this.width = width;
+    this.height = height;
+    this.revision++;
+  }
+
+  getSize(): OutputResolution {
+    return { width: this.width, height: this.height };
+  }
+
   addTextOverlay(overlay: TextOverlay): void {
     this.overlays.push(overlay);
+    this.revision++;
   }
 
   removeTextOverlay(id: string): void {
     this.overlays = this.overlays.filter(overlay => overlay.id !== id);
+    this.revision++;
   }
 
   updateTextOverlay(id: string, updates: Partial<TextOverlay>): void {
     const overlay = this.overlays.find(o => o.id === id);
     if (overlay) {
       Object.assign(overlay, updates);
+      this.revision++;
     }
   }
 
@@ -37,21 +62,40 @@ export class TextRenderer {
 
   clearAllOverlays(): void {
     this.overlays = [];
+    this.revision++;
+  }
+
+  getRevision(): number {
+    return this.revision;
   }
 
+  // Draws the overlays at `currentTime`, the media time in ms, so they look the same at
+  // a given song position whatever the frame rate
   render(currentTime: number): void {
-    this.animationTime += 0.016; // ~60fps
+    this.animationTime = currentTime / 1000;
 
     const bands = this.analyzer.getFrequencyBands();
     const beat = this.analyzer.detectBeat();
+    const beatSynced = this.overlays.some(overlay => overlay.animation.beatSync);
+    const gridBeat = beatSynced ? this.analyzer.detectGridBeat() : null;
+    this.beatPosition = gridBeat ? gridBeat.position : null;
 
     for (const overlay of this.overlays) {
       if (this.shouldRenderOverlay(overlay, currentTime)) {
-        this.renderTextOverlay(overlay, currentTime, bands, beat);
+        this.renderTextOverlay(overlay, currentTime, bands, overlay.animation.beatSync && gridBeat ? gridBeat : beat);
       }
     }
   }
 
+  // Angle driving the looping animations (pulse, wave). Synced overlays complete one
+  // cycle per beat and peak on it; the rest run freely.
+  private getCycleAngle(overlay: TextOverlay): number {
+    if (overlay.animation.beatSync && this.beatPosition) {
+      return this.beatPosition.beatPhase * Math.PI * 2 + Math.PI / 2;
+    }
+    return this.animationTime * 2;
+  }
+
   private shouldRenderOverlay(overlay: TextOverlay, currentTime: number): boolean {
     const { startTime, endTime } = overlay.timing;
     
@@ -195,7 +239,7 @@ export class TextRenderer {
       case 'wave':
         // Only apply wave animation to specific wave text, not position
         if (animation.type === 'wave') {
-          const waveOffset = Math.sin(this.animationTime * 2 + progress * Math.PI * 4) * 10;
+          const waveOffset = Math.sin(this.getCycleAngle(overlay) + progress * Math.PI * 4) * 10;
           x += waveOffset;
         }
         break;
@@ -218,7 +262,7 @@ export class TextRenderer {
         break;
       case 'pulse':
         // Reduce pulse frequency for smoother animation
-        const pulseOpacity = 0.8 + 0.2 * Math.sin(this.animationTime * 2);
+        const pulseOpacity = 0.8 + 0.2 * Math.sin(this.getCycleAngle(overlay));
         opacity *= pulseOpacity;
         break;
     }
@@ -245,7 +289,7 @@ export class TextRenderer {
         this.renderTypewriterText(text, progress, style);
         break;
       case 'wave':
-        this.renderWaveText(text, bands, beat, style);
+        this.renderWaveText(text, bands, beat, style, this.getCycleAngle(overlay));
         break;
       default:
         this.renderStaticText(text, style, bands, beat);
@@ -272,7 +316,7 @@ export class TextRenderer {
     }
   }
 
-  private renderWaveText(text: string, bands: any, beat: any, style: any): void {
+  private renderWaveText(text: string, bands: any, beat: any, style: any, angle: number): void {
     const chars = text.split('');
     let totalWidth = 0;
     
@@ -290,7 +334,7 @@ export class TextRenderer {
       this.ctx.save();
       
       // Wave offset - reduced for stability
-      const waveY = Math.sin(this.animationTime * 2 + i * 0.3) * (15 + bands.treble * 10);
+      const waveY = Math.sin(angle + i * 0.3) * (15 + bands.treble * 10);
       const beatScale = beat.isBeat ? 1 + beat.intensity * 0.1 : 1;
       
       this.ctx.translate(currentX + charWidth / 2, waveY);
@@ -322,12 +366,32 @@ export class TextRenderer {
     this.ctx.restore();
   }
 
+  static scalePosition(position: Point2D, from: OutputResolution, to: OutputResolution): Point2D {
+    return {
+      x: Math.round((position.x / from.width) * to.width),
+      y: Math.round((position.y / from.height) * to.height)
+    };
+  }
+
+  // Map overlays authored for one canvas size (presets assume 1080x1920) onto another
+  static fitOverlays(overlays: TextOverlay[], from: OutputResolution, to: OutputResolution): TextOverlay[] {
+    return overlays.map(overlay => ({
+      ...overlay,
+      position: TextRenderer.scalePosition(overlay.position, from, to)
+    }));
+  }
+
   // Utility methods for creating common text overlays
-  static createDefaultOverlay(id: string, text: string, position?: Point2D): TextOverlay {
+  static createDefaultOverlay(
+    id: string,
+    text: string,
+    position?: Point2D,
+    canvasSize: OutputResolution = DEFAULT_OUTPUT_RESOLUTION
+  ): TextOverlay {
     return {
       id,
       text,
-      position: position || { x: 540, y: 960 }, // Center of 1080x1920
+      position: position || { x: canvasSize.width / 2, y: canvasSize.height / 2 },
       fontSize: 48,
       fontFamily: 'Arial, sans-serif',
       color: '#ffffff',
@@ -362,8 +426,9 @@ export class TextRenderer {
     };
   }
 
-  static createTitleOverlay(text: string): TextOverlay {
-    const overlay = TextRenderer.createDefaultOverlay('title', text, { x: 540, y: 300 });
+  static createTitleOverlay(text: string, canvasSize: OutputResolution = DEFAULT_OUTPUT_RESOLUTION): TextOverlay {
+    const position = { x: canvasSize.width / 2, y: Math.round(canvasSize.height * 0.156) };
+    const overlay = TextRenderer.createDefaultOverlay('title', text, position, canvasSize);
     overlay.fontSize = 72;
     overlay.style.bold = true;
     overlay.style.gradient = true;
@@ -373,8 +438,9 @@ export class TextRenderer {
     return overlay;
   }
 
-  static createSubtitleOverlay(text: string): TextOverlay {
-    const overlay = TextRenderer.createDefaultOverlay('subtitle', text, { x: 540, y: 1620 });
+  static createSubtitleOverlay(text: string, canvasSize: OutputResolution = DEFAULT_OUTPUT_RESOLUTION): TextOverlay {
+    const position = { x: canvasSize.width / 2, y: Math.round(canvasSize.height * 0.844) };
+    const overlay = TextRenderer.createDefaultOverlay('subtitle', text, position, canvasSize);
     overlay.fontSize = 36;
     overlay.animation.type = 'typewriter';
     overlay.animation.duration = 3000;
@@ -382,8 +448,8 @@ export class TextRenderer {
     return overlay;
   }
 
-  static createBeatTextOverlay(text: string): TextOverlay {
-    const overlay = TextRenderer.createDefaultOverlay('beat-text', text);
+  static createBeatTextOverlay(text: string, canvasSize: OutputResolution = DEFAULT_OUTPUT_RESOLUTION): TextOverlay {
+    const overlay = TextRenderer.createDefaultOverlay('beat-text', text, undefined, canvasSize);
     overlay.fontSize = 64;
     overlay.style.bold = true;
     overlay.animation.type = 'pulse';
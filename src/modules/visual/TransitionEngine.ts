@@ -1,4 +1,5 @@
 import { AudioAnalyzer } from '../audio/AudioAnalyzer';
+import { createCanvas } from './RenderSurface';
 
 export interface Transition {
   id: string;
@@ -28,6 +29,11 @@ export class TransitionEngine {
   private state: TransitionState;
   private offscreenCanvas: HTMLCanvasElement;
   private offscreenCtx: CanvasRenderingContext2D;
+  private backgroundColor: string | null = null;
+  // Scratch canvases for the ImageData entry point; putImageData ignores alpha,
+  // transforms and clipping, so frames are always drawn with drawImage
+  private fromCanvas: HTMLCanvasElement | null = null;
+  private toCanvas: HTMLCanvasElement | null = null;
 
   constructor(ctx: CanvasRenderingContext2D, width: number, height: number, analyzer: AudioAnalyzer) {
     this.ctx = ctx;
@@ -36,9 +42,7 @@ export class TransitionEngine {
     this.analyzer = analyzer;
     
     // Create offscreen canvas for transition effects
-    this.offscreenCanvas = document.createElement('canvas');
-    this.offscreenCanvas.width = width;
-    this.offscreenCanvas.height = height;
+    this.offscreenCanvas = createCanvas(width, height);
     const offscreenCtx = this.offscreenCanvas.getContext('2d');
     if (!offscreenCtx) {
       throw new Error('Failed to create offscreen context');
@@ -55,6 +59,23 @@ export class TransitionEngine {
     };
   }
 
+  resize(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+    [this.offscreenCanvas, this.fromCanvas, this.toCanvas].forEach(canvas => {
+      if (canvas) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+    });
+  }
+
+  // Areas not covered by either frame (e.g. corners during a rotation) are filled with
+  // this colour; null leaves them transparent
+  setBackgroundColor(color: string | null): void {
+    this.backgroundColor = color;
+  }
+
   startTransition(transition: Transition, fromEffect: string, toEffect: string): void {
     this.state = {
       isActive: true,
@@ -70,13 +91,49 @@ export class TransitionEngine {
     if (!this.state.isActive || !this.state.currentTransition) return;
 
     const elapsed = Date.now() - this.state.startTime;
-    let progress = elapsed / this.state.currentTransition.duration;
+    const progress = this.computeProgress(elapsed / this.state.currentTransition.duration, this.state.currentTransition);
+    this.state.progress = progress;
+
+    // Complete transition
+    if (progress >= 1) {
+      this.state.isActive = false;
+      this.state.currentTransition = null;
+    }
+  }
+
+  render(fromFrame: ImageData, toFrame: ImageData): void {
+    const toSource = this.loadFrame('to', toFrame);
+    if (!this.state.isActive || !this.state.currentTransition) {
+      // No transition, just render the to frame
+      this.clearTarget();
+      this.ctx.drawImage(toSource, 0, 0);
+      return;
+    }
+
+    const fromSource = this.loadFrame('from', fromFrame);
+    this.renderTransition(fromSource, toSource, this.state.currentTransition, this.state.progress);
+  }
 
+  // Render one transition frame for an explicit linear progress (0-1). Timeline clips use
+  // this so the transition follows the media time in preview and export alike.
+  renderAt(from: HTMLCanvasElement, to: HTMLCanvasElement, transition: Transition, linearProgress: number): void {
+    this.renderTransition(from, to, transition, this.computeProgress(linearProgress, transition));
+  }
+
+  isTransitioning(): boolean {
+    return this.state.isActive;
+  }
+
+  getProgress(): number {
+    return this.state.progress;
+  }
+
+  private computeProgress(linearProgress: number, transition: Transition): number {
     // Apply easing
-    progress = this.applyEasing(progress, this.state.currentTransition.easing);
+    let progress = this.applyEasing(Math.max(0, Math.min(1, linearProgress)), transition.easing);
 
     // Audio-reactive modifications
-    if (this.state.currentTransition.audioReactive) {
+    if (transition.audioReactive) {
       const bands = this.analyzer.getFrequencyBands();
       const beat = this.analyzer.detectBeat();
       
@@ -89,62 +146,57 @@ export class TransitionEngine {
       progress += (bands.treble - 0.5) * 0.05;
     }
 
-    progress = Math.max(0, Math.min(1, progress));
-    this.state.progress = progress;
+    return Math.max(0, Math.min(1, progress));
+  }
 
-    // Complete transition
-    if (progress >= 1) {
-      this.state.isActive = false;
-      this.state.currentTransition = null;
+  private loadFrame(slot: 'from' | 'to', frame: ImageData): HTMLCanvasElement {
+    let canvas = slot === 'from' ? this.fromCanvas : this.toCanvas;
+    if (!canvas) {
+      canvas = createCanvas(this.width, this.height);
+      if (slot === 'from') {
+        this.fromCanvas = canvas;
+      } else {
+        this.toCanvas = canvas;
+      }
     }
+    canvas.getContext('2d')?.putImageData(frame, 0, 0);
+    return canvas;
   }
 
-  render(fromFrame: ImageData, toFrame: ImageData): void {
-    if (!this.state.isActive || !this.state.currentTransition) {
-      // No transition, just render the to frame
-      this.ctx.putImageData(toFrame, 0, 0);
-      return;
-    }
+  private renderTransition(from: HTMLCanvasElement, to: HTMLCanvasElement, transition: Transition, progress: number): void {
+    const direction = transition.direction || 'left';
 
     // Apply the specific transition effect
-    switch (this.state.currentTransition.type) {
+    switch (transition.type) {
       case 'fade':
-        this.renderFadeTransition(fromFrame, toFrame);
+        this.renderFadeTransition(from, to, progress);
         break;
       case 'slide':
-        this.renderSlideTransition(fromFrame, toFrame);
+        this.renderSlideTransition(from, to, progress, direction);
         break;
       case 'zoom':
-        this.renderZoomTransition(fromFrame, toFrame);
+        this.renderZoomTransition(from, to, progress);
         break;
       case 'rotation':
-        this.renderRotationTransition(fromFrame, toFrame);
+        this.renderRotationTransition(from, to, progress);
         break;
       case 'blur':
-        this.renderBlurTransition(fromFrame, toFrame);
+        this.renderBlurTransition(from, to, progress);
         break;
       case 'pixelate':
-        this.renderPixelateTransition(fromFrame, toFrame);
+        this.renderPixelateTransition(from, to, progress);
         break;
       case 'wipe':
-        this.renderWipeTransition(fromFrame, toFrame);
+        this.renderWipeTransition(from, to, progress, direction);
         break;
       case 'dissolve':
-        this.renderDissolveTransition(fromFrame, toFrame);
+        this.renderDissolveTransition(from, to, progress);
         break;
       default:
-        this.renderFadeTransition(fromFrame, toFrame);
+        this.renderFadeTransition(from, to, progress);
     }
   }
 
-  isTransitioning(): boolean {
-    return this.state.isActive;
-  }
-
-  getProgress(): number {
-    return this.state.progress;
-  }
-
   private applyEasing(t: number, easing: string): number {
     switch (easing) {
       case 'ease-in':
@@ -170,176 +222,167 @@ export class TransitionEngine {
     }
   }
 
-  private renderFadeTransition(fromFrame: ImageData, toFrame: ImageData): void {
-    // Clear canvas
-    this.ctx.clearRect(0, 0, this.width, this.height);
-    
-    // Draw from frame with decreasing opacity
-    this.ctx.globalAlpha = 1 - this.state.progress;
-    this.ctx.putImageData(fromFrame, 0, 0);
+  private clearTarget(): void {
+    if (this.backgroundColor) {
+      this.ctx.fillStyle = this.backgroundColor;
+      this.ctx.fillRect(0, 0, this.width, this.height);
+    } else {
+      this.ctx.clearRect(0, 0, this.width, this.height);
+    }
+  }
+
+  private renderFadeTransition(from: HTMLCanvasElement, to: HTMLCanvasElement, progress: number): void {
+    this.clearTarget();
     
-    // Draw to frame with increasing opacity
-    this.ctx.globalAlpha = this.state.progress;
-    this.ctx.putImageData(toFrame, 0, 0);
+    // Draw from frame, then the to frame on top with increasing opacity
+    this.ctx.drawImage(from, 0, 0);
+    this.ctx.globalAlpha = progress;
+    this.ctx.drawImage(to, 0, 0);
     
     // Reset alpha
     this.ctx.globalAlpha = 1;
   }
 
-  private renderSlideTransition(fromFrame: ImageData, toFrame: ImageData): void {
-    const direction = this.state.currentTransition?.direction || 'left';
+  private renderSlideTransition(from: HTMLCanvasElement, to: HTMLCanvasElement, progress: number, direction: string): void {
     let fromX = 0, fromY = 0, toX = 0, toY = 0;
 
     switch (direction) {
       case 'left':
-        fromX = -this.width * this.state.progress;
-        toX = this.width * (1 - this.state.progress);
+        fromX = -this.width * progress;
+        toX = this.width * (1 - progress);
         break;
       case 'right':
-        fromX = this.width * this.state.progress;
-        toX = -this.width * (1 - this.state.progress);
+        fromX = this.width * progress;
+        toX = -this.width * (1 - progress);
         break;
       case 'up':
-        fromY = -this.height * this.state.progress;
-        toY = this.height * (1 - this.state.progress);
+        fromY = -this.height * progress;
+        toY = this.height * (1 - progress);
         break;
       case 'down':
-        fromY = this.height * this.state.progress;
-        toY = -this.height * (1 - this.state.progress);
+        fromY = this.height * progress;
+        toY = -this.height * (1 - progress);
         break;
     }
 
-    this.ctx.clearRect(0, 0, this.width, this.height);
+    this.clearTarget();
     
     // Draw frames at calculated positions
-    this.offscreenCtx.clearRect(0, 0, this.width, this.height);
-    this.offscreenCtx.putImageData(fromFrame, 0, 0);
-    this.ctx.drawImage(this.offscreenCanvas, fromX, fromY);
-    
-    this.offscreenCtx.clearRect(0, 0, this.width, this.height);
-    this.offscreenCtx.putImageData(toFrame, 0, 0);
-    this.ctx.drawImage(this.offscreenCanvas, toX, toY);
+    this.ctx.drawImage(from, fromX, fromY);
+    this.ctx.drawImage(to, toX, toY);
   }
 
-  private renderZoomTransition(fromFrame: ImageData, toFrame: ImageData): void {
-    this.ctx.clearRect(0, 0, this.width, this.height);
+  private renderZoomTransition(from: HTMLCanvasElement, to: HTMLCanvasElement, progress: number): void {
+    this.clearTarget();
     
     // Zoom out from frame, zoom in to frame
-    const fromScale = 1 + this.state.progress * 0.5;
-    const toScale = 0.5 + this.state.progress * 0.5;
+    const fromScale = 1 + progress * 0.5;
+    const toScale = 0.5 + progress * 0.5;
     
     this.ctx.save();
     
     // Draw from frame (zooming out)
-    this.ctx.globalAlpha = 1 - this.state.progress;
+    this.ctx.globalAlpha = 1 - progress;
     this.ctx.translate(this.width / 2, this.height / 2);
     this.ctx.scale(fromScale, fromScale);
     this.ctx.translate(-this.width / 2, -this.height / 2);
-    this.offscreenCtx.clearRect(0, 0, this.width, this.height);
-    this.offscreenCtx.putImageData(fromFrame, 0, 0);
-    this.ctx.drawImage(this.offscreenCanvas, 0, 0);
+    this.ctx.drawImage(from, 0, 0);
     
     this.ctx.restore();
     this.ctx.save();
     
     // Draw to frame (zooming in)
-    this.ctx.globalAlpha = this.state.progress;
+    this.ctx.globalAlpha = progress;
     this.ctx.translate(this.width / 2, this.height / 2);
     this.ctx.scale(toScale, toScale);
     this.ctx.translate(-this.width / 2, -this.height / 2);
-    this.offscreenCtx.clearRect(0, 0, this.width, this.height);
-    this.offscreenCtx.putImageData(toFrame, 0, 0);
-    this.ctx.drawImage(this.offscreenCanvas, 0, 0);
+    this.ctx.drawImage(to, 0, 0);
     
     this.ctx.restore();
     this.ctx.globalAlpha = 1;
   }
 
-  private renderRotationTransition(fromFrame: ImageData, toFrame: ImageData): void {
-    this.ctx.clearRect(0, 0, this.width, this.height);
+  private renderRotationTransition(from: HTMLCanvasElement, to: HTMLCanvasElement, progress: number): void {
+    this.clearTarget();
     
-    const rotation = this.state.progress * Math.PI;
+    const rotation = progress * Math.PI;
     
     this.ctx.save();
     
     // Draw from frame (rotating out)
-    this.ctx.globalAlpha = 1 - this.state.progress;
+    this.ctx.globalAlpha = 1 - progress;
     this.ctx.translate(this.width / 2, this.height / 2);
     this.ctx.rotate(-rotation);
     this.ctx.translate(-this.width / 2, -this.height / 2);
-    this.offscreenCtx.clearRect(0, 0, this.width, this.height);
-    this.offscreenCtx.putImageData(fromFrame, 0, 0);
-    this.ctx.drawImage(this.offscreenCanvas, 0, 0);
+    this.ctx.drawImage(from, 0, 0);
     
     this.ctx.restore();
     this.ctx.save();
     
     // Draw to frame (rotating in)
-    this.ctx.globalAlpha = this.state.progress;
+    this.ctx.globalAlpha = progress;
     this.ctx.translate(this.width / 2, this.height / 2);
     this.ctx.rotate(Math.PI - rotation);
     this.ctx.translate(-this.width / 2, -this.height / 2);
-    this.offscreenCtx.clearRect(0, 0, this.width, this.height);
-    this.offscreenCtx.putImageData(toFrame, 0, 0);
-    this.ctx.drawImage(this.offscreenCanvas, 0, 0);
+    this.ctx.drawImage(to, 0, 0);
     
     this.ctx.restore();
     this.ctx.globalAlpha = 1;
   }
 
-  private renderBlurTransition(fromFrame: ImageData, toFrame: ImageData): void {
-    this.ctx.clearRect(0, 0, this.width, this.height);
+  private renderBlurTransition(from: HTMLCanvasElement, to: HTMLCanvasElement, progress: number): void {
+    this.clearTarget();
     
     // Apply blur effect using CSS filter
-    const blurAmount = Math.sin(this.state.progress * Math.PI) * 10;
+    const blurAmount = Math.sin(progress * Math.PI) * 10;
     
     this.ctx.save();
     this.ctx.filter = `blur(${blurAmount}px)`;
     
     // Crossfade with blur
-    this.ctx.globalAlpha = 1 - this.state.progress;
-    this.ctx.putImageData(fromFrame, 0, 0);
-    
-    this.ctx.globalAlpha = this.state.progress;
-    this.ctx.putImageData(toFrame, 0, 0);
+    this.ctx.drawImage(from, 0, 0);
+    this.ctx.globalAlpha = progress;
+    this.ctx.drawImage(to, 0, 0);
     
     this.ctx.restore();
     this.ctx.globalAlpha = 1;
   }
 
-  private renderPixelateTransition(fromFrame: ImageData, toFrame: ImageData): void {
+  private renderPixelateTransition(from: HTMLCanvasElement, to: HTMLCanvasElement, progress: number): void {
     const maxPixelSize = 20;
-    const pixelSize = Math.sin(this.state.progress * Math.PI) * maxPixelSize + 1;
+    const pixelSize = Math.sin(progress * Math.PI) * maxPixelSize + 1;
     
-    // Create pixelated version
+    // Crossfade into the offscreen canvas
     this.offscreenCtx.clearRect(0, 0, this.width, this.height);
-    
-    // Crossfade
-    this.offscreenCtx.globalAlpha = 1 - this.state.progress;
-    this.offscreenCtx.putImageData(fromFrame, 0, 0);
-    this.offscreenCtx.globalAlpha = this.state.progress;
-    this.offscreenCtx.putImageData(toFrame, 0, 0);
+    this.offscreenCtx.drawImage(from, 0, 0);
+    this.offscreenCtx.globalAlpha = progress;
+    this.offscreenCtx.drawImage(to, 0, 0);
     this.offscreenCtx.globalAlpha = 1;
     
     // Apply pixelation effect
-    this.ctx.clearRect(0, 0, this.width, this.height);
+    this.clearTarget();
     this.ctx.imageSmoothingEnabled = false;
     
     const scaledWidth = this.width / pixelSize;
     const scaledHeight = this.height / pixelSize;
     
-    // Draw small, then scale up
+    // Draw small, then scale up. The target may have fewer pixels than the output (reduced
+    // preview quality), and the copy's source rectangle is in its pixels, not output units.
+    const pixelScaleX = this.ctx.canvas.width / this.width;
+    const pixelScaleY = this.ctx.canvas.height / this.height;
     this.ctx.drawImage(this.offscreenCanvas, 0, 0, scaledWidth, scaledHeight);
-    this.ctx.drawImage(this.ctx.canvas, 0, 0, scaledWidth, scaledHeight, 0, 0, this.width, this.height);
+    this.ctx.drawImage(
+      this.ctx.canvas,
+      0, 0, scaledWidth * pixelScaleX, scaledHeight * pixelScaleY,
+      0, 0, this.width, this.height
+    );
     
     this.ctx.imageSmoothingEnabled = true;
   }
 
-  private renderWipeTransition(fromFrame: ImageData, toFrame: ImageData): void {
-    const direction = this.state.currentTransition?.direction || 'left';
-    
-    this.ctx.clearRect(0, 0, this.width, this.height);
-    this.ctx.putImageData(fromFrame, 0, 0);
+  private renderWipeTransition(from: HTMLCanvasElement, to: HTMLCanvasElement, progress: number, direction: string): void {
+    this.clearTarget();
+    this.ctx.drawImage(from, 0, 0);
     
     // Create clipping path for wipe effect
     this.ctx.save();
@@ -347,52 +390,83 @@ export class TransitionEngine {
     
     switch (direction) {
       case 'left':
-        this.ctx.rect(0, 0, this.width * this.state.progress, this.height);
+        this.ctx.rect(0, 0, this.width * progress, this.height);
         break;
       case 'right':
-        this.ctx.rect(this.width * (1 - this.state.progress), 0, this.width * this.state.progress, this.height);
+        this.ctx.rect(this.width * (1 - progress), 0, this.width * progress, this.height);
         break;
       case 'up':
-        this.ctx.rect(0, 0, this.width, this.height * this.state.progress);
+        this.ctx.rect(0, 0, this.width, this.height * progress);
         break;
       case 'down':
-        this.ctx.rect(0, this.height * (1 - this.state.progress), this.width, this.height * this.state.progress);
+        this.ctx.rect(0, this.height * (1 - progress), this.width, this.height * progress);
         break;
       case 'center':
-        const radius = Math.min(this.width, this.height) * this.state.progress * 0.7;
+        const radius = Math.min(this.width, this.height) * progress * 0.7;
         this.ctx.arc(this.width / 2, this.height / 2, radius, 0, Math.PI * 2);
         break;
     }
     
     this.ctx.clip();
-    this.ctx.putImageData(toFrame, 0, 0);
+    this.ctx.drawImage(to, 0, 0);
     this.ctx.restore();
   }
 
-  private renderDissolveTransition(fromFrame: ImageData, toFrame: ImageData): void {
-    // Create noise-based dissolve pattern
-    const fromImageData = new ImageData(fromFrame.data.slice(), fromFrame.width, fromFrame.height);
-    const toImageData = new ImageData(toFrame.data.slice(), toFrame.width, toFrame.height);
-    
-    const threshold = this.state.progress;
-    
-    for (let i = 0; i < fromImageData.data.length; i += 4) {
-      const noise = Math.random();
-      
-      if (noise < threshold) {
-        // Use to frame pixel
-        fromImageData.data[i] = toImageData.data[i];
-        fromImageData.data[i + 1] = toImageData.data[i + 1];
-        fromImageData.data[i + 2] = toImageData.data[i + 2];
-        fromImageData.data[i + 3] = toImageData.data[i + 3];
+  private renderDissolveTransition(from: HTMLCanvasElement, to: HTMLCanvasElement, progress: number): void {
+    const blockSize = 16;
+    this.clearTarget();
+    this.ctx.drawImage(from, 0, 0);
+
+    // Reveal the to frame block by block. The per-block threshold is a fixed hash of
+    // its position, so the pattern grows steadily instead of flickering every frame.
+    this.ctx.save();
+    this.ctx.beginPath();
+    for (let y = 0; y < this.height; y += blockSize) {
+      for (let x = 0; x < this.width; x += blockSize) {
+        if (TransitionEngine.blockNoise(x / blockSize, y / blockSize) < progress) {
+          this.ctx.rect(x, y, blockSize, blockSize);
+        }
       }
     }
-    
-    this.ctx.clearRect(0, 0, this.width, this.height);
-    this.ctx.putImageData(fromImageData, 0, 0);
+    this.ctx.clip();
+    this.ctx.drawImage(to, 0, 0);
+    this.ctx.restore();
+  }
+
+  private static blockNoise(x: number, y: number): number {
+    const n = Math.sin(x * 12.9898 + y * 78.233) * 43758.5453;
+    return n - Math.floor(n);
   }
 
   // Predefined transitions
+  static createTransition(type: Transition['type'], duration = 1000): Transition {
+    switch (type) {
+      case 'slide':
+        return TransitionEngine.createSlideTransition('left', duration);
+      case 'zoom':
+        return TransitionEngine.createZoomTransition(duration);
+      case 'rotation':
+        return TransitionEngine.createRotationTransition(duration);
+      case 'wipe':
+        return TransitionEngine.createWipeTransition('center', duration);
+      case 'dissolve':
+        return TransitionEngine.createDissolveTransition(duration);
+      case 'blur':
+      case 'pixelate':
+        return {
+          id: `${type}-${Date.now()}`,
+          name: type === 'blur' ? 'Blur' : 'Pixelate',
+          type,
+          duration,
+          easing: 'ease-in-out',
+          audioReactive: false,
+          parameters: {}
+        };
+      default:
+        return TransitionEngine.createFadeTransition(duration);
+    }
+  }
+
   static createFadeTransition(duration = 1000, audioReactive = false): Transition {
     return {
       id: `fade-${Date.now()}`,
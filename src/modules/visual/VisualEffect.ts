@@ -0,0 +1,200 @@
+import type { AudioAnalyzer, BeatDetectionResult, FrequencyBands } from '../audio/AudioAnalyzer';
+import { EffectParameter, EffectParameterManager } from './EffectParameters';
+import type { ParameterModulator } from './ParameterModulation';
+import { applyAutomation } from './ParameterAutomation';
+import type { VisualEngine } from './VisualEngine';
+import type { QualityLevel } from './QualityGovernor';
+import { createRandom } from './SeededRandom';
+
+// Base class for every effect, built-in or loaded as a plugin (see EffectRegistry).
+// Lifecycle: constructed with an EffectContext, init() once before the first frame,
+// resize() when the output size changes, render() every frame, dispose() when removed.
+
+export interface EffectContext {
+  ctx: CanvasRenderingContext2D;
+  width: number;
+  height: number;
+  analyzer: AudioAnalyzer;
+  effectName: string;
+  engine: VisualEngine;
+  seed: number; // this instance's share of the project seed
+}
+
+// What an effect hears this frame. Values are computed when first read.
+export interface AudioFrame {
+  time: number; // media time, seconds
+  bands: FrequencyBands; // after the effect's '<slot>Band' routing
+  waveform: Float32Array;
+  spectrum: Uint8Array; // 0-255 per FFT bin, low to high frequencies
+  beat: BeatDetectionResult;
+  analyzer: AudioAnalyzer; // grid beats, beat position and custom bands
+}
+
+const MAX_FRAME_STEP = 0.1; // seconds; longer gaps (seeks, stalls) don't jump the animation
+
+export abstract class VisualEffect {
+  protected ctx: CanvasRenderingContext2D;
+  protected width: number;
+  protected height: number;
+  protected parameters: EffectParameter = {};
+  // Parameters as set by the user; `parameters` adds this frame's automation and modulation
+  private baseParameters: EffectParameter = {};
+  public effectName: string;
+  protected engine: VisualEngine;
+  private analyzer: AudioAnalyzer;
+  private parameterManager: EffectParameterManager;
+  // Layers above the bottom one fade to transparent instead of painting the background
+  protected transparentBackground = false;
+  // Use instead of Math.random so renders of a project repeat exactly
+  protected random: () => number;
+  private lastFrameTime: number | null = null;
+  private parameterListener = (params: EffectParameter) => {
+    this.baseParameters = params;
+    this.parameters = params;
+  };
+
+  constructor(context: EffectContext) {
+    this.ctx = context.ctx;
+    this.width = context.width;
+    this.height = context.height;
+    this.analyzer = context.analyzer;
+    this.effectName = context.effectName;
+    this.engine = context.engine;
+    this.random = createRandom(context.seed);
+    this.parameterManager = this.engine.getParameterManager();
+    this.parameters = this.parameterManager.getParameters(this.effectName);
+    this.baseParameters = this.parameters;
+
+    // Listen for parameter changes
+    this.parameterManager.addParameterListener(this.effectName, this.parameterListener);
+  }
+
+  // Called once after construction, before the first frame
+  init(): void {}
+
+  abstract render(time: number, audio: AudioFrame): void;
+
+  // Draws one frame at `time` (seconds) with this frame's audio
+  renderFrame(time: number): void {
+    const analyzer = this.analyzer;
+    const routeBands = () => this.getBands();
+    let bands: FrequencyBands | undefined;
+    let waveform: Float32Array | undefined;
+    let spectrum: Uint8Array | undefined;
+    let beat: BeatDetectionResult | undefined;
+    const audio: AudioFrame = {
+      time,
+      analyzer,
+      get bands() {
+        return bands ?? (bands = routeBands());
+      },
+      get waveform() {
+        return waveform ?? (waveform = analyzer.getWaveformData());
+      },
+      get spectrum() {
+        return spectrum ?? (spectrum = analyzer.getFrequencyData());
+      },
+      get beat() {
+        return beat ?? (beat = analyzer.detectBeat());
+      }
+    };
+    this.render(time, audio);
+  }
+
+  // Called when the engine's output resolution changes
+  resize(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+  }
+
+  setTransparentBackground(transparent: boolean): void {
+    this.transparentBackground = transparent;
+  }
+
+  dispose(): void {
+    this.parameterManager.removeParameterListener(this.effectName, this.parameterListener);
+  }
+
+  // Read values from another store than the engine's, e.g. a layer's own
+  useParameterManager(manager: EffectParameterManager): void {
+    this.parameterManager.removeParameterListener(this.effectName, this.parameterListener);
+    this.parameterManager = manager;
+    manager.addParameterListener(this.effectName, this.parameterListener);
+    this.baseParameters = manager.getParameters(this.effectName);
+    this.parameters = this.baseParameters;
+  }
+
+  // Method to update parameters after effect creation
+  updateParameters(params: EffectParameter): void {
+    this.baseParameters = { ...this.baseParameters, ...params };
+    this.parameters = this.baseParameters;
+  }
+
+  // Recompute this frame's parameters: keyframe lanes evaluated at `time` (ms) replace the
+  // user's values, then audio modulation is applied on top
+  applyFrameParameters(time: number, modulator: ParameterModulator): void {
+    const automated = applyAutomation(this.engine.getParameterManager().getAutomation(), this.effectName, this.baseParameters, time);
+    this.parameters = modulator.apply(this.effectName, automated);
+  }
+
+  // The named bands as this effect sees them. A '<slot>Band' parameter (type 'band')
+  // feeds that slot from another band, e.g. particle spawn from a narrow kick band.
+  protected getBands(): FrequencyBands {
+    const bands = { ...this.analyzer.getFrequencyBands() };
+    (Object.keys(bands) as (keyof FrequencyBands)[]).forEach(slot => {
+      const source = this.parameters[`${slot}Band`];
+      if (typeof source === 'string' && source !== slot) {
+        bands[slot] = this.analyzer.getBandValue(source);
+      }
+    });
+    return bands;
+  }
+
+  // Media time since this effect's previous frame, in seconds, for motion that builds up
+  // from frame to frame. Moving by it rather than a fixed amount per frame keeps the speed
+  // the same at any frame rate. Zero on the first frame and after seeking backwards.
+  protected frameStep(time: number): number {
+    const step = this.lastFrameTime !== null && time >= this.lastFrameTime ? Math.min(time - this.lastFrameTime, MAX_FRAME_STEP) : 0;
+    this.lastFrameTime = time;
+    return step;
+  }
+
+  // The engine's current preview quality; always full quality when exporting
+  protected get quality(): QualityLevel {
+    return this.engine.getQuality();
+  }
+
+  // A particle or object count reduced to the current quality's level of detail
+  protected scaleDetail(count: number): number {
+    return Math.max(1, Math.round(count * this.quality.detail));
+  }
+
+  protected clear(fullClear: boolean = false): void {
+    // Low opacity leaves a trail effect (unless full clear is requested)
+    this.fillBackground(fullClear ? 1 : 0.1);
+  }
+
+  protected fillBackground(opacity: number): void {
+    if (this.transparentBackground) {
+      this.ctx.save();
+      this.ctx.globalCompositeOperation = 'destination-out';
+      this.ctx.fillStyle = `rgba(0, 0, 0, ${opacity})`;
+      this.ctx.fillRect(0, 0, this.width, this.height);
+      this.ctx.restore();
+      return;
+    }
+
+    const bgColor = this.engine.getBackgroundColor();
+
+    // Convert hex to rgba with the requested opacity
+    if (bgColor.startsWith('#')) {
+      const r = parseInt(bgColor.slice(1, 3), 16);
+      const g = parseInt(bgColor.slice(3, 5), 16);
+      const b = parseInt(bgColor.slice(5, 7), 16);
+      this.ctx.fillStyle = `rgba(${r}, ${g}, ${b}, ${opacity})`;
+    } else {
+      this.ctx.fillStyle = bgColor;
+    }
+    this.ctx.fillRect(0, 0, this.width, this.height);
+  }
+}
@@ -1,58 +1,64 @@
-import { AudioAnalyzer } from '../audio/AudioAnalyzer';
-import { effectParameterManager, EffectParameter } from './EffectParameters';
+import { AudioAnalyzer, AudioFrameSource } from '../audio/AudioAnalyzer';
+import { AudioContextManager } from '../audio/AudioContext';
+import { BufferAudioSource } from '../audio/BufferAudioSource';
+import { frequencyBandManager } from '../audio/FrequencyBands';
+import { effectParameterManager, EffectParameter, EffectParameterManager } from './EffectParameters';
+import { ParameterModulator } from './ParameterModulation';
+import { VisualEffect } from './VisualEffect';
+import { effectRegistry } from './EffectRegistry';
+import { ShaderRenderer } from './ShaderRenderer';
+import { createCanvas } from './RenderSurface';
+import { DEFAULT_SEED, createSeed, deriveSeed, isValidSeed } from './SeededRandom';
+import { FULL_QUALITY, QualityGovernor, QualityGovernorOptions, QualityLevel } from './QualityGovernor';
 import { TextRenderer } from './TextRenderer';
-import { TextOverlay } from '../../types/visual';
-
-export abstract class VisualEffect {
-  protected ctx: CanvasRenderingContext2D;
-  protected width: number;
-  protected height: number;
-  protected analyzer: AudioAnalyzer;
-  protected parameters: EffectParameter = {};
-  public effectName: string;
-  protected engine: VisualEngine;
-
-  constructor(ctx: CanvasRenderingContext2D, width: number, height: number, analyzer: AudioAnalyzer, effectName: string, engine: VisualEngine) {
-    this.ctx = ctx;
-    this.width = width;
-    this.height = height;
-    this.analyzer = analyzer;
-    this.effectName = effectName;
-    this.engine = engine;
-    this.parameters = effectParameterManager.getParameters(effectName);
-    
-    // Listen for parameter changes
-    effectParameterManager.addParameterListener(effectName, (params) => {
-      this.parameters = params;
-    });
-  }
+import { EffectBlendingEngine, BlendLayer } from './EffectBlending';
+import { TransitionEngine } from './TransitionEngine';
+import { EffectClip, resolveEffectClips } from './EffectTimeline';
+import { TextOverlay, OutputResolution } from '../../types/visual';
+import { DEFAULT_OUTPUT_RESOLUTION, fitResolution, isValidResolution, loadSavedOutputResolution } from './OutputResolution';
+import { DEFAULT_EXPORT_SETTINGS, PROJECT_VERSION, Project, ProjectExportSettings, normalizeProject } from '../project/Project';
+
+export type CompositionMode = 'single' | 'layered';
+
+interface ClipSlot {
+  canvas: HTMLCanvasElement;
+  effect: VisualEffect;
+}
 
-  abstract render(): void;
-  
-  // Method to update parameters after effect creation
-  updateParameters(params: EffectParameter): void {
-    this.parameters = { ...this.parameters, ...params };
-  }
-  
-  protected clear(fullClear: boolean = false): void {
-    const bgColor = this.engine.getBackgroundColor();
-    
-    // Convert hex to rgba with low opacity for trail effect (unless full clear is requested)
-    if (bgColor.startsWith('#')) {
-      const r = parseInt(bgColor.slice(1, 3), 16);
-      const g = parseInt(bgColor.slice(3, 5), 16);
-      const b = parseInt(bgColor.slice(5, 7), 16);
-      const opacity = fullClear ? 1 : 0.1;
-      this.ctx.fillStyle = `rgba(${r}, ${g}, ${b}, ${opacity})`;
-    } else {
-      this.ctx.fillStyle = bgColor;
-    }
-    this.ctx.fillRect(0, 0, this.width, this.height);
-  }
+// Slot key for the base effect, shown wherever no clip covers the timeline
+const BASE_CLIP_SLOT = '__base__';
+
+// Time the paused preview spends per display frame catching up to the playhead
+const SCRUB_FRAME_BUDGET_MS = 8;
+// Song time the paused preview renders before the playhead so trails and particles build up
+const SCRUB_WARMUP_SECONDS = 2;
+
+// The paused preview's export-like render of the project (see renderPausedFrame)
+interface ScrubRender {
+  engine: VisualEngine;
+  source: BufferAudioSource;
+  buffer: AudioBuffer;
+  revision: string; // the project changes it renders, see getScrubRevision
+  nextFrame: number; // export frame index it renders next
+  shownFrame: number; // frame last copied to this engine's canvas, -1 for none
+}
+
+export interface VisualEngineOptions {
+  // Remember background color and output resolution in localStorage, and apply a loaded
+  // project's band and audio mix settings to the app. Off for engines that only render
+  // previews, so they don't change what the editor opens with.
+  persistSettings?: boolean;
+  // Where effect parameters, modulation and automation live. Preview engines pass their own
+  // (see EffectParameterManager.createScope) so they never change the editor's values.
+  parameterManager?: EffectParameterManager;
+  // The element shown on the page, when the engine draws elsewhere (an OffscreenCanvas in a
+  // render worker). It gets the preview's CSS size instead of the canvas.
+  displayCanvas?: HTMLCanvasElement;
 }
 
 export class VisualEngine {
   private canvas: HTMLCanvasElement;
+  private displayCanvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private analyzer: AudioAnalyzer;
   private currentEffect: VisualEffect | null = null;
@@ -60,1267 +66,914 @@ export class VisualEngine {
   private isRunning = false;
   private isAudioPlaying = false;
   private textRenderer: TextRenderer;
-  private startTime = Date.now();
   private backgroundColor = '#000000';
   private audioProgress = 0; // Current playback progress (0-1)
   private audioDuration = 0; // Total audio duration in seconds
+  private outputResolution: OutputResolution = { ...DEFAULT_OUTPUT_RESOLUTION };
+  private compositionMode: CompositionMode = 'single';
+  private blendingEngine: EffectBlendingEngine;
+  private layerEffects: Map<string, VisualEffect> = new Map();
+  // Each layer's own parameter values, so two layers of one effect can differ
+  private layerParameters: Map<string, EffectParameterManager> = new Map();
+  private layerCounter = 0;
+  private effectClips: EffectClip[] = [];
+  private clipSlots: Map<string, ClipSlot> = new Map();
+  private transitionEngine: TransitionEngine | null = null;
+  private mediaClock: (() => number) | null = null;
+  private modulator = new ParameterModulator();
+  private frameTime = 0; // media time of the frame being rendered, seconds
+  private exportSettings: ProjectExportSettings = { ...DEFAULT_EXPORT_SETTINGS };
+  private seed = DEFAULT_SEED;
+  private persistSettings: boolean;
+  private parameterManager: EffectParameterManager;
+  private shaderRenderer: ShaderRenderer | null | undefined; // undefined until first needed
+  private qualityGovernor: QualityGovernor | null = null;
+  private quality: QualityLevel = FULL_QUALITY;
+  private qualityListeners: Set<(level: QualityLevel) => void> = new Set();
+  private revision = 0; // counts changes to what frames show, for the paused preview
+  private scrub: ScrubRender | null = null;
+  private handleWindowResize = () => this.resize();
+  private invalidate = () => {
+    this.revision++;
+  };
 
-  constructor(canvas: HTMLCanvasElement) {
+  constructor(canvas: HTMLCanvasElement, options: VisualEngineOptions = {}) {
     this.canvas = canvas;
+    this.displayCanvas = options.displayCanvas ?? canvas;
+    this.persistSettings = options.persistSettings ?? true;
+    this.parameterManager = options.parameterManager ?? effectParameterManager;
     const ctx = canvas.getContext('2d');
     if (!ctx) {
       throw new Error('Failed to get 2D context');
     }
     this.ctx = ctx;
     this.analyzer = new AudioAnalyzer();
-    this.textRenderer = new TextRenderer(ctx, this.canvas.width, this.canvas.height, this.analyzer);
-    
-    // Load background color from localStorage
-    const savedBackgroundColor = localStorage.getItem('audioVibe_backgroundColor');
-    if (savedBackgroundColor) {
-      this.backgroundColor = savedBackgroundColor;
+    this.textRenderer = new TextRenderer(ctx, this.outputResolution.width, this.outputResolution.height, this.analyzer);
+    this.blendingEngine = new EffectBlendingEngine(canvas);
+    
+    if (this.persistSettings) {
+      // Load background color from localStorage
+      const savedBackgroundColor = localStorage.getItem('audioVibe_backgroundColor');
+      if (savedBackgroundColor) {
+        this.backgroundColor = savedBackgroundColor;
+      }
+
+      // Load output resolution from localStorage
+      this.outputResolution = loadSavedOutputResolution();
     }
     
     // Set canvas size
     this.resize();
-    window.addEventListener('resize', () => this.resize());
+    if (typeof window !== 'undefined') {
+      window.addEventListener('resize', this.handleWindowResize);
+    }
+    this.parameterManager.addChangeListener(this.invalidate);
+    this.parameterManager.addModulationListener(this.invalidate);
+    this.parameterManager.addAutomationListener(this.invalidate);
+    frequencyBandManager.addListener(this.invalidate);
     
   }
 
   private resize(): void {
-    const aspectRatio = 9 / 16;
-    const maxWidth = this.canvas.parentElement?.clientWidth || 360;
-    const width = Math.min(maxWidth, 360);
-    const height = width / aspectRatio;
-    
-    this.canvas.width = 1080;
-    this.canvas.height = 1920;
-    this.canvas.style.width = `${width}px`;
-    this.canvas.style.height = `${height}px`;
-    
-    // Update text renderer size
-    if (this.textRenderer) {
-      this.textRenderer = new TextRenderer(this.ctx, this.canvas.width, this.canvas.height, this.analyzer);
+    const { width: outputWidth, height: outputHeight } = this.outputResolution;
+
+    // Preview fits a 360x640 box (the original 9:16 preview size) rotated to the output's orientation
+    const maxDisplay = 640;
+    const maxWidth = this.displayCanvas.parentElement?.clientWidth || maxDisplay;
+    const display = fitResolution(this.outputResolution, Math.min(maxWidth, maxDisplay), maxDisplay);
+
+    // Below full quality the preview canvas has fewer pixels; drawing code keeps working in
+    // output coordinates through the context transform. Layer and clip canvases stay full size.
+    const scale = this.quality.renderScale;
+    const canvasWidth = Math.round(outputWidth * scale);
+    const canvasHeight = Math.round(outputHeight * scale);
+    if (this.canvas.width !== canvasWidth || this.canvas.height !== canvasHeight) {
+      this.canvas.width = canvasWidth;
+      this.canvas.height = canvasHeight;
+    }
+    this.ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    // OffscreenCanvases have no style; their page element is sized by the main thread
+    if (this.displayCanvas.style) {
+      this.displayCanvas.style.width = `${display.width}px`;
+      this.displayCanvas.style.height = `${display.height}px`;
+    }
+    
+    // Propagate the output size to the effect, layers and text overlays
+    this.currentEffect?.resize(outputWidth, outputHeight);
+    this.blendingEngine?.resize(outputWidth, outputHeight);
+    this.layerEffects.forEach(effect => effect.resize(outputWidth, outputHeight));
+    this.clipSlots?.forEach(slot => {
+      slot.canvas.width = outputWidth;
+      slot.canvas.height = outputHeight;
+      slot.effect.resize(outputWidth, outputHeight);
+    });
+    this.transitionEngine?.resize(outputWidth, outputHeight);
+    this.textRenderer?.setSize(outputWidth, outputHeight);
+  }
+
+  // Change the rendered video size. Dimensions are rounded to even numbers since most
+  // video encoders require it.
+  setOutputResolution(resolution: OutputResolution): void {
+    if (!isValidResolution(resolution)) {
+      throw new Error(`Invalid output resolution: ${JSON.stringify(resolution)}`);
+    }
+
+    this.outputResolution = {
+      width: Math.round(resolution.width / 2) * 2,
+      height: Math.round(resolution.height / 2) * 2
+    };
+    if (this.persistSettings) {
+      localStorage.setItem('audioVibe_outputResolution', JSON.stringify(this.outputResolution));
     }
+
+    this.resize();
+    this.clearCanvas();
+    this.invalidate();
+  }
+
+  getOutputResolution(): OutputResolution {
+    return { ...this.outputResolution };
+  }
+
+  // Unknown effects, e.g. from a plugin that is no longer loaded, fall back to the waveform.
+  // `instanceKey` names the instance (layer or clip id) for its random stream.
+  private createEffect(effectType: string, ctx: CanvasRenderingContext2D, instanceKey?: string): VisualEffect {
+    const plugin = effectRegistry.get(effectType) || effectRegistry.get('waveform')!;
+    const effect = new plugin.effect({
+      ctx,
+      width: this.outputResolution.width,
+      height: this.outputResolution.height,
+      analyzer: this.analyzer,
+      effectName: plugin.metadata.name,
+      engine: this,
+      seed: deriveSeed(this.seed, instanceKey ?? plugin.metadata.name)
+    });
+    effect.init();
+    return effect;
   }
 
   setEffect(effectType: string): void {
-    switch (effectType) {
-      case 'waveform':
-        this.currentEffect = new WaveformEffect(this.ctx, this.canvas.width, this.canvas.height, this.analyzer, 'waveform', this);
-        break;
-      case 'particles':
-        this.currentEffect = new ParticleEffect(this.ctx, this.canvas.width, this.canvas.height, this.analyzer, 'particles', this);
-        break;
-      case 'geometric':
-        this.currentEffect = new GeometricEffect(this.ctx, this.canvas.width, this.canvas.height, this.analyzer, 'geometric', this);
-        break;
-      case 'gradient':
-        this.currentEffect = new GradientEffect(this.ctx, this.canvas.width, this.canvas.height, this.analyzer, 'gradient', this);
-        break;
-      case '3d':
-        this.currentEffect = new ThreeDEffect(this.ctx, this.canvas.width, this.canvas.height, this.analyzer, '3d', this);
-        break;
-      default:
-        this.currentEffect = new WaveformEffect(this.ctx, this.canvas.width, this.canvas.height, this.analyzer, 'waveform', this);
-    }
+    this.currentEffect?.dispose();
+    this.currentEffect = this.createEffect(effectType, this.ctx);
     
     // After creating the effect, update its parameters from the parameter manager
     if (this.currentEffect) {
-      const currentParams = effectParameterManager.getParameters(effectType);
+      const currentParams = this.parameterManager.getParameters(effectType);
       this.currentEffect.updateParameters(currentParams);
     }
+    this.invalidate();
   }
 
-  getParameterManager() {
-    return effectParameterManager;
+  // Layered composition: each layer renders its own effect into an offscreen canvas
+  // and EffectBlendingEngine composites them with the layer's blend mode and opacity.
+  setCompositionMode(mode: CompositionMode): void {
+    this.compositionMode = mode;
+
+    // Start a fresh stack from the effect that was showing
+    if (mode === 'layered' && this.blendingEngine.getLayers().length === 0) {
+      this.addLayer(this.currentEffect?.effectName || 'waveform');
+    }
+    this.clearCanvas();
+    this.invalidate();
   }
-  
-  getCurrentEffect() {
-    return this.currentEffect;
+
+  getCompositionMode(): CompositionMode {
+    return this.compositionMode;
   }
 
-  // Text overlay methods
-  addTextOverlay(overlay: TextOverlay): void {
-    this.textRenderer.addTextOverlay(overlay);
+  // A new layer starts from the engine's values for its effect unless given its own
+  addLayer(effectName: string, options: Partial<Omit<BlendLayer, 'effectName'>> = {}, parameters?: EffectParameter): BlendLayer {
+    const layers = this.blendingEngine.getLayers();
+    const layer: BlendLayer = {
+      id: options.id || `layer-${Date.now()}-${this.layerCounter++}`,
+      effectName,
+      opacity: options.opacity ?? 1,
+      blendMode: options.blendMode || 'normal',
+      enabled: options.enabled ?? true,
+      order: options.order ?? (layers.length > 0 ? Math.max(...layers.map(l => l.order)) + 1 : 0)
+    };
+
+    const store = this.parameterManager.createScope();
+    store.setParameters(effectName, parameters ?? this.parameterManager.getParameters(effectName));
+    store.addChangeListener(this.invalidate);
+    this.layerParameters.set(layer.id, store);
+
+    this.blendingEngine.addLayer(layer);
+    this.createLayerEffect(layer);
+    this.invalidate();
+    return layer;
   }
 
-  removeTextOverlay(id: string): void {
-    this.textRenderer.removeTextOverlay(id);
+  removeLayer(layerId: string): void {
+    this.layerEffects.get(layerId)?.dispose();
+    this.layerEffects.delete(layerId);
+    this.layerParameters.delete(layerId);
+    this.blendingEngine.removeLayer(layerId);
+    this.invalidate();
   }
 
-  updateTextOverlay(id: string, updates: Partial<TextOverlay>): void {
-    this.textRenderer.updateTextOverlay(id, updates);
+  // Where a layer's parameter values live; edits made here only change that layer
+  getLayerParameterManager(layerId: string): EffectParameterManager | null {
+    return this.layerParameters.get(layerId) || null;
   }
 
-  getTextOverlays(): TextOverlay[] {
-    return this.textRenderer.getTextOverlays();
+  // Current values of every layer's effect, by layer id
+  getLayerParameters(): { [layerId: string]: EffectParameter } {
+    const values: { [layerId: string]: EffectParameter } = {};
+    this.blendingEngine.getLayers().forEach(layer => {
+      const store = this.layerParameters.get(layer.id);
+      if (store) values[layer.id] = { ...store.getParameters(layer.effectName) };
+    });
+    return values;
   }
 
-  clearAllTextOverlays(): void {
-    this.textRenderer.clearAllOverlays();
+  updateLayer(layerId: string, updates: Partial<Omit<BlendLayer, 'id'>>): void {
+    const layer = this.blendingEngine.getLayer(layerId);
+    if (!layer) return;
+
+    this.blendingEngine.updateLayer(layerId, updates);
+    if (updates.effectName && updates.effectName !== layer.effectName) {
+      this.layerParameters.get(layerId)?.setParameters(updates.effectName, this.parameterManager.getParameters(updates.effectName));
+      this.blendingEngine.clearLayer(layerId);
+      this.createLayerEffect({ ...layer, ...updates });
+    }
+    this.invalidate();
   }
 
-  getTextRenderer(): TextRenderer {
-    return this.textRenderer;
+  // Swap a layer with its neighbour in the stack
+  moveLayer(layerId: string, direction: 'up' | 'down'): void {
+    const layers = this.blendingEngine.getLayers();
+    const index = layers.findIndex(l => l.id === layerId);
+    const targetIndex = direction === 'up' ? index + 1 : index - 1;
+    if (index === -1 || targetIndex < 0 || targetIndex >= layers.length) return;
+
+    const current = layers[index];
+    const target = layers[targetIndex];
+    this.blendingEngine.updateLayer(current.id, { order: target.order });
+    this.blendingEngine.updateLayer(target.id, { order: current.order });
+    this.invalidate();
   }
 
-  setBackgroundColor(color: string): void {
-    this.backgroundColor = color;
-    // Save to localStorage for persistence
-    localStorage.setItem('audioVibe_backgroundColor', color);
+  getLayers(): BlendLayer[] {
+    return this.blendingEngine.getLayers();
   }
 
-  getBackgroundColor(): string {
-    return this.backgroundColor;
+  // Replace the whole stack, e.g. when loading a saved composition. Layers without
+  // saved values take the engine's.
+  setLayers(layers: BlendLayer[], parameters: { [layerId: string]: EffectParameter } = {}): void {
+    this.blendingEngine.getLayers().forEach(layer => this.removeLayer(layer.id));
+    layers.forEach(layer => {
+      const { effectName, ...options } = layer;
+      this.addLayer(effectName, options, parameters[layer.id]);
+    });
   }
 
-  setAudioPlaying(playing: boolean): void {
-    this.isAudioPlaying = playing;
+  private createLayerEffect(layer: BlendLayer): void {
+    const layerCanvas = this.blendingEngine.getLayerCanvas(layer.id);
+    const layerCtx = layerCanvas?.getContext('2d');
+    if (!layerCtx) return;
+
+    this.layerEffects.get(layer.id)?.dispose();
+    const effect = this.createEffect(layer.effectName, layerCtx, layer.id);
+    effect.setTransparentBackground(true);
+    const store = this.layerParameters.get(layer.id);
+    if (store) effect.useParameterManager(store);
+    this.layerEffects.set(layer.id, effect);
   }
 
-  setAudioProgress(currentTime: number, duration: number): void {
-    this.audioProgress = duration > 0 ? currentTime / duration : 0;
-    this.audioDuration = duration;
+  private isLayered(): boolean {
+    return this.compositionMode === 'layered' && this.blendingEngine.getLayers().length > 0;
   }
 
-  getAudioProgress(): number {
-    return this.audioProgress;
+  // Effect clips switch effects over the song in single composition mode. Every clip on
+  // screen renders into its own canvas, so during a transition both effects keep running
+  // and TransitionEngine blends them. Times are in milliseconds.
+  setEffectClips(clips: EffectClip[]): void {
+    this.effectClips = clips.map(clip => ({ ...clip }));
+    this.invalidate();
   }
 
-  getAudioDuration(): number {
-    return this.audioDuration;
+  getEffectClips(): EffectClip[] {
+    return this.effectClips.map(clip => ({ ...clip }));
   }
 
-  getIsRunning(): boolean {
-    return this.isRunning;
+  // Media time source for preview playback, in seconds. Without one the engine derives
+  // the time from setAudioProgress.
+  setMediaClock(clock: (() => number) | null): void {
+    this.mediaClock = clock;
   }
 
-  start(): void {
-    if (this.isRunning) {
+  private getMediaTime(): number {
+    return this.mediaClock ? this.mediaClock() : this.audioProgress * this.audioDuration;
+  }
+
+  private renderEffects(time: number = this.getMediaTime()): void {
+    if (this.isLayered()) {
+      this.renderLayers();
       return;
     }
-    
+
+    if (this.effectClips.length > 0) {
+      this.renderClips(time * 1000);
+      return;
+    }
+
     if (!this.currentEffect) {
       this.setEffect('waveform');
     }
-    
-    this.isRunning = true;
-    this.animate();
+    this.renderEffect(this.currentEffect!);
   }
 
-  stop(): void {
-    this.isRunning = false;
-    if (this.animationId !== null) {
-      cancelAnimationFrame(this.animationId);
-      this.animationId = null;
-    }
+  private renderEffect(effect: VisualEffect): void {
+    effect.applyFrameParameters(this.frameTime * 1000, this.modulator);
+    effect.renderFrame(this.frameTime);
   }
 
-  private animate(): void {
-    if (!this.isRunning) return;
+  // Starts a frame: audio features and modulation envelopes advance to `time` (seconds).
+  // Automation follows the playhead even while live analysis runs without a time.
+  private beginFrame(time?: number): void {
+    this.frameTime = time ?? this.getMediaTime();
+    this.analyzer.beginFrame(time);
+    this.modulator.update(this.parameterManager.getModulations(), this.analyzer, time);
+  }
 
-    // Only render with audio data when audio is playing
-    if (this.currentEffect) {
-      if (this.isAudioPlaying) {
-        this.currentEffect.render();
-      } else {
-        // Render static frame when paused
-        this.renderStaticFrame();
+  private renderClips(time: number): void {
+    const frame = resolveEffectClips(this.effectClips, time);
+    const incoming = this.renderClipSlot(frame.current);
+    const visible = new Set([incoming.key]);
+
+    if (frame.transition) {
+      const outgoing = this.renderClipSlot(frame.outgoing);
+      visible.add(outgoing.key);
+      if (incoming.canvas && outgoing.canvas) {
+        const transitionEngine = this.getTransitionEngine();
+        transitionEngine.setBackgroundColor(this.backgroundColor);
+        transitionEngine.renderAt(outgoing.canvas, incoming.canvas, frame.transition, frame.progress);
       }
+    } else if (incoming.canvas) {
+      this.ctx.drawImage(incoming.canvas, 0, 0);
     }
 
-    // Always render text overlays
-    const currentTime = Date.now() - this.startTime;
-    this.textRenderer.render(currentTime);
-    
-    this.animationId = requestAnimationFrame(() => this.animate());
+    // Effects that left the screen start fresh when their clip comes back
+    this.clipSlots.forEach((slot, key) => {
+      if (!visible.has(key)) {
+        slot.effect.dispose();
+        this.clipSlots.delete(key);
+      }
+    });
   }
 
-  private renderStaticFrame(): void {
-    // Show a static visualization when paused with background color
-    const bgColor = this.backgroundColor;
-    if (bgColor.startsWith('#')) {
-      const r = parseInt(bgColor.slice(1, 3), 16);
-      const g = parseInt(bgColor.slice(3, 5), 16);
-      const b = parseInt(bgColor.slice(5, 7), 16);
-      this.ctx.fillStyle = `rgba(${r}, ${g}, ${b}, 0.1)`;
-    } else {
-      this.ctx.fillStyle = bgColor;
-    }
-    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
-    
-    // Draw a static waveform line
-    this.ctx.strokeStyle = '#4ecdc4';
-    this.ctx.lineWidth = 2;
-    this.ctx.beginPath();
-    this.ctx.moveTo(0, this.canvas.height / 2);
-    this.ctx.lineTo(this.canvas.width, this.canvas.height / 2);
-    this.ctx.stroke();
-  }
-  
-  // Force a single frame render (useful for preset loading)
-  forceRender(): void {
-    if (this.currentEffect) {
-      // Ensure the effect has the latest parameters before rendering
-      const currentParams = effectParameterManager.getParameters(this.currentEffect.effectName);
-      this.currentEffect.updateParameters(currentParams);
-      
-      // Use a modified render that ensures visibility
-      this.forceRenderWithVisibility();
-    } else {
-      this.renderStaticFrame();
+  private renderClipSlot(clip: EffectClip | null): { key: string; canvas: HTMLCanvasElement | null } {
+    const key = clip ? clip.id : BASE_CLIP_SLOT;
+    const effectName = clip ? clip.effectName : this.currentEffect?.effectName || 'waveform';
+
+    let slot = this.clipSlots.get(key);
+    if (!slot || slot.effect.effectName !== effectName) {
+      slot?.effect.dispose();
+      this.clipSlots.delete(key);
+
+      const canvas = createCanvas(this.outputResolution.width, this.outputResolution.height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return { key, canvas: null };
+
+      ctx.fillStyle = this.backgroundColor;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      const effect = this.createEffect(effectName, ctx, clip?.id);
+      effect.updateParameters(this.parameterManager.getParameters(effectName));
+      slot = { canvas, effect };
+      this.clipSlots.set(key, slot);
     }
-    
-    // Always render text overlays
-    const currentTime = Date.now() - this.startTime;
-    this.textRenderer.render(currentTime);
-  }
-  
-  // Special render method for preset loading that ensures visibility
-  private forceRenderWithVisibility(): void {
-    if (!this.currentEffect) return;
-    
-    // Clear with full opacity first
-    this.clearCanvas();
-    
-    // Set higher opacity for canvas operations
-    this.ctx.globalAlpha = 1.0;
-    
-    // Call the effect render method
-    this.currentEffect.render();
-    
-    // Reset alpha
-    this.ctx.globalAlpha = 1.0;
+
+    this.renderEffect(slot.effect);
+    return { key, canvas: slot.canvas };
   }
-  
-  // Clear the canvas completely
-  clearCanvas(): void {
-    const bgColor = this.backgroundColor;
-    if (bgColor.startsWith('#')) {
-      this.ctx.fillStyle = bgColor;
-    } else {
-      this.ctx.fillStyle = bgColor;
+
+  private getTransitionEngine(): TransitionEngine {
+    if (!this.transitionEngine) {
+      this.transitionEngine = new TransitionEngine(this.ctx, this.outputResolution.width, this.outputResolution.height, this.analyzer);
     }
-    this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    return this.transitionEngine;
   }
 
-  dispose(): void {
-    this.stop();
-    window.removeEventListener('resize', () => this.resize());
-  }
-}
+  // Reduced quality drops layers from the top of the stack
+  private renderLayers(): void {
+    const maxLayers = this.quality.maxLayers;
+    this.blendingEngine.getLayers().filter(layer => layer.enabled).slice(0, maxLayers).forEach(layer => {
+      const effect = this.layerEffects.get(layer.id);
+      if (effect) this.renderEffect(effect);
+    });
 
-class WaveformEffect extends VisualEffect {
-  constructor(ctx: CanvasRenderingContext2D, width: number, height: number, analyzer: AudioAnalyzer, effectName: string, engine: VisualEngine) {
-    super(ctx, width, height, analyzer, effectName, engine);
+    this.blendingEngine.setConfiguration({ backgroundMode: 'solid', backgroundColor: this.backgroundColor });
+    this.blendingEngine.composite(maxLayers);
   }
 
-  render(): void {
-    this.clear();
-    
-    const waveformData = this.analyzer.getWaveformData();
-    const bands = this.analyzer.getFrequencyBands();
-    const beat = this.analyzer.detectBeat();
-    
-    // Get parameters
-    const intensity = (this.parameters.intensity || 50) / 100;
-    const color = this.parameters.color || '#4ecdc4';
-    const lineWidth = this.parameters.lineWidth || 2;
-    const glow = this.parameters.glow !== undefined ? this.parameters.glow : true;
-    const style = this.parameters.style || 'line';
-    
-    // Set color - use parameter color with dynamic adjustments
-    if (color) {
-      this.ctx.strokeStyle = color;
-      this.ctx.fillStyle = color;
-    } else {
-      // Fallback to dynamic color
-      const hue = 180 + bands.bass * 60 - bands.treble * 30;
-      const saturation = 50 + bands.mid * 50;
-      const lightness = 40 + bands.highMid * 30;
-      this.ctx.strokeStyle = `hsl(${hue}, ${saturation}%, ${lightness}%)`;
-      this.ctx.fillStyle = this.ctx.strokeStyle;
-    }
-    
-    // Dynamic line width based on beat and parameters
-    const beatMultiplier = (beat.isBeat ? 10 : 0) * beat.intensity;
-    this.ctx.lineWidth = lineWidth + beatMultiplier * intensity;
-    
-    // Draw based on style
-    if (style === 'bars') {
-      this.renderBars(waveformData, intensity);
-    } else if (style === 'filled') {
-      this.renderFilled(waveformData, intensity);
-    } else {
-      this.renderLine(waveformData, intensity);
-    }
-    
-    // Add glow effect
-    if (glow && beat.isBeat) {
-      this.ctx.shadowBlur = 20 * beat.intensity * intensity;
-      this.ctx.shadowColor = this.ctx.strokeStyle as string;
-      if (style === 'bars') {
-        this.renderBars(waveformData, intensity);
-      } else if (style === 'filled') {
-        this.renderFilled(waveformData, intensity);
-      } else {
-        this.renderLine(waveformData, intensity);
-      }
-      this.ctx.shadowBlur = 0;
-    }
-    
-    // Draw progress bar if enabled
-    if (this.parameters.showProgressBar) {
-      this.renderProgressBar();
+  // WebGL2 renderer shared by this engine's shader effects, created when the first one
+  // asks. Null where WebGL2 isn't available, in which case they draw their 2D fallback.
+  getShaderRenderer(): ShaderRenderer | null {
+    if (this.shaderRenderer === undefined) {
+      this.shaderRenderer = ShaderRenderer.create();
     }
+    return this.shaderRenderer;
   }
 
-  private renderLine(waveformData: Float32Array, intensity: number): void {
-    this.ctx.beginPath();
-    const sliceWidth = this.width / waveformData.length;
-    const waveformPosition = this.parameters.waveformPosition || 50;
-    const centerY = this.height * (waveformPosition / 100);
-    let x = 0;
-    
-    for (let i = 0; i < waveformData.length; i++) {
-      const y = centerY + ((waveformData[i] || 0) * this.height / 4 * intensity);
-      
-      if (i === 0) {
-        this.ctx.moveTo(x, y);
-      } else {
-        this.ctx.lineTo(x, y);
-      }
-      
-      x += sliceWidth;
+  // Adaptive quality lowers preview resolution, effect detail, glows and layer count while
+  // the editor preview can't keep up (see QualityGovernor). Only the editor turns it on;
+  // turning it off returns to full quality, which exports always render at.
+  setAdaptiveQuality(enabled: boolean, options?: QualityGovernorOptions): void {
+    this.qualityGovernor?.stop();
+    this.qualityGovernor = enabled ? new QualityGovernor(level => this.applyQuality(level), options) : null;
+    this.applyQuality(this.qualityGovernor ? this.qualityGovernor.getLevel() : FULL_QUALITY);
+    if (this.qualityGovernor && this.isRunning && this.isAudioPlaying) {
+      this.qualityGovernor.start();
     }
-    
-    this.ctx.stroke();
   }
 
-  private renderBars(waveformData: Float32Array, intensity: number): void {
-    const barWidth = this.width / waveformData.length;
-    const waveformPosition = this.parameters.waveformPosition || 50;
-    const centerY = this.height * (waveformPosition / 100);
-    
-    for (let i = 0; i < waveformData.length; i++) {
-      const barHeight = Math.abs(waveformData[i] || 0) * this.height / 2 * intensity;
-      const x = i * barWidth;
-      const y = centerY - barHeight / 2;
-      
-      this.ctx.fillRect(x, y, barWidth - 1, barHeight);
-    }
+  isAdaptiveQuality(): boolean {
+    return this.qualityGovernor !== null;
   }
 
-  private renderFilled(waveformData: Float32Array, intensity: number): void {
-    this.ctx.beginPath();
-    const sliceWidth = this.width / waveformData.length;
-    const waveformPosition = this.parameters.waveformPosition || 50;
-    const centerY = this.height * (waveformPosition / 100);
-    let x = 0;
-    
-    // Start from center
-    this.ctx.moveTo(0, centerY);
-    
-    for (let i = 0; i < waveformData.length; i++) {
-      const y = centerY + ((waveformData[i] || 0) * this.height / 4 * intensity);
-      this.ctx.lineTo(x, y);
-      x += sliceWidth;
-    }
-    
-    // Close the path
-    this.ctx.lineTo(this.width, centerY);
-    this.ctx.closePath();
-    this.ctx.fill();
+  getQuality(): QualityLevel {
+    return this.quality;
   }
 
-  private renderProgressBar(): void {
-    const progress = this.engine.getAudioProgress();
-    const progressBarHeight = 4;
-    const progressBarPosition = this.parameters.progressBarPosition || 50;
-    const progressBarY = this.height - progressBarPosition;
-    
-    // Background line
-    this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
-    this.ctx.lineWidth = progressBarHeight;
-    this.ctx.lineCap = 'round';
-    this.ctx.beginPath();
-    this.ctx.moveTo(50, progressBarY);
-    this.ctx.lineTo(this.width - 50, progressBarY);
-    this.ctx.stroke();
-    
-    // Progress line
-    if (progress > 0) {
-      const progressWidth = (this.width - 100) * progress;
-      this.ctx.strokeStyle = this.parameters.color || '#4ecdc4';
-      this.ctx.lineWidth = progressBarHeight;
-      this.ctx.lineCap = 'round';
-      this.ctx.beginPath();
-      this.ctx.moveTo(50, progressBarY);
-      this.ctx.lineTo(50 + progressWidth, progressBarY);
-      this.ctx.stroke();
-      
-      // Progress indicator dot (if enabled)
-      if (this.parameters.showProgressIndicator) {
-        this.ctx.fillStyle = this.parameters.color || '#4ecdc4';
-        this.ctx.beginPath();
-        this.ctx.arc(50 + progressWidth, progressBarY, progressBarHeight * 2, 0, Math.PI * 2);
-        this.ctx.fill();
-      }
-    }
+  addQualityListener(listener: (level: QualityLevel) => void): void {
+    this.qualityListeners.add(listener);
   }
-}
-
-interface Particle {
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  life: number;
-  maxLife: number;
-  size: number;
-  hue: number;
-}
 
-class ParticleEffect extends VisualEffect {
-  private particles: Particle[] = [];
-
-  constructor(ctx: CanvasRenderingContext2D, width: number, height: number, analyzer: AudioAnalyzer, effectName: string, engine: VisualEngine) {
-    super(ctx, width, height, analyzer, effectName, engine);
-  }
-
-  render(): void {
-    // Get parameters
-    const particleCount = this.parameters.particleCount || 100;
-    const color = this.parameters.color || '#ff6b6b';
-    const size = this.parameters.size || 3;
-    const speed = this.parameters.speed || 1;
-    const trail = this.parameters.trail !== false;
-
-    const bands = this.analyzer.getFrequencyBands();
-    const beat = this.analyzer.detectBeat();
-
-    // Clear with trail effect using background color
-    const bgColor = this.engine.getBackgroundColor();
-    if (trail) {
-      if (bgColor.startsWith('#')) {
-        const r = parseInt(bgColor.slice(1, 3), 16);
-        const g = parseInt(bgColor.slice(3, 5), 16);
-        const b = parseInt(bgColor.slice(5, 7), 16);
-        this.ctx.fillStyle = `rgba(${r}, ${g}, ${b}, 0.05)`;
-      } else {
-        this.ctx.fillStyle = bgColor;
-      }
-      this.ctx.fillRect(0, 0, this.width, this.height);
-    } else {
-      this.ctx.fillStyle = bgColor;
-      this.ctx.fillRect(0, 0, this.width, this.height);
-    }
+  removeQualityListener(listener: (level: QualityLevel) => void): void {
+    this.qualityListeners.delete(listener);
+  }
 
-    // Spawn new particles based on audio
-    const spawnRate = Math.floor(bands.bass * particleCount * 0.1);
-    for (let i = 0; i < spawnRate && this.particles.length < particleCount; i++) {
-      this.spawnParticle(beat, bands, speed);
+  private applyQuality(level: QualityLevel): void {
+    if (level === this.quality) return;
+    const rescale = level.renderScale !== this.quality.renderScale;
+    this.quality = level;
+    if (rescale) {
+      this.resize();
+      this.clearCanvas();
     }
-
-    // Update and draw particles
-    this.updateParticles(bands, speed, size, color);
-
-    // Remove dead particles
-    this.particles = this.particles.filter(p => p.life > 0);
+    this.qualityListeners.forEach(listener => listener(level));
   }
 
-  private spawnParticle(beat: any, bands: any, speed: number): void {
-    const particle: Particle = {
-      x: Math.random() * this.width,
-      y: this.height + 50,
-      vx: (Math.random() - 0.5) * 4 * speed,
-      vy: -Math.random() * 8 * speed - 2,
-      life: 1,
-      maxLife: 60 + Math.random() * 120,
-      size: 2 + Math.random() * 8,
-      hue: 180 + bands.mid * 180
-    };
-
-    // Beat response
-    if (beat.isBeat) {
-      particle.vy *= 1.5 + beat.intensity;
-      particle.size *= 1.2 + beat.intensity * 0.5;
+  // Seed of every effect's randomness (see SeededRandom). Changing it restarts the effects
+  // so they take their new look from the start.
+  setSeed(seed: number): void {
+    if (!isValidSeed(seed)) {
+      throw new Error(`Invalid seed: ${seed}`);
     }
 
-    this.particles.push(particle);
+    this.seed = seed;
+    this.restartEffects();
+    this.invalidate();
   }
 
-  private updateParticles(bands: any, _speed: number, baseSize: number, color: string): void {
-    for (const particle of this.particles) {
-      // Update position
-      particle.x += particle.vx;
-      particle.y += particle.vy;
-
-      // Add gravity and air resistance
-      particle.vy += 0.1;
-      particle.vx *= 0.99;
-      particle.vy *= 0.99;
-
-      // Update life
-      particle.life -= 1 / particle.maxLife;
-
-      // Audio reactivity
-      const audioInfluence = (bands.treble + bands.highMid) * 0.5;
-      const currentSize = particle.size * (baseSize / 3) * (1 + audioInfluence);
-
-      // Draw particle
-      const alpha = particle.life;
-      
-      // Use parameter color or dynamic color
-      let particleColor: string;
-      if (color.startsWith('#')) {
-        // Convert hex to rgba
-        const r = parseInt(color.slice(1, 3), 16);
-        const g = parseInt(color.slice(3, 5), 16);
-        const b = parseInt(color.slice(5, 7), 16);
-        particleColor = `rgba(${r}, ${g}, ${b}, ${alpha})`;
-      } else {
-        // Dynamic color
-        particleColor = `hsla(${particle.hue}, 70%, 60%, ${alpha})`;
-      }
-
-      this.ctx.fillStyle = particleColor;
-      this.ctx.beginPath();
-      this.ctx.arc(particle.x, particle.y, currentSize, 0, Math.PI * 2);
-      this.ctx.fill();
-
-      // Add glow effect
-      if (bands.bass > 0.3) {
-        this.ctx.shadowBlur = 10;
-        this.ctx.shadowColor = particleColor;
-        this.ctx.beginPath();
-        this.ctx.arc(particle.x, particle.y, currentSize, 0, Math.PI * 2);
-        this.ctx.fill();
-        this.ctx.shadowBlur = 0;
-      }
+  // Fresh instances of every effect, as at the start of an export
+  private restartEffects(): void {
+    this.modulator = new ParameterModulator();
+    if (this.currentEffect) {
+      this.setEffect(this.currentEffect.effectName);
     }
+    this.blendingEngine.getLayers().forEach(layer => {
+      this.blendingEngine.clearLayer(layer.id);
+      this.createLayerEffect(layer);
+    });
+    this.clipSlots.forEach(slot => slot.effect.dispose());
+    this.clipSlots.clear();
+    this.clearCanvas();
   }
-}
-
-class GeometricEffect extends VisualEffect {
-  private time = 0;
 
-  constructor(ctx: CanvasRenderingContext2D, width: number, height: number, analyzer: AudioAnalyzer, effectName: string, engine: VisualEngine) {
-    super(ctx, width, height, analyzer, effectName, engine);
+  getSeed(): number {
+    return this.seed;
   }
 
-  render(): void {
-    this.time += 0.016; // ~60fps
-
-    // Get parameters
-    const shape = this.parameters.shape || 'circles';
-    const color = this.parameters.color || '#4ecdc4';
-    const baseSize = this.parameters.size || 50;
-    const rotation = this.parameters.rotation || 0;
-    const complexity = this.parameters.complexity || 5;
-
-    const bands = this.analyzer.getFrequencyBands();
-    const beat = this.analyzer.detectBeat();
-
-    // Clear canvas with background color
-    this.clear();
+  // A new random seed, for trying another look of the same project
+  rerollSeed(): number {
+    this.setSeed(createSeed());
+    return this.seed;
+  }
 
-    // Set base color
-    this.ctx.strokeStyle = color;
-    this.ctx.fillStyle = color;
+  getParameterManager(): EffectParameterManager {
+    return this.parameterManager;
+  }
 
-    // Audio-reactive size and rotation
-    const audioSize = baseSize * (1 + bands.bass * 2);
-    const audioRotation = rotation + this.time * 50 + bands.mid * 360;
-    const beatScale = beat.isBeat ? 1.3 + beat.intensity * 0.5 : 1;
+  // Replace the whole editor state with a project. Parameters are applied before any
+  // effect is created, and effects the project doesn't mention go back to their defaults.
+  loadProject(value: Project): void {
+    const project = normalizeProject(value);
 
-    // Draw multiple layers based on complexity
-    for (let layer = 0; layer < complexity; layer++) {
-      const layerScale = (layer + 1) / complexity;
-      const layerAlpha = 1 - (layer * 0.15);
-      
-      // Set transparency
-      this.ctx.globalAlpha = layerAlpha;
-      
-      // Position in center
-      const centerX = this.width / 2;
-      const centerY = this.height / 2;
-      
-      this.ctx.save();
-      this.ctx.translate(centerX, centerY);
-      this.ctx.rotate((audioRotation + layer * 30) * Math.PI / 180);
-      this.ctx.scale(beatScale * layerScale, beatScale * layerScale);
-
-      switch (shape) {
-        case 'circles':
-          this.drawConcentricCircles(audioSize, bands, layer);
-          break;
-        case 'squares':
-          this.drawRotatingSquares(audioSize, bands, layer);
-          break;
-        case 'triangles':
-          this.drawTrianglePattern(audioSize, bands, layer);
-          break;
-        case 'hexagons':
-          this.drawHexagonPattern(audioSize, bands, layer);
-          break;
-        default:
-          this.drawConcentricCircles(audioSize, bands, layer);
+    this.parameterManager.getEffectNames().forEach(effectName => {
+      this.parameterManager.resetToDefaults(effectName);
+      const params = project.effectParameters[effectName];
+      if (params) {
+        this.parameterManager.setParameters(effectName, params);
       }
+    });
+    this.parameterManager.setModulations(project.modulations);
+    this.parameterManager.setAutomation(project.automation);
+    // Bands and mix belong to the app, not the engine; previews render with the current ones
+    if (this.persistSettings) {
+      frequencyBandManager.setConfig(project.frequencyBands);
+      AudioContextManager.getInstance().setMixSettings?.(project.audioSettings);
+    }
+
+    this.setBackgroundColor(project.backgroundColor);
+    this.setOutputResolution(project.outputResolution);
+    this.seed = project.seed;
+    this.setEffect(project.currentEffect);
+    this.setLayers(project.layers, project.layerParameters);
+    this.setCompositionMode(project.compositionMode);
+    this.setEffectClips(project.effectClips);
+
+    // Overlays are positioned for the project's resolution, which is now the canvas size
+    this.clearAllTextOverlays();
+    project.textOverlays.forEach(overlay => this.addTextOverlay({ ...overlay }));
+
+    this.exportSettings = { ...project.exportSettings };
+    this.invalidate();
+  }
+
+  serializeProject(): Project {
+    const effectParameters: Project['effectParameters'] = {};
+    this.parameterManager.getEffectNames().forEach(effectName => {
+      effectParameters[effectName] = { ...this.parameterManager.getParameters(effectName) };
+    });
 
-      this.ctx.restore();
-    }
-
-    this.ctx.globalAlpha = 1;
+    return {
+      version: PROJECT_VERSION,
+      currentEffect: this.currentEffect?.effectName || 'waveform',
+      effectParameters,
+      textOverlays: this.getTextOverlays().map(overlay => ({ ...overlay })),
+      backgroundColor: this.backgroundColor,
+      outputResolution: this.getOutputResolution(),
+      compositionMode: this.compositionMode,
+      layers: this.getLayers().map(layer => ({ ...layer })),
+      layerParameters: this.getLayerParameters(),
+      effectClips: this.getEffectClips(),
+      automation: this.parameterManager.getAutomation(),
+      modulations: this.parameterManager.getModulations(),
+      frequencyBands: frequencyBandManager.getConfig(),
+      audioSettings: AudioContextManager.getInstance().getMixSettings(),
+      exportSettings: { ...this.exportSettings },
+      seed: this.seed
+    };
   }
 
-  private drawConcentricCircles(size: number, bands: any, layer: number): void {
-    const ringCount = 5 + layer;
-    for (let i = 0; i < ringCount; i++) {
-      const radius = (size / ringCount) * (i + 1) * (1 + bands.treble);
-      const lineWidth = 2 + bands.highMid * 8;
-      
-      this.ctx.lineWidth = lineWidth;
-      this.ctx.beginPath();
-      this.ctx.arc(0, 0, radius, 0, Math.PI * 2);
-      this.ctx.stroke();
-    }
+  setExportSettings(settings: ProjectExportSettings): void {
+    this.exportSettings = { ...settings };
+    this.invalidate();
   }
 
-  private drawRotatingSquares(size: number, bands: any, layer: number): void {
-    const squareCount = 4 + layer;
-    for (let i = 0; i < squareCount; i++) {
-      const squareSize = (size / squareCount) * (i + 1) * (1 + bands.bass);
-      const rotationOffset = (this.time * 30 + i * 45) * Math.PI / 180;
-      
-      this.ctx.save();
-      this.ctx.rotate(rotationOffset);
-      this.ctx.lineWidth = 2 + bands.mid * 6;
-      this.ctx.strokeRect(-squareSize / 2, -squareSize / 2, squareSize, squareSize);
-      this.ctx.restore();
-    }
+  getExportSettings(): ProjectExportSettings {
+    return { ...this.exportSettings };
   }
-
-  private drawTrianglePattern(size: number, bands: any, _layer: number): void {
-    const triangleCount = 6;
-    const radius = size * (1 + bands.lowMid);
-    
-    for (let i = 0; i < triangleCount; i++) {
-      const angle = (i / triangleCount) * Math.PI * 2;
-      const x = Math.cos(angle) * radius;
-      const y = Math.sin(angle) * radius;
-      
-      this.ctx.save();
-      this.ctx.translate(x, y);
-      this.ctx.rotate(angle + this.time);
-      
-      const triangleSize = 20 + bands.treble * 30;
-      this.ctx.lineWidth = 2 + bands.highMid * 4;
-      
-      this.ctx.beginPath();
-      this.ctx.moveTo(0, -triangleSize / 2);
-      this.ctx.lineTo(-triangleSize / 2, triangleSize / 2);
-      this.ctx.lineTo(triangleSize / 2, triangleSize / 2);
-      this.ctx.closePath();
-      this.ctx.stroke();
-      
-      this.ctx.restore();
-    }
+  
+  getCurrentEffect() {
+    return this.currentEffect;
   }
 
-  private drawHexagonPattern(size: number, bands: any, _layer: number): void {
-    const hexRadius = size * (1 + bands.bass * 0.5);
-    const sides = 6;
-    
-    // Main hexagon
-    this.ctx.lineWidth = 3 + bands.mid * 8;
-    this.ctx.beginPath();
-    for (let i = 0; i <= sides; i++) {
-      const angle = (i / sides) * Math.PI * 2;
-      const x = Math.cos(angle) * hexRadius;
-      const y = Math.sin(angle) * hexRadius;
-      
-      if (i === 0) {
-        this.ctx.moveTo(x, y);
-      } else {
-        this.ctx.lineTo(x, y);
-      }
-    }
-    this.ctx.stroke();
-
-    // Inner pattern
-    const innerRadius = hexRadius * 0.6;
-    for (let i = 0; i < sides; i++) {
-      const angle = (i / sides) * Math.PI * 2;
-      const x1 = 0;
-      const y1 = 0;
-      const x2 = Math.cos(angle) * innerRadius * (1 + bands.treble);
-      const y2 = Math.sin(angle) * innerRadius * (1 + bands.treble);
-      
-      this.ctx.lineWidth = 1 + bands.highMid * 3;
-      this.ctx.beginPath();
-      this.ctx.moveTo(x1, y1);
-      this.ctx.lineTo(x2, y2);
-      this.ctx.stroke();
-    }
+  // Text overlay methods
+  addTextOverlay(overlay: TextOverlay): void {
+    this.textRenderer.addTextOverlay(overlay);
   }
-}
 
-class GradientEffect extends VisualEffect {
-  private time = 0;
-  private waveOffset = 0;
-
-  constructor(ctx: CanvasRenderingContext2D, width: number, height: number, analyzer: AudioAnalyzer, effectName: string, engine: VisualEngine) {
-    super(ctx, width, height, analyzer, effectName, engine);
+  removeTextOverlay(id: string): void {
+    this.textRenderer.removeTextOverlay(id);
   }
 
-  render(): void {
-    this.time += 0.016;
-
-    // Get parameters
-    const color1 = this.parameters.color1 || '#667eea';
-    const color2 = this.parameters.color2 || '#764ba2';
-    const direction = this.parameters.direction || 'vertical';
-    const speed = this.parameters.speed || 1;
-    const waves = this.parameters.waves !== false;
-
-    const bands = this.analyzer.getFrequencyBands();
-    const beat = this.analyzer.detectBeat();
-
-    // Update wave offset
-    this.waveOffset += speed * 2;
-
-    // Clear canvas with background color
-    this.ctx.fillStyle = this.engine.getBackgroundColor();
-    this.ctx.fillRect(0, 0, this.width, this.height);
-
-    // Create base gradient
-    const gradient = this.createGradient(color1, color2, direction, bands);
-    
-    if (waves) {
-      this.renderWaveGradient(gradient, bands, beat, []);
-    } else {
-      this.renderStaticGradient(gradient, bands, beat);
-    }
+  updateTextOverlay(id: string, updates: Partial<TextOverlay>): void {
+    this.textRenderer.updateTextOverlay(id, updates);
   }
 
-  private createGradient(color1: string, color2: string, direction: string, bands: any): CanvasGradient {
-    let gradient: CanvasGradient;
-
-    // Audio-reactive gradient positioning
-    const bassShift = bands.bass * 0.3;
-    const trebleShift = bands.treble * 0.3;
-
-    switch (direction) {
-      case 'horizontal':
-        gradient = this.ctx.createLinearGradient(0, 0, this.width, 0);
-        break;
-      case 'vertical':
-        gradient = this.ctx.createLinearGradient(0, 0, 0, this.height);
-        break;
-      case 'diagonal':
-        gradient = this.ctx.createLinearGradient(0, 0, this.width, this.height);
-        break;
-      case 'radial':
-        const centerX = this.width / 2 + bassShift * this.width;
-        const centerY = this.height / 2 + trebleShift * this.height;
-        const radius = Math.min(this.width, this.height) / 2 * (1 + bands.mid);
-        gradient = this.ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, radius);
-        break;
-      default:
-        gradient = this.ctx.createLinearGradient(0, 0, 0, this.height);
-    }
-
-    // Add audio-reactive color stops
-    const midPoint = 0.5 + bands.mid * 0.3 - bands.bass * 0.2;
-    gradient.addColorStop(0, color1);
-    gradient.addColorStop(Math.max(0.1, Math.min(0.9, midPoint)), this.blendColors(color1, color2, 0.5));
-    gradient.addColorStop(1, color2);
+  getTextOverlays(): TextOverlay[] {
+    return this.textRenderer.getTextOverlays();
+  }
 
-    return gradient;
+  clearAllTextOverlays(): void {
+    this.textRenderer.clearAllOverlays();
   }
 
-  private renderStaticGradient(gradient: CanvasGradient, _bands: any, beat: any): void {
-    this.ctx.fillStyle = gradient;
-    this.ctx.fillRect(0, 0, this.width, this.height);
+  getAnalyzer(): AudioAnalyzer {
+    return this.analyzer;
+  }
 
-    // Add beat pulse effect
-    if (beat.isBeat) {
-      this.ctx.globalAlpha = 0.3 * beat.intensity;
-      this.ctx.fillStyle = 'white';
-      this.ctx.fillRect(0, 0, this.width, this.height);
-      this.ctx.globalAlpha = 1;
-    }
+  getTextRenderer(): TextRenderer {
+    return this.textRenderer;
   }
 
-  private renderWaveGradient(gradient: CanvasGradient, bands: any, beat: any, _waveformData: number[]): void {
-    // Create wave distortion
-    const amplitude = 50 + bands.bass * 200;
-    const frequency = 0.01 + bands.treble * 0.02;
-    
-    // Draw gradient in strips with wave distortion
-    const stripHeight = 4;
-    for (let y = 0; y < this.height; y += stripHeight) {
-      const waveX = Math.sin((y * frequency) + (this.waveOffset * 0.01)) * amplitude;
-      const beatWaveX = beat.isBeat ? waveX * (1 + beat.intensity) : waveX;
-      
-      // Audio-reactive width
-      const audioWidth = this.width + bands.mid * 100;
-      
-      this.ctx.save();
-      this.ctx.translate(beatWaveX, 0);
-      
-      // Create clipping path for this strip
-      this.ctx.beginPath();
-      this.ctx.rect(-amplitude - 50, y, audioWidth + amplitude + 100, stripHeight);
-      this.ctx.clip();
-      
-      this.ctx.fillStyle = gradient;
-      this.ctx.fillRect(-amplitude - 50, 0, audioWidth + amplitude + 100, this.height);
-      
-      this.ctx.restore();
+  setBackgroundColor(color: string): void {
+    this.backgroundColor = color;
+    // Save to localStorage for persistence
+    if (this.persistSettings) {
+      localStorage.setItem('audioVibe_backgroundColor', color);
     }
+    this.invalidate();
+  }
 
-    // Add frequency bars overlay
-    this.renderFrequencyBars(bands, beat);
+  getBackgroundColor(): string {
+    return this.backgroundColor;
   }
 
-  private renderFrequencyBars(bands: any, _beat: any): void {
-    const barCount = 20;
-    const barWidth = this.width / barCount;
-    
-    this.ctx.globalAlpha = 0.4;
-    
-    for (let i = 0; i < barCount; i++) {
-      const frequency = Object.values(bands)[i % 5] as number;
-      const height = frequency * this.height * 0.5;
-      const x = i * barWidth;
-      const y = this.height - height;
-      
-      // Gradient for bars
-      const barGradient = this.ctx.createLinearGradient(x, y, x, this.height);
-      barGradient.addColorStop(0, `rgba(255, 255, 255, ${frequency})`);
-      barGradient.addColorStop(1, `rgba(255, 255, 255, 0)`);
-      
-      this.ctx.fillStyle = barGradient;
-      this.ctx.fillRect(x, y, barWidth - 1, height);
+  setAudioPlaying(playing: boolean): void {
+    // Only playback is measured; the paused preview draws only when something changes
+    if (playing && !this.isAudioPlaying && this.isRunning) {
+      this.qualityGovernor?.start();
+    } else if (!playing) {
+      this.qualityGovernor?.stop();
     }
-    
-    this.ctx.globalAlpha = 1;
+    this.isAudioPlaying = playing;
   }
 
-  private blendColors(color1: string, color2: string, ratio: number): string {
-    // Simple color blending - convert hex to rgb and blend
-    const hex1 = color1.replace('#', '');
-    const hex2 = color2.replace('#', '');
-    
-    const r1 = parseInt(hex1.slice(0, 2), 16);
-    const g1 = parseInt(hex1.slice(2, 4), 16);
-    const b1 = parseInt(hex1.slice(4, 6), 16);
-    
-    const r2 = parseInt(hex2.slice(0, 2), 16);
-    const g2 = parseInt(hex2.slice(2, 4), 16);
-    const b2 = parseInt(hex2.slice(4, 6), 16);
-    
-    const r = Math.round(r1 + (r2 - r1) * ratio);
-    const g = Math.round(g1 + (g2 - g1) * ratio);
-    const b = Math.round(b1 + (b2 - b1) * ratio);
-    
-    return `rgb(${r}, ${g}, ${b})`;
+  setAudioProgress(currentTime: number, duration: number): void {
+    this.audioProgress = duration > 0 ? currentTime / duration : 0;
+    this.audioDuration = duration;
   }
-}
-
-interface Object3D {
-  x: number;
-  y: number;
-  z: number;
-  rotationX: number;
-  rotationY: number;
-  rotationZ: number;
-  scale: number;
-  type: 'cube' | 'sphere' | 'pyramid' | 'torus';
-  color: string;
-  velocity: {
-    x: number;
-    y: number;
-    z: number;
-    rotX: number;
-    rotY: number;
-    rotZ: number;
-  };
-}
 
-class ThreeDEffect extends VisualEffect {
-  private objects: Object3D[] = [];
-  private time = 0;
-  private perspective = 800;
-  private centerX: number;
-  private centerY: number;
-
-  constructor(ctx: CanvasRenderingContext2D, width: number, height: number, analyzer: AudioAnalyzer, effectName: string, engine: VisualEngine) {
-    super(ctx, width, height, analyzer, effectName, engine);
-    this.centerX = width / 2;
-    this.centerY = height / 2;
-    this.initializeObjects();
+  getAudioProgress(): number {
+    return this.audioProgress;
   }
 
-  private initializeObjects(): void {
-    const objectTypes: ('cube' | 'sphere' | 'pyramid' | 'torus')[] = ['cube', 'sphere', 'pyramid', 'torus'];
-    
-    for (let i = 0; i < 12; i++) {
-      const randomType = objectTypes[Math.floor(Math.random() * objectTypes.length)] as 'cube' | 'sphere' | 'pyramid' | 'torus';
-      const object: Object3D = {
-        x: (Math.random() - 0.5) * 400,
-        y: (Math.random() - 0.5) * 400,
-        z: Math.random() * 500 + 200,
-        rotationX: Math.random() * Math.PI * 2,
-        rotationY: Math.random() * Math.PI * 2,
-        rotationZ: Math.random() * Math.PI * 2,
-        scale: 20 + Math.random() * 40,
-        type: randomType,
-        color: `hsl(${Math.random() * 360}, 70%, 60%)`,
-        velocity: {
-          x: (Math.random() - 0.5) * 2,
-          y: (Math.random() - 0.5) * 2,
-          z: (Math.random() - 0.5) * 2,
-          rotX: (Math.random() - 0.5) * 0.1,
-          rotY: (Math.random() - 0.5) * 0.1,
-          rotZ: (Math.random() - 0.5) * 0.1,
-        }
-      };
-      this.objects.push(object);
-    }
+  getAudioDuration(): number {
+    return this.audioDuration;
   }
 
-  render(): void {
-    this.time += 0.016;
-
-    // Get parameters
-    const objectType = this.parameters.object || 'cube';
-    const color = this.parameters.color || null;
-    const rotationSpeed = this.parameters.rotationSpeed || 1;
-    const objectCount = 8;
-    const movement = true;
+  getIsRunning(): boolean {
+    return this.isRunning;
+  }
 
-    const bands = this.analyzer.getFrequencyBands();
-    const beat = this.analyzer.detectBeat();
+  // Route effect audio input to another frame source (e.g. a BufferAudioSource during
+  // offline export). The clock is used for beat timing and should be the media time.
+  setAudioSource(source: AudioFrameSource, clock?: () => number): void {
+    this.analyzer.setFrameSource(source, clock);
+  }
 
-    // Clear canvas with fade effect using background color
-    this.clear();
+  useLiveAudio(): void {
+    this.analyzer.useLiveSource();
+  }
 
-    // Audio-reactive perspective
-    this.perspective = 800 + bands.bass * 400;
+  // Render exactly one frame for the given media time in seconds. The offline exporter
+  // drives the engine through this instead of the requestAnimationFrame loop.
+  renderFrame(time: number): void {
+    this.beginFrame(time);
+    this.setAudioProgress(time, this.audioDuration);
+    this.renderEffects(time);
+    this.textRenderer.render(time * 1000);
+  }
 
-    // Limit object count
-    while (this.objects.length > objectCount) {
-      this.objects.pop();
+  start(): void {
+    if (this.isRunning) {
+      return;
     }
-    while (this.objects.length < objectCount) {
-      this.addRandomObject();
+    
+    if (!this.currentEffect) {
+      this.setEffect('waveform');
     }
-
-    // Update and render objects
-    this.objects.forEach((obj) => {
-      this.updateObject(obj, bands, beat, rotationSpeed, movement);
-      this.renderObject(obj, bands, beat, color, objectType);
-    });
-
-    // Add audio-reactive lighting effects
-    this.renderLightingEffects(bands, beat);
-  }
-
-  private addRandomObject(): void {
-    const objectTypes: ('cube' | 'sphere' | 'pyramid' | 'torus')[] = ['cube', 'sphere', 'pyramid', 'torus'];
-    const randomType = objectTypes[Math.floor(Math.random() * objectTypes.length)] as 'cube' | 'sphere' | 'pyramid' | 'torus';
     
-    const object: Object3D = {
-      x: (Math.random() - 0.5) * 400,
-      y: (Math.random() - 0.5) * 400,
-      z: Math.random() * 500 + 200,
-      rotationX: Math.random() * Math.PI * 2,
-      rotationY: Math.random() * Math.PI * 2,
-      rotationZ: Math.random() * Math.PI * 2,
-      scale: 20 + Math.random() * 40,
-      type: randomType,
-      color: `hsl(${Math.random() * 360}, 70%, 60%)`,
-      velocity: {
-        x: (Math.random() - 0.5) * 2,
-        y: (Math.random() - 0.5) * 2,
-        z: (Math.random() - 0.5) * 2,
-        rotX: (Math.random() - 0.5) * 0.1,
-        rotY: (Math.random() - 0.5) * 0.1,
-        rotZ: (Math.random() - 0.5) * 0.1,
-      }
-    };
-    this.objects.push(object);
-  }
-
-  private updateObject(obj: Object3D, bands: any, beat: any, rotationSpeed: number, movement: boolean): void {
-    // Audio-reactive rotation
-    const audioRotationMultiplier = 1 + (bands.treble + bands.highMid) * 2;
-    obj.rotationX += obj.velocity.rotX * rotationSpeed * audioRotationMultiplier;
-    obj.rotationY += obj.velocity.rotY * rotationSpeed * audioRotationMultiplier;
-    obj.rotationZ += obj.velocity.rotZ * rotationSpeed * audioRotationMultiplier;
-
-    // Movement
-    if (movement) {
-      obj.x += obj.velocity.x * (1 + bands.lowMid);
-      obj.y += obj.velocity.y * (1 + bands.mid);
-      obj.z += obj.velocity.z * (1 + bands.bass * 0.5);
-
-      // Boundary checks
-      if (Math.abs(obj.x) > 300) obj.velocity.x *= -1;
-      if (Math.abs(obj.y) > 300) obj.velocity.y *= -1;
-      if (obj.z < 100 || obj.z > 800) obj.velocity.z *= -1;
+    this.isRunning = true;
+    if (this.isAudioPlaying) {
+      this.qualityGovernor?.start();
     }
+    this.animate();
+  }
 
-    // Beat response
-    if (beat.isBeat) {
-      obj.scale *= 1.2 + beat.intensity * 0.3;
-      setTimeout(() => {
-        obj.scale /= 1.2 + beat.intensity * 0.3;
-      }, 100);
+  stop(): void {
+    this.isRunning = false;
+    this.qualityGovernor?.stop();
+    if (this.animationId !== null) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
     }
-
-    // Audio-reactive positioning
-    const audioOffset = Math.sin(this.time + bands.bass * Math.PI) * 50;
-    obj.x += Math.cos(this.time * 0.5) * audioOffset * 0.1;
-    obj.y += Math.sin(this.time * 0.3) * audioOffset * 0.1;
   }
 
-  private renderObject(obj: Object3D, bands: any, beat: any, paramColor: string | null, objectType: string): void {
-    // 3D to 2D projection
-    const projected = this.project3D(obj);
-    if (!projected) return;
+  private animate(): void {
+    if (!this.isRunning) return;
 
-    const { x, y, scale } = projected;
+    if (this.isAudioPlaying) {
+      // While playing, audio features are looked up at the song position
+      this.beginFrame(this.getMediaTime());
+      if (this.hasEffects()) {
+        const renderStart = performance.now();
+        this.renderEffects();
+        this.qualityGovernor?.recordFrame(performance.now() - renderStart);
+      }
+      this.textRenderer.render(this.frameTime * 1000);
+    } else if (!this.renderPausedFrame()) {
+      // Without the decoded track there is nothing to scrub; show a static frame
+      this.beginFrame();
+      if (this.hasEffects()) {
+        this.renderStaticFrame();
+      }
+      this.textRenderer.render(this.frameTime * 1000);
+    }
 
-    // Audio-reactive size
-    const audioScale = scale * (1 + bands.bass * 0.5 + (beat.isBeat ? beat.intensity * 0.5 : 0));
+    this.animationId = requestAnimationFrame(() => this.animate());
+  }
 
-    // Color selection
-    const renderColor = paramColor || obj.color;
-    
-    // Audio-reactive color intensity
-    const colorIntensity = 0.6 + (bands.treble + bands.highMid) * 0.4;
-    let finalColor: string;
-    
-    if (renderColor.startsWith('#')) {
-      // Convert hex to rgba with audio-reactive alpha
-      const r = parseInt(renderColor.slice(1, 3), 16);
-      const g = parseInt(renderColor.slice(3, 5), 16);
-      const b = parseInt(renderColor.slice(5, 7), 16);
-      finalColor = `rgba(${r}, ${g}, ${b}, ${colorIntensity})`;
-    } else {
-      finalColor = renderColor;
+  private hasEffects(): boolean {
+    return this.currentEffect !== null || this.isLayered() || this.effectClips.length > 0;
+  }
+
+  // While paused, shows the frame at the playhead as an export renders it. A second engine
+  // renders the project with fresh effects at the export frame rate, with audio read from
+  // the decoded track, starting SCRUB_WARMUP_SECONDS before the playhead (or at the start
+  // of the song, where the frame matches the export exactly). Further in, effect state that
+  // builds up for longer than the warm-up, like particle counts, can differ from the export.
+  // The warm-up runs a few frames per display frame; after a project change or a jump the
+  // playhead is first drawn by the fresh effects alone, so edits show at once. A later
+  // playhead within the warm-up carries on from the last frame. Nothing is drawn while the
+  // frame stays the same, so trails don't fade out. False when there's no track.
+  private renderPausedFrame(): boolean {
+    const audioManager = AudioContextManager.getInstance();
+    const buffer = audioManager.getBuffer?.() ?? null;
+    if (!buffer) return false;
+
+    const fps = this.exportSettings.fps;
+    const playbackRate = audioManager.getPlaybackRate?.() ?? 1;
+    // Export frames fall on a grid of rendered time; the media clock gives song time
+    const frameIndex = Math.floor((this.getMediaTime() / playbackRate) * fps + 1e-6);
+    const warmupFrames = Math.round(SCRUB_WARMUP_SECONDS * fps);
+    const scrub = this.getScrubRender(buffer);
+
+    const revision = this.getScrubRevision();
+    const changed = scrub.revision !== revision;
+    if (changed || frameIndex < scrub.nextFrame - 1 || frameIndex - scrub.nextFrame > warmupFrames) {
+      if (changed) {
+        scrub.engine.loadProject(this.serializeProject());
+        scrub.revision = revision;
+      }
+      const startFrame = Math.max(0, frameIndex - warmupFrames);
+      if (startFrame < frameIndex) {
+        // Provisional frame, replaced once the warm-up reaches the playhead
+        this.restartScrubRender(scrub, frameIndex);
+        this.renderScrubFrame(scrub, fps, playbackRate);
+        this.showScrubFrame(scrub);
+      }
+      this.restartScrubRender(scrub, startFrame);
     }
+    if (scrub.shownFrame === frameIndex) return true;
 
-    this.ctx.fillStyle = finalColor;
-    this.ctx.strokeStyle = finalColor;
-    this.ctx.lineWidth = 2 + bands.mid * 4;
-
-    // Render based on type
-    const typeToRender = objectType === 'mixed' ? obj.type : objectType;
-    
-    switch (typeToRender) {
-      case 'cube':
-        this.renderCube(x, y, audioScale, obj);
-        break;
-      case 'sphere':
-        this.renderSphere(x, y, audioScale);
-        break;
-      case 'pyramid':
-        this.renderPyramid(x, y, audioScale, obj);
-        break;
-      case 'torus':
-        this.renderTorus(x, y, audioScale, obj);
-        break;
-      default:
-        this.renderCube(x, y, audioScale, obj);
+    const deadline = performance.now() + SCRUB_FRAME_BUDGET_MS;
+    while (scrub.nextFrame <= frameIndex) {
+      this.renderScrubFrame(scrub, fps, playbackRate);
+      if (performance.now() >= deadline) break;
     }
 
-    // Add glow effect for beats
-    if (beat.isBeat) {
-      this.ctx.shadowBlur = 20 * beat.intensity;
-      this.ctx.shadowColor = finalColor;
-      this.ctx.beginPath();
-      this.ctx.arc(x, y, audioScale * 0.5, 0, Math.PI * 2);
-      this.ctx.fill();
-      this.ctx.shadowBlur = 0;
+    if (scrub.nextFrame > frameIndex) {
+      this.showScrubFrame(scrub);
+      scrub.shownFrame = frameIndex;
     }
+    return true;
   }
 
-  private project3D(obj: Object3D): { x: number; y: number; scale: number } | null {
-    if (obj.z <= 0) return null;
-
-    const scale = this.perspective / (this.perspective + obj.z);
-    const x = this.centerX + obj.x * scale;
-    const y = this.centerY + obj.y * scale;
+  // Fresh effects and audio state, as at the start of an export, rendering from `frame` on
+  private restartScrubRender(scrub: ScrubRender, frame: number): void {
+    scrub.engine.restartEffects();
+    scrub.source.reset();
+    scrub.engine.setAudioSource(scrub.source, () => scrub.source.getCurrentTime());
+    scrub.nextFrame = frame;
+    scrub.shownFrame = -1;
+  }
 
-    return { x, y, scale: obj.scale * scale };
+  private renderScrubFrame(scrub: ScrubRender, fps: number, playbackRate: number): void {
+    const time = (scrub.nextFrame / fps) * playbackRate;
+    scrub.source.setTime(time);
+    scrub.engine.renderFrame(time);
+    scrub.nextFrame++;
   }
 
-  private renderCube(x: number, y: number, size: number, obj: Object3D): void {
+  private showScrubFrame(scrub: ScrubRender): void {
+    const { width, height } = this.outputResolution;
     this.ctx.save();
-    this.ctx.translate(x, y);
-    this.ctx.rotate(obj.rotationZ);
-
-    // Simple 2D representation of a 3D cube
-    const halfSize = size / 2;
-    
-    // Back face (darker)
-    this.ctx.globalAlpha = 0.6;
-    this.ctx.fillRect(-halfSize + 5, -halfSize + 5, size, size);
-    
-    // Front face
-    this.ctx.globalAlpha = 1;
-    this.ctx.fillRect(-halfSize, -halfSize, size, size);
-    this.ctx.strokeRect(-halfSize, -halfSize, size, size);
-
-    // Side face
-    this.ctx.globalAlpha = 0.8;
-    this.ctx.beginPath();
-    this.ctx.moveTo(halfSize, -halfSize);
-    this.ctx.lineTo(halfSize + 5, -halfSize + 5);
-    this.ctx.lineTo(halfSize + 5, halfSize + 5);
-    this.ctx.lineTo(halfSize, halfSize);
-    this.ctx.closePath();
-    this.ctx.fill();
-    this.ctx.stroke();
-
-    // Top face
-    this.ctx.beginPath();
-    this.ctx.moveTo(-halfSize, -halfSize);
-    this.ctx.lineTo(-halfSize + 5, -halfSize + 5);
-    this.ctx.lineTo(halfSize + 5, -halfSize + 5);
-    this.ctx.lineTo(halfSize, -halfSize);
-    this.ctx.closePath();
-    this.ctx.fill();
-    this.ctx.stroke();
-
+    this.ctx.globalCompositeOperation = 'copy';
+    this.ctx.drawImage(scrub.engine.canvas, 0, 0, width, height);
     this.ctx.restore();
   }
 
-  private renderSphere(x: number, y: number, size: number): void {
-    this.ctx.save();
-    this.ctx.translate(x, y);
-
-    // Create radial gradient for 3D effect
-    const gradient = this.ctx.createRadialGradient(-size * 0.3, -size * 0.3, 0, 0, 0, size);
-    gradient.addColorStop(0, this.ctx.fillStyle as string);
-    gradient.addColorStop(0.7, this.adjustColorBrightness(this.ctx.fillStyle as string, -0.3));
-    gradient.addColorStop(1, this.adjustColorBrightness(this.ctx.fillStyle as string, -0.6));
-
-    this.ctx.fillStyle = gradient;
-    this.ctx.beginPath();
-    this.ctx.arc(0, 0, size / 2, 0, Math.PI * 2);
-    this.ctx.fill();
-    this.ctx.stroke();
-
-    this.ctx.restore();
+  private getScrubRender(buffer: AudioBuffer): ScrubRender {
+    if (this.scrub?.buffer === buffer) return this.scrub;
+
+    this.scrub?.engine.dispose();
+    this.scrub = {
+      engine: new VisualEngine(createCanvas(1, 1), {
+        persistSettings: false,
+        parameterManager: this.parameterManager.createScope()
+      }),
+      source: new BufferAudioSource(buffer),
+      buffer,
+      revision: '',
+      nextFrame: 0,
+      shownFrame: -1
+    };
+    return this.scrub;
   }
 
-  private renderPyramid(x: number, y: number, size: number, obj: Object3D): void {
-    this.ctx.save();
-    this.ctx.translate(x, y);
-    this.ctx.rotate(obj.rotationZ);
+  // Everything the paused preview's render depends on besides the playhead
+  private getScrubRevision(): string {
+    const audioManager = AudioContextManager.getInstance();
+    const mix = `${audioManager.getMixGain?.() ?? 1}:${audioManager.getPlaybackRate?.() ?? 1}`;
+    return `${this.revision}:${this.textRenderer.getRevision()}:${mix}`;
+  }
 
-    const halfSize = size / 2;
+  private renderStaticFrame(): void {
+    // Show a static visualization when paused with background color
+    const bgColor = this.backgroundColor;
+    if (bgColor.startsWith('#')) {
+      const r = parseInt(bgColor.slice(1, 3), 16);
+      const g = parseInt(bgColor.slice(3, 5), 16);
+      const b = parseInt(bgColor.slice(5, 7), 16);
+      this.ctx.fillStyle = `rgba(${r}, ${g}, ${b}, 0.1)`;
+    } else {
+      this.ctx.fillStyle = bgColor;
+    }
+    const { width, height } = this.outputResolution;
+    this.ctx.fillRect(0, 0, width, height);
     
-    // Base (darker)
-    this.ctx.globalAlpha = 0.7;
-    this.ctx.beginPath();
-    this.ctx.moveTo(-halfSize, halfSize);
-    this.ctx.lineTo(halfSize, halfSize);
-    this.ctx.lineTo(halfSize + 3, halfSize + 3);
-    this.ctx.lineTo(-halfSize + 3, halfSize + 3);
-    this.ctx.closePath();
-    this.ctx.fill();
-
-    // Front face
-    this.ctx.globalAlpha = 1;
-    this.ctx.beginPath();
-    this.ctx.moveTo(-halfSize, halfSize);
-    this.ctx.lineTo(0, -halfSize);
-    this.ctx.lineTo(halfSize, halfSize);
-    this.ctx.closePath();
-    this.ctx.fill();
-    this.ctx.stroke();
-
-    // Side face
-    this.ctx.globalAlpha = 0.8;
+    // Draw a static waveform line
+    this.ctx.strokeStyle = '#4ecdc4';
+    this.ctx.lineWidth = 2;
     this.ctx.beginPath();
-    this.ctx.moveTo(halfSize, halfSize);
-    this.ctx.lineTo(0, -halfSize);
-    this.ctx.lineTo(halfSize + 3, halfSize + 3);
-    this.ctx.closePath();
-    this.ctx.fill();
+    this.ctx.moveTo(0, height / 2);
+    this.ctx.lineTo(width, height / 2);
     this.ctx.stroke();
-
-    this.ctx.restore();
   }
-
-  private renderTorus(x: number, y: number, size: number, obj: Object3D): void {
-    this.ctx.save();
-    this.ctx.translate(x, y);
-    this.ctx.rotate(obj.rotationZ);
-
-    const outerRadius = size / 2;
-    const innerRadius = outerRadius * 0.4;
+  
+  // Force a single frame render (useful for preset loading)
+  forceRender(): void {
+    if (this.scrub) this.scrub.shownFrame = -1;
+    this.beginFrame(this.getMediaTime());
+
+    if (this.isLayered()) {
+      this.layerEffects.forEach((effect, layerId) => {
+        const store = this.layerParameters.get(layerId) || this.parameterManager;
+        effect.updateParameters(store.getParameters(effect.effectName));
+      });
+      this.blendingEngine.clearAllLayers();
+      this.renderEffects();
+    } else if (this.currentEffect) {
+      // Ensure the effect has the latest parameters before rendering
+      const currentParams = this.parameterManager.getParameters(this.currentEffect.effectName);
+      this.currentEffect.updateParameters(currentParams);
+      
+      // Use a modified render that ensures visibility
+      this.forceRenderWithVisibility();
+    } else {
+      this.renderStaticFrame();
+    }
     
-    // Outer circle
-    this.ctx.lineWidth = (outerRadius - innerRadius);
-    this.ctx.beginPath();
-    this.ctx.arc(0, 0, (outerRadius + innerRadius) / 2, 0, Math.PI * 2);
-    this.ctx.stroke();
-
-    // Add 3D effect with ellipses
-    this.ctx.globalAlpha = 0.7;
-    this.ctx.scale(1, 0.3);
-    this.ctx.beginPath();
-    this.ctx.arc(0, 0, outerRadius, 0, Math.PI * 2);
-    this.ctx.stroke();
+    // Always render text overlays
+    this.textRenderer.render(this.frameTime * 1000);
+  }
+  
+  // Special render method for preset loading that ensures visibility
+  private forceRenderWithVisibility(): void {
+    if (!this.currentEffect) return;
     
-    this.ctx.beginPath();
-    this.ctx.arc(0, 0, innerRadius, 0, Math.PI * 2);
-    this.ctx.stroke();
-
-    this.ctx.restore();
+    // Clear with full opacity first
+    this.clearCanvas();
+    
+    // Set higher opacity for canvas operations
+    this.ctx.globalAlpha = 1.0;
+    
+    // Call the effect render method
+    this.renderEffects();
+    
+    // Reset alpha
+    this.ctx.globalAlpha = 1.0;
   }
-
-  private renderLightingEffects(bands: any, beat: any): void {
-    // Ambient lighting effect based on audio
-    const ambientIntensity = (bands.bass + bands.mid + bands.treble) / 3;
-    this.ctx.globalAlpha = ambientIntensity * 0.1;
-    this.ctx.fillStyle = 'rgba(255, 255, 255, 1)';
-    this.ctx.fillRect(0, 0, this.width, this.height);
-    this.ctx.globalAlpha = 1;
-
-    // Beat flash effect
-    if (beat.isBeat) {
-      this.ctx.globalAlpha = beat.intensity * 0.2;
-      this.ctx.fillStyle = 'white';
-      this.ctx.fillRect(0, 0, this.width, this.height);
-      this.ctx.globalAlpha = 1;
+  
+  // Clear the canvas completely
+  clearCanvas(): void {
+    const bgColor = this.backgroundColor;
+    if (bgColor.startsWith('#')) {
+      this.ctx.fillStyle = bgColor;
+    } else {
+      this.ctx.fillStyle = bgColor;
     }
+    this.ctx.fillRect(0, 0, this.outputResolution.width, this.outputResolution.height);
+    // While paused, the frame at the playhead is copied again on the next tick
+    if (this.scrub) this.scrub.shownFrame = -1;
   }
 
-  private adjustColorBrightness(color: string, amount: number): string {
-    // Simple brightness adjustment for rgba colors
-    if (color.startsWith('rgba')) {
-      const matches = color.match(/rgba?\(([^)]+)\)/);
-      if (matches && matches[1]) {
-        const values = matches[1].split(',').map(v => parseFloat(v.trim()));
-        if (values.length >= 3 && values[0] !== undefined && values[1] !== undefined && values[2] !== undefined) {
-          const r = Math.max(0, Math.min(255, values[0] + (amount * 255)));
-          const g = Math.max(0, Math.min(255, values[1] + (amount * 255)));
-          const b = Math.max(0, Math.min(255, values[2] + (amount * 255)));
-          const a = values[3] || 1;
-          return `rgba(${r}, ${g}, ${b}, ${a})`;
-        }
-      }
+  dispose(): void {
+    this.stop();
+    this.currentEffect?.dispose();
+    this.layerEffects.forEach(effect => effect.dispose());
+    this.layerEffects.clear();
+    this.layerParameters.clear();
+    this.clipSlots.forEach(slot => slot.effect.dispose());
+    this.clipSlots.clear();
+    this.blendingEngine.dispose();
+    this.shaderRenderer?.dispose();
+    this.shaderRenderer = null;
+    this.qualityGovernor = null;
+    this.qualityListeners.clear();
+    this.scrub?.engine.dispose();
+    this.scrub = null;
+    this.parameterManager.removeChangeListener(this.invalidate);
+    this.parameterManager.removeModulationListener(this.invalidate);
+    this.parameterManager.removeAutomationListener(this.invalidate);
+    frequencyBandManager.removeListener(this.invalidate);
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('resize', this.handleWindowResize);
     }
-    return color;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,377 @@
+import { AudioContextManager, AudioMixSettings } from '../audio/AudioContext';
+import { AudioFeatureTimeline, AudioFeatureTimelineData } from '../audio/AudioFeatureTimeline';
+import { BufferAudioSource } from '../audio/BufferAudioSource';
+import { FrequencyBandConfig, frequencyBandManager } from '../audio/FrequencyBands';
+import { EffectParameter, EffectParameterManager } from './EffectParameters';
+import { effectRegistry } from './EffectRegistry';
+import { BlendLayer } from './EffectBlending';
+import { EffectClip } from './EffectTimeline';
+import { ModulationBinding } from './ParameterModulation';
+import { AutomationLane } from './ParameterAutomation';
+import { FULL_QUALITY, QualityGovernorOptions, QualityLevel } from './QualityGovernor';
+import { ShaderRenderer } from './ShaderRenderer';
+import { createCanvas } from './RenderSurface';
+import { CompositionMode, VisualEngine } from './VisualEngine';
+import { OutputResolution, TextOverlay } from '../../types/visual';
+import { Project, ProjectExportSettings } from '../project/Project';
+
+// Renders the preview in a worker (see RenderWorker) so React work on the main thread
+// can't stall it. The page canvas hands its drawing to an OffscreenCanvas, and a worker
+// engine draws into it from live audio frames and copies of every change made here. It
+// also gets the decoded track (as mono samples), its feature timeline and the mix, so
+// timeline features, the beat grid and the paused preview work there as they do here.
+//
+// This class is the main-thread side. It is a full VisualEngine on a canvas that is never
+// drawn, so getters, project saving and the parameter stores behave as before; calls that
+// change what is shown are applied here and repeated in the worker.
+
+export type RenderWorkerRequest =
+  | { type: 'init'; canvas: OffscreenCanvas; modules: string[] }
+  | { type: 'call'; method: string; args: unknown[] }
+  | { type: 'parameters'; effectName: string; params: EffectParameter; layerId?: string }
+  | { type: 'modulations'; modulations: ModulationBinding[] }
+  | { type: 'automation'; lanes: AutomationLane[] }
+  | { type: 'bands'; config: FrequencyBandConfig }
+  | { type: 'modules'; urls: string[] }
+  | { type: 'track'; track: { sampleRate: number; samples: Float32Array } | null }
+  | { type: 'features'; timeline: AudioFeatureTimelineData | null }
+  | { type: 'mix'; settings: AudioMixSettings }
+  | { type: 'audio'; frequency: Uint8Array; timeDomain: Uint8Array; sampleRate: number; time: number; playing: boolean };
+
+export type RenderWorkerEvent = { type: 'quality'; level: QualityLevel };
+
+export class WorkerVisualEngine extends VisualEngine {
+  private worker: Worker | null;
+  // Nested calls (loadProject calls setEffect, ...) are repeated by the outer call only
+  private callDepth = 0;
+  private running = false;
+  private audioFrameId: number | null = null;
+  private clock: (() => number) | null = null;
+  private adaptiveQuality = false;
+  private workerQuality: QualityLevel = FULL_QUALITY;
+  private workerQualityListeners: Set<(level: QualityLevel) => void> = new Set();
+  private watchedStores: WeakSet<EffectParameterManager> = new WeakSet();
+  // What the worker was last sent of the editor's audio
+  private sentBuffer: AudioBuffer | null = null;
+  private sentTimeline: AudioFeatureTimeline | null = null;
+  private sentMix = '';
+
+  private handleWorkerMessage = (event: MessageEvent<RenderWorkerEvent>) => {
+    if (event.data.type === 'quality') {
+      this.workerQuality = event.data.level;
+      this.workerQualityListeners.forEach(listener => listener(event.data.level));
+    }
+  };
+
+  private handleParameters = (effectName: string, params: EffectParameter) => {
+    this.post({ type: 'parameters', effectName, params });
+  };
+
+  private handleModulations = (modulations: ModulationBinding[]) => {
+    this.post({ type: 'modulations', modulations });
+  };
+
+  private handleAutomation = (lanes: AutomationLane[]) => {
+    this.post({ type: 'automation', lanes });
+  };
+
+  private handleBands = (config: FrequencyBandConfig) => {
+    this.post({ type: 'bands', config });
+  };
+
+  private handleModules = () => {
+    this.post({ type: 'modules', urls: effectRegistry.getModuleUrls() });
+  };
+
+  constructor(canvas: HTMLCanvasElement, worker: Worker) {
+    super(createCanvas(canvas.width, canvas.height), { displayCanvas: canvas });
+    this.worker = worker;
+    worker.addEventListener('message', this.handleWorkerMessage);
+
+    const offscreen = canvas.transferControlToOffscreen();
+    this.post({ type: 'init', canvas: offscreen, modules: effectRegistry.getModuleUrls() }, [offscreen]);
+
+    // Bring the worker engine up to this one's state, then follow every change
+    const parameters = this.getParameterManager();
+    parameters.getEffectNames().forEach(effectName => this.handleParameters(effectName, parameters.getParameters(effectName)));
+    this.handleModulations(parameters.getModulations());
+    this.handleAutomation(parameters.getAutomation());
+    this.handleBands(frequencyBandManager.getConfig());
+    this.syncAudio();
+    this.post({ type: 'call', method: 'loadProject', args: [this.serializeProject()] });
+
+    parameters.addChangeListener(this.handleParameters);
+    parameters.addModulationListener(this.handleModulations);
+    parameters.addAutomationListener(this.handleAutomation);
+    frequencyBandManager.addListener(this.handleBands);
+    effectRegistry.addListener(this.handleModules);
+  }
+
+  private post(message: RenderWorkerRequest, transfer: Transferable[] = []): void {
+    this.worker?.postMessage(message, transfer);
+  }
+
+  // Applies a call here and, unless it is part of another one, in the worker
+  private forward<T>(method: string, args: unknown[], apply: () => T, after?: (result: T) => void): T {
+    this.callDepth++;
+    let result: T;
+    try {
+      result = apply();
+    } finally {
+      this.callDepth--;
+    }
+
+    if (this.callDepth === 0) {
+      if (after) {
+        after(result);
+      } else {
+        this.post({ type: 'call', method, args });
+      }
+      this.watchLayerParameters();
+    }
+    return result;
+  }
+
+  // Layer ids made up on each side would differ, so the worker takes this stack as it is
+  private syncLayers(): void {
+    this.post({ type: 'call', method: 'setLayers', args: [this.getLayers(), this.getLayerParameters()] });
+  }
+
+  private watchLayerParameters(): void {
+    this.getLayers().forEach(layer => {
+      const store = this.getLayerParameterManager(layer.id);
+      if (!store || this.watchedStores.has(store)) return;
+
+      this.watchedStores.add(store);
+      store.addChangeListener((effectName, params) => {
+        this.post({ type: 'parameters', effectName, params, layerId: layer.id });
+      });
+    });
+  }
+
+  // Sends the track, its analysis and the mix when they differ from what the worker has.
+  // The editor loads and analyses files on its own schedule, so this is checked every frame.
+  private syncAudio(): void {
+    const audio = AudioContextManager.getInstance();
+
+    const buffer = audio.getBuffer?.() ?? null;
+    if (buffer !== this.sentBuffer) {
+      this.sentBuffer = buffer;
+      const samples = buffer ? BufferAudioSource.mixToMono(buffer) : null;
+      this.post(
+        { type: 'track', track: buffer && samples ? { sampleRate: buffer.sampleRate, samples } : null },
+        samples ? [samples.buffer] : []
+      );
+    }
+
+    const timeline = audio.getFeatureTimeline?.() ?? null;
+    if (timeline !== this.sentTimeline) {
+      this.sentTimeline = timeline;
+      this.post({ type: 'features', timeline: timeline ? timeline.toData() : null });
+    }
+
+    const mix = audio.getMixSettings();
+    if (JSON.stringify(mix) !== this.sentMix) {
+      this.sentMix = JSON.stringify(mix);
+      this.post({ type: 'mix', settings: mix });
+    }
+  }
+
+  // Live audio for the worker, read where the AudioContext is: one frame per display frame
+  private sendAudioFrame = () => {
+    if (!this.running) return;
+
+    this.syncAudio();
+    const audio = AudioContextManager.getInstance();
+    const frequency = audio.getFrequencyData().slice();
+    const timeDomain = audio.getTimeDomainData().slice();
+    this.post({
+      type: 'audio',
+      frequency,
+      timeDomain,
+      sampleRate: audio.getSampleRate(),
+      time: this.clock ? this.clock() : this.getAudioProgress() * this.getAudioDuration(),
+      playing: audio.getIsPlaying()
+    }, [frequency.buffer, timeDomain.buffer]);
+    this.audioFrameId = requestAnimationFrame(this.sendAudioFrame);
+  };
+
+  setMediaClock(clock: (() => number) | null): void {
+    this.clock = clock;
+    super.setMediaClock(clock);
+  }
+
+  setOutputResolution(resolution: OutputResolution): void {
+    this.forward('setOutputResolution', [resolution], () => super.setOutputResolution(resolution));
+  }
+
+  setEffect(effectType: string): void {
+    this.forward('setEffect', [effectType], () => super.setEffect(effectType));
+  }
+
+  setCompositionMode(mode: CompositionMode): void {
+    this.forward('setCompositionMode', [mode], () => super.setCompositionMode(mode), () => {
+      this.syncLayers();
+      this.post({ type: 'call', method: 'setCompositionMode', args: [mode] });
+    });
+  }
+
+  addLayer(effectName: string, options: Partial<Omit<BlendLayer, 'effectName'>> = {}, parameters?: EffectParameter): BlendLayer {
+    return this.forward('addLayer', [], () => super.addLayer(effectName, options, parameters), layer => {
+      const { effectName: _effectName, ...layerOptions } = layer;
+      const store = this.getLayerParameterManager(layer.id);
+      this.post({ type: 'call', method: 'addLayer', args: [effectName, layerOptions, store?.getParameters(effectName)] });
+    });
+  }
+
+  removeLayer(layerId: string): void {
+    this.forward('removeLayer', [layerId], () => super.removeLayer(layerId));
+  }
+
+  updateLayer(layerId: string, updates: Partial<Omit<BlendLayer, 'id'>>): void {
+    this.forward('updateLayer', [layerId, updates], () => super.updateLayer(layerId, updates));
+  }
+
+  moveLayer(layerId: string, direction: 'up' | 'down'): void {
+    this.forward('moveLayer', [layerId, direction], () => super.moveLayer(layerId, direction));
+  }
+
+  setLayers(layers: BlendLayer[], parameters: { [layerId: string]: EffectParameter } = {}): void {
+    this.forward('setLayers', [], () => super.setLayers(layers, parameters), () => this.syncLayers());
+  }
+
+  setEffectClips(clips: EffectClip[]): void {
+    this.forward('setEffectClips', [clips], () => super.setEffectClips(clips));
+  }
+
+  loadProject(value: Project): void {
+    this.forward('loadProject', [], () => super.loadProject(value), () => {
+      // The saved form carries the layer ids made here
+      this.post({ type: 'call', method: 'loadProject', args: [this.serializeProject()] });
+    });
+  }
+
+  setSeed(seed: number): void {
+    this.forward('setSeed', [seed], () => super.setSeed(seed));
+  }
+
+  setExportSettings(settings: ProjectExportSettings): void {
+    this.forward('setExportSettings', [settings], () => super.setExportSettings(settings));
+  }
+
+  addTextOverlay(overlay: TextOverlay): void {
+    this.forward('addTextOverlay', [overlay], () => super.addTextOverlay(overlay));
+  }
+
+  removeTextOverlay(id: string): void {
+    this.forward('removeTextOverlay', [id], () => super.removeTextOverlay(id));
+  }
+
+  updateTextOverlay(id: string, updates: Partial<TextOverlay>): void {
+    this.forward('updateTextOverlay', [id, updates], () => super.updateTextOverlay(id, updates));
+  }
+
+  clearAllTextOverlays(): void {
+    this.forward('clearAllTextOverlays', [], () => super.clearAllTextOverlays());
+  }
+
+  setBackgroundColor(color: string): void {
+    this.forward('setBackgroundColor', [color], () => super.setBackgroundColor(color));
+  }
+
+  setAudioPlaying(playing: boolean): void {
+    this.forward('setAudioPlaying', [playing], () => super.setAudioPlaying(playing));
+  }
+
+  setAudioProgress(currentTime: number, duration: number): void {
+    this.forward('setAudioProgress', [currentTime, duration], () => super.setAudioProgress(currentTime, duration));
+  }
+
+  // Quality is measured where the frames are drawn
+  setAdaptiveQuality(enabled: boolean, options?: QualityGovernorOptions): void {
+    this.adaptiveQuality = enabled;
+    if (!enabled) this.workerQuality = FULL_QUALITY;
+    this.post({ type: 'call', method: 'setAdaptiveQuality', args: [enabled, options] });
+  }
+
+  isAdaptiveQuality(): boolean {
+    return this.adaptiveQuality;
+  }
+
+  getQuality(): QualityLevel {
+    return this.workerQuality;
+  }
+
+  addQualityListener(listener: (level: QualityLevel) => void): void {
+    this.workerQualityListeners.add(listener);
+  }
+
+  removeQualityListener(listener: (level: QualityLevel) => void): void {
+    this.workerQualityListeners.delete(listener);
+  }
+
+  // Effects here never draw, so shader effects don't need a GL context of their own
+  getShaderRenderer(): ShaderRenderer | null {
+    return null;
+  }
+
+  getIsRunning(): boolean {
+    return this.running;
+  }
+
+  start(): void {
+    if (this.running) return;
+
+    if (!this.getCurrentEffect()) {
+      this.setEffect('waveform');
+    }
+    this.running = true;
+    this.post({ type: 'call', method: 'start', args: [] });
+    this.sendAudioFrame();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.audioFrameId !== null) {
+      cancelAnimationFrame(this.audioFrameId);
+      this.audioFrameId = null;
+    }
+    this.post({ type: 'call', method: 'stop', args: [] });
+  }
+
+  // Drawing only happens in the worker, which also draws for the calls it repeats
+  renderFrame(time: number): void {
+    this.postDraw('renderFrame', [time]);
+  }
+
+  forceRender(): void {
+    this.postDraw('forceRender', []);
+  }
+
+  clearCanvas(): void {
+    this.postDraw('clearCanvas', []);
+  }
+
+  private postDraw(method: string, args: unknown[]): void {
+    if (this.callDepth === 0) {
+      this.post({ type: 'call', method, args });
+    }
+  }
+
+  dispose(): void {
+    if (!this.worker) return;
+
+    this.stop();
+    const parameters = this.getParameterManager();
+    parameters.removeChangeListener(this.handleParameters);
+    parameters.removeModulationListener(this.handleModulations);
+    parameters.removeAutomationListener(this.handleAutomation);
+    frequencyBandManager.removeListener(this.handleBands);
+    effectRegistry.removeListener(this.handleModules);
+    this.workerQualityListeners.clear();
+    this.worker.removeEventListener('message', this.handleWorkerMessage);
+    this.worker.terminate();
+    this.worker = null;
+    super.dispose();
+  }
+}
@@ -0,0 +1,165 @@
+import { EffectPlugin, EffectPluginApi, effectRegistry } from '../EffectRegistry';
+import { effectParameterManager } from '../EffectParameters';
+import { AudioFrame, VisualEffect } from '../VisualEffect';
+import { VisualEngine } from '../VisualEngine';
+import { normalizeProject } from '../../project/Project';
+
+jest.mock('../../audio/AudioContext', () => {
+  const mockInstance = {
+    getFrequencyData: () => new Uint8Array(1024).fill(100),
+    getTimeDomainData: () => new Uint8Array(1024).fill(128)
+  };
+  return {
+    ...jest.requireActual('../../audio/AudioContext'),
+    AudioContextManager: {
+      getInstance: () => mockInstance
+    }
+  };
+});
+
+// 2D context stub where every drawing call is a no-op
+const createMockCanvas = () => {
+  const ctx = new Proxy({} as Record<string | symbol, any>, {
+    get: (obj, key) => {
+      if (!(key in obj)) obj[key] = jest.fn();
+      return obj[key];
+    },
+    set: (obj, key, value) => {
+      obj[key] = value;
+      return true;
+    }
+  });
+  return { width: 1080, height: 1920, style: {}, parentElement: null, getContext: jest.fn(() => ctx) } as any;
+};
+
+const frames: AudioFrame[] = [];
+
+class PulseEffect extends VisualEffect {
+  initialized = false;
+
+  init(): void {
+    this.initialized = true;
+  }
+
+  render(_time: number, audio: AudioFrame): void {
+    frames.push(audio);
+    this.ctx.fillRect(0, 0, this.width * audio.bands.bass * this.parameters.size, this.height);
+  }
+}
+
+const pulsePlugin = (name = 'pulse'): EffectPlugin => ({
+  metadata: { name, label: 'Pulse', category: 'Test', icon: '💓' },
+  parameters: [{ name: 'size', type: 'number', min: 0, max: 2, step: 0.1, defaultValue: 1 }],
+  effect: PulseEffect
+});
+
+describe('EffectRegistry', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    frames.length = 0;
+  });
+
+  afterEach(() => {
+    effectRegistry.getNames().forEach(name => effectRegistry.unregister(name));
+  });
+
+  it('should register the built-in effects with their parameters', () => {
+    expect(effectRegistry.getNames()).toEqual(['waveform', 'particles', 'geometric', 'gradient', '3d', 'tunnel']);
+    expect(effectRegistry.get('3d')?.metadata.label).toBe('3D');
+    effectRegistry.getNames().forEach(name => {
+      expect(effectParameterManager.getParameterDefinitions(name)).toBe(effectRegistry.get(name)!.parameters);
+    });
+    expect(effectRegistry.unregister('waveform')).toBe(false);
+  });
+
+  it('should render a registered plugin effect through the engine', () => {
+    effectRegistry.register(pulsePlugin());
+    expect(effectRegistry.getNames()).toContain('pulse');
+    expect(effectParameterManager.getParameters('pulse')).toEqual({ size: 1 });
+
+    const engine = new VisualEngine(createMockCanvas(), { persistSettings: false });
+    engine.setEffect('pulse');
+    const effect = engine.getCurrentEffect() as PulseEffect;
+    expect(effect).toBeInstanceOf(PulseEffect);
+    expect(effect.initialized).toBe(true);
+
+    engine.renderFrame(1.5);
+    expect(frames).toHaveLength(1);
+    expect(frames[0].time).toBe(1.5);
+    expect(frames[0].bands.bass).toEqual(expect.any(Number));
+    expect(frames[0].beat).toHaveProperty('isBeat');
+    engine.dispose();
+  });
+
+  it('should give layers made before a plugin loaded its parameters', () => {
+    const engine = new VisualEngine(createMockCanvas(), { persistSettings: false });
+    const layer = engine.addLayer('waveform');
+    effectRegistry.register(pulsePlugin());
+    effectParameterManager.setParameter('pulse', 'size', 1.5);
+
+    engine.updateLayer(layer.id, { effectName: 'pulse' });
+    expect(engine.getLayerParameterManager(layer.id)!.getParameters('pulse')).toEqual({ size: 1.5 });
+    engine.dispose();
+  });
+
+  it('should remove a plugin and its parameters', () => {
+    const listener = jest.fn();
+    effectRegistry.addListener(listener);
+    effectRegistry.register(pulsePlugin());
+    expect(effectRegistry.unregister('pulse')).toBe(true);
+    effectRegistry.removeListener(listener);
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(effectRegistry.has('pulse')).toBe(false);
+    expect(effectParameterManager.getEffectNames()).not.toContain('pulse');
+  });
+
+  it('should refuse duplicate names and classes that are not effects', () => {
+    effectRegistry.register(pulsePlugin());
+    expect(() => effectRegistry.register(pulsePlugin())).toThrow('already registered');
+    expect(() => effectRegistry.register(pulsePlugin('bad name'))).toThrow('Invalid effect name');
+    expect(() => effectRegistry.register({ ...pulsePlugin('other'), effect: class {} as any })).toThrow('VisualEffect');
+  });
+
+  it('should register plugins and factories exported by a module', () => {
+    const factory = ({ VisualEffect: Base, defineEffect }: EffectPluginApi) => {
+      class Rings extends Base {
+        render(): void {}
+      }
+      return defineEffect({ metadata: { name: 'rings', label: 'Rings', category: 'Test', icon: '⭕' }, parameters: [], effect: Rings });
+    };
+
+    const plugins = effectRegistry.registerModule({ default: factory, pulse: pulsePlugin(), PulseEffect });
+    expect(plugins.map(plugin => plugin.metadata.name)).toEqual(['rings', 'pulse']);
+    expect(effectRegistry.getNames()).toEqual(expect.arrayContaining(['rings', 'pulse']));
+
+    expect(() => effectRegistry.registerModule({ helper: 42 })).toThrow('does not export any effects');
+  });
+
+  it('should register nothing from a module when one of its names is taken', () => {
+    expect(() => effectRegistry.registerModule({ first: pulsePlugin(), second: pulsePlugin('waveform') })).toThrow('already registered');
+    expect(effectRegistry.has('pulse')).toBe(false);
+  });
+
+  it('should register nothing from a module when any of its effects is invalid', () => {
+    const notAnEffect = { ...pulsePlugin('other'), effect: class {} as any };
+    expect(() => effectRegistry.registerModule({ first: pulsePlugin(), second: pulsePlugin('bad name') })).toThrow('Invalid effect name');
+    expect(() => effectRegistry.registerModule({ first: pulsePlugin(), second: notAnEffect })).toThrow('VisualEffect');
+    expect(() => effectRegistry.registerModule({ plugins: [pulsePlugin(), pulsePlugin()] })).toThrow('more than one effect named "pulse"');
+    expect(effectRegistry.has('pulse')).toBe(false);
+  });
+
+  it('should only call factories exported as the module\'s plugins', () => {
+    const helper = jest.fn();
+    const plugin = pulsePlugin();
+    const plugins = effectRegistry.registerModule({ helper, plugins: () => [plugin], default: plugin });
+    expect(helper).not.toHaveBeenCalled();
+    expect(plugins.map(registered => registered.metadata.name)).toEqual(['pulse']);
+  });
+
+  it('should keep plugin effects in projects while they are registered', () => {
+    expect(normalizeProject({ currentEffect: 'pulse' }).currentEffect).toBe('waveform');
+    effectRegistry.register(pulsePlugin());
+    expect(normalizeProject({ currentEffect: 'pulse' }).currentEffect).toBe('pulse');
+  });
+});
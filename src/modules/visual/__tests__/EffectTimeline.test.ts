@@ -0,0 +1,157 @@
+import {
+  EffectClip,
+  createEffectClip,
+  createEffectSequence,
+  isValidEffectClip,
+  resolveEffectClips
+} from '../EffectTimeline';
+import { TransitionEngine } from '../TransitionEngine';
+
+describe('EffectTimeline', () => {
+  const fade = TransitionEngine.createFadeTransition(1000);
+  let clips: EffectClip[];
+
+  beforeEach(() => {
+    clips = [
+      { id: 'a', effectName: 'particles', startTime: 2000, endTime: 6000 },
+      { id: 'b', effectName: 'gradient', startTime: 6000, endTime: 10000, transition: fade },
+      { id: 'c', effectName: '3d', startTime: 8000, endTime: 12000, transition: { ...fade, duration: 2000 } }
+    ];
+  });
+
+  it('should fall back to the base effect outside clips', () => {
+    expect(resolveEffectClips(clips, 1000)).toEqual({ current: null, outgoing: null, transition: null, progress: 1 });
+    expect(resolveEffectClips(clips, 12000).current).toBeNull();
+  });
+
+  it('should cut into clips without a transition', () => {
+    const frame = resolveEffectClips(clips, 2000);
+    expect(frame.current?.id).toBe('a');
+    expect(frame.transition).toBeNull();
+  });
+
+  it('should transition from the clip that ends where the next one starts', () => {
+    const frame = resolveEffectClips(clips, 6250);
+    expect(frame.current?.id).toBe('b');
+    expect(frame.outgoing?.id).toBe('a');
+    expect(frame.transition).toBe(fade);
+    expect(frame.progress).toBeCloseTo(0.25);
+
+    expect(resolveEffectClips(clips, 7000).transition).toBeNull();
+  });
+
+  it('should transition across overlapping clips with the later clip on top', () => {
+    const frame = resolveEffectClips(clips, 9000);
+    expect(frame.current?.id).toBe('c');
+    expect(frame.outgoing?.id).toBe('b');
+    expect(frame.progress).toBeCloseTo(0.5);
+  });
+
+  it('should transition from the base effect when nothing precedes the clip', () => {
+    clips[0].transition = fade;
+    const frame = resolveEffectClips(clips, 2500);
+    expect(frame.current?.id).toBe('a');
+    expect(frame.outgoing).toBeNull();
+    expect(frame.transition).toBe(fade);
+  });
+
+  it('should fit the transition into short clips', () => {
+    const short = [{ ...clips[1], startTime: 0, endTime: 500 }];
+    expect(resolveEffectClips(short, 250).progress).toBeCloseTo(0.5);
+  });
+
+  it('should validate stored clips', () => {
+    expect(isValidEffectClip(createEffectClip('waveform', 0, 1000))).toBe(true);
+    expect(isValidEffectClip({ id: 'x', effectName: 'waveform', startTime: 1000, endTime: 1000 })).toBe(false);
+    expect(isValidEffectClip({ effectName: 'waveform', startTime: 0, endTime: 1000 })).toBe(false);
+    expect(isValidEffectClip(null)).toBe(false);
+  });
+
+  it('should sequence effects across the song', () => {
+    const sequence = createEffectSequence(['waveform', 'particles'], 25000, 10000, fade);
+
+    expect(sequence.map(clip => [clip.effectName, clip.startTime, clip.endTime])).toEqual([
+      ['waveform', 0, 10000],
+      ['particles', 10000, 20000],
+      ['waveform', 20000, 25000]
+    ]);
+    expect(sequence[0].transition).toBeUndefined();
+    expect(sequence[1].transition?.type).toBe('fade');
+    expect(new Set(sequence.map(clip => clip.id)).size).toBe(3);
+  });
+});
+
+describe('TransitionEngine', () => {
+  const createContext = () => ({
+    canvas: {},
+    clearRect: jest.fn(),
+    fillRect: jest.fn(),
+    drawImage: jest.fn(),
+    save: jest.fn(),
+    restore: jest.fn(),
+    beginPath: jest.fn(),
+    rect: jest.fn(),
+    arc: jest.fn(),
+    clip: jest.fn(),
+    translate: jest.fn(),
+    scale: jest.fn(),
+    rotate: jest.fn(),
+    putImageData: jest.fn(),
+    globalAlpha: 1,
+    fillStyle: ''
+  });
+  const analyzer = {
+    getFrequencyBands: () => ({ bass: 0.5, mid: 0.5, treble: 0.5, overall: 0.5 }),
+    detectBeat: () => ({ isBeat: false, intensity: 0 })
+  } as any;
+  const originalCreateElement = document.createElement;
+
+  beforeEach(() => {
+    document.createElement = jest.fn(() => ({ getContext: () => createContext() })) as any;
+  });
+
+  afterEach(() => {
+    document.createElement = originalCreateElement;
+  });
+
+  it('should crossfade with drawImage so the alpha is honoured', () => {
+    const ctx = createContext();
+    const engine = new TransitionEngine(ctx as any, 100, 100, analyzer);
+    const from = {} as HTMLCanvasElement;
+    const to = {} as HTMLCanvasElement;
+    const alphas: number[] = [];
+    ctx.drawImage.mockImplementation(() => alphas.push(ctx.globalAlpha));
+
+    engine.setBackgroundColor('#000000');
+    engine.renderAt(from, to, { ...TransitionEngine.createFadeTransition(), easing: 'linear' }, 0.25);
+
+    expect(ctx.fillRect).toHaveBeenCalledWith(0, 0, 100, 100);
+    expect(ctx.drawImage).toHaveBeenNthCalledWith(1, from, 0, 0);
+    expect(ctx.drawImage).toHaveBeenNthCalledWith(2, to, 0, 0);
+    expect(alphas).toEqual([1, 0.25]);
+    expect(ctx.putImageData).not.toHaveBeenCalled();
+    expect(ctx.globalAlpha).toBe(1);
+  });
+
+  it('should pixelate from the target canvas pixels at reduced preview quality', () => {
+    // A half-resolution preview canvas drawn in output coordinates
+    const ctx = { ...createContext(), canvas: { width: 50, height: 50 } };
+    const engine = new TransitionEngine(ctx as any, 100, 100, analyzer);
+    engine.renderAt({} as HTMLCanvasElement, {} as HTMLCanvasElement, { ...TransitionEngine.createTransition('pixelate'), easing: 'linear' }, 0.5);
+
+    // At the midpoint pixels are 21 output units: the small copy is 100 / 21 units wide,
+    // which is half as many canvas pixels
+    const [, , , sourceWidth, sourceHeight, , , width, height] = ctx.drawImage.mock.calls[ctx.drawImage.mock.calls.length - 1];
+    expect(sourceWidth).toBeCloseTo(100 / 21 / 2);
+    expect(sourceHeight).toBeCloseTo(100 / 21 / 2);
+    expect([width, height]).toEqual([100, 100]);
+  });
+
+  it('should create every transition type', () => {
+    (['fade', 'slide', 'zoom', 'rotation', 'blur', 'pixelate', 'wipe', 'dissolve'] as const).forEach(type => {
+      const transition = TransitionEngine.createTransition(type, 750);
+      expect(transition.type).toBe(type);
+      expect(transition.duration).toBe(750);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import {
+  OUTPUT_RESOLUTIONS,
+  fitResolution,
+  getAspectRatio,
+  isValidResolution,
+  loadSavedOutputResolution
+} from '../OutputResolution';
+import { TextRenderer } from '../TextRenderer';
+
+describe('OutputResolution', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should detect the aspect ratio of preset and scaled sizes', () => {
+    expect(getAspectRatio(OUTPUT_RESOLUTIONS['16:9'])).toBe('16:9');
+    expect(getAspectRatio({ width: 720, height: 1280 })).toBe('9:16');
+    expect(getAspectRatio({ width: 1000, height: 300 })).toBeNull();
+  });
+
+  it('should validate resolutions', () => {
+    expect(isValidResolution({ width: 1080, height: 1350 })).toBe(true);
+    expect(isValidResolution({ width: 0, height: 1080 })).toBe(false);
+    expect(isValidResolution({ width: '1080', height: 1080 })).toBe(false);
+    expect(isValidResolution(null)).toBe(false);
+  });
+
+  it('should fit the preview inside a box keeping the aspect ratio', () => {
+    expect(fitResolution(OUTPUT_RESOLUTIONS['9:16'], 640, 640)).toEqual({ width: 360, height: 640 });
+    expect(fitResolution(OUTPUT_RESOLUTIONS['16:9'], 640, 640)).toEqual({ width: 640, height: 360 });
+  });
+
+  it('should fall back to 9:16 when nothing valid is saved', () => {
+    localStorage.setItem('audioVibe_outputResolution', 'not json');
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(loadSavedOutputResolution()).toEqual(OUTPUT_RESOLUTIONS['9:16']);
+  });
+
+  it('should keep text overlays at the same relative position', () => {
+    const overlay = TextRenderer.createSubtitleOverlay('Subtitle');
+    const [fitted] = TextRenderer.fitOverlays([overlay], OUTPUT_RESOLUTIONS['9:16'], OUTPUT_RESOLUTIONS['16:9']);
+
+    expect(fitted.position.x).toBe(960);
+    expect(fitted.position.y / 1080).toBeCloseTo(overlay.position.y / 1920, 2);
+  });
+});
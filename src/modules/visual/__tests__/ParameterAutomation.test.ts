@@ -0,0 +1,91 @@
+import {
+  AutomationLane,
+  applyAutomation,
+  applyEasing,
+  createAutomationLane,
+  evaluateLane,
+  normalizeAutomationLanes,
+  removeKeyframe,
+  setKeyframe
+} from '../ParameterAutomation';
+// Registers the built-in effects and their parameter definitions
+import '../EffectRegistry';
+
+describe('ParameterAutomation', () => {
+  let lane: AutomationLane;
+
+  beforeEach(() => {
+    lane = createAutomationLane('particles', 'particleCount', [
+      { time: 4000, value: 300, easing: 'hold' },
+      { time: 0, value: 100, easing: 'linear' },
+      { time: 2000, value: 200, easing: 'ease-in' },
+      { time: 6000, value: 100 }
+    ]);
+  });
+
+  it('should keep keyframes sorted by time', () => {
+    expect(lane.keyframes.map(keyframe => keyframe.time)).toEqual([0, 2000, 4000, 6000]);
+  });
+
+  it('should interpolate linearly and with easing', () => {
+    expect(evaluateLane(lane, 1000)).toBe(150);
+    // Ease-in covers a quarter of the way at the halfway point
+    expect(evaluateLane(lane, 3000)).toBe(225);
+    expect(applyEasing(0.5, 'ease-out')).toBe(0.75);
+    expect(applyEasing(0.25, 'ease-in-out')).toBe(0.125);
+  });
+
+  it('should hold a value until the next keyframe', () => {
+    expect(evaluateLane(lane, 5999)).toBe(300);
+    expect(evaluateLane(lane, 6000)).toBe(100);
+  });
+
+  it('should hold the first and last values outside the keyframes', () => {
+    expect(evaluateLane(lane, -500)).toBe(100);
+    expect(evaluateLane(lane, 10000)).toBe(100);
+  });
+
+  it('should blend colours and switch other values at the next keyframe', () => {
+    const colour = createAutomationLane('waveform', 'color', [
+      { time: 0, value: '#000000' },
+      { time: 1000, value: '#ffffff' }
+    ]);
+    const toggle = createAutomationLane('3d', 'lighting', [
+      { time: 0, value: true },
+      { time: 1000, value: false }
+    ]);
+
+    expect(evaluateLane(colour, 500)).toBe('#808080');
+    expect(evaluateLane(toggle, 999)).toBe(true);
+    expect(evaluateLane(toggle, 1000)).toBe(false);
+  });
+
+  it('should round to the parameter step when applied', () => {
+    const params = { particleCount: 100, speed: 1 };
+    const result = applyAutomation([lane], 'particles', params, 1003);
+
+    // particleCount steps by 10
+    expect(result).toEqual({ particleCount: 150, speed: 1 });
+    expect(applyAutomation([{ ...lane, enabled: false }], 'particles', params, 1003)).toBe(params);
+    expect(applyAutomation([lane], 'waveform', params, 1003)).toBe(params);
+  });
+
+  it('should replace and remove keyframes', () => {
+    const replaced = setKeyframe(lane, { time: 2000, value: 250 });
+    expect(replaced.keyframes).toHaveLength(4);
+    expect(evaluateLane(replaced, 2000)).toBe(250);
+
+    expect(removeKeyframe(lane, 0).keyframes[0].time).toBe(2000);
+  });
+
+  it('should drop invalid lanes when normalising', () => {
+    const lanes = normalizeAutomationLanes([
+      lane,
+      { id: 'x', effectName: 'waveform', parameter: 'intensity', keyframes: [{ time: 'soon', value: 1 }] },
+      { id: 'y', effectName: 'waveform', parameter: 'intensity', keyframes: [{ time: 10, value: 1, easing: 'bounce' }] }
+    ]);
+
+    expect(lanes.map(l => l.id)).toEqual([lane.id, 'y']);
+    expect(lanes[1].keyframes[0].easing).toBe('linear');
+  });
+});
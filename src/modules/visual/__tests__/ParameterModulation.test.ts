@@ -0,0 +1,100 @@
+import {
+  ModulationBinding,
+  ParameterModulator,
+  applyCurve,
+  createModulationBinding,
+  mixColors,
+  modulateValue,
+  normalizeModulations
+} from '../ParameterModulation';
+import { effectParameterManager } from '../EffectParameters';
+// Registers the built-in effects and their parameter definitions
+import '../EffectRegistry';
+
+// Analyzer stand-in whose readings the tests set directly
+const createAnalyzer = () => {
+  const state = { bass: 0, beat: false, beatPhase: 0 };
+  const analyzer = {
+    getBandValue: jest.fn((source: string) => (source === 'bass' ? state.bass : 0)),
+    detectBeat: jest.fn(() => ({ isBeat: state.beat, intensity: state.bass })),
+    detectOnset: jest.fn(() => state.beat),
+    getBeatPosition: jest.fn(() => ({ beatPhase: state.beatPhase, barPhase: state.beatPhase / 4 })),
+    getFeatures: jest.fn(() => null),
+    getAverageVolume: jest.fn(() => state.bass)
+  };
+  return { analyzer: analyzer as any, state };
+};
+
+const intensity = effectParameterManager.getParameterDefinitions('waveform').find(def => def.name === 'intensity')!;
+const color = effectParameterManager.getParameterDefinitions('waveform').find(def => def.name === 'color')!;
+
+describe('ParameterModulation', () => {
+  it('should shape signals with curves', () => {
+    expect(applyCurve(0.5, 'linear')).toBe(0.5);
+    expect(applyCurve(0.5, 'exponential')).toBe(0.25);
+    expect(applyCurve(0.25, 'logarithmic')).toBe(0.5);
+    expect(applyCurve(0.5, 'smooth')).toBe(0.5);
+    expect(applyCurve(2, 'linear')).toBe(1);
+  });
+
+  it('should offset numbers within the binding range', () => {
+    const binding = { ...createModulationBinding('waveform', intensity), amount: 0.5, min: 20, max: 80 };
+
+    expect(modulateValue(30, binding, 0, intensity)).toBe(30);
+    expect(modulateValue(30, binding, 0.5, intensity)).toBe(45);
+    expect(modulateValue(70, binding, 1, intensity)).toBe(80);
+    expect(modulateValue(30, { ...binding, amount: -1 }, 1, intensity)).toBe(20);
+  });
+
+  it('should blend colors toward the target', () => {
+    const binding = { ...createModulationBinding('waveform', color), color: '#ffffff', amount: 1 };
+
+    expect(mixColors('#000000', '#ffffff', 0.5)).toBe('#808080');
+    expect(modulateValue('#000000', binding, 1, color)).toBe('#ffffff');
+    expect(modulateValue('#000000', binding, 0, color)).toBe('#000000');
+  });
+
+  it('should follow the signal with attack and release', () => {
+    const { analyzer, state } = createAnalyzer();
+    const modulator = new ParameterModulator();
+    const binding: ModulationBinding = { ...createModulationBinding('waveform', intensity), attack: 0, release: 100 };
+
+    state.bass = 1;
+    modulator.update([binding], analyzer, 0);
+    expect(modulator.getLevel(binding)).toBe(1);
+
+    // One time constant of release leaves about 37%
+    state.bass = 0;
+    for (let frame = 1; frame <= 6; frame++) {
+      modulator.update([binding], analyzer, frame / 60);
+    }
+    expect(modulator.getLevel(binding)).toBeCloseTo(Math.exp(-1), 2);
+  });
+
+  it('should apply bindings to the effect they target', () => {
+    const { analyzer, state } = createAnalyzer();
+    const modulator = new ParameterModulator();
+    const binding: ModulationBinding = { ...createModulationBinding('waveform', intensity, 'beat'), amount: 0.25, attack: 0 };
+    const params = { intensity: 50, color: '#00ffff' };
+
+    state.beat = true;
+    modulator.update([binding, { ...binding, id: 'off', enabled: false, amount: 1 }], analyzer, 0);
+
+    expect(modulator.apply('waveform', params)).toEqual({ intensity: 75, color: '#00ffff' });
+    expect(modulator.apply('particles', params)).toBe(params);
+    expect(params.intensity).toBe(50);
+  });
+
+  it('should drop invalid bindings when normalising', () => {
+    const bindings = normalizeModulations([
+      { effectName: 'waveform', parameter: 'intensity', source: 'rms', amount: 3, curve: 'bogus' },
+      { effectName: 'waveform' },
+      null
+    ]);
+
+    expect(bindings).toHaveLength(1);
+    expect(bindings[0].amount).toBe(1);
+    expect(bindings[0].curve).toBe('linear');
+    expect(bindings[0].enabled).toBe(true);
+  });
+});
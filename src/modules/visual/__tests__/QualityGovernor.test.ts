@@ -0,0 +1,160 @@
+import { QualityGovernor, QualityLevel } from '../QualityGovernor';
+import { VisualEngine } from '../VisualEngine';
+import { VisualEffect } from '../VisualEffect';
+import { effectParameterManager } from '../EffectParameters';
+// Registers the built-in effects and their parameter definitions
+import '../EffectRegistry';
+
+jest.mock('../../audio/AudioContext', () => {
+  const mockInstance = {
+    getFrequencyData: () => new Uint8Array(1024).fill(100),
+    getTimeDomainData: () => new Uint8Array(1024).fill(128)
+  };
+  return {
+    ...jest.requireActual('../../audio/AudioContext'),
+    AudioContextManager: {
+      getInstance: () => mockInstance
+    }
+  };
+});
+
+// 2D context stub where every drawing call is a no-op
+const createMockCanvas = () => {
+  const ctx = new Proxy({} as Record<string | symbol, any>, {
+    get: (obj, key) => {
+      if (!(key in obj)) obj[key] = jest.fn();
+      return obj[key];
+    },
+    set: (obj, key, value) => {
+      obj[key] = value;
+      return true;
+    }
+  });
+  return { width: 1080, height: 1920, style: {}, parentElement: null, getContext: jest.fn(() => ctx), ctx } as any;
+};
+
+describe('QualityGovernor', () => {
+  let clock = 0;
+
+  beforeEach(() => {
+    clock = 0;
+    jest.spyOn(performance, 'now').mockImplementation(() => clock);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Frames `frameTime` ms apart that each took `renderTime` ms to draw
+  const runFrames = (governor: QualityGovernor, count: number, frameTime: number, renderTime: number) => {
+    for (let i = 0; i < count; i++) {
+      clock += frameTime;
+      governor.recordFrame(renderTime);
+    }
+  };
+
+  it('should step down while the preview is too slow and stop at the lowest tier', () => {
+    const changes: string[] = [];
+    const governor = new QualityGovernor(level => changes.push(level.tier), { targetFrameRate: 30, initialTier: 'high' });
+    governor.start();
+
+    runFrames(governor, 60, 50, 40);
+    expect(governor.getLevel().tier).toBe('medium');
+
+    runFrames(governor, 60 * 4, 50, 40);
+    expect(changes).toEqual(['medium', 'low', 'minimal']);
+    expect(governor.getLevel().tier).toBe('minimal');
+  });
+
+  it('should ignore a short dip and recover when there is headroom', () => {
+    const governor = new QualityGovernor(() => {}, { targetFrameRate: 30, initialTier: 'low' });
+    governor.start();
+
+    runFrames(governor, 30, 50, 40);
+    runFrames(governor, 30, 16, 4);
+    expect(governor.getLevel().tier).toBe('low');
+
+    runFrames(governor, 30 * 4, 16, 4);
+    expect(governor.getLevel().tier).toBe('medium');
+  });
+
+  it('should not measure frames before it is started', () => {
+    const governor = new QualityGovernor(() => {}, { targetFrameRate: 30, initialTier: 'high' });
+    runFrames(governor, 120, 100, 90);
+    expect(governor.getLevel().tier).toBe('high');
+  });
+});
+
+describe('VisualEngine adaptive quality', () => {
+  const originalCreateElement = document.createElement;
+
+  beforeEach(() => {
+    document.createElement = jest.fn((tagName: string) => {
+      if (tagName === 'canvas') return createMockCanvas();
+      return originalCreateElement.call(document, tagName);
+    }) as any;
+  });
+
+  afterEach(() => {
+    document.createElement = originalCreateElement;
+    jest.restoreAllMocks();
+  });
+
+  it('should render at full quality unless adaptive quality is on', () => {
+    const canvas = createMockCanvas();
+    const engine = new VisualEngine(canvas, { persistSettings: false, parameterManager: effectParameterManager.createScope() });
+    expect(engine.isAdaptiveQuality()).toBe(false);
+    expect(engine.getQuality().tier).toBe('high');
+
+    const levels: QualityLevel[] = [];
+    engine.addQualityListener(level => levels.push(level));
+    engine.setAdaptiveQuality(true, { targetFrameRate: 30, initialTier: 'low' });
+
+    // Fewer canvas pixels, drawn in output coordinates
+    expect(levels.map(level => level.tier)).toEqual(['low']);
+    expect([canvas.width, canvas.height]).toEqual([540, 960]);
+    expect(canvas.ctx.setTransform).toHaveBeenLastCalledWith(0.5, 0, 0, 0.5, 0, 0);
+    expect(engine.getOutputResolution()).toEqual({ width: 1080, height: 1920 });
+
+    // Turning it off, as exports do, restores full quality
+    engine.setAdaptiveQuality(false);
+    expect(engine.getQuality().tier).toBe('high');
+    expect([canvas.width, canvas.height]).toEqual([1080, 1920]);
+    expect(canvas.ctx.setTransform).toHaveBeenLastCalledWith(1, 0, 0, 1, 0, 0);
+    engine.dispose();
+  });
+
+  it('should reduce particle counts and glow at lower tiers', () => {
+    const parameters = effectParameterManager.createScope();
+    parameters.setParameters('particles', { ...parameters.getParameters('particles'), particleCount: 500 });
+    const engine = new VisualEngine(createMockCanvas(), { persistSettings: false, parameterManager: parameters });
+    engine.setAdaptiveQuality(true, { targetFrameRate: 30, initialTier: 'minimal' });
+    engine.setEffect('particles');
+
+    const effect = engine.getCurrentEffect() as any;
+    for (let frame = 0; frame < 60; frame++) {
+      engine.renderFrame(frame / 30);
+    }
+    expect(effect.particles.length).toBeLessThanOrEqual(100);
+    expect(effect.quality.glow).toBe(false);
+    engine.dispose();
+  });
+
+  it('should drop layers from the top of the stack', () => {
+    const engine = new VisualEngine(createMockCanvas(), { persistSettings: false, parameterManager: effectParameterManager.createScope() });
+    engine.setEffect('3d');
+    engine.setCompositionMode('layered');
+    engine.addLayer('particles');
+    engine.addLayer('3d');
+    const render = jest.spyOn(VisualEffect.prototype, 'renderFrame');
+
+    engine.renderFrame(1);
+    expect(render).toHaveBeenCalledTimes(3);
+
+    render.mockClear();
+    engine.setAdaptiveQuality(true, { targetFrameRate: 30, initialTier: 'minimal' });
+    engine.renderFrame(1.1);
+    expect(render).toHaveBeenCalledTimes(1);
+    engine.dispose();
+  });
+});
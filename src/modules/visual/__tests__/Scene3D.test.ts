@@ -0,0 +1,108 @@
+import { Camera, MESH_TYPES, createMesh, createSceneObject, faceNormal, normalize, projectScene } from '../Scene3D';
+import { VisualEngine } from '../VisualEngine';
+import { Point3D } from '../../../types/visual';
+// Registers the built-in effects and their parameter definitions
+import '../EffectRegistry';
+
+jest.mock('../../audio/AudioContext', () => {
+  const mockInstance = {
+    getFrequencyData: () => new Uint8Array(1024).fill(100),
+    getTimeDomainData: () => new Uint8Array(1024).fill(128)
+  };
+  return {
+    ...jest.requireActual('../../audio/AudioContext'),
+    AudioContextManager: {
+      getInstance: () => mockInstance
+    }
+  };
+});
+
+const camera: Camera = { position: { x: 0, y: 0, z: 800 }, target: { x: 0, y: 0, z: 0 }, fov: 60 };
+const brightness = (color: string) => color.match(/\d+/g)!.reduce((sum, channel) => sum + Number(channel), 0);
+
+describe('Scene3D', () => {
+  it('should build closed meshes with every face turned outwards', () => {
+    const cube = createMesh('cube');
+    expect(cube.vertices).toHaveLength(8);
+    expect(cube.faces).toHaveLength(6);
+
+    MESH_TYPES.forEach(type => {
+      const mesh = createMesh(type);
+      mesh.faces.forEach(face => {
+        const points = face.map(index => mesh.vertices[index]);
+        const center = points.reduce((sum, p) => ({ x: sum.x + p.x / points.length, y: sum.y + p.y / points.length, z: sum.z + p.z / points.length }), { x: 0, y: 0, z: 0 });
+        // The torus tube's outside is away from the ring through its middle
+        const ring = normalize({ x: center.x, y: 0, z: center.z });
+        const reference: Point3D = type === 'torus' ? { x: ring.x * 0.35, y: 0, z: ring.z * 0.35 }
+          : type === 'pyramid' ? { x: 0, y: -0.25, z: 0 } : { x: 0, y: 0, z: 0 };
+        const normal = faceNormal(points);
+        const outwards = normal.x * (center.x - reference.x) + normal.y * (center.y - reference.y) + normal.z * (center.z - reference.z);
+        expect(outwards).toBeGreaterThan(0);
+      });
+    });
+  });
+
+  it('should cull faces turned away from the camera', () => {
+    const faces = projectScene([createSceneObject('cube', { x: 0, y: 0, z: 0 }, 100, '#ffffff')], camera, null, 1080, 1920);
+    expect(faces).toHaveLength(1);
+    expect(faces[0].points).toHaveLength(4);
+
+    const turned = createSceneObject('cube', { x: 0, y: 0, z: 0 }, 100, '#ffffff');
+    turned.rotation = { x: 0.4, y: 0.7, z: 0.2 };
+    const visible = projectScene([turned], camera, null, 1080, 1920);
+    expect(visible.length).toBeGreaterThan(1);
+    expect(visible.length).toBeLessThanOrEqual(3);
+  });
+
+  it('should draw faces from far to near', () => {
+    const near = createSceneObject('sphere', { x: 20, y: 0, z: 200 }, 100, '#ff0000');
+    const far = createSceneObject('sphere', { x: 0, y: 0, z: -300 }, 100, '#0000ff');
+    const faces = projectScene([near, far], camera, null, 1080, 1920);
+
+    faces.slice(1).forEach((face, i) => expect(face.depth).toBeLessThanOrEqual(faces[i].depth));
+    expect(faces[0].color).toBe('rgb(0, 0, 255)');
+    expect(faces[faces.length - 1].color).toBe('rgb(255, 0, 0)');
+  });
+
+  it('should drop objects behind the camera', () => {
+    const behind = createSceneObject('cube', { x: 0, y: 0, z: 1200 }, 100, '#ffffff');
+    expect(projectScene([behind], camera, null, 1080, 1920)).toEqual([]);
+  });
+
+  it('should light faces that face the lights', () => {
+    const cube = createSceneObject('cube', { x: 0, y: 0, z: 0 }, 100, '#808080');
+    const shade = (direction: Point3D, pointIntensity = 0) => projectScene([cube], camera, {
+      ambient: 0.2,
+      directional: [{ direction, color: '#ffffff', intensity: 1 }],
+      points: [{ position: { x: 0, y: 0, z: 300 }, color: '#ffffff', intensity: pointIntensity, range: 400 }]
+    }, 1080, 1920)[0].color;
+
+    const lit = shade({ x: 0, y: 0, z: -1 });
+    const away = shade({ x: 0, y: 0, z: 1 });
+    expect(brightness(lit)).toBeGreaterThan(brightness(away));
+    expect(away).toBe('rgb(26, 26, 26)');
+    expect(brightness(shade({ x: 0, y: 0, z: 1 }, 1))).toBeGreaterThan(brightness(away));
+  });
+
+  it('should render the 3D effect as shaded polygons', () => {
+    const ctx = new Proxy({} as Record<string | symbol, any>, {
+      get: (obj, key) => {
+        if (!(key in obj)) obj[key] = jest.fn();
+        return obj[key];
+      },
+      set: (obj, key, value) => {
+        obj[key] = value;
+        return true;
+      }
+    });
+    const canvas = { width: 1080, height: 1920, style: {}, parentElement: null, getContext: jest.fn(() => ctx) } as any;
+    const engine = new VisualEngine(canvas, { persistSettings: false });
+    engine.setEffect('3d');
+
+    engine.renderFrame(0);
+    engine.renderFrame(0.05);
+    expect(ctx.fill).toHaveBeenCalled();
+    expect(ctx.closePath).toHaveBeenCalled();
+    engine.dispose();
+  });
+});
@@ -0,0 +1,204 @@
+import { VisualEngine } from '../VisualEngine';
+import { effectParameterManager } from '../EffectParameters';
+import { createProject } from '../../project/Project';
+import { BufferAudioSource } from '../../audio/BufferAudioSource';
+// Registers the built-in effects and their parameter definitions
+import '../EffectRegistry';
+
+// A 4 second tone that swells and fades, so every frame hears something different
+const createTrack = (duration = 4, sampleRate = 8000): AudioBuffer => {
+  const length = duration * sampleRate;
+  const data = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    data[i] = Math.abs(Math.sin(Math.PI * t)) * Math.sin(2 * Math.PI * 220 * t);
+  }
+  return { sampleRate, length, duration, numberOfChannels: 1, getChannelData: () => data } as unknown as AudioBuffer;
+};
+
+const track = createTrack();
+let mockBuffer: AudioBuffer | null = track;
+
+jest.mock('../../audio/AudioContext', () => {
+  const mockInstance = {
+    getFrequencyData: () => new Uint8Array(1024).fill(200),
+    getTimeDomainData: () => new Uint8Array(1024).fill(128),
+    getMixSettings: () => ({ volume: 1, muted: false, playbackRate: 1 }),
+    getPlaybackRate: () => 1,
+    getBuffer: () => mockBuffer
+  };
+  return {
+    ...jest.requireActual('../../audio/AudioContext'),
+    AudioContextManager: {
+      getInstance: () => mockInstance
+    }
+  };
+});
+
+// 2D context stub that counts drawing calls
+const createCountingCanvas = () => {
+  const canvas = { width: 1080, height: 1920, style: {}, parentElement: null, draws: 0 } as any;
+  const target: Record<string | symbol, any> = {
+    createLinearGradient: () => ({ addColorStop: () => {} }),
+    createRadialGradient: () => ({ addColorStop: () => {} }),
+    measureText: () => ({ width: 10 })
+  };
+  const ctx = new Proxy(target, {
+    get: (obj, key) => {
+      if (!(key in obj)) obj[key] = () => { canvas.draws++; };
+      return obj[key];
+    }
+  });
+  canvas.getContext = () => ctx;
+  return canvas;
+};
+
+describe('Scrub preview', () => {
+  const originalCreateElement = document.createElement;
+  let frameCallback: FrameRequestCallback | null;
+
+  beforeEach(() => {
+    mockBuffer = track;
+    frameCallback = null;
+    document.createElement = jest.fn((tagName: string) => {
+      if (tagName === 'canvas') return createCountingCanvas();
+      return originalCreateElement.call(document, tagName);
+    }) as any;
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation(callback => {
+      frameCallback = callback;
+      return 1;
+    });
+    jest.spyOn(window, 'cancelAnimationFrame').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    document.createElement = originalCreateElement;
+    jest.restoreAllMocks();
+  });
+
+  const createEngine = (canvas = createCountingCanvas()) => {
+    const engine = new VisualEngine(canvas, { persistSettings: false, parameterManager: effectParameterManager.createScope() });
+    engine.loadProject(createProject({ currentEffect: 'particles' }));
+    return engine;
+  };
+
+  // The particles after an offline export has rendered up to `time`, starting `from`
+  // seconds into the song
+  const exportedParticles = (time: number, from = 0) => {
+    const engine = createEngine();
+    const fps = engine.getExportSettings().fps;
+    const source = new BufferAudioSource(track);
+    engine.setAudioSource(source, () => source.getCurrentTime());
+    for (let i = Math.round(from * fps); i <= Math.floor(time * fps); i++) {
+      source.setTime(i / fps);
+      engine.renderFrame(i / fps);
+    }
+    const particles = (engine.getCurrentEffect() as any).particles;
+    engine.dispose();
+    return particles;
+  };
+
+  const nextFrame = () => frameCallback?.(performance.now());
+  // Runs display frames until the paused preview has caught up
+  const settle = () => {
+    for (let i = 0; i < 200; i++) nextFrame();
+  };
+  const shownParticles = (engine: VisualEngine) => (engine as any).scrub.engine.getCurrentEffect().particles;
+
+  it('should show the frame an export draws at the paused playhead', () => {
+    let playhead = 1.5;
+    const canvas = createCountingCanvas();
+    const engine = createEngine(canvas);
+    engine.setMediaClock(() => playhead);
+    engine.start();
+    settle();
+    expect(shownParticles(engine)).toEqual(exportedParticles(1.5));
+
+    // Scrubbing back starts the render over, forward carries on from the shown frame
+    playhead = 0.5;
+    settle();
+    expect(shownParticles(engine)).toEqual(exportedParticles(0.5));
+    playhead = 1;
+    settle();
+    expect(shownParticles(engine)).toEqual(exportedParticles(1));
+    engine.dispose();
+  });
+
+  it('should render only a few seconds before a playhead far into the song', () => {
+    const canvas = createCountingCanvas();
+    const engine = createEngine(canvas);
+    engine.setMediaClock(() => 3.5);
+    const render = jest.spyOn(VisualEngine.prototype, 'renderFrame');
+    engine.start();
+    settle();
+
+    const fps = engine.getExportSettings().fps;
+    expect(render.mock.calls.length).toBeLessThanOrEqual(2 * fps + 2);
+    expect(shownParticles(engine)).toEqual(exportedParticles(3.5, 1.5));
+    engine.dispose();
+  });
+
+  it('should draw the playhead at once and catch up a little per display frame', () => {
+    const canvas = createCountingCanvas();
+    const engine = createEngine(canvas);
+    engine.setMediaClock(() => 1);
+    // Every frame takes longer than the budget, so one is rendered per display frame
+    let now = 0;
+    jest.spyOn(performance, 'now').mockImplementation(() => (now += 10));
+    canvas.draws = 0;
+    engine.start();
+    expect(canvas.draws).toBeGreaterThan(0);
+
+    const fps = engine.getExportSettings().fps;
+    canvas.draws = 0;
+    for (let i = 0; i < fps - 2; i++) nextFrame();
+    expect(canvas.draws).toBe(0);
+    settle();
+    expect(canvas.draws).toBeGreaterThan(0);
+    expect(shownParticles(engine)).toEqual(exportedParticles(1));
+    engine.dispose();
+  });
+
+  it('should redraw only when the playhead or the project changes', () => {
+    const canvas = createCountingCanvas();
+    let playhead = 1;
+    const engine = createEngine(canvas);
+    engine.setMediaClock(() => playhead);
+    engine.start();
+    settle();
+
+    canvas.draws = 0;
+    nextFrame();
+    expect(canvas.draws).toBe(0);
+
+    engine.setBackgroundColor('#202020');
+    nextFrame();
+    expect(canvas.draws).toBeGreaterThan(0);
+
+    settle();
+    canvas.draws = 0;
+    engine.getParameterManager().setParameter('particles', 'particleCount', 50);
+    nextFrame();
+    expect(canvas.draws).toBeGreaterThan(0);
+
+    canvas.draws = 0;
+    playhead = 2;
+    settle();
+    expect(canvas.draws).toBeGreaterThan(0);
+    engine.dispose();
+  });
+
+  it('should keep drawing a static frame when no track is loaded', () => {
+    mockBuffer = null;
+    const canvas = createCountingCanvas();
+    const engine = createEngine(canvas);
+    engine.setMediaClock(() => 1);
+    engine.start();
+
+    canvas.draws = 0;
+    nextFrame();
+    expect(canvas.draws).toBeGreaterThan(0);
+    expect((engine.getCurrentEffect() as any).particles).toEqual([]);
+    engine.dispose();
+  });
+});
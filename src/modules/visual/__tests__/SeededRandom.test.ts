@@ -0,0 +1,104 @@
+import { createRandom, deriveSeed } from '../SeededRandom';
+import { VisualEngine } from '../VisualEngine';
+import { effectParameterManager } from '../EffectParameters';
+import { createProject } from '../../project/Project';
+// Registers the built-in effects and their parameter definitions
+import '../EffectRegistry';
+
+jest.mock('../../audio/AudioContext', () => {
+  const mockInstance = {
+    getFrequencyData: () => new Uint8Array(1024).fill(200),
+    getTimeDomainData: () => new Uint8Array(1024).fill(128),
+    getMixSettings: () => ({ volume: 1, muted: false, playbackRate: 1 })
+  };
+  return {
+    ...jest.requireActual('../../audio/AudioContext'),
+    AudioContextManager: {
+      getInstance: () => mockInstance
+    }
+  };
+});
+
+// 2D context stub where every drawing call is a no-op
+const createMockCanvas = () => {
+  const ctx = new Proxy({} as Record<string | symbol, any>, {
+    get: (obj, key) => {
+      if (!(key in obj)) obj[key] = jest.fn();
+      return obj[key];
+    },
+    set: (obj, key, value) => {
+      obj[key] = value;
+      return true;
+    }
+  });
+  return { width: 1080, height: 1920, style: {}, parentElement: null, getContext: jest.fn(() => ctx) } as any;
+};
+
+describe('SeededRandom', () => {
+  it('should repeat a sequence for a seed and differ between seeds', () => {
+    const take = (random: () => number) => Array.from({ length: 5 }, random);
+    const first = take(createRandom(42));
+
+    expect(take(createRandom(42))).toEqual(first);
+    expect(take(createRandom(43))).not.toEqual(first);
+    first.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('should give each effect instance its own stream', () => {
+    expect(deriveSeed(7, 'layer-a')).toBe(deriveSeed(7, 'layer-a'));
+    expect(deriveSeed(7, 'layer-a')).not.toBe(deriveSeed(7, 'layer-b'));
+    expect(deriveSeed(7, 'layer-a')).not.toBe(deriveSeed(8, 'layer-a'));
+  });
+});
+
+describe('VisualEngine seed', () => {
+  const originalCreateElement = document.createElement;
+
+  beforeEach(() => {
+    document.createElement = jest.fn((tagName: string) => {
+      if (tagName === 'canvas') return createMockCanvas();
+      return originalCreateElement.call(document, tagName);
+    }) as any;
+  });
+
+  afterEach(() => {
+    document.createElement = originalCreateElement;
+  });
+
+  // Particle positions after rendering a project for half a second at 30 fps
+  const renderParticles = (seed: number) => {
+    const engine = new VisualEngine(createMockCanvas(), { persistSettings: false, parameterManager: effectParameterManager.createScope() });
+    engine.loadProject(createProject({ currentEffect: 'particles', seed }));
+    for (let frame = 0; frame < 15; frame++) {
+      engine.renderFrame(frame / 30);
+    }
+    const particles = (engine.getCurrentEffect() as any).particles.map((p: { x: number; y: number }) => [p.x, p.y]);
+    engine.dispose();
+    return particles;
+  };
+
+  it('should render a project the same way every time', () => {
+    const first = renderParticles(1234);
+    expect(first.length).toBeGreaterThan(0);
+    expect(renderParticles(1234)).toEqual(first);
+    expect(renderParticles(5678)).not.toEqual(first);
+  });
+
+  it('should save the seed with the project and restart effects on a reroll', () => {
+    const engine = new VisualEngine(createMockCanvas(), { persistSettings: false, parameterManager: effectParameterManager.createScope() });
+    engine.setEffect('particles');
+    const effect = engine.getCurrentEffect();
+
+    engine.setSeed(99);
+    expect(engine.serializeProject().seed).toBe(99);
+    expect(engine.getCurrentEffect()).not.toBe(effect);
+
+    const seed = engine.rerollSeed();
+    expect(engine.getSeed()).toBe(seed);
+    expect(() => engine.setSeed(-1)).toThrow('Invalid seed');
+    engine.dispose();
+  });
+});
@@ -0,0 +1,157 @@
+import { VisualEngine } from '../VisualEngine';
+import { ShaderEffect } from '../ShaderEffect';
+import { buildFragmentShader, parameterUniforms } from '../ShaderRenderer';
+import { ParameterDefinition, bandInput } from '../EffectParameters';
+
+jest.mock('../../audio/AudioContext', () => {
+  const mockInstance = {
+    getFrequencyData: () => new Uint8Array(1024).fill(100),
+    getTimeDomainData: () => new Uint8Array(1024).fill(128)
+  };
+  return {
+    ...jest.requireActual('../../audio/AudioContext'),
+    AudioContextManager: {
+      getInstance: () => mockInstance
+    }
+  };
+});
+
+// Records every call; unknown members are no-op mocks
+const createRecorder = (members: Record<string, any> = {}) => new Proxy(members, {
+  get: (obj, key) => {
+    if (!(key in obj)) obj[key as string] = jest.fn();
+    return obj[key as string];
+  },
+  set: (obj, key, value) => {
+    obj[key as string] = value;
+    return true;
+  }
+});
+
+// WebGL2 stand-in: shaders compile when `compiles` is true, uniform locations are their names
+const createMockGL = (compiles = true) => createRecorder({
+  VERTEX_SHADER: 1,
+  FRAGMENT_SHADER: 2,
+  createShader: jest.fn(() => ({})),
+  createProgram: jest.fn(() => ({})),
+  createTexture: jest.fn(() => ({})),
+  getShaderParameter: jest.fn(() => compiles),
+  getShaderInfoLog: jest.fn(() => "ERROR: 0:3: 'u_missing' : undeclared identifier"),
+  getProgramParameter: jest.fn(() => true),
+  getUniformLocation: jest.fn((_program: unknown, name: string) => ({ name })),
+  getExtension: jest.fn(() => null)
+});
+
+const createMockCanvas = (gl: any = null) => {
+  const ctx = createRecorder();
+  return {
+    width: 1080,
+    height: 1920,
+    style: {},
+    parentElement: null,
+    addEventListener: jest.fn(),
+    removeEventListener: jest.fn(),
+    getContext: jest.fn((type: string) => (type === '2d' ? ctx : type === 'webgl2' ? gl : null)),
+    ctx
+  } as any;
+};
+
+const parameters: ParameterDefinition[] = [
+  { name: 'speed', type: 'number', min: 0, max: 5, defaultValue: 1 },
+  { name: 'tint', type: 'color', defaultValue: '#ff8000' },
+  { name: 'mirror', type: 'boolean', defaultValue: false },
+  { name: 'mode', type: 'select', options: ['soft', 'hard'], defaultValue: 'soft' },
+  bandInput('bass', 'speed')
+];
+
+describe('ShaderEffect', () => {
+  const originalCreateElement = document.createElement;
+  let gl: any;
+
+  beforeEach(() => {
+    gl = null;
+    document.createElement = jest.fn((tagName: string) => {
+      if (tagName === 'canvas') return createMockCanvas(gl);
+      return originalCreateElement.call(document, tagName);
+    }) as any;
+  });
+
+  afterEach(() => {
+    document.createElement = originalCreateElement;
+    jest.restoreAllMocks();
+  });
+
+  it('should declare the standard and parameter uniforms before the shader source', () => {
+    const source = buildFragmentShader('void main() { fragColor = vec4(u_tint, 1.0); }', parameters);
+    const lines = source.split('\n');
+
+    expect(lines[0]).toBe('#version 300 es');
+    expect(source).toContain('uniform sampler2D u_fft;');
+    expect(source).toContain('uniform float u_beat;');
+    expect(source).toContain('uniform float u_speed;');
+    expect(source).toContain('uniform vec3 u_tint;');
+    expect(source).not.toContain('u_bassBand');
+    expect(lines.slice(-2)).toEqual(['#line 1', 'void main() { fragColor = vec4(u_tint, 1.0); }']);
+  });
+
+  it('should convert parameter values to uniform values', () => {
+    expect(parameterUniforms(parameters, { speed: 2.5, tint: '#ff0000', mirror: true, mode: 'hard' })).toEqual({
+      u_speed: 2.5,
+      u_tint: [1, 0, 0],
+      u_mirror: 1,
+      u_mode: 1
+    });
+    expect(parameterUniforms(parameters, {}).u_tint).toEqual([1, 128 / 255, 0]);
+  });
+
+  it('should render shader effects on the GPU and copy them onto the canvas', () => {
+    gl = createMockGL();
+    const canvas = createMockCanvas();
+    const engine = new VisualEngine(canvas, { persistSettings: false });
+    engine.setEffect('tunnel');
+
+    const effect = engine.getCurrentEffect() as ShaderEffect;
+    expect(effect).toBeInstanceOf(ShaderEffect);
+    expect(effect.isUsingWebGL()).toBe(true);
+    const fragmentSource = gl.shaderSource.mock.calls[1][1];
+    expect(fragmentSource).toContain('uniform vec3 u_color1;');
+    expect(fragmentSource).toContain('texture(u_fft');
+
+    engine.renderFrame(2);
+    expect(gl.drawArrays).toHaveBeenCalledWith(gl.TRIANGLES, 0, 3);
+    expect(gl.uniform1f).toHaveBeenCalledWith({ name: 'u_time' }, 2);
+    expect(gl.uniform1f).toHaveBeenCalledWith({ name: 'u_speed' }, 1);
+    expect(gl.uniform2fv).toHaveBeenCalledWith({ name: 'u_resolution' }, [1080, 1920]);
+    expect(canvas.ctx.drawImage).toHaveBeenCalledWith(expect.objectContaining({ width: 1080, height: 1920 }), 0, 0, 1080, 1920);
+
+    engine.dispose();
+    expect(gl.deleteProgram).toHaveBeenCalled();
+  });
+
+  it('should draw the 2D fallback without WebGL2', () => {
+    const canvas = createMockCanvas();
+    const engine = new VisualEngine(canvas, { persistSettings: false });
+    engine.setEffect('tunnel');
+
+    expect((engine.getCurrentEffect() as ShaderEffect).isUsingWebGL()).toBe(false);
+    engine.renderFrame(1);
+    expect(canvas.ctx.arc).toHaveBeenCalled();
+    expect(canvas.ctx.drawImage).not.toHaveBeenCalled();
+    engine.dispose();
+  });
+
+  it('should fall back when the shader does not compile', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    gl = createMockGL(false);
+    gl.getShaderParameter.mockReturnValueOnce(true); // the shared vertex shader compiles
+    const canvas = createMockCanvas();
+    const engine = new VisualEngine(canvas, { persistSettings: false });
+    engine.setEffect('tunnel');
+
+    expect((engine.getCurrentEffect() as ShaderEffect).isUsingWebGL()).toBe(false);
+    expect(error.mock.calls[0][1].log).toContain('undeclared identifier');
+    engine.renderFrame(1);
+    expect(canvas.ctx.arc).toHaveBeenCalled();
+    engine.dispose();
+  });
+});
@@ -0,0 +1,141 @@
+import { VisualEngine } from '../VisualEngine';
+import { effectParameterManager } from '../EffectParameters';
+import { createProject } from '../../project/Project';
+import { TextOverlay } from '../../../types/visual';
+// Registers the built-in effects and their parameter definitions
+import '../EffectRegistry';
+
+jest.mock('../../audio/AudioContext', () => {
+  const mockInstance = {
+    getFrequencyData: () => new Uint8Array(1024).fill(120),
+    getTimeDomainData: () => new Uint8Array(1024).fill(128),
+    getMixSettings: () => ({ volume: 1, muted: false, playbackRate: 1 })
+  };
+  return {
+    ...jest.requireActual('../../audio/AudioContext'),
+    AudioContextManager: {
+      getInstance: () => mockInstance
+    }
+  };
+});
+
+// 2D context stub that records every drawing call and property write, with numbers
+// rounded so that float noise between frame rates doesn't count
+const createRecordingCanvas = () => {
+  const calls: string[] = [];
+  const record = (entry: unknown[]) => calls.push(JSON.stringify(entry, (_key, value) =>
+    typeof value === 'number' ? Math.round(value * 1000) / 1000 : value));
+  const target: Record<string | symbol, any> = {
+    createLinearGradient: () => ({ addColorStop: () => {} }),
+    createRadialGradient: () => ({ addColorStop: () => {} }),
+    measureText: () => ({ width: 10 })
+  };
+  const ctx = new Proxy(target, {
+    get: (obj, key) => {
+      if (!(key in obj)) obj[key] = (...args: unknown[]) => record([key, ...args]);
+      return obj[key];
+    },
+    set: (obj, key, value) => {
+      obj[key] = value;
+      record([key, value]);
+      return true;
+    }
+  });
+  return { width: 1080, height: 1920, style: {}, parentElement: null, getContext: () => ctx, calls } as any;
+};
+
+const overlay: TextOverlay = {
+  id: 'title',
+  text: 'Hello',
+  position: { x: 540, y: 960 },
+  fontSize: 64,
+  fontFamily: 'Arial',
+  color: '#ffffff',
+  opacity: 1,
+  rotation: 0,
+  animation: { type: 'pulse', duration: 1000, delay: 0, easing: 'linear', audioReactive: false },
+  timing: { startTime: 0, endTime: 0, loop: false, autoPosition: false },
+  style: { bold: false, italic: false, stroke: false, strokeWidth: 0, strokeColor: '#000000', shadow: false, shadowBlur: 0, shadowColor: '#000000', shadowOffset: { x: 0, y: 0 }, gradient: false, gradientColors: [] }
+};
+
+describe('Time-based animation', () => {
+  const originalCreateElement = document.createElement;
+
+  beforeEach(() => {
+    document.createElement = jest.fn((tagName: string) => {
+      if (tagName === 'canvas') return createRecordingCanvas();
+      return originalCreateElement.call(document, tagName);
+    }) as any;
+  });
+
+  afterEach(() => {
+    document.createElement = originalCreateElement;
+  });
+
+  // Renders from the start of the song to `until` seconds at `fps` and returns the
+  // engine and what its last frame drew
+  const renderAt = (effectName: string, fps: number, until: number, textOverlays: TextOverlay[] = []) => {
+    const canvas = createRecordingCanvas();
+    const engine = new VisualEngine(canvas, { persistSettings: false, parameterManager: effectParameterManager.createScope() });
+    engine.loadProject(createProject({ currentEffect: effectName, textOverlays }));
+    const frames = Math.round(until * fps);
+    for (let frame = 0; frame < frames; frame++) {
+      engine.renderFrame(frame / fps);
+    }
+    canvas.calls.length = 0;
+    engine.renderFrame(until);
+    return { engine, lastFrame: [...canvas.calls] };
+  };
+
+  it.each(['geometric', 'gradient'])('should draw the same %s frame at a song position at any frame rate', effectName => {
+    const at30 = renderAt(effectName, 30, 2);
+    const at60 = renderAt(effectName, 60, 2);
+
+    expect(at30.lastFrame.length).toBeGreaterThan(0);
+    expect(at60.lastFrame).toEqual(at30.lastFrame);
+    at30.engine.dispose();
+    at60.engine.dispose();
+  });
+
+  it('should turn 3D objects and the camera at the same speed at any frame rate', () => {
+    const at30 = renderAt('3d', 30, 2).engine;
+    const at60 = renderAt('3d', 60, 2).engine;
+    const state = (engine: VisualEngine) => {
+      const effect = engine.getCurrentEffect() as any;
+      return { camera: effect.cameraAngle, rotation: effect.objects[0].object.rotation };
+    };
+
+    const slow = state(at30);
+    const fast = state(at60);
+    expect(fast.camera).toBeCloseTo(slow.camera, 6);
+    expect(fast.rotation.y).toBeCloseTo(slow.rotation.y, 6);
+    at30.dispose();
+    at60.dispose();
+  });
+
+  it('should place 3D objects and the camera by song position after a seek', () => {
+    const played = renderAt('3d', 30, 2).engine;
+    const seeked = renderAt('3d', 60, 5).engine;
+    seeked.renderFrame(2);
+    const state = (engine: VisualEngine) => {
+      const effect = engine.getCurrentEffect() as any;
+      return { camera: effect.cameraAngle, rotation: effect.objects[0].object.rotation };
+    };
+
+    expect(state(seeked).camera).toBeCloseTo(state(played).camera, 6);
+    expect(state(seeked).rotation.x).toBeCloseTo(state(played).rotation.x, 6);
+    played.dispose();
+    seeked.dispose();
+  });
+
+  it('should animate text overlays by song position', () => {
+    const at30 = renderAt('waveform', 30, 1.5, [overlay]);
+    const at60 = renderAt('waveform', 60, 1.5, [overlay]);
+
+    const pulse = (calls: string[]) => calls.filter(call => call.startsWith('["scale"'));
+    expect(pulse(at30.lastFrame).length).toBeGreaterThan(0);
+    expect(pulse(at60.lastFrame)).toEqual(pulse(at30.lastFrame));
+    at30.engine.dispose();
+    at60.engine.dispose();
+  });
+});
@@ -0,0 +1,249 @@
+import { VisualEngine } from '../VisualEngine';
+import { TransitionEngine } from '../TransitionEngine';
+import { effectParameterManager } from '../EffectParameters';
+import { createAutomationLane } from '../ParameterAutomation';
+
+jest.mock('../../audio/AudioContext', () => {
+  let mockMix = { volume: 1, muted: false, playbackRate: 1 };
+  const mockInstance = {
+    getFrequencyData: () => new Uint8Array(1024).fill(100),
+    getTimeDomainData: () => new Uint8Array(1024).fill(128),
+    getMixSettings: () => ({ ...mockMix }),
+    setMixSettings: (settings: any) => {
+      mockMix = { ...mockMix, ...settings };
+    }
+  };
+  return {
+    ...jest.requireActual('../../audio/AudioContext'),
+    AudioContextManager: {
+      getInstance: () => mockInstance
+    }
+  };
+});
+
+// 2D context stub: every drawing call is a no-op mock, gradients accept colour stops
+const createMockContext = () => {
+  const target: Record<string | symbol, any> = {
+    createLinearGradient: jest.fn(() => ({ addColorStop: jest.fn() })),
+    createRadialGradient: jest.fn(() => ({ addColorStop: jest.fn() })),
+    measureText: jest.fn(() => ({ width: 10 }))
+  };
+  return new Proxy(target, {
+    get: (obj, key) => {
+      if (!(key in obj)) obj[key] = jest.fn();
+      return obj[key];
+    },
+    set: (obj, key, value) => {
+      obj[key] = value;
+      return true;
+    }
+  });
+};
+
+const createMockCanvas = () => {
+  const ctx = createMockContext();
+  return {
+    width: 1080,
+    height: 1920,
+    style: {},
+    parentElement: null,
+    getContext: jest.fn(() => ctx),
+    ctx
+  } as any;
+};
+
+describe('VisualEngine layered composition', () => {
+  let mainCanvas: any;
+  let engine: VisualEngine;
+  const originalCreateElement = document.createElement;
+
+  beforeEach(() => {
+    localStorage.clear();
+    document.createElement = jest.fn((tagName: string) => {
+      if (tagName === 'canvas') return createMockCanvas();
+      return originalCreateElement.call(document, tagName);
+    }) as any;
+
+    mainCanvas = createMockCanvas();
+    engine = new VisualEngine(mainCanvas);
+    engine.setEffect('gradient');
+  });
+
+  afterEach(() => {
+    engine.dispose();
+    document.createElement = originalCreateElement;
+  });
+
+  it('should seed the stack with the current effect when layering is enabled', () => {
+    engine.setCompositionMode('layered');
+
+    const layers = engine.getLayers();
+    expect(layers).toHaveLength(1);
+    expect(layers[0].effectName).toBe('gradient');
+  });
+
+  it('should stack new layers on top', () => {
+    engine.setCompositionMode('layered');
+    const particles = engine.addLayer('particles', { blendMode: 'screen' });
+    const waveform = engine.addLayer('waveform');
+
+    const layers = engine.getLayers();
+    expect(layers.map(layer => layer.effectName)).toEqual(['gradient', 'particles', 'waveform']);
+    expect(particles.blendMode).toBe('screen');
+    expect(waveform.order).toBeGreaterThan(particles.order);
+  });
+
+  it('should swap neighbouring layers when moving', () => {
+    engine.setCompositionMode('layered');
+    const particles = engine.addLayer('particles');
+
+    engine.moveLayer(particles.id, 'down');
+
+    expect(engine.getLayers()[0].id).toBe(particles.id);
+  });
+
+  it('should composite only enabled layers onto the main canvas', () => {
+    engine.setCompositionMode('layered');
+    const particles = engine.addLayer('particles');
+    engine.addLayer('waveform');
+    engine.updateLayer(particles.id, { enabled: false });
+
+    engine.renderFrame(0);
+
+    expect(mainCanvas.ctx.drawImage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should replace the stack when loading layers', () => {
+    engine.setLayers([
+      { id: 'bg', effectName: 'gradient', opacity: 1, blendMode: 'normal', enabled: true, order: 0 },
+      { id: 'fx', effectName: '3d', opacity: 0.5, blendMode: 'lighten', enabled: true, order: 1 }
+    ]);
+
+    expect(engine.getLayers().map(layer => layer.id)).toEqual(['bg', 'fx']);
+    expect(engine.getLayers()[1].opacity).toBe(0.5);
+  });
+
+  it('should keep separate parameter values for layers of the same effect', () => {
+    effectParameterManager.setParameter('particles', 'speed', 2);
+    try {
+      engine.setCompositionMode('layered');
+      const first = engine.addLayer('particles');
+      const second = engine.addLayer('particles', {}, { speed: 0.5 });
+
+      expect(engine.getLayerParameterManager(first.id)!.getParameters('particles').speed).toBe(2);
+      engine.getLayerParameterManager(first.id)!.setParameter('particles', 'speed', 3);
+
+      const values = engine.getLayerParameters();
+      expect(values[first.id].speed).toBe(3);
+      expect(values[second.id].speed).toBe(0.5);
+      expect(effectParameterManager.getParameters('particles').speed).toBe(2);
+
+      engine.renderFrame(0);
+      const effects = (engine as any).layerEffects;
+      expect(effects.get(first.id).parameters.speed).toBe(3);
+      expect(effects.get(second.id).parameters.speed).toBe(0.5);
+
+      engine.removeLayer(first.id);
+      expect(engine.getLayerParameterManager(first.id)).toBeNull();
+    } finally {
+      effectParameterManager.resetToDefaults('particles');
+    }
+  });
+
+  it('should switch to effect clips by media time and blend them during transitions', () => {
+    const fade = { ...TransitionEngine.createFadeTransition(1000), easing: 'linear' as const };
+    engine.setEffectClips([
+      { id: 'intro', effectName: 'particles', startTime: 0, endTime: 2000 },
+      { id: 'drop', effectName: 'waveform', startTime: 2000, endTime: 4000, transition: fade }
+    ]);
+
+    engine.renderFrame(1);
+    expect(mainCanvas.ctx.drawImage).toHaveBeenCalledTimes(1);
+
+    mainCanvas.ctx.drawImage.mockClear();
+    engine.renderFrame(2.5);
+    // Outgoing clip first, then the incoming one faded on top
+    expect(mainCanvas.ctx.drawImage).toHaveBeenCalledTimes(2);
+    expect(mainCanvas.ctx.globalAlpha).toBe(1);
+    expect(engine.getEffectClips().map(clip => clip.id)).toEqual(['intro', 'drop']);
+  });
+
+  it('should evaluate automation lanes at the frame time', () => {
+    effectParameterManager.setAutomation([
+      createAutomationLane('gradient', 'speed', [
+        { time: 0, value: 1, easing: 'linear' },
+        { time: 2000, value: 3 }
+      ])
+    ]);
+
+    try {
+      engine.renderFrame(1);
+      const effect = engine.getCurrentEffect() as any;
+      expect(effect.parameters.speed).toBe(2);
+      // The user's value is untouched
+      expect(effectParameterManager.getParameters('gradient').speed).toBe(1);
+
+      engine.renderFrame(3);
+      expect(effect.parameters.speed).toBe(3);
+    } finally {
+      effectParameterManager.setAutomation([]);
+    }
+  });
+
+  it('should restore the same project it serialized', () => {
+    engine.setBackgroundColor('#112233');
+    engine.setCompositionMode('layered');
+    const layer = engine.addLayer('particles', { blendMode: 'screen', opacity: 0.5 });
+    engine.getLayerParameterManager(layer.id)!.setParameter('particles', 'speed', 1.5);
+    effectParameterManager.setParameter('gradient', 'speed', 2.5);
+    const project = JSON.parse(JSON.stringify(engine.serializeProject()));
+
+    const restored = new VisualEngine(createMockCanvas());
+    try {
+      effectParameterManager.resetToDefaults('gradient');
+      restored.loadProject(project);
+
+      expect(restored.serializeProject()).toEqual(project);
+      expect(effectParameterManager.getParameters('gradient').speed).toBe(2.5);
+      expect(restored.getLayerParameters()[layer.id].speed).toBe(1.5);
+    } finally {
+      restored.dispose();
+      effectParameterManager.resetToDefaults('gradient');
+    }
+  });
+
+  it('should keep a scoped preview engine away from the editor state', () => {
+    effectParameterManager.setParameter('gradient', 'speed', 2);
+    localStorage.setItem('audioVibe_backgroundColor', '#101010');
+    const preview = new VisualEngine(createMockCanvas(), {
+      persistSettings: false,
+      parameterManager: effectParameterManager.createScope()
+    });
+    try {
+      expect(preview.getBackgroundColor()).toBe('#000000');
+      expect(preview.getParameterManager().getParameters('gradient').speed).toBe(1);
+
+      const lane = createAutomationLane('gradient', 'speed', [{ time: 0, value: 4, easing: 'linear' }]);
+      preview.loadProject({
+        ...engine.serializeProject(),
+        backgroundColor: '#445566',
+        effectParameters: { gradient: { speed: 4 } },
+        automation: [lane]
+      });
+      const effect = preview.getCurrentEffect() as any;
+
+      expect(effect.parameters.speed).toBe(4);
+      expect(effectParameterManager.getParameters('gradient').speed).toBe(2);
+      expect(preview.getParameterManager().getAutomation()).toHaveLength(1);
+      expect(effectParameterManager.getAutomation()).toEqual([]);
+      expect(localStorage.getItem('audioVibe_backgroundColor')).toBe('#101010');
+
+      // Editor changes don't reach the preview either
+      effectParameterManager.setParameter('gradient', 'speed', 3);
+      expect(effect.parameters.speed).toBe(4);
+    } finally {
+      preview.dispose();
+      effectParameterManager.resetToDefaults('gradient');
+    }
+  });
+});
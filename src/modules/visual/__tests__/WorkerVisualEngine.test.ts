@@ -0,0 +1,201 @@
+import { WorkerVisualEngine, RenderWorkerRequest } from '../WorkerVisualEngine';
+import { effectParameterManager } from '../EffectParameters';
+import { QUALITY_LEVELS } from '../QualityGovernor';
+// Registers the built-in effects and their parameter definitions
+import '../EffectRegistry';
+
+// The editor's decoded track and its analysis
+const mockTrack = {
+  sampleRate: 8000,
+  length: 4,
+  duration: 4 / 8000,
+  numberOfChannels: 2,
+  getChannelData: (channel: number) => Float32Array.from([0.5, 0.5, 0.5, 0.5].map(value => channel ? value : -value / 2))
+};
+const mockTimeline = { toData: () => ({ frameRate: 60 }) };
+let mockMix = { volume: 1, muted: false, playbackRate: 1 };
+
+jest.mock('../../audio/AudioContext', () => {
+  const mockInstance = {
+    getFrequencyData: () => new Uint8Array(1024).fill(100),
+    getTimeDomainData: () => new Uint8Array(1024).fill(128),
+    getSampleRate: () => 48000,
+    getIsPlaying: () => false,
+    getMixSettings: () => ({ ...mockMix }),
+    getBuffer: () => mockTrack,
+    getFeatureTimeline: () => mockTimeline
+  };
+  return {
+    ...jest.requireActual('../../audio/AudioContext'),
+    AudioContextManager: {
+      getInstance: () => mockInstance
+    }
+  };
+});
+
+// 2D context stub where every drawing call is a no-op
+const createMockCanvas = () => {
+  const ctx = new Proxy({} as Record<string | symbol, any>, {
+    get: (obj, key) => {
+      if (!(key in obj)) obj[key] = jest.fn();
+      return obj[key];
+    },
+    set: (obj, key, value) => {
+      obj[key] = value;
+      return true;
+    }
+  });
+  return { width: 1080, height: 1920, style: {}, parentElement: null, getContext: jest.fn(() => ctx), ctx } as any;
+};
+
+// Records what the engine sends and lets the test answer as the worker
+const createFakeWorker = () => {
+  const listeners: ((event: MessageEvent) => void)[] = [];
+  return {
+    postMessage: jest.fn(),
+    addEventListener: jest.fn((_type: string, listener: (event: MessageEvent) => void) => listeners.push(listener)),
+    removeEventListener: jest.fn(),
+    terminate: jest.fn(),
+    reply: (data: unknown) => listeners.forEach(listener => listener({ data } as MessageEvent)),
+    sent: function (type?: RenderWorkerRequest['type']): any[] {
+      const messages = this.postMessage.mock.calls.map(([message]: [RenderWorkerRequest]) => message);
+      return type ? messages.filter((message: RenderWorkerRequest) => message.type === type) : messages;
+    },
+    calls: function (): string[] {
+      return this.sent('call').map((message: { method: string }) => message.method);
+    }
+  };
+};
+
+describe('WorkerVisualEngine', () => {
+  const originalCreateElement = document.createElement;
+  let pageCanvas: any;
+  let worker: ReturnType<typeof createFakeWorker>;
+  let engine: WorkerVisualEngine;
+
+  beforeEach(() => {
+    document.createElement = jest.fn((tagName: string) => {
+      if (tagName === 'canvas') return createMockCanvas();
+      return originalCreateElement.call(document, tagName);
+    }) as any;
+    jest.spyOn(window, 'requestAnimationFrame').mockImplementation(() => 1);
+    jest.spyOn(window, 'cancelAnimationFrame').mockImplementation(() => {});
+
+    pageCanvas = { ...createMockCanvas(), transferControlToOffscreen: jest.fn(() => ({ offscreen: true })) };
+    worker = createFakeWorker();
+    engine = new WorkerVisualEngine(pageCanvas, worker as unknown as Worker);
+  });
+
+  afterEach(() => {
+    engine.dispose();
+    document.createElement = originalCreateElement;
+    effectParameterManager.resetToDefaults('particles');
+    jest.restoreAllMocks();
+  });
+
+  it('should hand the page canvas to the worker and bring it up to date', () => {
+    const [init] = worker.sent();
+    expect(init).toEqual({ type: 'init', canvas: { offscreen: true }, modules: [] });
+    expect(worker.postMessage.mock.calls[0][1]).toEqual([{ offscreen: true }]);
+    expect(worker.calls()).toEqual(['loadProject']);
+
+    // The page canvas is only sized; nothing draws on it from this thread
+    expect(pageCanvas.style.width).toBeDefined();
+    expect(pageCanvas.getContext).not.toHaveBeenCalled();
+  });
+
+  it('should apply calls locally and repeat them in the worker', () => {
+    worker.postMessage.mockClear();
+    engine.setEffect('particles');
+    engine.addTextOverlay({ id: 'title', text: 'Hello', x: 10, y: 20 } as any);
+
+    expect(engine.getCurrentEffect()?.effectName).toBe('particles');
+    expect(engine.getTextOverlays().map(overlay => overlay.id)).toEqual(['title']);
+    expect(worker.sent('call')).toEqual([
+      { type: 'call', method: 'setEffect', args: ['particles'] },
+      { type: 'call', method: 'addTextOverlay', args: [expect.objectContaining({ id: 'title' })] }
+    ]);
+  });
+
+  it('should send a loaded project once rather than every call it makes', () => {
+    const project = engine.serializeProject();
+    worker.postMessage.mockClear();
+
+    engine.loadProject({ ...project, currentEffect: 'tunnel', compositionMode: 'layered', layers: [] });
+
+    expect(worker.calls()).toEqual(['loadProject']);
+    // The layer made for layered mode is sent with the id it has here
+    const [{ args: [sent] }] = worker.sent('call');
+    expect(sent.layers.map((layer: { id: string }) => layer.id)).toEqual(engine.getLayers().map(layer => layer.id));
+  });
+
+  it('should send layers with their ids and follow their parameter changes', () => {
+    engine.setCompositionMode('layered');
+    worker.postMessage.mockClear();
+
+    const layer = engine.addLayer('particles');
+    const [call] = worker.sent('call');
+    expect(call.method).toBe('addLayer');
+    expect(call.args[1].id).toBe(layer.id);
+
+    engine.getLayerParameterManager(layer.id)!.setParameter('particles', 'particleCount', 42);
+    effectParameterManager.setParameter('particles', 'particleCount', 7);
+    expect(worker.sent('parameters')).toEqual([
+      expect.objectContaining({ effectName: 'particles', layerId: layer.id, params: expect.objectContaining({ particleCount: 42 }) }),
+      { type: 'parameters', effectName: 'particles', params: expect.objectContaining({ particleCount: 7 }) }
+    ]);
+  });
+
+  it('should run the render loop in the worker and stream audio to it', () => {
+    engine.setEffect('particles');
+    worker.postMessage.mockClear();
+    engine.start();
+    expect(engine.getIsRunning()).toBe(true);
+    expect(worker.calls()).toEqual(['start']);
+
+    const [audio] = worker.sent('audio');
+    expect(audio.sampleRate).toBe(48000);
+    expect(audio.frequency).toHaveLength(1024);
+
+    engine.stop();
+    expect(engine.getIsRunning()).toBe(false);
+    expect(worker.calls()).toEqual(['start', 'stop']);
+  });
+
+  it('should hand the worker the track, its analysis and the mix once each', () => {
+    const [track] = worker.sent('track');
+    expect(track.track.sampleRate).toBe(8000);
+    expect(Array.from(track.track.samples)).toEqual([0.125, 0.125, 0.125, 0.125]);
+    expect(worker.sent('features')).toEqual([{ type: 'features', timeline: { frameRate: 60 } }]);
+    expect(worker.sent('mix')).toEqual([{ type: 'mix', settings: { volume: 1, muted: false, playbackRate: 1 } }]);
+
+    // The audio loop sends them again only when they change
+    worker.postMessage.mockClear();
+    mockMix = { ...mockMix, volume: 0.5 };
+    engine.start();
+    expect(worker.sent('track')).toEqual([]);
+    expect(worker.sent('features')).toEqual([]);
+    expect(worker.sent('mix')).toEqual([{ type: 'mix', settings: { volume: 0.5, muted: false, playbackRate: 1 } }]);
+    mockMix = { volume: 1, muted: false, playbackRate: 1 };
+  });
+
+  it('should report the quality the worker renders at', () => {
+    const levels: string[] = [];
+    engine.addQualityListener(level => levels.push(level.tier));
+    engine.setAdaptiveQuality(true);
+    expect(engine.isAdaptiveQuality()).toBe(true);
+
+    worker.reply({ type: 'quality', level: QUALITY_LEVELS[2] });
+    expect(engine.getQuality().tier).toBe('low');
+    expect(levels).toEqual(['low']);
+  });
+
+  it('should stop following changes and end the worker when disposed', () => {
+    engine.dispose();
+    worker.postMessage.mockClear();
+
+    effectParameterManager.setParameter('particles', 'particleCount', 7);
+    expect(worker.postMessage).not.toHaveBeenCalled();
+    expect(worker.terminate).toHaveBeenCalled();
+  });
+});
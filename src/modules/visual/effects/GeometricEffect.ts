@@ -0,0 +1,234 @@
+import { AudioFrame, VisualEffect } from '../VisualEffect';
+import { bandInput } from '../EffectParameters';
+import type { EffectPlugin } from '../EffectRegistry';
+
+export class GeometricEffect extends VisualEffect {
+  private time = 0; // media time of the frame, seconds
+
+  render(time: number, audio: AudioFrame): void {
+    this.time = time;
+
+    // Get parameters
+    const shape = this.parameters.shape || 'circles';
+    const color = this.parameters.color || '#4ecdc4';
+    const baseSize = this.parameters.size || 50;
+    const rotation = this.parameters.rotation || 0;
+    const complexity = this.parameters.complexity || 5;
+    const beatSync = this.parameters.beatSync === true;
+
+    const bands = audio.bands;
+    const beat = beatSync ? audio.analyzer.detectGridBeat() : audio.beat;
+
+    // Clear canvas with background color
+    this.clear();
+
+    // Set base color
+    this.ctx.strokeStyle = color;
+    this.ctx.fillStyle = color;
+
+    // Audio-reactive size and rotation
+    const audioSize = baseSize * (1 + bands.bass * 2);
+    const audioRotation = rotation + this.time * 50 + bands.mid * 360;
+    let beatScale = beat.isBeat ? 1.3 + beat.intensity * 0.5 : 1;
+    const position = beatSync ? audio.analyzer.getBeatPosition() : null;
+    if (position) {
+      // Swell on each grid beat and ease off until the next one
+      const pulse = Math.pow(1 - position.beatPhase, 3);
+      beatScale = 1 + pulse * (position.isDownbeat ? 0.5 : 0.3);
+    }
+
+    // Draw multiple layers based on complexity
+    for (let layer = 0; layer < complexity; layer++) {
+      const layerScale = (layer + 1) / complexity;
+      const layerAlpha = 1 - (layer * 0.15);
+      
+      // Set transparency
+      this.ctx.globalAlpha = layerAlpha;
+      
+      // Position in center
+      const centerX = this.width / 2;
+      const centerY = this.height / 2;
+      
+      this.ctx.save();
+      this.ctx.translate(centerX, centerY);
+      this.ctx.rotate((audioRotation + layer * 30) * Math.PI / 180);
+      this.ctx.scale(beatScale * layerScale, beatScale * layerScale);
+
+      switch (shape) {
+        case 'circles':
+          this.drawConcentricCircles(audioSize, bands, layer);
+          break;
+        case 'squares':
+          this.drawRotatingSquares(audioSize, bands, layer);
+          break;
+        case 'triangles':
+          this.drawTrianglePattern(audioSize, bands, layer);
+          break;
+        case 'hexagons':
+          this.drawHexagonPattern(audioSize, bands, layer);
+          break;
+        default:
+          this.drawConcentricCircles(audioSize, bands, layer);
+      }
+
+      this.ctx.restore();
+    }
+
+    this.ctx.globalAlpha = 1;
+  }
+
+  private drawConcentricCircles(size: number, bands: any, layer: number): void {
+    const ringCount = 5 + layer;
+    for (let i = 0; i < ringCount; i++) {
+      const radius = (size / ringCount) * (i + 1) * (1 + bands.treble);
+      const lineWidth = 2 + bands.highMid * 8;
+      
+      this.ctx.lineWidth = lineWidth;
+      this.ctx.beginPath();
+      this.ctx.arc(0, 0, radius, 0, Math.PI * 2);
+      this.ctx.stroke();
+    }
+  }
+
+  private drawRotatingSquares(size: number, bands: any, layer: number): void {
+    const squareCount = 4 + layer;
+    for (let i = 0; i < squareCount; i++) {
+      const squareSize = (size / squareCount) * (i + 1) * (1 + bands.bass);
+      const rotationOffset = (this.time * 30 + i * 45) * Math.PI / 180;
+      
+      this.ctx.save();
+      this.ctx.rotate(rotationOffset);
+      this.ctx.lineWidth = 2 + bands.mid * 6;
+      this.ctx.strokeRect(-squareSize / 2, -squareSize / 2, squareSize, squareSize);
+      this.ctx.restore();
+    }
+  }
+
+  private drawTrianglePattern(size: number, bands: any, _layer: number): void {
+    const triangleCount = 6;
+    const radius = size * (1 + bands.lowMid);
+    
+    for (let i = 0; i < triangleCount; i++) {
+      const angle = (i / triangleCount) * Math.PI * 2;
+      const x = Math.cos(angle) * radius;
+      const y = Math.sin(angle) * radius;
+      
+      this.ctx.save();
+      this.ctx.translate(x, y);
+      this.ctx.rotate(angle + this.time);
+      
+      const triangleSize = 20 + bands.treble * 30;
+      this.ctx.lineWidth = 2 + bands.highMid * 4;
+      
+      this.ctx.beginPath();
+      this.ctx.moveTo(0, -triangleSize / 2);
+      this.ctx.lineTo(-triangleSize / 2, triangleSize / 2);
+      this.ctx.lineTo(triangleSize / 2, triangleSize / 2);
+      this.ctx.closePath();
+      this.ctx.stroke();
+      
+      this.ctx.restore();
+    }
+  }
+
+  private drawHexagonPattern(size: number, bands: any, _layer: number): void {
+    const hexRadius = size * (1 + bands.bass * 0.5);
+    const sides = 6;
+    
+    // Main hexagon
+    this.ctx.lineWidth = 3 + bands.mid * 8;
+    this.ctx.beginPath();
+    for (let i = 0; i <= sides; i++) {
+      const angle = (i / sides) * Math.PI * 2;
+      const x = Math.cos(angle) * hexRadius;
+      const y = Math.sin(angle) * hexRadius;
+      
+      if (i === 0) {
+        this.ctx.moveTo(x, y);
+      } else {
+        this.ctx.lineTo(x, y);
+      }
+    }
+    this.ctx.stroke();
+
+    // Inner pattern
+    const innerRadius = hexRadius * 0.6;
+    for (let i = 0; i < sides; i++) {
+      const angle = (i / sides) * Math.PI * 2;
+      const x1 = 0;
+      const y1 = 0;
+      const x2 = Math.cos(angle) * innerRadius * (1 + bands.treble);
+      const y2 = Math.sin(angle) * innerRadius * (1 + bands.treble);
+      
+      this.ctx.lineWidth = 1 + bands.highMid * 3;
+      this.ctx.beginPath();
+      this.ctx.moveTo(x1, y1);
+      this.ctx.lineTo(x2, y2);
+      this.ctx.stroke();
+    }
+  }
+}
+
+export const geometricPlugin: EffectPlugin = {
+  metadata: {
+    name: 'geometric',
+    label: 'Geometric',
+    category: 'Shapes',
+    icon: '🔷',
+    description: 'Rotating shapes pulsing with the bands'
+  },
+  parameters: [
+    {
+      name: 'shape',
+      type: 'select',
+      options: ['circles', 'squares', 'triangles', 'hexagons'],
+      defaultValue: 'circles',
+      description: 'Shape type'
+    },
+    {
+      name: 'color',
+      type: 'color',
+      defaultValue: '#4ecdc4',
+      description: 'Shape color'
+    },
+    {
+      name: 'size',
+      type: 'number',
+      min: 10,
+      max: 200,
+      step: 5,
+      defaultValue: 50,
+      description: 'Shape size'
+    },
+    {
+      name: 'rotation',
+      type: 'number',
+      min: 0,
+      max: 360,
+      step: 1,
+      defaultValue: 0,
+      description: 'Rotation angle'
+    },
+    {
+      name: 'complexity',
+      type: 'number',
+      min: 1,
+      max: 10,
+      step: 1,
+      defaultValue: 5,
+      description: 'Pattern complexity'
+    },
+    {
+      name: 'beatSync',
+      type: 'boolean',
+      defaultValue: false,
+      description: 'Pulse with the beat grid instead of detected hits'
+    },
+    bandInput('bass', 'shape size'),
+    bandInput('lowMid', 'triangle spread'),
+    bandInput('mid', 'rotation and line width'),
+    bandInput('highMid', 'line width'),
+    bandInput('treble', 'ring and spoke size')
+  ],
+  effect: GeometricEffect
+};
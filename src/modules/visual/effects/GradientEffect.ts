@@ -0,0 +1,209 @@
+import { AudioFrame, VisualEffect } from '../VisualEffect';
+import { bandInput } from '../EffectParameters';
+import type { EffectPlugin } from '../EffectRegistry';
+
+export class GradientEffect extends VisualEffect {
+  private waveOffset = 0;
+
+  render(time: number, audio: AudioFrame): void {
+    // Get parameters
+    const color1 = this.parameters.color1 || '#667eea';
+    const color2 = this.parameters.color2 || '#764ba2';
+    const direction = this.parameters.direction || 'vertical';
+    const speed = this.parameters.speed || 1;
+    const waves = this.parameters.waves !== false;
+
+    const bands = audio.bands;
+    const beat = audio.beat;
+
+    // Waves move 120 units per second at speed 1, wherever the song is
+    this.waveOffset = time * speed * 120;
+
+    // Clear canvas with background color
+    this.clear(true);
+
+    // Create base gradient
+    const gradient = this.createGradient(color1, color2, direction, bands);
+    
+    if (waves) {
+      this.renderWaveGradient(gradient, bands, beat, []);
+    } else {
+      this.renderStaticGradient(gradient, bands, beat);
+    }
+  }
+
+  private createGradient(color1: string, color2: string, direction: string, bands: any): CanvasGradient {
+    let gradient: CanvasGradient;
+
+    // Audio-reactive gradient positioning
+    const bassShift = bands.bass * 0.3;
+    const trebleShift = bands.treble * 0.3;
+
+    switch (direction) {
+      case 'horizontal':
+        gradient = this.ctx.createLinearGradient(0, 0, this.width, 0);
+        break;
+      case 'vertical':
+        gradient = this.ctx.createLinearGradient(0, 0, 0, this.height);
+        break;
+      case 'diagonal':
+        gradient = this.ctx.createLinearGradient(0, 0, this.width, this.height);
+        break;
+      case 'radial':
+        const centerX = this.width / 2 + bassShift * this.width;
+        const centerY = this.height / 2 + trebleShift * this.height;
+        const radius = Math.min(this.width, this.height) / 2 * (1 + bands.mid);
+        gradient = this.ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, radius);
+        break;
+      default:
+        gradient = this.ctx.createLinearGradient(0, 0, 0, this.height);
+    }
+
+    // Add audio-reactive color stops
+    const midPoint = 0.5 + bands.mid * 0.3 - bands.bass * 0.2;
+    gradient.addColorStop(0, color1);
+    gradient.addColorStop(Math.max(0.1, Math.min(0.9, midPoint)), this.blendColors(color1, color2, 0.5));
+    gradient.addColorStop(1, color2);
+
+    return gradient;
+  }
+
+  private renderStaticGradient(gradient: CanvasGradient, _bands: any, beat: any): void {
+    this.ctx.fillStyle = gradient;
+    this.ctx.fillRect(0, 0, this.width, this.height);
+
+    // Add beat pulse effect
+    if (beat.isBeat) {
+      this.ctx.globalAlpha = 0.3 * beat.intensity;
+      this.ctx.fillStyle = 'white';
+      this.ctx.fillRect(0, 0, this.width, this.height);
+      this.ctx.globalAlpha = 1;
+    }
+  }
+
+  private renderWaveGradient(gradient: CanvasGradient, bands: any, beat: any, _waveformData: number[]): void {
+    // Create wave distortion
+    const amplitude = 50 + bands.bass * 200;
+    const frequency = 0.01 + bands.treble * 0.02;
+    
+    // Draw gradient in strips with wave distortion
+    const stripHeight = 4;
+    for (let y = 0; y < this.height; y += stripHeight) {
+      const waveX = Math.sin((y * frequency) + (this.waveOffset * 0.01)) * amplitude;
+      const beatWaveX = beat.isBeat ? waveX * (1 + beat.intensity) : waveX;
+      
+      // Audio-reactive width
+      const audioWidth = this.width + bands.mid * 100;
+      
+      this.ctx.save();
+      this.ctx.translate(beatWaveX, 0);
+      
+      // Create clipping path for this strip
+      this.ctx.beginPath();
+      this.ctx.rect(-amplitude - 50, y, audioWidth + amplitude + 100, stripHeight);
+      this.ctx.clip();
+      
+      this.ctx.fillStyle = gradient;
+      this.ctx.fillRect(-amplitude - 50, 0, audioWidth + amplitude + 100, this.height);
+      
+      this.ctx.restore();
+    }
+
+    // Add frequency bars overlay
+    this.renderFrequencyBars(bands, beat);
+  }
+
+  private renderFrequencyBars(bands: any, _beat: any): void {
+    const barCount = 20;
+    const barWidth = this.width / barCount;
+    
+    this.ctx.globalAlpha = 0.4;
+    
+    for (let i = 0; i < barCount; i++) {
+      const frequency = Object.values(bands)[i % 5] as number;
+      const height = frequency * this.height * 0.5;
+      const x = i * barWidth;
+      const y = this.height - height;
+      
+      // Gradient for bars
+      const barGradient = this.ctx.createLinearGradient(x, y, x, this.height);
+      barGradient.addColorStop(0, `rgba(255, 255, 255, ${frequency})`);
+      barGradient.addColorStop(1, `rgba(255, 255, 255, 0)`);
+      
+      this.ctx.fillStyle = barGradient;
+      this.ctx.fillRect(x, y, barWidth - 1, height);
+    }
+    
+    this.ctx.globalAlpha = 1;
+  }
+
+  private blendColors(color1: string, color2: string, ratio: number): string {
+    // Simple color blending - convert hex to rgb and blend
+    const hex1 = color1.replace('#', '');
+    const hex2 = color2.replace('#', '');
+    
+    const r1 = parseInt(hex1.slice(0, 2), 16);
+    const g1 = parseInt(hex1.slice(2, 4), 16);
+    const b1 = parseInt(hex1.slice(4, 6), 16);
+    
+    const r2 = parseInt(hex2.slice(0, 2), 16);
+    const g2 = parseInt(hex2.slice(2, 4), 16);
+    const b2 = parseInt(hex2.slice(4, 6), 16);
+    
+    const r = Math.round(r1 + (r2 - r1) * ratio);
+    const g = Math.round(g1 + (g2 - g1) * ratio);
+    const b = Math.round(b1 + (b2 - b1) * ratio);
+    
+    return `rgb(${r}, ${g}, ${b})`;
+  }
+}
+
+export const gradientPlugin: EffectPlugin = {
+  metadata: {
+    name: 'gradient',
+    label: 'Gradient',
+    category: 'Backgrounds',
+    icon: '🌈',
+    description: 'Moving color gradient with frequency bars'
+  },
+  parameters: [
+    {
+      name: 'color1',
+      type: 'color',
+      defaultValue: '#667eea',
+      description: 'Start color'
+    },
+    {
+      name: 'color2',
+      type: 'color',
+      defaultValue: '#764ba2',
+      description: 'End color'
+    },
+    {
+      name: 'direction',
+      type: 'select',
+      options: ['horizontal', 'vertical', 'diagonal', 'radial'],
+      defaultValue: 'vertical',
+      description: 'Gradient direction'
+    },
+    {
+      name: 'speed',
+      type: 'number',
+      min: 0.1,
+      max: 5,
+      step: 0.1,
+      defaultValue: 1,
+      description: 'Animation speed'
+    },
+    {
+      name: 'waves',
+      type: 'boolean',
+      defaultValue: true,
+      description: 'Enable wave animation'
+    },
+    bandInput('bass', 'wave height and radial centre'),
+    bandInput('mid', 'colour midpoint and strip width'),
+    bandInput('treble', 'wave frequency')
+  ],
+  effect: GradientEffect
+};
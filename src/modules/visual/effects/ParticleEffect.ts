@@ -0,0 +1,195 @@
+import { AudioFrame, VisualEffect } from '../VisualEffect';
+import { bandInput } from '../EffectParameters';
+import type { EffectPlugin } from '../EffectRegistry';
+
+interface Particle {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  life: number;
+  maxLife: number;
+  size: number;
+  hue: number;
+}
+
+// Motion constants are per frame at this rate and scaled to the actual frame step
+const REFERENCE_FPS = 60;
+
+export class ParticleEffect extends VisualEffect {
+  private particles: Particle[] = [];
+  private spawnBudget = 0; // particles owed to the bass, carried over between frames
+
+  render(time: number, audio: AudioFrame): void {
+    const frames = this.frameStep(time) * REFERENCE_FPS;
+
+    // Get parameters
+    const particleCount = this.scaleDetail(this.parameters.particleCount || 100);
+    const color = this.parameters.color || '#ff6b6b';
+    const size = this.parameters.size || 3;
+    const speed = this.parameters.speed || 1;
+    const trail = this.parameters.trail !== false;
+    const beatSync = this.parameters.beatSync === true;
+
+    const bands = audio.bands;
+    const gridBeat = beatSync ? audio.analyzer.detectGridBeat() : null;
+    const beat = gridBeat || audio.beat;
+
+    // Clear with trail effect using background color
+    this.fillBackground(trail ? 0.05 : 1);
+
+    // Spawn new particles based on audio; on the grid every beat adds a burst, bigger on the downbeat
+    this.spawnBudget += bands.bass * particleCount * 0.1 * frames;
+    let spawnCount = Math.floor(this.spawnBudget);
+    this.spawnBudget -= spawnCount;
+    if (gridBeat?.isBeat) {
+      spawnCount += Math.floor(particleCount * (gridBeat.isDownbeat ? 0.3 : 0.15));
+    }
+    for (let i = 0; i < spawnCount && this.particles.length < particleCount; i++) {
+      this.spawnParticle(beat, bands, speed);
+    }
+
+    // Update and draw particles; lower quality drops the excess and the glow
+    this.particles.length = Math.min(this.particles.length, particleCount);
+    this.updateParticles(bands, frames, size, color, this.quality.glow);
+
+    // Remove dead particles
+    this.particles = this.particles.filter(p => p.life > 0);
+  }
+
+  private spawnParticle(beat: any, bands: any, speed: number): void {
+    const particle: Particle = {
+      x: this.random() * this.width,
+      y: this.height + 50,
+      vx: (this.random() - 0.5) * 4 * speed,
+      vy: -this.random() * 8 * speed - 2,
+      life: 1,
+      maxLife: 60 + this.random() * 120,
+      size: 2 + this.random() * 8,
+      hue: 180 + bands.mid * 180
+    };
+
+    // Beat response
+    if (beat.isBeat) {
+      particle.vy *= 1.5 + beat.intensity;
+      particle.size *= 1.2 + beat.intensity * 0.5;
+    }
+
+    this.particles.push(particle);
+  }
+
+  // `frames` is the time step in frames at REFERENCE_FPS
+  private updateParticles(bands: any, frames: number, baseSize: number, color: string, glow: boolean): void {
+    const drag = Math.pow(0.99, frames);
+    for (const particle of this.particles) {
+      // Update position
+      particle.x += particle.vx * frames;
+      particle.y += particle.vy * frames;
+
+      // Add gravity and air resistance
+      particle.vy += 0.1 * frames;
+      particle.vx *= drag;
+      particle.vy *= drag;
+
+      // Update life (maxLife is in frames)
+      particle.life -= frames / particle.maxLife;
+
+      // Audio reactivity
+      const audioInfluence = (bands.treble + bands.highMid) * 0.5;
+      const currentSize = particle.size * (baseSize / 3) * (1 + audioInfluence);
+
+      // Draw particle
+      const alpha = particle.life;
+      
+      // Use parameter color or dynamic color
+      let particleColor: string;
+      if (color.startsWith('#')) {
+        // Convert hex to rgba
+        const r = parseInt(color.slice(1, 3), 16);
+        const g = parseInt(color.slice(3, 5), 16);
+        const b = parseInt(color.slice(5, 7), 16);
+        particleColor = `rgba(${r}, ${g}, ${b}, ${alpha})`;
+      } else {
+        // Dynamic color
+        particleColor = `hsla(${particle.hue}, 70%, 60%, ${alpha})`;
+      }
+
+      this.ctx.fillStyle = particleColor;
+      this.ctx.beginPath();
+      this.ctx.arc(particle.x, particle.y, currentSize, 0, Math.PI * 2);
+      this.ctx.fill();
+
+      // Add glow effect
+      if (glow && bands.bass > 0.3) {
+        this.ctx.shadowBlur = 10;
+        this.ctx.shadowColor = particleColor;
+        this.ctx.beginPath();
+        this.ctx.arc(particle.x, particle.y, currentSize, 0, Math.PI * 2);
+        this.ctx.fill();
+        this.ctx.shadowBlur = 0;
+      }
+    }
+  }
+}
+
+export const particlesPlugin: EffectPlugin = {
+  metadata: {
+    name: 'particles',
+    label: 'Particles',
+    category: 'Particles',
+    icon: '✨',
+    description: 'Particles that burst on beats'
+  },
+  parameters: [
+    {
+      name: 'particleCount',
+      type: 'number',
+      min: 10,
+      max: 500,
+      step: 10,
+      defaultValue: 100,
+      description: 'Number of particles'
+    },
+    {
+      name: 'color',
+      type: 'color',
+      defaultValue: '#ff6b6b',
+      description: 'Particle color'
+    },
+    {
+      name: 'size',
+      type: 'number',
+      min: 1,
+      max: 20,
+      step: 1,
+      defaultValue: 3,
+      description: 'Particle size'
+    },
+    {
+      name: 'speed',
+      type: 'number',
+      min: 0.1,
+      max: 5,
+      step: 0.1,
+      defaultValue: 1,
+      description: 'Movement speed'
+    },
+    {
+      name: 'trail',
+      type: 'boolean',
+      defaultValue: true,
+      description: 'Enable particle trails'
+    },
+    {
+      name: 'beatSync',
+      type: 'boolean',
+      defaultValue: false,
+      description: 'Burst on the beat grid instead of detected hits'
+    },
+    bandInput('bass', 'spawn rate and glow'),
+    bandInput('mid', 'particle hue'),
+    bandInput('highMid', 'particle size'),
+    bandInput('treble', 'particle size')
+  ],
+  effect: ParticleEffect
+};
@@ -0,0 +1,309 @@
+import { AudioFrame, VisualEffect } from '../VisualEffect';
+import { bandInput } from '../EffectParameters';
+import type { EffectPlugin } from '../EffectRegistry';
+import { Point3D, ThreeDObject } from '../../../types/visual';
+import { Camera, MESH_TYPES, MeshType, SceneLights, createSceneObject, drawScene, projectScene } from '../Scene3D';
+
+// Meshes arranged in a ring, grid or cloud, seen through an orbiting, flying or fixed
+// camera and lit by a directional light and a point light that follow the audio.
+// Rotations and the camera path are worked out from the song time, with the audio
+// nudging them from there, so a moment looks the same however playback reached it.
+
+interface SpinningObject {
+  object: ThreeDObject;
+  phase: Point3D; // rotation at the start of the song
+  spin: Point3D; // radians per second at rotation speed 1
+}
+
+const SCENE_RADIUS = 320;
+const BASE_SIZE = 90;
+const BEAT_DECAY = 6; // per second
+const SPIN_BOOST = 0.4; // seconds of spin the highs turn objects ahead by, at full level
+const CAMERA_BOOST = 0.6; // seconds of orbit the low mids move the camera ahead by
+
+export class ThreeDEffect extends VisualEffect {
+  private objects: SpinningObject[] = [];
+  private layoutKey = '';
+  private cameraAngle = 0;
+  private beatLevel = 0;
+  private lastBeat: { time: number; intensity: number } | null = null;
+
+  render(time: number, audio: AudioFrame): void {
+    const bands = audio.bands;
+    const beat = audio.beat;
+    // The last beat fades out by its age; a seek back before it forgets it
+    if (this.lastBeat && this.lastBeat.time > time) {
+      this.lastBeat = null;
+    }
+    if (beat.isBeat) {
+      this.lastBeat = { time, intensity: Math.min(1, beat.intensity) };
+    }
+    this.beatLevel = this.lastBeat ? this.lastBeat.intensity * Math.exp(-(time - this.lastBeat.time) * BEAT_DECAY) : 0;
+
+    this.clear(!this.parameters.trails);
+    this.syncObjects();
+
+    // Objects spin faster with the highs and swell with the bass and beats
+    const rotationSpeed = this.parameters.rotationSpeed ?? 1;
+    const spinTime = time + (bands.treble + bands.highMid) * SPIN_BOOST;
+    const size = BASE_SIZE * (this.parameters.scale ?? 1) * (1 + bands.bass * 0.5 + this.beatLevel * 0.3);
+    const color = this.parameters.color || '#ff9f43';
+    this.objects.forEach(({ object, phase, spin }) => {
+      object.rotation = {
+        x: phase.x + spin.x * rotationSpeed * spinTime,
+        y: phase.y + spin.y * rotationSpeed * spinTime,
+        z: phase.z + spin.z * rotationSpeed * spinTime
+      };
+      object.scale = { x: size, y: size, z: size };
+      object.color = color;
+    });
+
+    this.cameraAngle = (time + bands.lowMid * CAMERA_BOOST) * (this.parameters.cameraSpeed ?? 0.5) * 0.4;
+    const lights = this.parameters.lighting === false ? null : this.getLights(time, bands.mid, bands.bass);
+
+    const faces = projectScene(this.objects.map(item => item.object), this.getCamera(), lights, this.width, this.height);
+    drawScene(this.ctx, faces, this.parameters.wireframe ? this.parameters.lightColor || '#ffffff' : null);
+  }
+
+  // Rebuilds the scene when the object type, count or arrangement changes
+  private syncObjects(): void {
+    const type: string = this.parameters.object || 'cube';
+    const count = this.scaleDetail(Math.max(1, Math.round(this.parameters.objectCount ?? 8)));
+    const arrangement: string = this.parameters.arrangement || 'ring';
+    const key = `${type}:${count}:${arrangement}`;
+    if (key === this.layoutKey) return;
+    this.layoutKey = key;
+
+    this.objects = arrangeObjects(arrangement, count, this.random).map((position, i) => {
+      const meshType = type === 'mixed' ? MESH_TYPES[i % MESH_TYPES.length] : (type as MeshType);
+      const object = createSceneObject(meshType, position, BASE_SIZE, this.parameters.color || '#ff9f43');
+      const phase = { x: this.random() * Math.PI * 2, y: this.random() * Math.PI * 2, z: this.random() * Math.PI * 2 };
+      object.rotation = { ...phase };
+      return {
+        object,
+        phase,
+        spin: { x: (this.random() - 0.5) * 3, y: (this.random() - 0.5) * 3, z: (this.random() - 0.5) * 3 }
+      };
+    });
+  }
+
+  private getCamera(): Camera {
+    const distance = this.parameters.cameraDistance ?? 800;
+    const height = this.parameters.cameraHeight ?? 200;
+    const fov = this.parameters.fieldOfView ?? 60;
+    const angle = this.cameraAngle;
+    const center = { x: 0, y: 0, z: 0 };
+
+    switch (this.parameters.cameraMode) {
+      case 'fly': {
+        // A figure eight through the scene, looking a little ahead along the path
+        const path = (a: number): Point3D => ({
+          x: Math.sin(a) * distance * 0.6,
+          y: height * 0.5 + Math.sin(a * 2) * 60,
+          z: Math.sin(a * 2) * distance * 0.4
+        });
+        return { position: path(angle), target: path(angle + 0.35), fov };
+      }
+      case 'static':
+        return { position: { x: 0, y: height, z: distance }, target: center, fov };
+      default:
+        return { position: { x: Math.sin(angle) * distance, y: height, z: Math.cos(angle) * distance }, target: center, fov };
+    }
+  }
+
+  // The directional light follows the mids; the point light circling the center follows
+  // the bass and flashes on beats
+  private getLights(time: number, mid: number, bass: number): SceneLights {
+    return {
+      ambient: this.parameters.ambient ?? 0.25,
+      directional: [{
+        direction: { x: -0.5, y: -1, z: -0.6 },
+        color: this.parameters.lightColor || '#ffffff',
+        intensity: 0.4 + mid * 1.2
+      }],
+      points: [{
+        position: { x: Math.cos(time) * SCENE_RADIUS * 0.5, y: 120, z: Math.sin(time) * SCENE_RADIUS * 0.5 },
+        color: this.parameters.pointLightColor || '#ff6b6b',
+        intensity: bass * 2.5 + this.beatLevel,
+        range: SCENE_RADIUS * 1.25
+      }]
+    };
+  }
+}
+
+// Object positions for an arrangement, centered on the origin
+function arrangeObjects(arrangement: string, count: number, random: () => number): Point3D[] {
+  return Array.from({ length: count }, (_, i) => {
+    switch (arrangement) {
+      case 'grid': {
+        const columns = Math.ceil(Math.sqrt(count));
+        const rows = Math.ceil(count / columns);
+        const spacing = (SCENE_RADIUS * 2) / columns;
+        return {
+          x: ((i % columns) - (columns - 1) / 2) * spacing,
+          y: 0,
+          z: (Math.floor(i / columns) - (rows - 1) / 2) * spacing
+        };
+      }
+      case 'cloud': {
+        // Spread evenly over a sphere, at varying distances so objects don't line up
+        const y = count > 1 ? 1 - (2 * i) / (count - 1) : 0;
+        const ring = Math.sqrt(1 - y * y);
+        const angle = i * Math.PI * (3 - Math.sqrt(5));
+        const distance = SCENE_RADIUS * (0.6 + random() * 0.4);
+        return { x: Math.cos(angle) * ring * distance, y: y * distance, z: Math.sin(angle) * ring * distance };
+      }
+      default: {
+        const angle = (i / count) * Math.PI * 2;
+        return { x: Math.cos(angle) * SCENE_RADIUS, y: Math.sin(angle * 2) * 40, z: Math.sin(angle) * SCENE_RADIUS };
+      }
+    }
+  });
+}
+
+export const threeDPlugin: EffectPlugin = {
+  metadata: {
+    name: '3d',
+    label: '3D',
+    category: '3D',
+    icon: '🧊',
+    description: 'Lit 3D meshes seen through an orbiting or flying camera'
+  },
+  parameters: [
+    {
+      name: 'object',
+      type: 'select',
+      options: ['cube', 'sphere', 'cylinder', 'torus', 'pyramid', 'mixed'],
+      defaultValue: 'cube',
+      description: '3D object type'
+    },
+    {
+      name: 'objectCount',
+      type: 'number',
+      min: 1,
+      max: 24,
+      step: 1,
+      defaultValue: 8,
+      description: 'Number of objects'
+    },
+    {
+      name: 'arrangement',
+      type: 'select',
+      options: ['ring', 'grid', 'cloud'],
+      defaultValue: 'ring',
+      description: 'Object layout'
+    },
+    {
+      name: 'color',
+      type: 'color',
+      defaultValue: '#ff9f43',
+      description: 'Object color'
+    },
+    {
+      name: 'rotationSpeed',
+      type: 'number',
+      min: 0.1,
+      max: 5,
+      step: 0.1,
+      defaultValue: 1,
+      description: 'Rotation speed'
+    },
+    {
+      name: 'scale',
+      type: 'number',
+      min: 0.1,
+      max: 3,
+      step: 0.1,
+      defaultValue: 1,
+      description: 'Object scale'
+    },
+    {
+      name: 'wireframe',
+      type: 'boolean',
+      defaultValue: false,
+      description: 'Outline faces'
+    },
+    {
+      name: 'cameraMode',
+      type: 'select',
+      options: ['orbit', 'fly', 'static'],
+      defaultValue: 'orbit',
+      description: 'Camera path'
+    },
+    {
+      name: 'cameraSpeed',
+      type: 'number',
+      min: 0,
+      max: 3,
+      step: 0.1,
+      defaultValue: 0.5,
+      description: 'Camera speed'
+    },
+    {
+      name: 'cameraDistance',
+      type: 'number',
+      min: 300,
+      max: 1500,
+      step: 50,
+      defaultValue: 800,
+      description: 'Camera distance'
+    },
+    {
+      name: 'cameraHeight',
+      type: 'number',
+      min: -600,
+      max: 600,
+      step: 50,
+      defaultValue: 200,
+      description: 'Camera height'
+    },
+    {
+      name: 'fieldOfView',
+      type: 'number',
+      min: 30,
+      max: 110,
+      step: 5,
+      defaultValue: 60,
+      description: 'Field of view (degrees)'
+    },
+    {
+      name: 'lighting',
+      type: 'boolean',
+      defaultValue: true,
+      description: 'Enable lighting'
+    },
+    {
+      name: 'ambient',
+      type: 'number',
+      min: 0,
+      max: 1,
+      step: 0.05,
+      defaultValue: 0.25,
+      description: 'Ambient light'
+    },
+    {
+      name: 'lightColor',
+      type: 'color',
+      defaultValue: '#ffffff',
+      description: 'Directional light color'
+    },
+    {
+      name: 'pointLightColor',
+      type: 'color',
+      defaultValue: '#ff6b6b',
+      description: 'Point light color'
+    },
+    {
+      name: 'trails',
+      type: 'boolean',
+      defaultValue: false,
+      description: 'Motion trails'
+    },
+    bandInput('bass', 'object size and the point light'),
+    bandInput('lowMid', 'camera speed'),
+    bandInput('mid', 'the directional light'),
+    bandInput('highMid', 'spin'),
+    bandInput('treble', 'spin')
+  ],
+  effect: ThreeDEffect
+};
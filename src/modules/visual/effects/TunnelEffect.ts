@@ -0,0 +1,108 @@
+import { bandInput } from '../EffectParameters';
+import { ShaderFallback, defineShaderEffect } from '../ShaderEffect';
+
+const TUNNEL_SHADER = `
+void main() {
+  vec2 p = (v_uv - 0.5) * u_resolution / min(u_resolution.x, u_resolution.y);
+  float radius = max(length(p), 0.001);
+  float angle = atan(p.y, p.x);
+
+  // Depth grows towards the center; the bass pushes the camera forward
+  float depth = 0.4 / radius + u_time * u_speed * (1.0 + u_bass);
+  float rings = 0.5 + 0.5 * sin(depth * u_rings);
+  float segments = 0.5 + 0.5 * sin(angle * u_segments + u_time * u_speed);
+
+  // The spectrum wraps around the walls, low frequencies at the bottom
+  float spectrum = texture(u_fft, vec2(abs(angle) / 3.14159, 0.5)).r;
+
+  vec3 color = mix(u_color1, u_color2, rings * mix(1.0, segments, step(0.5, u_segments)));
+  color += u_color2 * spectrum * u_glow * (0.5 + u_treble);
+  color *= smoothstep(0.0, 0.35, radius) * (1.0 + u_beat * 0.8);
+  fragColor = vec4(color, 1.0);
+}
+`;
+
+// Concentric rings moving outwards, for browsers without WebGL2
+const drawTunnelFallback: ShaderFallback = (ctx, width, height, audio, parameters) => {
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const maxRadius = Math.hypot(centerX, centerY);
+  const rings = Math.max(1, Math.round(parameters.rings || 8));
+  const offset = (audio.time * (parameters.speed || 1) * 0.25) % 1;
+  const boost = 1 + audio.bands.bass;
+
+  ctx.lineWidth = 4 + audio.bands.mid * 12;
+  for (let i = 0; i < rings; i++) {
+    const t = (i + offset) / rings;
+    ctx.strokeStyle = i % 2 === 0 ? parameters.color2 || '#4ecdc4' : parameters.color1 || '#1a0533';
+    ctx.globalAlpha = Math.min(1, t * 1.5 * boost);
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, t * t * maxRadius, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+  ctx.globalAlpha = 1;
+};
+
+export const tunnelPlugin = defineShaderEffect({
+  metadata: {
+    name: 'tunnel',
+    label: 'Tunnel',
+    category: 'Shaders',
+    icon: '🌀',
+    description: 'GPU shader tunnel with the spectrum on its walls'
+  },
+  parameters: [
+    {
+      name: 'speed',
+      type: 'number',
+      min: 0.1,
+      max: 5,
+      step: 0.1,
+      defaultValue: 1,
+      description: 'Flight speed'
+    },
+    {
+      name: 'rings',
+      type: 'number',
+      min: 2,
+      max: 30,
+      step: 1,
+      defaultValue: 10,
+      description: 'Ring density'
+    },
+    {
+      name: 'segments',
+      type: 'number',
+      min: 0,
+      max: 16,
+      step: 1,
+      defaultValue: 6,
+      description: 'Wall segments (0 for plain rings)'
+    },
+    {
+      name: 'color1',
+      type: 'color',
+      defaultValue: '#1a0533',
+      description: 'Wall color'
+    },
+    {
+      name: 'color2',
+      type: 'color',
+      defaultValue: '#4ecdc4',
+      description: 'Ring and glow color'
+    },
+    {
+      name: 'glow',
+      type: 'number',
+      min: 0,
+      max: 2,
+      step: 0.1,
+      defaultValue: 0.6,
+      description: 'Spectrum glow'
+    },
+    bandInput('bass', 'flight speed'),
+    bandInput('treble', 'glow')
+  ],
+  fragmentShader: TUNNEL_SHADER,
+  fallback: drawTunnelFallback
+});
@@ -0,0 +1,246 @@
+import { AudioFrame, VisualEffect } from '../VisualEffect';
+import type { EffectPlugin } from '../EffectRegistry';
+
+export class WaveformEffect extends VisualEffect {
+  render(_time: number, audio: AudioFrame): void {
+    this.clear();
+    
+    const waveformData = audio.waveform;
+    const bands = audio.bands;
+    const beat = audio.beat;
+    
+    // Get parameters; the chosen band (if any) boosts the intensity
+    const intensityBand = this.parameters.intensityBand;
+    const bandBoost = typeof intensityBand === 'string' ? audio.analyzer.getBandValue(intensityBand) : 0;
+    const intensity = (this.parameters.intensity || 50) / 100 * (1 + bandBoost);
+    const color = this.parameters.color || '#4ecdc4';
+    const lineWidth = this.parameters.lineWidth || 2;
+    const glow = this.parameters.glow !== undefined ? this.parameters.glow : true;
+    const style = this.parameters.style || 'line';
+    
+    // Set color - use parameter color with dynamic adjustments
+    if (color) {
+      this.ctx.strokeStyle = color;
+      this.ctx.fillStyle = color;
+    } else {
+      // Fallback to dynamic color
+      const hue = 180 + bands.bass * 60 - bands.treble * 30;
+      const saturation = 50 + bands.mid * 50;
+      const lightness = 40 + bands.highMid * 30;
+      this.ctx.strokeStyle = `hsl(${hue}, ${saturation}%, ${lightness}%)`;
+      this.ctx.fillStyle = this.ctx.strokeStyle;
+    }
+    
+    // Dynamic line width based on beat and parameters
+    const beatMultiplier = (beat.isBeat ? 10 : 0) * beat.intensity;
+    this.ctx.lineWidth = lineWidth + beatMultiplier * intensity;
+    
+    // Draw based on style
+    if (style === 'bars') {
+      this.renderBars(waveformData, intensity);
+    } else if (style === 'filled') {
+      this.renderFilled(waveformData, intensity);
+    } else {
+      this.renderLine(waveformData, intensity);
+    }
+    
+    // Add glow effect
+    if (glow && beat.isBeat && this.quality.glow) {
+      this.ctx.shadowBlur = 20 * beat.intensity * intensity;
+      this.ctx.shadowColor = this.ctx.strokeStyle as string;
+      if (style === 'bars') {
+        this.renderBars(waveformData, intensity);
+      } else if (style === 'filled') {
+        this.renderFilled(waveformData, intensity);
+      } else {
+        this.renderLine(waveformData, intensity);
+      }
+      this.ctx.shadowBlur = 0;
+    }
+    
+    // Draw progress bar if enabled
+    if (this.parameters.showProgressBar) {
+      this.renderProgressBar();
+    }
+  }
+
+  private renderLine(waveformData: Float32Array, intensity: number): void {
+    this.ctx.beginPath();
+    const sliceWidth = this.width / waveformData.length;
+    const waveformPosition = this.parameters.waveformPosition || 50;
+    const centerY = this.height * (waveformPosition / 100);
+    let x = 0;
+    
+    for (let i = 0; i < waveformData.length; i++) {
+      const y = centerY + ((waveformData[i] || 0) * this.height / 4 * intensity);
+      
+      if (i === 0) {
+        this.ctx.moveTo(x, y);
+      } else {
+        this.ctx.lineTo(x, y);
+      }
+      
+      x += sliceWidth;
+    }
+    
+    this.ctx.stroke();
+  }
+
+  private renderBars(waveformData: Float32Array, intensity: number): void {
+    const barWidth = this.width / waveformData.length;
+    const waveformPosition = this.parameters.waveformPosition || 50;
+    const centerY = this.height * (waveformPosition / 100);
+    
+    for (let i = 0; i < waveformData.length; i++) {
+      const barHeight = Math.abs(waveformData[i] || 0) * this.height / 2 * intensity;
+      const x = i * barWidth;
+      const y = centerY - barHeight / 2;
+      
+      this.ctx.fillRect(x, y, barWidth - 1, barHeight);
+    }
+  }
+
+  private renderFilled(waveformData: Float32Array, intensity: number): void {
+    this.ctx.beginPath();
+    const sliceWidth = this.width / waveformData.length;
+    const waveformPosition = this.parameters.waveformPosition || 50;
+    const centerY = this.height * (waveformPosition / 100);
+    let x = 0;
+    
+    // Start from center
+    this.ctx.moveTo(0, centerY);
+    
+    for (let i = 0; i < waveformData.length; i++) {
+      const y = centerY + ((waveformData[i] || 0) * this.height / 4 * intensity);
+      this.ctx.lineTo(x, y);
+      x += sliceWidth;
+    }
+    
+    // Close the path
+    this.ctx.lineTo(this.width, centerY);
+    this.ctx.closePath();
+    this.ctx.fill();
+  }
+
+  private renderProgressBar(): void {
+    const progress = this.engine.getAudioProgress();
+    const progressBarHeight = 4;
+    const progressBarPosition = this.parameters.progressBarPosition || 50;
+    const progressBarY = this.height - progressBarPosition;
+    
+    // Background line
+    this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.2)';
+    this.ctx.lineWidth = progressBarHeight;
+    this.ctx.lineCap = 'round';
+    this.ctx.beginPath();
+    this.ctx.moveTo(50, progressBarY);
+    this.ctx.lineTo(this.width - 50, progressBarY);
+    this.ctx.stroke();
+    
+    // Progress line
+    if (progress > 0) {
+      const progressWidth = (this.width - 100) * progress;
+      this.ctx.strokeStyle = this.parameters.color || '#4ecdc4';
+      this.ctx.lineWidth = progressBarHeight;
+      this.ctx.lineCap = 'round';
+      this.ctx.beginPath();
+      this.ctx.moveTo(50, progressBarY);
+      this.ctx.lineTo(50 + progressWidth, progressBarY);
+      this.ctx.stroke();
+      
+      // Progress indicator dot (if enabled)
+      if (this.parameters.showProgressIndicator) {
+        this.ctx.fillStyle = this.parameters.color || '#4ecdc4';
+        this.ctx.beginPath();
+        this.ctx.arc(50 + progressWidth, progressBarY, progressBarHeight * 2, 0, Math.PI * 2);
+        this.ctx.fill();
+      }
+    }
+  }
+}
+
+export const waveformPlugin: EffectPlugin = {
+  metadata: {
+    name: 'waveform',
+    label: 'Waveform',
+    category: 'Audio',
+    icon: '〰️',
+    description: 'Oscilloscope line, bars or filled wave'
+  },
+  parameters: [
+    {
+      name: 'intensity',
+      type: 'number',
+      min: 0,
+      max: 100,
+      step: 1,
+      defaultValue: 50,
+      description: 'Waveform intensity'
+    },
+    {
+      name: 'color',
+      type: 'color',
+      defaultValue: '#00ffff',
+      description: 'Primary color'
+    },
+    {
+      name: 'lineWidth',
+      type: 'number',
+      min: 1,
+      max: 20,
+      step: 1,
+      defaultValue: 3,
+      description: 'Line thickness'
+    },
+    {
+      name: 'glow',
+      type: 'boolean',
+      defaultValue: true,
+      description: 'Enable glow effect'
+    },
+    {
+      name: 'style',
+      type: 'select',
+      options: ['line', 'bars', 'filled'],
+      defaultValue: 'line',
+      description: 'Waveform style'
+    },
+    {
+      name: 'showProgressBar',
+      type: 'boolean',
+      defaultValue: true,
+      description: 'Show progress bar'
+    },
+    {
+      name: 'showProgressIndicator',
+      type: 'boolean',
+      defaultValue: true,
+      description: 'Show progress indicator dot'
+    },
+    {
+      name: 'progressBarPosition',
+      type: 'number',
+      min: 20,
+      max: 1800,
+      step: 10,
+      defaultValue: 50,
+      description: 'Progress bar position from bottom (px)'
+    },
+    {
+      name: 'waveformPosition',
+      type: 'number',
+      min: 20,
+      max: 80,
+      step: 1,
+      defaultValue: 50,
+      description: 'Waveform vertical position (%)'
+    },
+    {
+      name: 'intensityBand',
+      type: 'band',
+      defaultValue: 'none',
+      description: 'Band that boosts the waveform intensity'
+    }
+  ],
+  effect: WaveformEffect
+};
@@ -1,8 +1,19 @@
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { AudioContextManager } from '../modules/audio/AudioContext';
-import { VisualEngine } from '../modules/visual/VisualEngine';
+import { AudioContextManager, AudioMixSettings } from '../modules/audio/AudioContext';
+import { AudioFeatureTimeline } from '../modules/audio/AudioFeatureTimeline';
+import { frequencyBandManager } from '../modules/audio/FrequencyBands';
+import { VisualEngine, CompositionMode } from '../modules/visual/VisualEngine';
+import { WorkerVisualEngine } from '../modules/visual/WorkerVisualEngine';
+import { createRenderWorker, supportsWorkerRendering } from '../modules/visual/RenderSurface';
+import { BlendLayer } from '../modules/visual/EffectBlending';
 import { effectParameterManager } from '../modules/visual/EffectParameters';
+import { ModulationBinding } from '../modules/visual/ParameterModulation';
+import { QualityLevel } from '../modules/visual/QualityGovernor';
+import { AutomationLane } from '../modules/visual/ParameterAutomation';
+import { Project, createProject, loadSavedProject, saveProject } from '../modules/project/Project';
+import { getBundleFileName, saveProjectBundle } from '../modules/project/ProjectBundle';
+import { AUTOSAVE_INTERVAL_MS, StoredHistory, captureThumbnail, getProjectName, projectStorage } from '../modules/project/ProjectStorage';
 import { ParameterControls } from '../components/ParameterControls';
 import { TextOverlayControls } from '../components/TextOverlayControls';
 import { Timeline } from '../components/Timeline';
@@ -10,26 +21,38 @@ import { PresetManager } from '../components/PresetManager';
 import { TransitionControls } from '../components/TransitionControls';
 import { HelpSystem } from '../components/HelpSystem';
 import { HistoryPanel } from '../components/HistoryPanel';
-import { TransitionEngine } from '../modules/visual/TransitionEngine';
+import { LayerStackPanel } from '../components/LayerStackPanel';
+import { AudioMixControls } from '../components/AudioMixControls';
+import { FrequencyBandControls } from '../components/FrequencyBandControls';
+import { EffectPluginLoader } from '../components/EffectPluginLoader';
+import { Transition } from '../modules/visual/TransitionEngine';
+import { EffectClip, createEffectClip } from '../modules/visual/EffectTimeline';
+import { OUTPUT_RESOLUTIONS, ASPECT_RATIO_LABELS, getAspectRatio } from '../modules/visual/OutputResolution';
 import { useKeyboardShortcuts, createPlaybackShortcuts, createEffectShortcuts, createEditingShortcuts, createViewShortcuts, createGeneralShortcuts } from '../hooks/useKeyboardShortcuts';
 import { useAppUndoRedo, actionDescriptions } from '../hooks/useUndoRedo';
-import { TextOverlay } from '../types/visual';
+import { useEffectRegistry } from '../hooks/useEffectRegistry';
+import { TextOverlay, AspectRatio } from '../types/visual';
 
 export function EditorScreen() {
   const navigate = useNavigate();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const visualEngineRef = useRef<VisualEngine | null>(null);
-  const transitionEngineRef = useRef<TransitionEngine | null>(null);
   
   // Core state
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentEffect, setCurrentEffect] = useState('waveform');
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  // Read up front so the first undo step knows the format the project opens with
+  const [outputAspect, setOutputAspect] = useState<AspectRatio>(() => {
+    const project = loadSavedProject();
+    return (project && getAspectRatio(project.outputResolution)) || '9:16';
+  });
+  const [seed, setSeed] = useState(1);
   const audioManager = AudioContextManager.getInstance();
   
   // UI state
-  const [activePanel, setActivePanel] = useState<'effects' | 'text' | 'timeline' | 'transitions'>('effects');
+  const [activePanel, setActivePanel] = useState<'effects' | 'layers' | 'text' | 'timeline' | 'transitions'>('effects');
   const [isPresetManagerOpen, setIsPresetManagerOpen] = useState(false);
   const [isHelpOpen, setIsHelpOpen] = useState(false);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
@@ -38,15 +61,36 @@ export function EditorScreen() {
   
   // Text overlays
   const [textOverlays, setTextOverlays] = useState<TextOverlay[]>([]);
+
+  // Layer composition
+  const [compositionMode, setCompositionMode] = useState<CompositionMode>('single');
+  const [layers, setLayers] = useState<BlendLayer[]>([]);
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const [effectClips, setEffectClips] = useState<EffectClip[]>([]);
+  const [audioMix, setAudioMix] = useState<AudioMixSettings>(() => audioManager.getMixSettings());
+  const [monitorVolume, setMonitorVolume] = useState(() => audioManager.getMonitorVolume());
+  const [audioFeatures, setAudioFeatures] = useState<AudioFeatureTimeline | null>(() => audioManager.getFeatureTimeline());
+  const [modulations, setModulations] = useState<ModulationBinding[]>(() => effectParameterManager.getModulations());
+  const [automationLanes, setAutomationLanes] = useState<AutomationLane[]>(() => effectParameterManager.getAutomation());
+  const [previewQuality, setPreviewQuality] = useState<QualityLevel | null>(null);
+  // Rendering the preview in a worker needs a fresh canvas each time it is switched, since
+  // a canvas handed to a worker can't be drawn on here again
+  const [workerRendering, setWorkerRendering] = useState(() => supportsWorkerRendering() && localStorage.getItem('audioVibe_workerRendering') === 'true');
+  const [previewCanvasKey, setPreviewCanvasKey] = useState(0);
+  const switchingProjectRef = useRef<Project | null>(null);
   
-  // Available effects
-  const availableEffects = ['waveform', 'particles', 'geometric', 'gradient', '3d'];
+  // Available effects, including loaded plugins
+  const effectPlugins = useEffectRegistry();
+  const availableEffects = effectPlugins.map(plugin => plugin.metadata.name);
   
   // App state for undo/redo
   const initialAppState = {
     currentEffect,
     effectParameters: {},
     textOverlays: [],
+    modulations,
+    automation: automationLanes,
+    outputAspect,
     selectedItems: [],
     viewState: {
       zoom: 1,
@@ -68,9 +112,17 @@ export function EditorScreen() {
     history,
     currentIndex,
     jumpToAction,
+    restoreHistory,
     clearHistory
   } = useAppUndoRedo(initialAppState);
 
+  // Latest undo history for autosave, which runs outside render
+  const historyRef = useRef<StoredHistory | null>(null);
+  historyRef.current = {
+    actions: history.map(({ isCurrent: _isCurrent, isAccessible: _isAccessible, ...action }) => action),
+    index: currentIndex
+  };
+
   // Playback handlers (defined first to avoid hoisting issues)
   const handlePlay = () => {
     audioManager.play();
@@ -96,28 +148,80 @@ export function EditorScreen() {
     visualEngineRef.current?.setAudioPlaying(false);
   };
 
+  // Times are in seconds, like the audio clock
   const handleSeek = (time: number) => {
     const clampedTime = Math.max(0, Math.min(time, duration));
-    // audioManager.setCurrentTime(clampedTime); // This method may not exist
+    audioManager.seek(clampedTime);
     setCurrentTime(clampedTime);
   };
 
+  // Audio mix handlers
+  const handleAudioMixChange = (settings: Partial<AudioMixSettings>) => {
+    audioManager.setMixSettings(settings);
+    setAudioMix(audioManager.getMixSettings());
+  };
+
+  const handleMonitorVolumeChange = (volume: number) => {
+    audioManager.setMonitorVolume(volume);
+    setMonitorVolume(audioManager.getMonitorVolume());
+  };
+
+  // Band meters read the preview's analyser
+  const getBandLevels = useCallback(() => visualEngineRef.current?.getAnalyzer().getBandLevels() ?? [], []);
+
+  // The project document is what export and the next session read
+  const getProject = useCallback((): Project => visualEngineRef.current?.serializeProject() ?? createProject(), []);
+
+  const saveCurrentProject = useCallback(() => {
+    if (visualEngineRef.current) {
+      saveProject(visualEngineRef.current.serializeProject());
+    }
+  }, []);
+
+  const createPreviewEngine = (canvas: HTMLCanvasElement, inWorker: boolean): VisualEngine => {
+    const engine = inWorker ? new WorkerVisualEngine(canvas, createRenderWorker()) : new VisualEngine(canvas);
+    engine.setMediaClock(() => audioManager.getCurrentTime());
+    // The preview trades detail for frame rate on slow machines; export is unaffected
+    engine.addQualityListener(setPreviewQuality);
+    engine.setAdaptiveQuality(true);
+    setPreviewQuality(engine.getQuality());
+    engine.start();
+    return engine;
+  };
+
+  // Copy a freshly loaded project from the engine into the editor state
+  const syncProjectState = (engine: VisualEngine) => {
+    const project = engine.serializeProject();
+    setCurrentEffect(project.currentEffect);
+    setLayers(engine.getLayers());
+    setCompositionMode(project.compositionMode);
+    setEffectClips(project.effectClips);
+    setTextOverlays(project.textOverlays);
+    setModulations(effectParameterManager.getModulations());
+    setAutomationLanes(effectParameterManager.getAutomation());
+    setAudioMix(audioManager.getMixSettings());
+    setOutputAspect(getAspectRatio(project.outputResolution) || '9:16');
+    setSeed(project.seed);
+    setSelectedLayerId(null);
+  };
+
   // Keyboard shortcuts
   const shortcuts = [
     ...createPlaybackShortcuts(
       () => isPlaying ? handlePause() : handlePlay(),
       handlePause,
       handleStop,
-      () => handleSeek(currentTime + 5000),
-      () => handleSeek(currentTime - 5000),
-      () => {}, // toggle mute - to implement
-      () => {}, // volume up - to implement
-      () => {}  // volume down - to implement
+      () => handleSeek(currentTime + 5),
+      () => handleSeek(currentTime - 5),
+      () => handleAudioMixChange({ muted: !audioMix.muted }),
+      () => handleAudioMixChange({ volume: audioMix.volume + 0.1 }),
+      () => handleAudioMixChange({ volume: audioMix.volume - 0.1 })
     ),
     ...createEffectShortcuts(
       (effect) => handleEffectChange(effect),
       () => {}, // toggle effect - to implement
-      () => {}  // reset parameters - to implement
+      () => {}, // reset parameters - to implement
+      effectPlugins.map(plugin => plugin.metadata)
     ),
     ...createEditingShortcuts(
       () => {}, // add text - to implement
@@ -137,7 +241,7 @@ export function EditorScreen() {
       () => setTimelineVisible(!timelineVisible)
     ),
     ...createGeneralShortcuts(
-      () => {}, // save - to implement
+      () => handleSaveProjectFile(),
       () => navigate('/export'),
       () => setIsPresetManagerOpen(true),
       () => setIsHelpOpen(true),
@@ -157,27 +261,22 @@ export function EditorScreen() {
     // Set duration
     setDuration(audioManager.getDuration());
 
+    // The full-track analysis may still be running after upload
+    audioManager.analyzeFeatures()
+      .then(setAudioFeatures)
+      .catch(error => console.error('Audio feature analysis failed:', error));
+
     // Initialize visual engine
     if (canvasRef.current && !visualEngineRef.current) {
       console.log('Initializing VisualEngine...');
-      visualEngineRef.current = new VisualEngine(canvasRef.current);
-      visualEngineRef.current.start();
-      
-      // Initialize transition engine (we'll implement this in VisualEngine later)
-      // For now, comment out until we add the required properties
-      // transitionEngineRef.current = new TransitionEngine(
-      //   visualEngineRef.current.ctx,
-      //   canvasRef.current.width,
-      //   canvasRef.current.height,
-      //   visualEngineRef.current.analyzer
-      // );
-    }
+      visualEngineRef.current = createPreviewEngine(canvasRef.current, workerRendering);
 
-    // Load saved state
-    const savedEffect = localStorage.getItem('currentEffect');
-    if (savedEffect && availableEffects.includes(savedEffect)) {
-      setCurrentEffect(savedEffect);
-      visualEngineRef.current?.setEffect(savedEffect);
+      // Restore the project from the last session
+      const savedProject = loadSavedProject();
+      if (savedProject) {
+        visualEngineRef.current.loadProject(savedProject);
+      }
+      syncProjectState(visualEngineRef.current);
     }
 
     // Update time periodically
@@ -193,12 +292,99 @@ export function EditorScreen() {
     // No cleanup in development to avoid React Strict Mode issues
     return () => {
       clearInterval(timeInterval);
+      saveCurrentProject();
       if (process.env.NODE_ENV !== 'development') {
         visualEngineRef.current?.dispose();
       }
     };
   }, [navigate, isPlaying]);
 
+  // Carry the project over to an engine on the new canvas after switching render threads
+  useEffect(() => {
+    const project = switchingProjectRef.current;
+    if (!project || !canvasRef.current) return;
+
+    switchingProjectRef.current = null;
+    const engine = createPreviewEngine(canvasRef.current, workerRendering);
+    engine.loadProject(project);
+    engine.setAudioPlaying(isPlaying);
+    visualEngineRef.current = engine;
+  }, [previewCanvasKey]);
+
+  const handleWorkerRenderingChange = (enabled: boolean) => {
+    localStorage.setItem('audioVibe_workerRendering', String(enabled));
+    const engine = visualEngineRef.current;
+    if (engine) {
+      switchingProjectRef.current = engine.serializeProject();
+      engine.dispose();
+      visualEngineRef.current = null;
+    }
+    setWorkerRendering(enabled);
+    setPreviewCanvasKey(key => key + 1);
+  };
+
+  // Save whenever the document changes, and before the page goes away for anything
+  // that changes without editor state (parameter drags, band settings)
+  useEffect(() => {
+    saveCurrentProject();
+  }, [currentEffect, textOverlays, compositionMode, layers, effectClips, modulations, automationLanes, audioMix, outputAspect, seed]);
+
+  // Autosave the project, its audio, a thumbnail and the undo history to IndexedDB, so a
+  // closed or crashed page can be recovered with its track
+  const autosaveProject = useCallback(async () => {
+    const engine = visualEngineRef.current;
+    const session = projectStorage.getSession();
+    if (!engine || !session) return;
+
+    const audioFile = audioManager.getAudioFile();
+    try {
+      if (audioFile) {
+        await projectStorage.saveAudio(session.projectId, audioFile);
+      }
+      const project = engine.serializeProject();
+      const thumbnail = canvasRef.current ? await captureThumbnail(canvasRef.current) : null;
+      await projectStorage.saveProject({
+        id: session.projectId,
+        name: getProjectName(audioFile?.name),
+        project,
+        thumbnail,
+        history: historyRef.current,
+        audioName: audioFile?.name ?? null
+      });
+    } catch (error) {
+      console.error('Autosave failed:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (audioManager.getDuration() === 0) return;
+
+    // A reopened or recovered project brings its undo history back
+    const session = projectStorage.getSession() ?? projectStorage.startSession();
+    projectStorage.getProject(session.projectId)
+      .then(record => {
+        if (record?.history && Array.isArray(record.history.actions)) {
+          restoreHistory(record.history.actions as any[], record.history.index);
+        }
+      })
+      .catch(error => console.error('Failed to restore history:', error));
+
+    const interval = setInterval(autosaveProject, AUTOSAVE_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      autosaveProject();
+    };
+  }, [autosaveProject, restoreHistory]);
+
+  useEffect(() => {
+    frequencyBandManager.addListener(saveCurrentProject);
+    window.addEventListener('beforeunload', saveCurrentProject);
+    return () => {
+      frequencyBandManager.removeListener(saveCurrentProject);
+      window.removeEventListener('beforeunload', saveCurrentProject);
+    };
+  }, [saveCurrentProject]);
+
   const handlePlayPause = () => {
     if (isPlaying) {
       handlePause();
@@ -212,9 +398,6 @@ export function EditorScreen() {
     setCurrentEffect(effect);
     visualEngineRef.current?.setEffect(effect);
     
-    // Save current effect to localStorage for export
-    localStorage.setItem('currentEffect', effect);
-    
     // Save to undo/redo
     const newState = {
       ...appState,
@@ -223,6 +406,156 @@ export function EditorScreen() {
     pushState(newState, actionDescriptions.effect.switch(effect), 'effect');
   };
 
+  // Layer handlers
+  const syncLayers = (description: string) => {
+    if (!visualEngineRef.current) return;
+
+    const updatedLayers = visualEngineRef.current.getLayers();
+    const mode = visualEngineRef.current.getCompositionMode();
+    setLayers(updatedLayers);
+    setCompositionMode(mode);
+    pushState({ ...appState, compositionMode: mode, layers: updatedLayers }, description, 'effect');
+  };
+
+  const getLayerEffectName = (layerId: string) =>
+    layers.find(layer => layer.id === layerId)?.effectName || 'layer';
+
+  const handleCompositionModeChange = (mode: CompositionMode) => {
+    visualEngineRef.current?.setCompositionMode(mode);
+    syncLayers(actionDescriptions.layer.mode(mode));
+  };
+
+  const handleAddLayer = (effectName: string) => {
+    const layer = visualEngineRef.current?.addLayer(effectName);
+    if (layer) {
+      setSelectedLayerId(layer.id);
+    }
+    syncLayers(actionDescriptions.layer.add(effectName));
+  };
+
+  const handleRemoveLayer = (layerId: string) => {
+    const effectName = getLayerEffectName(layerId);
+    visualEngineRef.current?.removeLayer(layerId);
+    if (selectedLayerId === layerId) {
+      setSelectedLayerId(null);
+    }
+    syncLayers(actionDescriptions.layer.remove(effectName));
+  };
+
+  const handleUpdateLayer = (layerId: string, updates: Partial<Omit<BlendLayer, 'id'>>) => {
+    visualEngineRef.current?.updateLayer(layerId, updates);
+    syncLayers(actionDescriptions.layer.update(updates.effectName || getLayerEffectName(layerId)));
+  };
+
+  const handleMoveLayer = (layerId: string, direction: 'up' | 'down') => {
+    visualEngineRef.current?.moveLayer(layerId, direction);
+    syncLayers(actionDescriptions.layer.reorder(getLayerEffectName(layerId)));
+  };
+
+  const selectedLayer = layers.find(layer => layer.id === selectedLayerId) || null;
+
+  // Modulation handlers
+  const applyModulations = (bindings: ModulationBinding[]) => {
+    setModulations(bindings);
+    effectParameterManager.setModulations(bindings);
+  };
+
+  const handleModulationsChange = (bindings: ModulationBinding[], description: string, continuous: boolean) => {
+    setModulations(bindings);
+    // Slider drags collapse into one undo step
+    pushState({ ...appState, modulations: bindings }, description, continuous ? 'parameter' : 'effect');
+  };
+
+  // Undo and redo restore the bindings of the selected history entry
+  useEffect(() => {
+    if (Array.isArray(appState.modulations) && appState.modulations !== effectParameterManager.getModulations()) {
+      applyModulations(appState.modulations);
+    }
+  }, [appState.modulations]);
+
+  // Automation handlers
+  const applyAutomationLanes = (lanes: AutomationLane[]) => {
+    setAutomationLanes(lanes);
+    effectParameterManager.setAutomation(lanes);
+  };
+
+  const handleAutomationUpdate = (lanes: AutomationLane[]) => {
+    const keyframeCount = (list: AutomationLane[]) => list.reduce((count, lane) => count + lane.keyframes.length, 0);
+    const description = lanes.length > automationLanes.length
+      ? actionDescriptions.timeline.add('automation lane')
+      : lanes.length < automationLanes.length
+        ? actionDescriptions.timeline.delete('automation lane')
+        : keyframeCount(lanes) > keyframeCount(automationLanes)
+          ? actionDescriptions.timeline.add('keyframe')
+          : keyframeCount(lanes) < keyframeCount(automationLanes)
+            ? actionDescriptions.timeline.delete('keyframe')
+            : actionDescriptions.timeline.move('keyframe');
+    applyAutomationLanes(lanes);
+    pushState({ ...appState, automation: lanes }, description, 'timeline');
+  };
+
+  // Undo and redo restore the lanes of the selected history entry
+  useEffect(() => {
+    if (Array.isArray(appState.automation) && appState.automation !== effectParameterManager.getAutomation()) {
+      applyAutomationLanes(appState.automation);
+    }
+  }, [appState.automation]);
+
+  // Effect clip handlers
+  const applyEffectClips = (clips: EffectClip[]) => {
+    setEffectClips(clips);
+    visualEngineRef.current?.setEffectClips(clips);
+  };
+
+  const handleEffectClipsUpdate = (clips: EffectClip[]) => {
+    const description = clips.length > effectClips.length
+      ? actionDescriptions.timeline.add('effect clip')
+      : clips.length < effectClips.length
+        ? actionDescriptions.timeline.delete('effect clip')
+        : actionDescriptions.timeline.move('effect clip');
+    applyEffectClips(clips);
+    pushState({ ...appState, effectClips: clips }, description, 'timeline');
+  };
+
+  const handleAddEffectClip = (effectName: string, transition: Transition) => {
+    const startTime = currentTime * 1000;
+    const clip = createEffectClip(effectName, startTime, Math.min(duration * 1000, startTime + 5000), transition);
+    handleEffectClipsUpdate([...effectClips, clip]);
+  };
+
+  // Output format handlers
+  const applyOutputAspect = (engine: VisualEngine, aspect: AspectRatio): TextOverlay[] => {
+    setOutputAspect(aspect);
+    engine.setOutputResolution(OUTPUT_RESOLUTIONS[aspect]);
+
+    // Text overlays were repositioned for the new canvas size
+    const overlays = engine.getTextOverlays();
+    setTextOverlays(overlays);
+    return overlays;
+  };
+
+  const handleOutputAspectChange = (aspect: AspectRatio) => {
+    if (!visualEngineRef.current) return;
+
+    const overlays = applyOutputAspect(visualEngineRef.current, aspect);
+    pushState({ ...appState, outputAspect: aspect, textOverlays: overlays }, actionDescriptions.general.outputFormat(aspect), 'general');
+  };
+
+  // Undo and redo restore the output format of the selected history entry
+  useEffect(() => {
+    const engine = visualEngineRef.current;
+    const aspect = appState.outputAspect;
+    if (engine && aspect && aspect !== getAspectRatio(engine.getOutputResolution())) {
+      applyOutputAspect(engine, aspect);
+    }
+  }, [appState.outputAspect]);
+
+  // A new seed gives particles, 3D layouts and plugin effects another random look
+  const handleRerollSeed = () => {
+    if (!visualEngineRef.current) return;
+    setSeed(visualEngineRef.current.rerollSeed());
+  };
+
   // Text overlay handlers
   const handleTextOverlayUpdate = (overlays: TextOverlay[]) => {
     setTextOverlays(overlays);
@@ -235,9 +568,6 @@ export function EditorScreen() {
       });
     }
     
-    // Save to localStorage for export
-    localStorage.setItem('textOverlays', JSON.stringify(overlays));
-    
     // Save to undo/redo
     const newState = {
       ...appState,
@@ -248,94 +578,55 @@ export function EditorScreen() {
 
   // Preset handlers
   const handleLoadPreset = (preset: any) => {
-    console.log('Loading preset:', preset.name);
-    console.log('Preset data:', preset);
-    
-    // Clear the canvas first
-    if (visualEngineRef.current) {
-      visualEngineRef.current.clearCanvas();
-    }
-    
-    // Load background color first (before effect change)
-    if (preset.settings.backgroundColor) {
-      console.log('Setting background color:', preset.settings.backgroundColor);
-      localStorage.setItem('audioVibe_backgroundColor', preset.settings.backgroundColor);
-      if (visualEngineRef.current) {
-        visualEngineRef.current.setBackgroundColor(preset.settings.backgroundColor);
-      }
-    }
-    
-    // Load effect parameters BEFORE changing the effect
-    if (preset.settings.effectParameters) {
-      console.log('Loading effect parameters:', preset.settings.effectParameters);
-      // Apply parameters for ALL effects in the preset
-      Object.entries(preset.settings.effectParameters).forEach(([effectName, params]) => {
-        if (params && typeof params === 'object') {
-          console.log(`Setting parameters for ${effectName}:`, params);
-          // Set all parameters for this effect
-          effectParameterManager.setParameters(effectName, params as any);
-          
-          // Save to localStorage for export
-          localStorage.setItem(`effectParams_${effectName}`, JSON.stringify(params));
-        }
-      });
-    } else {
-      console.warn('No effect parameters found in preset');
-    }
-    
-    // Load effect AFTER parameters are set
-    if (preset.settings.currentEffect) {
-      console.log('Setting effect to:', preset.settings.currentEffect);
-      
-      // Set the effect - this will create a new effect instance that will use the parameters we just set
-      setCurrentEffect(preset.settings.currentEffect);
-      visualEngineRef.current?.setEffect(preset.settings.currentEffect);
-      
-      // Save current effect to localStorage for export
-      localStorage.setItem('currentEffect', preset.settings.currentEffect);
-      
-      // Force update the visual engine to ensure it's rendering
-      if (visualEngineRef.current) {
-        // Make sure the engine is running
-        if (!visualEngineRef.current.getIsRunning()) {
-          console.log('Visual engine not running, starting...');
-          visualEngineRef.current.start();
-        }
-        
-        // Force an immediate render to show the preset with a delay to ensure parameters are applied
-        setTimeout(() => {
-          console.log('Forcing render after preset load');
-          if (visualEngineRef.current) {
-            console.log('Visual engine current effect:', visualEngineRef.current.getCurrentEffect?.()?.constructor.name);
-            console.log('Visual engine is running:', visualEngineRef.current.getIsRunning());
-            visualEngineRef.current.clearCanvas();
-            visualEngineRef.current.forceRender();
-          }
-        }, 200);
-      }
-    }
-    
-    // Load text overlays
-    if (preset.settings.textOverlays) {
-      console.log('Loading text overlays:', preset.settings.textOverlays);
-      handleTextOverlayUpdate(preset.settings.textOverlays);
+    const engine = visualEngineRef.current;
+    if (!engine) return;
+
+    engine.clearCanvas();
+    engine.loadProject(preset.settings);
+    syncProjectState(engine);
+
+    if (!engine.getIsRunning()) {
+      engine.start();
     }
-    
-    // Save to undo/redo
-    pushState(appState, actionDescriptions.general.loadPreset(preset.name), 'general');
+    // Show the preset right away, even while paused
+    setTimeout(() => {
+      visualEngineRef.current?.clearCanvas();
+      visualEngineRef.current?.forceRender();
+    }, 200);
+
+    pushState({
+      ...appState,
+      currentEffect: engine.serializeProject().currentEffect,
+      modulations: effectParameterManager.getModulations(),
+      automation: effectParameterManager.getAutomation()
+    }, actionDescriptions.general.loadPreset(preset.name), 'general');
   };
 
   const handleExport = () => {
-    // Save current state before export
-    const currentState = {
-      currentEffect,
-      effectParameters: {}, // Will implement parameter loading later
-      textOverlays
-    };
-    localStorage.setItem('exportState', JSON.stringify(currentState));
-    
+    saveCurrentProject();
     navigate('/export');
   };
+
+  // Download the project with its audio as a bundle that can be opened on any machine
+  const handleSaveProjectFile = async () => {
+    if (!visualEngineRef.current) return;
+
+    const audioFile = audioManager.getAudioFile();
+    try {
+      const blob = await saveProjectBundle(visualEngineRef.current.serializeProject(), audioFile);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = getBundleFileName(audioFile?.name);
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to save project file:', error);
+      alert('Failed to save the project file.');
+    }
+  };
   return (
     <div className="editor-screen">
       {/* Header */}
@@ -351,9 +642,15 @@ export function EditorScreen() {
               {isPlaying ? '⏸' : '▶'}
             </button>
             <div className="time-display">
-              {Math.floor(currentTime / 60000)}:{Math.floor((currentTime % 60000) / 1000).toString().padStart(2, '0')} / 
-              {Math.floor(duration / 60000)}:{Math.floor((duration % 60000) / 1000).toString().padStart(2, '0')}
+              {Math.floor(currentTime / 60)}:{Math.floor(currentTime % 60).toString().padStart(2, '0')} / 
+              {Math.floor(duration / 60)}:{Math.floor(duration % 60).toString().padStart(2, '0')}
             </div>
+            <AudioMixControls
+              mix={audioMix}
+              monitorVolume={monitorVolume}
+              onMixChange={handleAudioMixChange}
+              onMonitorVolumeChange={handleMonitorVolumeChange}
+            />
           </div>
         </div>
         
@@ -361,6 +658,9 @@ export function EditorScreen() {
           <button onClick={() => setIsHistoryOpen(true)} className="header-btn" title="History (Ctrl+H)">
             📝 History
           </button>
+          <button onClick={handleSaveProjectFile} className="header-btn" title="Save project file (Ctrl+S)">
+            📦 Save Project
+          </button>
           <button onClick={() => setIsPresetManagerOpen(true)} className="header-btn" title="Presets (Ctrl+P)">
             💾 Presets
           </button>
@@ -384,6 +684,12 @@ export function EditorScreen() {
               >
                 🎨 Effects
               </button>
+              <button 
+                className={`tab-btn ${activePanel === 'layers' ? 'active' : ''}`}
+                onClick={() => setActivePanel('layers')}
+              >
+                🗂 Layers
+              </button>
               <button 
                 className={`tab-btn ${activePanel === 'text' ? 'active' : ''}`}
                 onClick={() => setActivePanel('text')}
@@ -401,26 +707,101 @@ export function EditorScreen() {
             <div className="panel-content">
               {activePanel === 'effects' && (
                 <div className="effects-panel">
+                  <div className="output-format">
+                    <label>Output Format</label>
+                    <select
+                      value={outputAspect}
+                      onChange={(e) => handleOutputAspectChange(e.target.value as AspectRatio)}
+                    >
+                      {(Object.keys(OUTPUT_RESOLUTIONS) as AspectRatio[]).map(aspect => (
+                        <option key={aspect} value={aspect}>
+                          {ASPECT_RATIO_LABELS[aspect]} · {OUTPUT_RESOLUTIONS[aspect].width}×{OUTPUT_RESOLUTIONS[aspect].height}
+                        </option>
+                      ))}
+                    </select>
+                    <label
+                      className="worker-rendering"
+                      title={supportsWorkerRendering()
+                        ? 'Keeps the preview smooth while you edit. Effects follow the live audio rather than the analysed track.'
+                        : 'This browser cannot render canvases in a background thread'}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={workerRendering}
+                        disabled={!supportsWorkerRendering()}
+                        onChange={(e) => handleWorkerRenderingChange(e.target.checked)}
+                      />
+                      Render preview in a background thread
+                    </label>
+                  </div>
+
+                  <div className="random-seed">
+                    <label>Random Seed</label>
+                    <div className="seed-row">
+                      <code>{seed}</code>
+                      <button
+                        className="reroll-btn"
+                        onClick={handleRerollSeed}
+                        title="Give the effects' random elements a new look. The same seed always renders the same video."
+                      >
+                        🎲 Reroll
+                      </button>
+                    </div>
+                  </div>
+
                   <h3>Visual Effects</h3>
                   <div className="effect-selector">
-                    {availableEffects.map(effect => (
+                    {effectPlugins.map(({ metadata }) => (
                       <button 
-                        key={effect}
-                        className={`effect-btn ${currentEffect === effect ? 'active' : ''}`}
-                        onClick={() => handleEffectChange(effect)}
+                        key={metadata.name}
+                        className={`effect-btn ${currentEffect === metadata.name ? 'active' : ''}`}
+                        onClick={() => handleEffectChange(metadata.name)}
+                        title={metadata.description}
                       >
-                        {effect.charAt(0).toUpperCase() + effect.slice(1)}
+                        <span className="effect-icon">{metadata.icon}</span>
+                        {metadata.label}
                       </button>
                     ))}
                   </div>
+
+                  <EffectPluginLoader />
                   
                   <ParameterControls 
                     effectName={currentEffect} 
                     visualEngine={visualEngineRef.current}
-                    onParameterChange={(paramName, value) => {
-                      console.log(`Parameter ${paramName} changed to:`, value);
-                    }}
+                    onParameterChange={saveCurrentProject}
+                    onModulationsChange={handleModulationsChange}
+                  />
+
+                  <FrequencyBandControls getLevels={getBandLevels} />
+                </div>
+              )}
+
+              {activePanel === 'layers' && (
+                <div className="layers-panel">
+                  <LayerStackPanel
+                    compositionMode={compositionMode}
+                    layers={layers}
+                    availableEffects={availableEffects}
+                    selectedLayerId={selectedLayerId}
+                    onCompositionModeChange={handleCompositionModeChange}
+                    onAddLayer={handleAddLayer}
+                    onRemoveLayer={handleRemoveLayer}
+                    onUpdateLayer={handleUpdateLayer}
+                    onMoveLayer={handleMoveLayer}
+                    onSelectLayer={setSelectedLayerId}
                   />
+
+                  {compositionMode === 'layered' && selectedLayer && (
+                    <ParameterControls
+                      key={selectedLayer.id}
+                      effectName={selectedLayer.effectName}
+                      parameterManager={visualEngineRef.current?.getLayerParameterManager(selectedLayer.id) ?? undefined}
+                      visualEngine={visualEngineRef.current}
+                      onParameterChange={saveCurrentProject}
+                      onModulationsChange={handleModulationsChange}
+                    />
+                  )}
                 </div>
               )}
 
@@ -433,10 +814,11 @@ export function EditorScreen() {
 
               {activePanel === 'transitions' && (
                 <TransitionControls
-                  transitionEngine={transitionEngineRef.current}
                   currentEffect={currentEffect}
-                  onEffectChange={handleEffectChange}
                   availableEffects={availableEffects}
+                  duration={duration * 1000}
+                  onAddEffectClip={handleAddEffectClip}
+                  onSequenceEffects={handleEffectClipsUpdate}
                 />
               )}
             </div>
@@ -447,18 +829,32 @@ export function EditorScreen() {
         <div className="editor-content">
           {/* Preview */}
           <div className="preview-section">
-            <canvas ref={canvasRef} className="preview-canvas" width="1080" height="1920" />
+            <canvas key={previewCanvasKey} ref={canvasRef} className="preview-canvas" width="1080" height="1920" />
+            {previewQuality && (
+              <div
+                className={`quality-badge quality-${previewQuality.tier}`}
+                title={`Preview at ${Math.round(previewQuality.renderScale * 100)}% resolution. Preview quality adapts to the frame rate; exports always render at full quality.`}
+              >
+                Quality: {previewQuality.tier}
+              </div>
+            )}
           </div>
 
           {/* Timeline */}
           {timelineVisible && (
             <div className="timeline-section">
               <Timeline
-                duration={duration}
-                currentTime={currentTime}
-                onTimeChange={handleSeek}
+                duration={duration * 1000}
+                currentTime={currentTime * 1000}
+                onTimeChange={(time) => handleSeek(time / 1000)}
                 textOverlays={textOverlays}
                 onTextOverlayUpdate={handleTextOverlayUpdate}
+                effectClips={effectClips}
+                onEffectClipsUpdate={handleEffectClipsUpdate}
+                availableEffects={availableEffects}
+                audioFeatures={audioFeatures}
+                automationLanes={automationLanes}
+                onAutomationUpdate={handleAutomationUpdate}
               />
             </div>
           )}
@@ -469,15 +865,7 @@ export function EditorScreen() {
       <PresetManager
         isOpen={isPresetManagerOpen}
         onClose={() => setIsPresetManagerOpen(false)}
-        currentEffect={currentEffect}
-        effectParameters={{
-          waveform: effectParameterManager.getParameters('waveform'),
-          particles: effectParameterManager.getParameters('particles'),
-          geometric: effectParameterManager.getParameters('geometric'),
-          gradient: effectParameterManager.getParameters('gradient'),
-          '3d': effectParameterManager.getParameters('3d')
-        }}
-        textOverlays={textOverlays}
+        getProject={getProject}
         onLoadPreset={handleLoadPreset}
       />
 
@@ -670,6 +1058,70 @@ export function EditorScreen() {
           color: #4ecdc4;
         }
 
+        .output-format {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          margin-bottom: 20px;
+        }
+
+        .output-format label {
+          font-size: 12px;
+          color: #999;
+        }
+
+        .output-format select {
+          padding: 8px;
+          background: #2a2a2a;
+          color: white;
+          border: 1px solid #444;
+          border-radius: 4px;
+        }
+
+        .output-format .worker-rendering {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+          cursor: pointer;
+        }
+
+        .random-seed {
+          display: flex;
+          flex-direction: column;
+          gap: 6px;
+          margin-bottom: 20px;
+        }
+
+        .random-seed label {
+          font-size: 12px;
+          color: #999;
+        }
+
+        .seed-row {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: 8px;
+        }
+
+        .seed-row code {
+          color: #ccc;
+          font-size: 13px;
+        }
+
+        .reroll-btn {
+          padding: 6px 12px;
+          background: #333;
+          color: white;
+          border: 1px solid #444;
+          border-radius: 4px;
+          cursor: pointer;
+        }
+
+        .reroll-btn:hover {
+          border-color: #4ecdc4;
+        }
+
         .effect-selector {
           display: grid;
           grid-template-columns: 1fr 1fr;
@@ -688,6 +1140,10 @@ export function EditorScreen() {
           transition: all 0.2s;
         }
 
+        .effect-icon {
+          margin-right: 6px;
+        }
+
         .effect-btn:hover {
           background: #444;
         }
@@ -711,6 +1167,28 @@ export function EditorScreen() {
           justify-content: center;
           background: #000;
           padding: 20px;
+          position: relative;
+        }
+
+        .quality-badge {
+          position: absolute;
+          top: 28px;
+          right: 28px;
+          padding: 3px 8px;
+          border-radius: 4px;
+          background: rgba(0, 0, 0, 0.6);
+          color: #4ecdc4;
+          font-size: 11px;
+          text-transform: capitalize;
+        }
+
+        .quality-badge.quality-medium {
+          color: #feca57;
+        }
+
+        .quality-badge.quality-low,
+        .quality-badge.quality-minimal {
+          color: #ff6b6b;
         }
 
         .preview-canvas {
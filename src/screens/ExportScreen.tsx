@@ -2,7 +2,11 @@ import { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { VideoExporter, ExportSettings, ExportProgress } from '../modules/video/VideoExporter';
 import { VisualEngine } from '../modules/visual/VisualEngine';
+import { effectParameterManager } from '../modules/visual/EffectParameters';
 import { AudioContextManager } from '../modules/audio/AudioContext';
+import { OUTPUT_RESOLUTIONS, getAspectRatio } from '../modules/visual/OutputResolution';
+import { DEFAULT_EXPORT_SETTINGS, loadSavedProject, saveProject } from '../modules/project/Project';
+import { AspectRatio } from '../types/visual';
 
 export function ExportScreen() {
   const navigate = useNavigate();
@@ -12,11 +16,8 @@ export function ExportScreen() {
   const [exportProgress, setExportProgress] = useState<ExportProgress>({ percentage: 0, timeRemaining: 0, currentFrame: 0, totalFrames: 0 });
   const [isExporting, setIsExporting] = useState(false);
   const [exportedBlob, setExportedBlob] = useState<Blob | null>(null);
-  const [settings, setSettings] = useState<ExportSettings>({
-    format: 'webm',
-    quality: 'high',
-    fps: 30
-  });
+  const [settings, setSettings] = useState<ExportSettings>({ ...DEFAULT_EXPORT_SETTINGS });
+  const offlineSupported = VideoExporter.isOfflineRenderSupported();
   const [showDiagnostics, setShowDiagnostics] = useState(false);
   const [formatSupport, setFormatSupport] = useState<{ [key: string]: boolean }>({});
   const audioManager = AudioContextManager.getInstance();
@@ -30,55 +31,24 @@ export function ExportScreen() {
 
     // Initialize visual engine for export
     if (canvasRef.current && !visualEngineRef.current) {
-      visualEngineRef.current = new VisualEngine(canvasRef.current);
+      // Its own parameter store: the export renders the saved project, not whatever the
+      // editor's values are
+      visualEngineRef.current = new VisualEngine(canvasRef.current, {
+        parameterManager: effectParameterManager.createScope()
+      });
       
-      // Load export state from localStorage
-      const exportState = localStorage.getItem('exportState');
-      if (exportState) {
-        try {
-          const state = JSON.parse(exportState);
-          
-          // Set effect
-          if (state.currentEffect) {
-            visualEngineRef.current.setEffect(state.currentEffect);
-          }
-          
-          // Load text overlays
-          if (state.textOverlays && Array.isArray(state.textOverlays)) {
-            state.textOverlays.forEach((overlay: any) => {
-              visualEngineRef.current?.addTextOverlay(overlay);
-            });
-          }
-          
-          // Load effect parameters (if available)
-          if (state.effectParameters) {
-            // This would need parameter loading methods in VisualEngine
-            console.log('Effect parameters loaded:', state.effectParameters);
-          }
-        } catch (error) {
-          console.error('Failed to parse export state:', error);
-        }
-      } else {
-        // Fallback to individual localStorage items
-        const savedEffect = localStorage.getItem('currentEffect');
-        const savedTextOverlays = localStorage.getItem('textOverlays');
-        
-        if (savedEffect) {
-          visualEngineRef.current.setEffect(savedEffect);
-        }
-        
-        if (savedTextOverlays) {
-          try {
-            const textOverlays = JSON.parse(savedTextOverlays);
-            textOverlays.forEach((overlay: any) => {
-              visualEngineRef.current?.addTextOverlay(overlay);
-            });
-          } catch (error) {
-            console.error('Failed to parse text overlays:', error);
-          }
-        }
+      // Render the project the editor saved: effects with their parameters, modulation,
+      // automation, overlays, clips and the export options used last time
+      const project = loadSavedProject();
+      if (project) {
+        visualEngineRef.current.loadProject(project);
       }
       
+      setSettings({
+        ...visualEngineRef.current.getExportSettings(),
+        resolution: visualEngineRef.current.getOutputResolution()
+      });
+
       videoExporterRef.current = new VideoExporter(canvasRef.current, visualEngineRef.current);
       
       videoExporterRef.current.setProgressCallback((progress) => {
@@ -124,8 +94,32 @@ export function ExportScreen() {
     URL.revokeObjectURL(url);
   };
 
+  // Export options are part of the project, so they are kept for the next export
+  const updateSettings = (changes: Partial<ExportSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+
+    const engine = visualEngineRef.current;
+    if (engine) {
+      const { resolution: _resolution, ...exportSettings } = next;
+      engine.setExportSettings(exportSettings);
+      saveProject(engine.serializeProject());
+    }
+  };
+
   const handleSettingChange = (key: keyof ExportSettings, value: any) => {
-    setSettings(prev => ({ ...prev, [key]: value }));
+    updateSettings({ [key]: value });
+  };
+
+  const handleResolutionChange = (aspect: AspectRatio) => {
+    const resolution = OUTPUT_RESOLUTIONS[aspect];
+    visualEngineRef.current?.setOutputResolution(resolution);
+    updateSettings({ resolution });
+  };
+
+  const handleModeChange = (mode: 'realtime' | 'offline') => {
+    // Offline rendering muxes its own WebM file
+    updateSettings({ mode, format: mode === 'offline' ? 'webm' : settings.format });
   };
 
   return (
@@ -138,6 +132,19 @@ export function ExportScreen() {
         </div>
         
         <div className="export-settings">
+          <div className="setting-group">
+            <label>Render Mode</label>
+            <select
+              value={settings.mode}
+              onChange={(e) => handleModeChange(e.target.value as 'realtime' | 'offline')}
+            >
+              <option value="realtime">Real-time</option>
+              <option value="offline" disabled={!offlineSupported}>
+                Offline (frame-accurate){offlineSupported ? '' : ' - not supported'}
+              </option>
+            </select>
+          </div>
+
           <div className="setting-group">
             <label>Format</label>
             <select 
@@ -145,7 +152,7 @@ export function ExportScreen() {
               onChange={(e) => handleSettingChange('format', e.target.value as 'webm' | 'mp4')}
             >
               <option value="webm">WebM</option>
-              <option value="mp4">MP4</option>
+              <option value="mp4" disabled={settings.mode === 'offline'}>MP4</option>
             </select>
           </div>
           
@@ -175,8 +182,15 @@ export function ExportScreen() {
           
           <div className="setting-group">
             <label>Resolution</label>
-            <select disabled>
-              <option value="1080x1920">1080×1920 (9:16)</option>
+            <select
+              value={(settings.resolution && getAspectRatio(settings.resolution)) || '9:16'}
+              onChange={(e) => handleResolutionChange(e.target.value as AspectRatio)}
+            >
+              {(Object.keys(OUTPUT_RESOLUTIONS) as AspectRatio[]).map(aspect => (
+                <option key={aspect} value={aspect}>
+                  {OUTPUT_RESOLUTIONS[aspect].width}×{OUTPUT_RESOLUTIONS[aspect].height} ({aspect})
+                </option>
+              ))}
             </select>
           </div>
         </div>
@@ -311,10 +325,7 @@ export function ExportScreen() {
         .export-canvas {
           border: 2px solid #333;
           border-radius: 8px;
-          max-width: 400px;
-          max-height: 712px;
-          width: 100%;
-          height: auto;
+          max-width: 100%;
         }
 
         .export-settings {
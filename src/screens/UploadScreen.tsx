@@ -1,11 +1,34 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { AudioContextManager } from '../modules/audio/AudioContext';
+import { saveProject } from '../modules/project/Project';
+import { PROJECT_BUNDLE_EXTENSION, isProjectBundleFile, openProjectBundle } from '../modules/project/ProjectBundle';
+import { StoredProjectSummary, openStoredProject, projectStorage } from '../modules/project/ProjectStorage';
 
 export function UploadScreen() {
   const navigate = useNavigate();
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [recentProjects, setRecentProjects] = useState<StoredProjectSummary[]>([]);
+  const [thumbnails, setThumbnails] = useState<{ [id: string]: string }>({});
+
+  // Projects autosaved in this browser
+  useEffect(() => {
+    projectStorage.listProjects()
+      .then(setRecentProjects)
+      .catch(error => console.error('Failed to list saved projects:', error));
+  }, []);
+
+  useEffect(() => {
+    const urls: { [id: string]: string } = {};
+    recentProjects.forEach(project => {
+      if (project.thumbnail) {
+        urls[project.id] = URL.createObjectURL(project.thumbnail);
+      }
+    });
+    setThumbnails(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [recentProjects]);
 
   const handleDragEnter = (e: React.DragEvent) => {
     e.preventDefault();
@@ -35,18 +58,62 @@ export function UploadScreen() {
     }
   };
 
+  const handleProjectOpen = async (file: File) => {
+    try {
+      const { project, audioFile } = await openProjectBundle(file);
+      if (!audioFile) {
+        alert('This project file does not contain its audio.');
+        return;
+      }
+      await AudioContextManager.getInstance().loadAudioFile(audioFile);
+      // The editor restores the saved project when it opens
+      saveProject(project);
+      projectStorage.startSession();
+      navigate('/editor');
+    } catch (error) {
+      console.error('Error opening project file:', error);
+      alert(error instanceof Error ? error.message : 'Failed to open project file.');
+    }
+  };
+
   const handleFileSelect = async (file: File) => {
-    if (file.type.startsWith('audio/')) {
+    if (isProjectBundleFile(file)) {
+      await handleProjectOpen(file);
+    } else if (file.type.startsWith('audio/')) {
       try {
         const audioManager = AudioContextManager.getInstance();
         await audioManager.loadAudioFile(file);
+        projectStorage.startSession();
         navigate('/editor');
       } catch (error) {
         console.error('Error loading audio file:', error);
         alert('Failed to load audio file. Please try another file.');
       }
     } else {
-      alert('Please select an audio file');
+      alert(`Please select an audio file or a ${PROJECT_BUNDLE_EXTENSION} project`);
+    }
+  };
+
+  const handleOpenStoredProject = async (id: string) => {
+    try {
+      if (await openStoredProject(id)) {
+        navigate('/editor');
+      } else {
+        alert('This project or its audio is no longer stored.');
+      }
+    } catch (error) {
+      console.error('Error opening saved project:', error);
+      alert('Failed to open the saved project.');
+    }
+  };
+
+  const handleDeleteStoredProject = async (project: StoredProjectSummary) => {
+    if (!confirm(`Delete "${project.name}"?`)) return;
+    try {
+      await projectStorage.deleteProject(project.id);
+      setRecentProjects(prev => prev.filter(item => item.id !== project.id));
+    } catch (error) {
+      console.error('Error deleting saved project:', error);
     }
   };
 
@@ -73,18 +140,48 @@ export function UploadScreen() {
         >
           <div className="upload-icon">🎵</div>
           <p className="upload-text">
-            {isDragging ? 'Drop your audio file here' : 'Drag & drop audio file or click to browse'}
+            {isDragging ? 'Drop your audio or project file here' : 'Drag & drop audio file or click to browse'}
           </p>
           <p className="upload-hint">Supported formats: MP3, WAV, OGG, M4A</p>
+          <p className="upload-hint">or open a saved {PROJECT_BUNDLE_EXTENSION} project</p>
         </div>
         
         <input
           ref={fileInputRef}
           type="file"
-          accept="audio/*"
+          accept={`audio/*,${PROJECT_BUNDLE_EXTENSION}`}
           onChange={handleInputChange}
           style={{ display: 'none' }}
         />
+
+        {recentProjects.length > 0 && (
+          <div className="recent-projects">
+            <h2>Recent Projects</h2>
+            <div className="recent-project-list">
+              {recentProjects.map(project => (
+                <div key={project.id} className="recent-project" onClick={() => handleOpenStoredProject(project.id)}>
+                  {thumbnails[project.id]
+                    ? <img src={thumbnails[project.id]} alt="" />
+                    : <div className="recent-project-placeholder">🎵</div>}
+                  <div className="recent-project-info">
+                    <span className="recent-project-name">{project.name}</span>
+                    <span className="recent-project-date">{new Date(project.updatedAt).toLocaleString()}</span>
+                  </div>
+                  <button
+                    className="recent-project-delete"
+                    title="Delete"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDeleteStoredProject(project);
+                    }}
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
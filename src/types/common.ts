@@ -28,6 +28,7 @@ export interface ApplicationError {
 
 export interface DeviceCapabilities {
   webgl: boolean;
+  webgl2: boolean;
   mediaRecorder: boolean;
   webAudio: boolean;
   fileAPI: boolean;
@@ -74,10 +75,12 @@ export interface TimeRange {
   duration: number;
 }
 
+export type KeyframeEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'hold';
+
 export interface KeyframeData {
   time: number;
   value: any;
-  easing?: 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+  easing?: KeyframeEasing; // how the value moves on to the next keyframe
 }
 
 export interface AnimationSettings {
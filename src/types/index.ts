@@ -17,6 +17,8 @@ export type {
   ParameterDefinition,
   EffectParameter,
   EffectType,
+  AspectRatio,
+  OutputResolution,
   VisualEffectState,
   RenderingOptions,
   Point2D,
@@ -58,6 +60,7 @@ export type {
   ColorHSV,
   TimeRange,
   KeyframeData,
+  KeyframeEasing,
   AnimationSettings,
   PresetData,
   UserPreferences,
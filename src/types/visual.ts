@@ -13,7 +13,8 @@ export interface EffectParameter {
   [key: string]: any;
 }
 
-export type EffectType = 'waveform' | 'particles' | 'geometric' | 'gradient' | '3d';
+// Name of a registered effect: a built-in or one loaded from a plugin (see EffectRegistry)
+export type EffectType = string;
 
 export interface VisualEffectState {
   isActive: boolean;
@@ -24,6 +25,13 @@ export interface VisualEffectState {
   backgroundColor: string;
 }
 
+export type AspectRatio = '9:16' | '16:9' | '1:1' | '4:5';
+
+export interface OutputResolution {
+  width: number;
+  height: number;
+}
+
 export interface RenderingOptions {
   width: number;
   height: number;
@@ -127,6 +135,7 @@ export interface TextAnimation {
   delay: number;
   easing: 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
   audioReactive: boolean;
+  beatSync?: boolean; // pulse and wave follow the beat grid
 }
 
 export interface TextTiming {
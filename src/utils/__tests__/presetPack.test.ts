@@ -0,0 +1,97 @@
+import { PRESET_PACK_FORMAT, isPresetPack, presetManager } from '../presetManager';
+import { createProject } from '../../modules/project/Project';
+
+const THUMBNAIL = 'data:image/jpeg;base64,AAAA';
+
+const savePreset = (name: string, thumbnail = '') => {
+  const id = presetManager.savePreset({
+    name,
+    description: '',
+    thumbnail,
+    settings: createProject({ currentEffect: 'gradient' }),
+    tags: ['mine'],
+    version: ''
+  });
+  return presetManager.getPreset(id)!;
+};
+
+describe('preset packs', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should export a category as one pack', () => {
+    const saved = [savePreset('One'), savePreset('Two')];
+    const pack = JSON.parse(presetManager.exportCategory('user')!);
+
+    expect(isPresetPack(pack)).toBe(true);
+    expect(pack.name).toBe('My Presets');
+    expect(pack.presets.map((preset: { id: string }) => preset.id)).toEqual(saved.map(preset => preset.id));
+    expect(presetManager.exportCategory('missing')).toBeNull();
+  });
+
+  it('should export a selection in order and skip unknown ids', () => {
+    const [first, second] = [savePreset('One'), savePreset('Two')];
+    const pack = JSON.parse(presetManager.exportPresetPack([second.id, 'missing', first.id], 'Favourites')!);
+
+    expect(pack.presets.map((preset: { name: string }) => preset.name)).toEqual([second.name, first.name]);
+    expect(presetManager.exportPresetPack(['missing'], 'Empty')).toBeNull();
+  });
+
+  it('should import a pack into a new category, keeping thumbnails', () => {
+    const [first, second] = [savePreset('One', THUMBNAIL), savePreset('Two')];
+    const json = presetManager.exportPresetPack([first.id, second.id], 'Shared Pack')!;
+
+    const { ids, categoryId, reports } = presetManager.importPresets(json);
+
+    expect(ids).toHaveLength(2);
+    expect(reports.map(report => report.errors)).toEqual([[], []]);
+    const category = presetManager.getCategories().find(c => c.id === categoryId)!;
+    expect(category.name).toBe('Shared Pack');
+    expect(category.presets).toEqual(ids);
+
+    const imported = presetManager.getPresetsByCategory(categoryId!);
+    expect(imported[0].thumbnail).toBe(THUMBNAIL);
+    expect(imported[0].name).toBe(`${first.name} (Imported)`);
+    expect(imported[1].tags).toEqual(['mine']);
+  });
+
+  it('should report each preset of a pack on its own', () => {
+    const { ids, reports } = presetManager.importPresets(JSON.stringify({
+      format: PRESET_PACK_FORMAT,
+      version: 1,
+      name: 'Mixed',
+      presets: [
+        { name: 'Good', settings: { currentEffect: 'gradient' }, thumbnail: 'https://example.com/a.png' },
+        { name: 'Broken' }
+      ]
+    }));
+
+    expect(ids).toHaveLength(1);
+    expect(reports).toHaveLength(2);
+    expect(reports[0].rejected.map(issue => issue.path)).toContain('thumbnail');
+    expect(presetManager.getPreset(ids[0])!.thumbnail).toBe('');
+    expect(reports[1].errors[0]).toContain('Not a preset');
+  });
+
+  it('should refuse packs it cannot read', () => {
+    const newer = presetManager.importPresets(JSON.stringify({ format: PRESET_PACK_FORMAT, version: 2, presets: [] }));
+    expect(newer.reports[0].errors[0]).toContain('newer');
+
+    const noList = presetManager.importPresets(JSON.stringify({ format: PRESET_PACK_FORMAT, version: 1, name: 'Odd' }));
+    expect(noList.ids).toEqual([]);
+    expect(noList.categoryId).toBeNull();
+    expect(noList.reports[0].errors[0]).toContain('list of presets');
+  });
+
+  it('should import single presets through the same entry point', () => {
+    const { ids, categoryId, reports } = presetManager.importPresets(JSON.stringify({
+      name: 'Solo',
+      settings: { currentEffect: 'particles' }
+    }));
+
+    expect(ids).toHaveLength(1);
+    expect(categoryId).toBeNull();
+    expect(reports[0].presetName).toBe('Solo');
+  });
+});
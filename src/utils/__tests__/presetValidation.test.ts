@@ -0,0 +1,122 @@
+import { presetManager } from '../presetManager';
+import {
+  PRESET_VERSION,
+  compareVersions,
+  createImportReport,
+  migratePreset,
+  validateParameterValue,
+  validatePresetSettings
+} from '../presetValidation';
+import { effectParameterManager } from '../../modules/visual/EffectParameters';
+
+const definition = (name: string, effectName = 'gradient') =>
+  effectParameterManager.getParameterDefinitions(effectName).find(def => def.name === name)!;
+
+describe('presetValidation', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should compare dotted versions numerically', () => {
+    expect(compareVersions('1.10.0', '1.9.0')).toBe(1);
+    expect(compareVersions('2.0', '2.0.0')).toBe(0);
+    expect(compareVersions('1.0.0', PRESET_VERSION)).toBe(-1);
+  });
+
+  it('should migrate unversioned and 1.0.0 presets to the current version', () => {
+    const report = createImportReport();
+    const preset = migratePreset({ name: 'Old', settings: { currentEffect: 'gradient' } }, report);
+
+    expect(preset.version).toBe(PRESET_VERSION);
+    expect(preset.settings.version).toBe(1);
+    expect(report.fromVersion).toBe('1.0.0');
+    expect(report.migrations).toHaveLength(1);
+  });
+
+  it('should refuse presets from a newer or unknown version', () => {
+    expect(() => migratePreset({ version: '99.0.0', settings: {} })).toThrow('newer');
+    expect(() => migratePreset({ version: '0.5.0', settings: {} })).toThrow('Unknown preset version');
+  });
+
+  it('should check parameter values against their definitions', () => {
+    expect(validateParameterValue(definition('speed'), 2)).toEqual({ value: 2 });
+    expect(validateParameterValue(definition('speed'), 50)).toMatchObject({ value: 5 });
+    expect(validateParameterValue(definition('speed'), 'fast')).toMatchObject({ value: 1, problem: expect.stringContaining('number') });
+    expect(validateParameterValue(definition('direction'), 'sideways').value).toBe(definition('direction').defaultValue);
+    expect(validateParameterValue(definition('style', 'waveform'), 'bars')).toEqual({ value: 'bars' });
+  });
+
+  it('should repair or drop invalid settings and report each change', () => {
+    const report = createImportReport();
+    const project = validatePresetSettings({
+      currentEffect: 'gradient',
+      effectParameters: {
+        gradient: { speed: 12, direction: 'radial', sparkle: true },
+        plasma: { speed: 1 }
+      },
+      textOverlays: [{ text: 'Hello', fontSize: -4, animation: { type: 'spin' } }, { fontSize: 12 }],
+      layers: [{ id: 'a', effectName: 'plasma', blendMode: 'normal', opacity: 1, order: 0 }]
+    }, report);
+
+    expect(project.effectParameters.gradient).toEqual({ speed: 5, direction: 'radial' });
+    expect(project.effectParameters.plasma).toBeUndefined();
+    expect(project.textOverlays).toHaveLength(1);
+    expect(project.textOverlays[0].fontSize).toBe(48);
+    expect(project.textOverlays[0].animation.type).toBe('fade');
+    expect(project.textOverlays[0].timing).toBeDefined();
+    expect(project.layers).toEqual([]);
+
+    const paths = (issues: { path: string }[]) => issues.map(issue => issue.path);
+    expect(paths(report.fixed)).toEqual(expect.arrayContaining([
+      'effectParameters.gradient.speed',
+      'textOverlays[0].fontSize',
+      'textOverlays[0].animation.type',
+      'textOverlays[0].timing'
+    ]));
+    expect(paths(report.rejected)).toEqual(expect.arrayContaining([
+      'effectParameters.gradient.sparkle',
+      'effectParameters.plasma',
+      'textOverlays[1]',
+      'layers[0]'
+    ]));
+  });
+
+  it('should check layer parameters against the layer effect', () => {
+    const report = createImportReport();
+    const project = validatePresetSettings({
+      layers: [{ id: 'top', effectName: 'particles', blendMode: 'screen', opacity: 1, enabled: true, order: 0 }],
+      layerParameters: { top: { speed: 99, glow: 1 }, missing: { speed: 1 } }
+    }, report);
+
+    expect(project.layerParameters).toEqual({ top: { speed: definition('speed', 'particles').max } });
+    expect(report.fixed.map(issue => issue.path)).toContain('layerParameters.top.speed');
+    expect(report.rejected.map(issue => issue.path)).toEqual(expect.arrayContaining([
+      'layerParameters.top.glow',
+      'layerParameters.missing'
+    ]));
+  });
+
+  it('should import through the preset manager with a report', () => {
+    const { id, report } = presetManager.importPreset(JSON.stringify({
+      name: 'Shared',
+      description: 'From a friend',
+      version: '1.0.0',
+      settings: { currentEffect: 'nebula', effectParameters: {}, textOverlays: [] },
+      tags: ['shared']
+    }));
+
+    expect(id).not.toBeNull();
+    expect(report.presetName).toBe('Shared');
+    expect(report.fixed.map(issue => issue.path)).toContain('currentEffect');
+
+    const preset = presetManager.getPreset(id!)!;
+    expect(preset.version).toBe(PRESET_VERSION);
+    expect(preset.settings.currentEffect).toBe('waveform');
+  });
+
+  it('should report presets that cannot be imported', () => {
+    expect(presetManager.importPreset('{not json').report.errors[0]).toContain('Not valid JSON');
+    expect(presetManager.importPreset('[1, 2]').id).toBeNull();
+    expect(presetManager.importPreset(JSON.stringify({ version: '9.0.0', settings: {} })).report.errors[0]).toContain('newer');
+  });
+});
@@ -172,9 +172,12 @@ export function throttle<T extends (...args: any[]) => any>(
 export function getDeviceCapabilities() {
   const canvas = document.createElement('canvas');
   const gl = canvas.getContext('webgl') || canvas.getContext('experimental-webgl') as WebGLRenderingContext | null;
+  // Shader effects need WebGL2 and fall back to 2D drawing without it
+  const gl2 = document.createElement('canvas').getContext('webgl2');
   
   const capabilities = {
     webgl: !!gl,
+    webgl2: !!gl2,
     audioContext: !!(window.AudioContext || (window as any).webkitAudioContext),
     mediaRecorder: !!window.MediaRecorder,
     requestAnimationFrame: !!window.requestAnimationFrame,
@@ -185,10 +188,10 @@ export function getDeviceCapabilities() {
   };
 
   // Clean up
-  if (gl) {
-    const ext = gl.getExtension('WEBGL_lose_context');
+  [gl, gl2].forEach(context => {
+    const ext = context?.getExtension('WEBGL_lose_context');
     if (ext) ext.loseContext();
-  }
+  });
 
   return capabilities;
 }
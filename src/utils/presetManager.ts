@@ -1,4 +1,31 @@
-import { TextOverlay, EffectParameter } from '../types/visual';
+import { Project, createProject, loadSavedProject, normalizeProject, saveProject, PROJECT_STORAGE_KEY } from '../modules/project/Project';
+import { PRESET_VERSION, PresetImportReport, createImportReport, migratePreset, validatePresetSettings } from './presetValidation';
+
+export interface PresetImportResult {
+  id: string | null;
+  report: PresetImportReport;
+}
+
+// Several presets in one file, e.g. a whole category
+export interface PresetPack {
+  format: typeof PRESET_PACK_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: number;
+  presets: ProjectPreset[];
+}
+
+export interface PresetPackImportResult {
+  ids: string[];
+  categoryId: string | null; // the category created for the pack
+  reports: PresetImportReport[]; // one per preset, or a single one when the file is unreadable
+}
+
+export const PRESET_PACK_FORMAT = 'audiovibe-preset-pack';
+export const PRESET_PACK_VERSION = 1;
+
+export const isPresetPack = (data: any): boolean =>
+  typeof data === 'object' && data !== null && data.format === PRESET_PACK_FORMAT;
 
 export interface ProjectPreset {
   id: string;
@@ -7,21 +34,7 @@ export interface ProjectPreset {
   createdAt: number;
   updatedAt: number;
   thumbnail?: string;
-  settings: {
-    currentEffect: string;
-    effectParameters: { [effectName: string]: EffectParameter };
-    textOverlays: TextOverlay[];
-    backgroundColor?: string;
-    audioSettings?: {
-      volume: number;
-      playbackRate: number;
-    };
-    exportSettings?: {
-      quality: 'low' | 'medium' | 'high';
-      format: 'webm' | 'mp4';
-      fps: number;
-    };
-  };
+  settings: Project;
   tags: string[];
   version: string;
 }
@@ -36,15 +49,16 @@ export interface PresetCategory {
 class PresetManager {
   private readonly storageKey = 'audiovibe-presets';
   private readonly categoriesKey = 'audiovibe-preset-categories';
-  private readonly version = '1.0.0';
+  private readonly version = PRESET_VERSION;
 
   // Built-in preset templates
+  // Templates list only what they change; createProject fills in the rest
   private readonly builtInPresets: Omit<ProjectPreset, 'id' | 'createdAt' | 'updatedAt'>[] = [
     {
       name: 'Energetic Beat Visualization',
       description: 'High-energy particles with beat-reactive text for electronic music',
       thumbnail: '',
-      settings: {
+      settings: createProject({
         currentEffect: 'particles',
         effectParameters: {
           particles: {
@@ -98,15 +112,15 @@ class PresetManager {
           format: 'mp4',
           fps: 60
         }
-      },
+      }),
       tags: ['electronic', 'high-energy', 'particles'],
-      version: '1.0.0'
+      version: PRESET_VERSION
     },
     {
       name: 'Chill Waveform',
       description: 'Smooth waveform visualization perfect for ambient and chill music',
       thumbnail: '',
-      settings: {
+      settings: createProject({
         currentEffect: 'waveform',
         effectParameters: {
           waveform: {
@@ -160,15 +174,15 @@ class PresetManager {
           format: 'mp4',
           fps: 30
         }
-      },
+      }),
       tags: ['ambient', 'chill', 'waveform'],
-      version: '1.0.0'
+      version: PRESET_VERSION
     },
     {
       name: 'Geometric Patterns',
       description: 'Clean geometric shapes that respond to music frequencies',
       thumbnail: '',
-      settings: {
+      settings: createProject({
         currentEffect: 'geometric',
         effectParameters: {
           geometric: {
@@ -185,15 +199,15 @@ class PresetManager {
           format: 'mp4',
           fps: 60
         }
-      },
+      }),
       tags: ['geometric', 'minimal', 'clean'],
-      version: '1.0.0'
+      version: PRESET_VERSION
     },
     {
       name: '3D Cosmic Journey',
       description: 'Immersive 3D objects floating in space with cosmic colors',
       thumbnail: '',
-      settings: {
+      settings: createProject({
         currentEffect: '3d',
         effectParameters: {
           '3d': {
@@ -246,15 +260,15 @@ class PresetManager {
           format: 'mp4',
           fps: 60
         }
-      },
+      }),
       tags: ['3d', 'cosmic', 'space', 'immersive'],
-      version: '1.0.0'
+      version: PRESET_VERSION
     },
     {
       name: 'Gradient Flow',
       description: 'Flowing gradients with wave distortions for melodic content',
       thumbnail: '',
-      settings: {
+      settings: createProject({
         currentEffect: 'gradient',
         effectParameters: {
           gradient: {
@@ -308,9 +322,9 @@ class PresetManager {
           format: 'mp4',
           fps: 30
         }
-      },
+      }),
       tags: ['gradient', 'flow', 'melodic'],
-      version: '1.0.0'
+      version: PRESET_VERSION
     }
   ];
 
@@ -399,7 +413,8 @@ class PresetManager {
   getAllPresets(): ProjectPreset[] {
     try {
       const stored = localStorage.getItem(this.storageKey);
-      return stored ? JSON.parse(stored) : [];
+      const presets: ProjectPreset[] = stored ? JSON.parse(stored) : [];
+      return presets.map(preset => this.upgradeStoredPreset(preset));
     } catch (error) {
       console.error('Error loading presets:', error);
       return [];
@@ -474,32 +489,129 @@ class PresetManager {
     }
   }
 
-  importPreset(jsonData: string): string | null {
+  // Presets in the given order as one pack file; ids that don't exist are skipped
+  exportPresetPack(ids: string[], name: string): string | null {
+    const allPresets = this.getAllPresets();
+    const presets = ids
+      .map(id => allPresets.find(p => p.id === id))
+      .filter((p): p is ProjectPreset => p !== undefined);
+    if (presets.length === 0) return null;
+
+    const pack: PresetPack = {
+      format: PRESET_PACK_FORMAT,
+      version: PRESET_PACK_VERSION,
+      name,
+      exportedAt: Date.now(),
+      presets
+    };
+    return JSON.stringify(pack, null, 2);
+  }
+
+  exportCategory(categoryId: string): string | null {
+    const category = this.getCategories().find(c => c.id === categoryId);
+    return category ? this.exportPresetPack(category.presets, category.name) : null;
+  }
+
+  // Imports a preset exported from this or an older version. The report lists the
+  // migrations applied and every value that was repaired or dropped.
+  importPreset(jsonData: string): PresetImportResult {
+    const report = createImportReport();
+    const data = this.parseImport(jsonData, report);
+    return data === undefined ? { id: null, report } : this.importPresetData(data, report);
+  }
+
+  // Imports a single preset or a pack. Each preset of a pack is validated on its own, and
+  // the ones that made it are also filed under a new category named after the pack.
+  importPresets(jsonData: string): PresetPackImportResult {
+    const report = createImportReport();
+    const data = this.parseImport(jsonData, report);
+    if (data === undefined) {
+      return { ids: [], categoryId: null, reports: [report] };
+    }
+
+    if (!isPresetPack(data)) {
+      const { id } = this.importPresetData(data, report);
+      return { ids: id ? [id] : [], categoryId: null, reports: [report] };
+    }
+
+    const packName = typeof data.name === 'string' && data.name.trim() ? data.name : 'Imported pack';
+    report.presetName = packName;
+    if (typeof data.version !== 'number' || data.version > PRESET_PACK_VERSION) {
+      report.errors.push(`Preset pack version ${data.version} is newer than this app supports (${PRESET_PACK_VERSION})`);
+      return { ids: [], categoryId: null, reports: [report] };
+    }
+    if (!Array.isArray(data.presets)) {
+      report.errors.push('Not a preset pack: expected a list of presets');
+      return { ids: [], categoryId: null, reports: [report] };
+    }
+
+    const results = data.presets.map((preset: unknown) => this.importPresetData(preset, createImportReport()));
+    const ids = results.map((result: PresetImportResult) => result.id).filter((id: string | null): id is string => id !== null);
+
+    let categoryId: string | null = null;
+    if (ids.length > 0) {
+      categoryId = this.createCategory(packName, `Imported preset pack (${ids.length} presets)`);
+      ids.forEach((id: string) => this.addPresetToCategory(categoryId!, id));
+    }
+
+    return { ids, categoryId, reports: results.map((result: PresetImportResult) => result.report) };
+  }
+
+  // The parsed file, or undefined after adding the reason to the report
+  private parseImport(jsonData: string, report: PresetImportReport): any {
     try {
-      const preset = JSON.parse(jsonData) as ProjectPreset;
-      
-      // Validate preset structure
-      if (!this.validatePresetStructure(preset)) {
-        throw new Error('Invalid preset structure');
+      return JSON.parse(jsonData);
+    } catch (error) {
+      report.errors.push(`Not valid JSON: ${error instanceof Error ? error.message : error}`);
+      return undefined;
+    }
+  }
+
+  private importPresetData(data: any, report: PresetImportReport): PresetImportResult {
+    if (typeof data !== 'object' || data === null || Array.isArray(data) || typeof data.settings !== 'object' || data.settings === null) {
+      report.errors.push('Not a preset: expected an object with settings');
+      return { id: null, report };
+    }
+
+    try {
+      const preset = migratePreset(data, report);
+      report.presetName = typeof preset.name === 'string' && preset.name.trim() ? preset.name : 'Imported preset';
+      if (report.presetName !== preset.name) {
+        report.fixed.push({ path: 'name', message: 'missing, "Imported preset" used' });
+      }
+
+      const tags = Array.isArray(preset.tags) ? preset.tags.filter((tag: unknown): tag is string => typeof tag === 'string') : [];
+      if (!Array.isArray(preset.tags) || tags.length !== preset.tags.length) {
+        report.fixed.push({ path: 'tags', message: 'tags that are not text were removed' });
+      }
+
+      // Only image data URLs; anything else would be loaded from wherever it points
+      const thumbnail = typeof preset.thumbnail === 'string' && preset.thumbnail.startsWith('data:image/') ? preset.thumbnail : '';
+      if (preset.thumbnail && !thumbnail) {
+        report.rejected.push({ path: 'thumbnail', message: 'not an embedded image' });
       }
 
       // Generate new ID to avoid conflicts
       const newId = `imported-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
       const importedPreset: ProjectPreset = {
-        ...preset,
+        name: `${report.presetName} (Imported)`,
+        description: typeof preset.description === 'string' ? preset.description : '',
+        thumbnail,
+        settings: validatePresetSettings(preset.settings, report),
+        tags: tags.filter((tag: string) => tag !== 'built-in'),
+        version: PRESET_VERSION,
         id: newId,
         createdAt: Date.now(),
-        updatedAt: Date.now(),
-        name: `${preset.name} (Imported)`
+        updatedAt: Date.now()
       };
 
       this.savePresetToStorage(importedPreset);
       this.addPresetToCategory('user', newId);
-      
-      return newId;
+
+      return { id: newId, report };
     } catch (error) {
-      console.error('Error importing preset:', error);
-      return null;
+      report.errors.push(error instanceof Error ? error.message : String(error));
+      return { id: null, report };
     }
   }
 
@@ -556,34 +668,17 @@ class PresetManager {
     return Array.from(tagSet).sort();
   }
 
-  // Utility methods for current session state
-  saveCurrentState(currentEffect: string, effectParameters: { [key: string]: EffectParameter }, textOverlays: TextOverlay[]): void {
-    const state = {
-      currentEffect,
-      effectParameters,
-      textOverlays,
-      timestamp: Date.now()
-    };
-
-    try {
-      localStorage.setItem('audiovibe-current-state', JSON.stringify(state));
-    } catch (error) {
-      console.error('Error saving current state:', error);
-    }
+  // Utility methods for current session state, kept in the same project format as presets
+  saveCurrentState(project: Project): void {
+    saveProject(project);
   }
 
-  loadCurrentState(): { currentEffect: string; effectParameters: { [key: string]: EffectParameter }; textOverlays: TextOverlay[] } | null {
-    try {
-      const stored = localStorage.getItem('audiovibe-current-state');
-      return stored ? JSON.parse(stored) : null;
-    } catch (error) {
-      console.error('Error loading current state:', error);
-      return null;
-    }
+  loadCurrentState(): Project | null {
+    return loadSavedProject();
   }
 
   clearCurrentState(): void {
-    localStorage.removeItem('audiovibe-current-state');
+    localStorage.removeItem(PROJECT_STORAGE_KEY);
   }
 
   private savePresetToStorage(preset: ProjectPreset): void {
@@ -638,17 +733,15 @@ class PresetManager {
     }
   }
 
-  private validatePresetStructure(preset: any): preset is ProjectPreset {
-    return (
-      typeof preset === 'object' &&
-      typeof preset.name === 'string' &&
-      typeof preset.description === 'string' &&
-      typeof preset.settings === 'object' &&
-      typeof preset.settings.currentEffect === 'string' &&
-      typeof preset.settings.effectParameters === 'object' &&
-      Array.isArray(preset.settings.textOverlays) &&
-      Array.isArray(preset.tags)
-    );
+  // Presets saved by older versions are migrated when read; ones from a newer version
+  // are left as they are
+  private upgradeStoredPreset(preset: ProjectPreset): ProjectPreset {
+    try {
+      const migrated = migratePreset(preset);
+      return { ...migrated, settings: normalizeProject(migrated.settings) };
+    } catch {
+      return { ...preset, settings: normalizeProject(preset.settings) };
+    }
   }
 }
 
@@ -0,0 +1,281 @@
+import { Project, normalizeProject } from '../modules/project/Project';
+import { ParameterDefinition, effectParameterManager } from '../modules/visual/EffectParameters';
+import { effectRegistry } from '../modules/visual/EffectRegistry';
+import { TextRenderer } from '../modules/visual/TextRenderer';
+
+// Imported presets are migrated to the current preset version, then checked against the
+// registered effect parameters. Anything that can be repaired is, anything that can't is
+// dropped, and every change is listed in the import report.
+
+export const PRESET_VERSION = '2.0.0';
+
+export interface PresetImportIssue {
+  path: string; // where in the preset, e.g. 'effectParameters.particles.count'
+  message: string;
+}
+
+export interface PresetImportReport {
+  presetName: string;
+  fromVersion: string;
+  migrations: string[];
+  fixed: PresetImportIssue[];
+  rejected: PresetImportIssue[];
+  errors: string[]; // the preset could not be imported at all
+}
+
+interface PresetMigration {
+  to: string;
+  description: string;
+  migrate: (preset: any) => any;
+}
+
+// Keyed by the version each step upgrades from. Add a step whenever PRESET_VERSION changes.
+const PRESET_MIGRATIONS: { [fromVersion: string]: PresetMigration } = {
+  '1.0.0': {
+    to: '2.0.0',
+    description: 'Settings converted to the versioned project format',
+    migrate: preset => ({ ...preset, settings: { ...preset.settings, version: 1 } })
+  }
+};
+
+export const createImportReport = (presetName = ''): PresetImportReport => ({
+  presetName,
+  fromVersion: PRESET_VERSION,
+  migrations: [],
+  fixed: [],
+  rejected: [],
+  errors: []
+});
+
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) return Math.sign(diff);
+  }
+  return 0;
+}
+
+// Runs the migration chain; presets without a version predate versioning and are 1.0.0
+export function migratePreset(preset: any, report: PresetImportReport = createImportReport()): any {
+  const fromVersion = typeof preset.version === 'string' ? preset.version : '1.0.0';
+  report.fromVersion = fromVersion;
+
+  if (compareVersions(fromVersion, PRESET_VERSION) > 0) {
+    throw new Error(`Preset version ${fromVersion} is newer than this app supports (${PRESET_VERSION})`);
+  }
+
+  let migrated = { ...preset, version: fromVersion };
+  while (migrated.version !== PRESET_VERSION) {
+    const step = PRESET_MIGRATIONS[migrated.version];
+    if (!step) {
+      throw new Error(`Unknown preset version ${migrated.version}`);
+    }
+    migrated = { ...step.migrate(migrated), version: step.to };
+    report.migrations.push(`${step.to}: ${step.description}`);
+  }
+  return migrated;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// The value to keep for a parameter, and why it was changed if it was
+export function validateParameterValue(definition: ParameterDefinition, value: any): { value: any; problem?: string } {
+  switch (definition.type) {
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return { value: definition.defaultValue, problem: `expected a number, got ${JSON.stringify(value)}` };
+      }
+      const min = definition.min ?? -Infinity;
+      const max = definition.max ?? Infinity;
+      if (value < min || value > max) {
+        const clamped = Math.max(min, Math.min(max, value));
+        return { value: clamped, problem: `${value} is outside ${definition.min}–${definition.max}, clamped to ${clamped}` };
+      }
+      return { value };
+    }
+    case 'color':
+      return typeof value === 'string' && HEX_COLOR.test(value)
+        ? { value }
+        : { value: definition.defaultValue, problem: `expected a hex color, got ${JSON.stringify(value)}` };
+    case 'boolean':
+      return typeof value === 'boolean'
+        ? { value }
+        : { value: definition.defaultValue, problem: `expected true or false, got ${JSON.stringify(value)}` };
+    case 'select':
+      return definition.options?.includes(value)
+        ? { value }
+        : { value: definition.defaultValue, problem: `${JSON.stringify(value)} is not one of ${definition.options?.join(', ')}` };
+    case 'band':
+      return typeof value === 'string'
+        ? { value }
+        : { value: definition.defaultValue, problem: `expected a band name, got ${JSON.stringify(value)}` };
+    default:
+      return { value };
+  }
+}
+
+const TEXT_ANIMATIONS = ['none', 'fade', 'slide', 'bounce', 'pulse', 'typewriter', 'wave'];
+const TEXT_EASINGS = ['linear', 'ease-in', 'ease-out', 'ease-in-out'];
+
+// Fills fields that are missing or of the wrong type from the default overlay
+const repairFields = (value: any, template: any, path: string, report: PresetImportReport): any => {
+  const result: Record<string, any> = { ...value };
+  Object.entries(template).forEach(([key, fallback]) => {
+    const current = value[key];
+    if (isObject(fallback)) {
+      if (!isObject(current)) {
+        result[key] = fallback;
+        report.fixed.push({ path: `${path}.${key}`, message: 'missing, default used' });
+      } else {
+        result[key] = repairFields(current, fallback, `${path}.${key}`, report);
+      }
+    } else if (Array.isArray(fallback) ? !Array.isArray(current) : typeof current !== typeof fallback) {
+      result[key] = fallback;
+      report.fixed.push({
+        path: `${path}.${key}`,
+        message: current === undefined ? 'missing, default used' : `expected ${Array.isArray(fallback) ? 'a list' : `a ${typeof fallback}`}, default used`
+      });
+    }
+  });
+  return result;
+};
+
+function validateTextOverlay(value: any, path: string, report: PresetImportReport): any | null {
+  if (!isObject(value) || typeof value.text !== 'string') {
+    report.rejected.push({ path, message: 'not a text overlay (no text)' });
+    return null;
+  }
+
+  const template = TextRenderer.createDefaultOverlay(typeof value.id === 'string' ? value.id : `text-${Date.now()}`, value.text);
+  const overlay = repairFields(value, template, path, report);
+
+  if (overlay.fontSize <= 0) {
+    report.fixed.push({ path: `${path}.fontSize`, message: `${overlay.fontSize} is not a valid size, default used` });
+    overlay.fontSize = template.fontSize;
+  }
+  if (overlay.opacity < 0 || overlay.opacity > 1) {
+    const clamped = Math.max(0, Math.min(1, overlay.opacity));
+    report.fixed.push({ path: `${path}.opacity`, message: `${overlay.opacity} is outside 0–1, clamped to ${clamped}` });
+    overlay.opacity = clamped;
+  }
+  if (!TEXT_ANIMATIONS.includes(overlay.animation.type)) {
+    report.fixed.push({ path: `${path}.animation.type`, message: `unknown animation ${JSON.stringify(overlay.animation.type)}, fade used` });
+    overlay.animation = { ...overlay.animation, type: 'fade' };
+  }
+  if (!TEXT_EASINGS.includes(overlay.animation.easing)) {
+    report.fixed.push({ path: `${path}.animation.easing`, message: `unknown easing ${JSON.stringify(overlay.animation.easing)}, linear used` });
+    overlay.animation = { ...overlay.animation, easing: 'linear' };
+  }
+  return overlay;
+}
+
+// Drops entries of a list setting that refer to an effect that isn't registered
+const rejectUnknownEffects = (items: unknown, key: string, effectNames: string[], report: PresetImportReport): unknown => {
+  if (!Array.isArray(items)) return items;
+  return items.filter((item, index) => {
+    if (isObject(item) && typeof item.effectName === 'string' && !effectNames.includes(item.effectName)) {
+      report.rejected.push({ path: `${key}[${index}]`, message: `unknown effect "${item.effectName}"` });
+      return false;
+    }
+    return true;
+  });
+};
+
+// Values checked against the effect's definitions; unknown parameters are dropped
+function validateEffectParameters(effectName: string, params: Record<string, any>, path: string, report: PresetImportReport): Record<string, any> {
+  const definitions = effectParameterManager.getParameterDefinitions(effectName);
+  const values: Record<string, any> = {};
+  Object.entries(params).forEach(([name, paramValue]) => {
+    const definition = definitions.find(def => def.name === name);
+    if (!definition) {
+      report.rejected.push({ path: `${path}.${name}`, message: 'unknown parameter' });
+      return;
+    }
+    const checked = validateParameterValue(definition, paramValue);
+    if (checked.problem) {
+      report.fixed.push({ path: `${path}.${name}`, message: checked.problem });
+    }
+    values[name] = checked.value;
+  });
+  return values;
+}
+
+export function validatePresetSettings(value: any, report: PresetImportReport): Project {
+  const settings = isObject(value) ? value : {};
+  const effectNames = effectRegistry.getNames();
+
+  if (settings.currentEffect !== undefined && !effectNames.includes(settings.currentEffect)) {
+    report.fixed.push({ path: 'currentEffect', message: `unknown effect ${JSON.stringify(settings.currentEffect)}, waveform used` });
+  }
+
+  const effectParameters: Record<string, Record<string, any>> = {};
+  if (isObject(settings.effectParameters)) {
+    Object.entries(settings.effectParameters).forEach(([effectName, params]) => {
+      const path = `effectParameters.${effectName}`;
+      if (!effectNames.includes(effectName)) {
+        report.rejected.push({ path, message: 'unknown effect' });
+        return;
+      }
+      if (!isObject(params)) {
+        report.rejected.push({ path, message: 'expected an object of parameters' });
+        return;
+      }
+
+      effectParameters[effectName] = validateEffectParameters(effectName, params, path, report);
+    });
+  } else if (settings.effectParameters !== undefined) {
+    report.rejected.push({ path: 'effectParameters', message: 'expected an object of effects' });
+  }
+
+  const textOverlays = Array.isArray(settings.textOverlays)
+    ? settings.textOverlays
+      .map((overlay: unknown, index: number) => validateTextOverlay(overlay, `textOverlays[${index}]`, report))
+      .filter((overlay: unknown) => overlay !== null)
+    : [];
+
+  const layers = rejectUnknownEffects(settings.layers, 'layers', effectNames, report);
+  const layerParameters: Record<string, Record<string, any>> = {};
+  if (isObject(settings.layerParameters)) {
+    Object.entries(settings.layerParameters).forEach(([layerId, params]) => {
+      const path = `layerParameters.${layerId}`;
+      const layer = Array.isArray(layers) ? layers.find(item => isObject(item) && item.id === layerId) : undefined;
+      if (!layer) {
+        report.rejected.push({ path, message: 'no layer with this id' });
+        return;
+      }
+      if (!isObject(params)) {
+        report.rejected.push({ path, message: 'expected an object of parameters' });
+        return;
+      }
+      layerParameters[layerId] = validateEffectParameters(layer.effectName, params, path, report);
+    });
+  }
+
+  const checked = {
+    ...settings,
+    effectParameters,
+    textOverlays,
+    layers,
+    layerParameters,
+    effectClips: rejectUnknownEffects(settings.effectClips, 'effectClips', effectNames, report),
+    modulations: rejectUnknownEffects(settings.modulations, 'modulations', effectNames, report),
+    automation: rejectUnknownEffects(settings.automation, 'automation', effectNames, report)
+  };
+  const project = normalizeProject(checked);
+
+  // Entries the project format couldn't read at all
+  (['layers', 'effectClips', 'modulations', 'automation'] as const).forEach(key => {
+    const before = Array.isArray(checked[key]) ? (checked[key] as unknown[]).length : 0;
+    const dropped = before - project[key].length;
+    if (dropped > 0) {
+      report.rejected.push({ path: key, message: `${dropped} malformed ${dropped === 1 ? 'entry' : 'entries'} dropped` });
+    }
+  });
+
+  return project;
+}
@@ -19,6 +19,10 @@ export default defineConfig({
     host: '0.0.0.0',
     open: true,
   },
+  // The render worker imports effect plugins at runtime, which needs an ES module worker
+  worker: {
+    format: 'es',
+  },
   build: {
     outDir: 'dist',
     sourcemap: true,